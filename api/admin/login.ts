@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { adminLogin } from '../../server/core/handlers/adminLogin.ts';
+
+export default toVercelHandler(adminLogin);
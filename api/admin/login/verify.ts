@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../../server/adapters/vercel.ts';
+import { adminLoginVerify } from '../../../server/core/handlers/adminLoginVerify.ts';
+
+export default toVercelHandler(adminLoginVerify);
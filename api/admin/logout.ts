@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { adminLogout } from '../../server/core/handlers/adminLogout.ts';
+
+export default toVercelHandler(adminLogout);
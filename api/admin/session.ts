@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { adminSession } from '../../server/core/handlers/adminSession.ts';
+
+export default toVercelHandler(adminSession);
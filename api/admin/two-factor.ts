@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { adminTwoFactor } from '../../server/core/handlers/adminTwoFactor.ts';
+
+export default toVercelHandler(adminTwoFactor);
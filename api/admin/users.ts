@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { adminUsers } from '../../server/core/handlers/adminUsers.ts';
+
+export default toVercelHandler(adminUsers);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { analytics } from '../server/core/handlers/analytics.ts';
+
+export default toVercelHandler(analytics);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { attendanceCorrections } from '../../server/core/handlers/attendanceCorrections.ts';
+
+export default toVercelHandler(attendanceCorrections);
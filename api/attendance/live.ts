@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { attendanceLive } from '../../server/core/handlers/attendanceLive.ts';
+
+export default toVercelHandler(attendanceLive);
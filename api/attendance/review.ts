@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { attendanceReview } from '../../server/core/handlers/attendanceReview.ts';
+
+export default toVercelHandler(attendanceReview);
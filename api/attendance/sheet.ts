@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { attendanceSheet } from '../../server/core/handlers/attendanceSheet.ts';
+
+export default toVercelHandler(attendanceSheet);
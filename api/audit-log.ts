@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { auditLog } from '../server/core/handlers/auditLog.ts';
+
+export default toVercelHandler(auditLog);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { courses } from '../server/core/handlers/courses.ts';
+
+export default toVercelHandler(courses);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { excuseRequest } from '../server/core/handlers/excuseRequest.ts';
+
+export default toVercelHandler(excuseRequest);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { excuses } from '../server/core/handlers/excuses.ts';
+
+export default toVercelHandler(excuses);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { issueToken } from '../server/core/handlers/issueToken.ts';
+
+export default toVercelHandler(issueToken);
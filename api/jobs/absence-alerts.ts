@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { jobsAbsenceAlerts } from '../../server/core/handlers/jobsAbsenceAlerts.ts';
+
+export default toVercelHandler(jobsAbsenceAlerts);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { lectureSessions } from '../server/core/handlers/lectureSessions.ts';
+
+export default toVercelHandler(lectureSessions);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { recordExit } from '../server/core/handlers/recordExit.ts';
+
+export default toVercelHandler(recordExit);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { reports } from '../server/core/handlers/reports.ts';
+
+export default toVercelHandler(reports);
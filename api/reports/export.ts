@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { reportsExport } from '../../server/core/handlers/reportsExport.ts';
+
+export default toVercelHandler(reportsExport);
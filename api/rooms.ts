@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { rooms } from '../server/core/handlers/rooms.ts';
+
+export default toVercelHandler(rooms);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { rosterImport } from '../../server/core/handlers/rosterImport.ts';
+
+export default toVercelHandler(rosterImport);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { studentDevices } from '../server/core/handlers/studentDevices.ts';
+
+export default toVercelHandler(studentDevices);
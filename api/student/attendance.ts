@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentAttendance } from '../../server/core/handlers/studentAttendance.ts';
+
+export default toVercelHandler(studentAttendance);
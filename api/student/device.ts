@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentDevice } from '../../server/core/handlers/studentDevice.ts';
+
+export default toVercelHandler(studentDevice);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentLogin } from '../../server/core/handlers/studentLogin.ts';
+
+export default toVercelHandler(studentLogin);
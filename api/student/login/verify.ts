@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../../server/adapters/vercel.ts';
+import { studentLoginVerify } from '../../../server/core/handlers/studentLoginVerify.ts';
+
+export default toVercelHandler(studentLoginVerify);
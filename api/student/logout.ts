@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentLogout } from '../../server/core/handlers/studentLogout.ts';
+
+export default toVercelHandler(studentLogout);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentPasskeys } from '../../server/core/handlers/studentPasskeys.ts';
+
+export default toVercelHandler(studentPasskeys);
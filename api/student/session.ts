@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../server/adapters/vercel.ts';
+import { studentSession } from '../../server/core/handlers/studentSession.ts';
+
+export default toVercelHandler(studentSession);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { submitAttendance } from '../server/core/handlers/submitAttendance.ts';
+
+export default toVercelHandler(submitAttendance);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../server/adapters/vercel.ts';
+import { verifyToken } from '../server/core/handlers/verifyToken.ts';
+
+export default toVercelHandler(verifyToken);
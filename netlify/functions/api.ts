@@ -0,0 +1,16 @@
+// Netlify Functions entry point. One function serves every /api route through the shared core.
+import { createClient } from '@supabase/supabase-js';
+import { createContext } from '../../server/core/context.ts';
+import { dispatch } from '../../server/core/routes.ts';
+import { handleFetchRequest } from '../../server/adapters/fetch.ts';
+
+interface NetlifyContext {
+  ip?: string;
+}
+
+export default (request: Request, context: NetlifyContext): Promise<Response> =>
+  handleFetchRequest(dispatch, request, createContext(process.env, createClient), context.ip ?? null);
+
+export const config = {
+  path: '/api/*',
+};
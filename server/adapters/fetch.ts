@@ -0,0 +1,50 @@
+// Adapter for runtimes built on the Fetch API Request/Response (Supabase edge/Deno, Netlify Functions)
+import { normalizeClientIp, serializeResponse, toRoutePath, type CoreHandler } from '../core/http.ts';
+import type { CoreContext } from '../core/context.ts';
+
+const readJsonBody = async (request: Request): Promise<unknown> => {
+  if (request.method === 'GET' || request.method === 'HEAD' || request.method === 'OPTIONS') {
+    return {};
+  }
+
+  try {
+    return (await request.json()) ?? {};
+  } catch {
+    return {};
+  }
+};
+
+// The Supabase gateway appends the caller's address to x-forwarded-for, so only its last entry
+// is trusted; anything to its left came from the client
+export const supabaseClientIp = (request: Request): string | null =>
+  request.headers.get('x-forwarded-for')?.split(',').pop() ?? null;
+
+// ip is the client address as the platform reports it (Netlify's context.ip, supabaseClientIp).
+// Headers are not consulted here: on another platform a client could have set them.
+export const handleFetchRequest = async (
+  handler: CoreHandler,
+  request: Request,
+  ctx: CoreContext,
+  ip: string | null
+): Promise<Response> => {
+  const url = new URL(request.url);
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value;
+  });
+
+  const response = await handler(
+    {
+      method: request.method,
+      path: toRoutePath(url.pathname),
+      headers,
+      query: Object.fromEntries(url.searchParams),
+      body: await readJsonBody(request),
+      ip: normalizeClientIp(ip),
+    },
+    ctx
+  );
+
+  const serialized = serializeResponse(response);
+  return new Response(serialized.body, { status: response.status, headers: serialized.headers });
+};
@@ -0,0 +1,36 @@
+// Adapter for Node's http module. Vercel functions receive the same objects with extra helpers.
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { normalizeClientIp, serializeResponse, toRoutePath, type CoreRequest, type CoreResponse } from '../core/http.ts';
+
+// ip defaults to the socket's peer, the client itself when nothing sits in front of the server
+export const toCoreRequest = (
+  req: IncomingMessage,
+  body: unknown,
+  ip: string | null | undefined = req.socket?.remoteAddress
+): CoreRequest => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const headers: Record<string, string> = {};
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (value !== undefined) {
+      headers[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  });
+
+  return {
+    method: req.method || 'GET',
+    path: toRoutePath(url.pathname),
+    headers,
+    query: Object.fromEntries(url.searchParams),
+    body: body ?? {},
+    ip: normalizeClientIp(ip),
+  };
+};
+
+export const writeCoreResponse = (res: ServerResponse, response: CoreResponse): void => {
+  const { headers, body } = serializeResponse(response);
+  Object.entries(headers).forEach(([key, value]) => {
+    res.setHeader(key, value);
+  });
+  res.statusCode = response.status;
+  res.end(body ?? undefined);
+};
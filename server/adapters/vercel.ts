@@ -0,0 +1,18 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import type { CoreHandler } from '../core/http.ts';
+import { createContext } from '../core/context.ts';
+import { toCoreRequest, writeCoreResponse } from './node.ts';
+
+// Set by Vercel's edge, which replaces any value the client sent
+const vercelClientIp = (req: VercelRequest): string | null => {
+  const header = req.headers['x-vercel-forwarded-for'];
+  return (Array.isArray(header) ? header[0] : header)?.split(',')[0] ?? null;
+};
+
+// Vercel has already parsed the JSON body by the time the function runs
+export const toVercelHandler = (handler: CoreHandler) =>
+  async (req: VercelRequest, res: VercelResponse): Promise<void> => {
+    const response = await handler(toCoreRequest(req, req.body, vercelClientIp(req)), createContext(process.env, createClient));
+    writeCoreResponse(res, response);
+  };
@@ -0,0 +1,41 @@
+import type { SupabaseClient, createClient as CreateClient } from '@supabase/supabase-js';
+import { json, type CoreResponse } from './http.ts';
+
+// Environment variables as read by the adapter (process.env, Deno.env.toObject(), ...)
+export type CoreEnv = Record<string, string | undefined>;
+
+export interface CoreContext {
+  env: CoreEnv;
+  // Server-side client with the service role key, null when it is not configured.
+  // New tables have RLS enabled without anonymous policies, so they are only reachable through it.
+  supabase: SupabaseClient | null;
+}
+
+// The adapter passes in createClient so the core never imports a runtime-specific build of supabase-js
+export const createContext = (env: CoreEnv, createClient: typeof CreateClient): CoreContext => {
+  const supabaseUrl = env.SUPABASE_URL;
+  const serviceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+
+  return {
+    env,
+    supabase: supabaseUrl && serviceKey
+      ? createClient(supabaseUrl, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } })
+      : null,
+  };
+};
+
+export const supabaseConfigMissing = (env: CoreEnv): CoreResponse => {
+  console.error('Missing Supabase configuration - URL:', !!env.SUPABASE_URL, 'SERVICE_ROLE_KEY:', !!env.SUPABASE_SERVICE_ROLE_KEY);
+  return json(500, {
+    success: false,
+    error: 'Supabase configuration is missing. Add SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to the server environment.'
+  });
+};
+
+export const tokenConfigMissing = (): CoreResponse => {
+  console.error('Missing token configuration - QR_TOKEN_SECRET');
+  return json(500, {
+    success: false,
+    error: 'Token configuration is missing. Add QR_TOKEN_SECRET to the server environment.'
+  });
+};
@@ -0,0 +1,104 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { sessionConfigMissing, signedInResponse } from '../lib/adminSession.ts';
+import { issueMfaChallenge } from '../lib/twoFactor.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import {
+  claimLoginAttempt,
+  clearLoginFailures,
+  loginLockedResponse,
+  recordLoginFailure,
+  releaseLoginAttempt,
+} from '../lib/loginThrottle.ts';
+
+interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export const adminLogin = defineHandler<LoginRequest>('Admin Login', async (req, { env, supabase }) => {
+  const secret = env.ADMIN_SESSION_SECRET;
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  if (!secret) {
+    return sessionConfigMissing();
+  }
+
+  const { username, password } = req.body;
+
+  if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+    return json(400, { success: false, error: 'Username and password are required' });
+  }
+
+  // bcrypt only looks at the first 72 bytes; anything far longer is not a real attempt
+  if (username.length > 50 || password.length > 200) {
+    return json(401, { success: false, error: 'Invalid username or password' });
+  }
+
+  const normalizedUsername = username.trim().toLowerCase();
+
+  // Claimed before the password so a locked account or IP cannot keep guessing, even in parallel
+  const claim = await claimLoginAttempt(supabase, normalizedUsername, req.ip);
+
+  if (!claim.allowed) {
+    console.log('[Admin Login] Locked out:', { username: normalizedUsername, ip: req.ip, lockedMs: claim.lockedMs });
+    return loginLockedResponse(claim.lockedMs);
+  }
+
+  // The hash comparison runs in the database (pgcrypto), the hash itself never leaves it
+  const { data, error } = await supabase.rpc('verify_admin_password', {
+    p_username: username,
+    p_password: password,
+  });
+
+  if (error) {
+    console.error('[Admin Login] Verify error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  const admin = Array.isArray(data) ? data[0] : data;
+
+  if (!admin) {
+    console.log('[Admin Login] Failed login:', { username: normalizedUsername, ip: req.ip });
+    await writeAuditLog(supabase, req, { id: null, username: normalizedUsername }, { action: 'admin.login_failed', diff: { stage: 'password' } });
+    const lockedAfterFailure = await recordLoginFailure(env, { username: normalizedUsername, ip: req.ip, stage: 'password' }, claim);
+
+    if (lockedAfterFailure > 0) {
+      return loginLockedResponse(lockedAfterFailure);
+    }
+
+    return json(401, { success: false, error: 'Invalid username or password' });
+  }
+
+  const { data: account, error: accountError } = await supabase
+    .from('admins')
+    .select('totp_enabled_at')
+    .eq('id', admin.id)
+    .single();
+
+  if (accountError) {
+    console.error('[Admin Login] Account lookup error:', accountError);
+    return json(500, { success: false, error: accountError.message });
+  }
+
+  // With two-factor enabled the password only earns a short-lived challenge for /api/admin/login/verify
+  if (account.totp_enabled_at) {
+    await releaseLoginAttempt(supabase, normalizedUsername, req.ip);
+    console.log('[Admin Login] Password accepted, awaiting second factor:', admin.username);
+    return json(200, {
+      success: true,
+      mfaRequired: true,
+      challenge: await issueMfaChallenge(secret, admin.id),
+    }, { 'Cache-Control': 'no-store' });
+  }
+
+  await clearLoginFailures(supabase, normalizedUsername, req.ip);
+  await writeAuditLog(supabase, req, admin, { action: 'admin.login' });
+
+  console.log('[Admin Login] Signed in:', admin.username);
+
+  return signedInResponse(supabase, secret, admin, req);
+});
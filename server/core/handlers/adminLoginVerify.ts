@@ -0,0 +1,87 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { sessionConfigMissing, signedInResponse } from '../lib/adminSession.ts';
+import type { AdminRole } from '../lib/permissions.ts';
+import { consumeRecoveryCode, readMfaChallenge, verifyAndConsumeTotp } from '../lib/twoFactor.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import { claimLoginAttempt, clearLoginFailures, loginLockedResponse, recordLoginFailure } from '../lib/loginThrottle.ts';
+
+interface LoginVerifyRequest {
+  // From /api/admin/login after a correct password
+  challenge: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+// Second login step for admins with two-factor enabled: an authenticator code or a recovery code
+export const adminLoginVerify = defineHandler<LoginVerifyRequest>('Admin Login Verify', async (req, { env, supabase }) => {
+  const secret = env.ADMIN_SESSION_SECRET;
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  if (!secret) {
+    return sessionConfigMissing();
+  }
+
+  const { challenge, code, recovery_code } = req.body;
+
+  if (typeof challenge !== 'string' || (typeof code !== 'string' && typeof recovery_code !== 'string')) {
+    return json(400, { success: false, error: 'Challenge and code are required' });
+  }
+
+  const adminId = await readMfaChallenge(secret, challenge);
+
+  if (!adminId) {
+    return json(401, { success: false, error: 'Sign-in expired, enter your password again', expired: true });
+  }
+
+  const { data: admin, error } = await supabase
+    .from('admins')
+    .select('id, username, display_name, role, disabled_at, totp_secret, totp_enabled_at')
+    .eq('id', adminId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Admin Login Verify] Lookup error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  if (!admin || admin.disabled_at || !admin.totp_enabled_at || !admin.totp_secret) {
+    return json(401, { success: false, error: 'Sign-in expired, enter your password again', expired: true });
+  }
+
+  // Codes count against the same account and IP limits as passwords
+  const claim = await claimLoginAttempt(supabase, admin.username, req.ip);
+
+  if (!claim.allowed) {
+    return loginLockedResponse(claim.lockedMs);
+  }
+
+  const verified = typeof code === 'string'
+    ? await verifyAndConsumeTotp(supabase, admin.id, admin.totp_secret, code)
+    : await consumeRecoveryCode(supabase, admin.id, recovery_code as string);
+
+  if (!verified) {
+    console.log('[Admin Login Verify] Rejected code:', { username: admin.username, recovery: typeof code !== 'string', ip: req.ip });
+    await writeAuditLog(supabase, req, admin, { action: 'admin.login_failed', diff: { stage: 'second factor' } });
+    const lockedAfterFailure = await recordLoginFailure(env, { username: admin.username, ip: req.ip, stage: 'second factor' }, claim);
+
+    if (lockedAfterFailure > 0) {
+      return loginLockedResponse(lockedAfterFailure);
+    }
+
+    return json(401, { success: false, error: 'Invalid or already used code' });
+  }
+
+  await clearLoginFailures(supabase, admin.username, req.ip);
+  await writeAuditLog(supabase, req, admin, {
+    action: 'admin.login',
+    diff: { second_factor: typeof code === 'string' ? 'totp' : 'recovery_code' },
+  });
+
+  console.log('[Admin Login Verify] Signed in:', { username: admin.username, recovery: typeof code !== 'string' });
+
+  return signedInResponse(supabase, secret, { ...admin, role: admin.role as AdminRole }, req);
+});
@@ -0,0 +1,20 @@
+import { defineHandler, json } from '../http.ts';
+import { clearAdminSessionCookie, getAdminSession, revokeAdminSession } from '../lib/adminSession.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+// Always clears the cookie; the session row is revoked when the cookie still resolves to one
+export const adminLogout = defineHandler('Admin Logout', async (req, { env, supabase }) => {
+  const secret = env.ADMIN_SESSION_SECRET;
+
+  if (supabase && secret) {
+    const admin = await getAdminSession(supabase, secret, req);
+
+    if (admin) {
+      await revokeAdminSession(supabase, admin.sessionId);
+      await writeAuditLog(supabase, req, admin, { action: 'admin.logout' });
+      console.log('[Admin Logout] Signed out:', admin.username);
+    }
+  }
+
+  return json(200, { success: true }, { 'Set-Cookie': clearAdminSessionCookie() });
+});
@@ -0,0 +1,8 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+
+// Who is signed in - lets the admin UI check its cookie without being able to read it
+export const adminSession = defineHandler('Admin Session', withAdmin(async (req, { admin }) => json(200, {
+  success: true,
+  admin: { id: admin.id, username: admin.username, displayName: admin.display_name, role: admin.role },
+}, { 'Cache-Control': 'no-store' })));
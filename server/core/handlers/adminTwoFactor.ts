@@ -0,0 +1,150 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { findTotpStep, generateTotpSecret, getTotpUri } from '../lib/totp.ts';
+import { replaceRecoveryCodes, verifyAndConsumeTotp } from '../lib/twoFactor.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+interface TwoFactorRequest {
+  action: 'status' | 'begin' | 'confirm' | 'disable' | 'recovery_codes';
+  code?: string;
+}
+
+// Two-factor settings of the signed-in admin
+export const adminTwoFactor = defineHandler('Admin Two Factor', withAdmin<TwoFactorRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  const { data: account, error } = await supabase
+    .from('admins')
+    .select('totp_secret, totp_pending_secret, totp_enabled_at')
+    .eq('id', admin.id)
+    .single();
+
+  if (error) {
+    console.error('[Admin Two Factor] Lookup error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  const enabled = !!(account.totp_enabled_at && account.totp_secret);
+
+  if (body.action === 'status') {
+    const { count, error: countError } = await supabase
+      .from('admin_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('admin_id', admin.id)
+      .is('used_at', null);
+
+    if (countError) {
+      console.error('[Admin Two Factor] Recovery code count error:', countError);
+      return json(500, { success: false, error: countError.message });
+    }
+
+    return json(200, { success: true, enabled, enabledAt: account.totp_enabled_at, recoveryCodesLeft: enabled ? count ?? 0 : 0 });
+  }
+
+  if (body.action === 'begin') {
+    if (enabled) {
+      return json(409, { success: false, error: 'Two-factor authentication is already enabled' });
+    }
+
+    // Not active until a first code proves the authenticator app has it
+    const secret = generateTotpSecret();
+    const { error: updateError } = await supabase
+      .from('admins')
+      .update({ totp_pending_secret: secret })
+      .eq('id', admin.id);
+
+    if (updateError) {
+      console.error('[Admin Two Factor] Begin error:', updateError);
+      return json(500, { success: false, error: updateError.message });
+    }
+
+    return json(200, { success: true, secret, uri: getTotpUri(secret, admin.username) }, { 'Cache-Control': 'no-store' });
+  }
+
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return json(400, { success: false, error: 'Code is required' });
+  }
+
+  if (body.action === 'confirm') {
+    if (enabled) {
+      return json(409, { success: false, error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!account.totp_pending_secret) {
+      return json(400, { success: false, error: 'Start the enrollment first' });
+    }
+
+    const step = await findTotpStep(account.totp_pending_secret, body.code);
+
+    if (step === null) {
+      return json(400, { success: false, error: 'Invalid code' });
+    }
+
+    const { error: updateError } = await supabase
+      .from('admins')
+      .update({
+        totp_secret: account.totp_pending_secret,
+        totp_pending_secret: null,
+        totp_enabled_at: new Date().toISOString(),
+        // The confirming code is already spent
+        totp_last_step: step,
+      })
+      .eq('id', admin.id);
+
+    if (updateError) {
+      console.error('[Admin Two Factor] Confirm error:', updateError);
+      return json(500, { success: false, error: updateError.message });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(supabase, admin.id);
+    await writeAuditLog(supabase, req, admin, { action: 'admin.two_factor_enabled', targetType: 'admin', targetId: admin.id });
+
+    console.log('[Admin Two Factor] Enabled:', admin.username);
+    return json(200, { success: true, recoveryCodes }, { 'Cache-Control': 'no-store' });
+  }
+
+  // Changing an active second factor requires a current code, not just the session
+  if (!enabled) {
+    return json(400, { success: false, error: 'Two-factor authentication is not enabled' });
+  }
+
+  if (!(await verifyAndConsumeTotp(supabase, admin.id, account.totp_secret as string, body.code))) {
+    return json(400, { success: false, error: 'Invalid or already used code' });
+  }
+
+  if (body.action === 'recovery_codes') {
+    const recoveryCodes = await replaceRecoveryCodes(supabase, admin.id);
+    await writeAuditLog(supabase, req, admin, { action: 'admin.recovery_codes_replaced', targetType: 'admin', targetId: admin.id });
+
+    console.log('[Admin Two Factor] Recovery codes replaced:', admin.username);
+    return json(200, { success: true, recoveryCodes }, { 'Cache-Control': 'no-store' });
+  }
+
+  if (body.action === 'disable') {
+    const { error: updateError } = await supabase
+      .from('admins')
+      .update({ totp_secret: null, totp_pending_secret: null, totp_enabled_at: null, totp_last_step: null })
+      .eq('id', admin.id);
+
+    if (updateError) {
+      console.error('[Admin Two Factor] Disable error:', updateError);
+      return json(500, { success: false, error: updateError.message });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('admin_recovery_codes')
+      .delete()
+      .eq('admin_id', admin.id);
+
+    if (deleteError) {
+      console.error('[Admin Two Factor] Recovery code cleanup error:', deleteError);
+    }
+
+    await writeAuditLog(supabase, req, admin, { action: 'admin.two_factor_disabled', targetType: 'admin', targetId: admin.id });
+
+    console.log('[Admin Two Factor] Disabled:', admin.username);
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+}));
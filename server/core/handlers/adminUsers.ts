@@ -0,0 +1,192 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { ADMIN_ROLES, forbidden, hasPermission, type AdminRole } from '../lib/permissions.ts';
+import { diffFields, writeAuditLog } from '../lib/audit.ts';
+
+interface AdminUsersRequest {
+  action: 'list' | 'create' | 'update' | 'disable' | 'enable';
+  admin_id?: string;
+  username?: string;
+  password?: string;
+  display_name?: string;
+  role?: AdminRole;
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,50}$/;
+
+export const adminUsers = defineHandler('Admin Users', withAdmin<AdminUsersRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (!hasPermission(admin, 'admins.manage')) {
+    return forbidden();
+  }
+
+  if (body.role !== undefined && !ADMIN_ROLES.includes(body.role)) {
+    return json(400, { success: false, error: 'Invalid role' });
+  }
+
+  if (body.action === 'list') {
+    const { data: admins, error } = await supabase
+      .from('admins')
+      .select('id, username, display_name, role, last_login_at, disabled_at, created_at')
+      .order('username', { ascending: true });
+
+    if (error) {
+      console.error('[Admin Users] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, admins });
+  }
+
+  if (body.action === 'create') {
+    const username = body.username?.trim().toLowerCase();
+    const displayName = body.display_name?.trim().substring(0, 100) || null;
+
+    if (!username || !USERNAME_PATTERN.test(username)) {
+      return json(400, { success: false, error: 'Username must be 3-50 characters: letters, digits, dot, dash or underscore' });
+    }
+
+    if (typeof body.password !== 'string' || body.password.length < 10 || body.password.length > 200) {
+      return json(400, { success: false, error: 'Password must be between 10 and 200 characters' });
+    }
+
+    // set_admin_password also resets existing accounts; creating must not take one over
+    const { data: existing, error: lookupError } = await supabase
+      .from('admins')
+      .select('id')
+      .eq('username', username)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Admin Users] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    if (existing) {
+      return json(409, { success: false, error: 'Username already exists' });
+    }
+
+    const { data: adminId, error } = await supabase.rpc('set_admin_password', {
+      p_username: username,
+      p_password: body.password,
+      p_display_name: displayName,
+      p_role: body.role || 'instructor',
+    });
+
+    if (error) {
+      console.error('[Admin Users] Create error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'admin_user.created',
+      targetType: 'admin',
+      targetId: adminId,
+      diff: { username, display_name: displayName, role: body.role || 'instructor' },
+    });
+
+    console.log('[Admin Users] Created:', { username, role: body.role || 'instructor', by: admin.username });
+    return json(200, { success: true, admin_id: adminId });
+  }
+
+  if (!body.admin_id) {
+    return json(400, { success: false, error: 'Admin ID is required' });
+  }
+
+  // Otherwise the last super admin could lock everybody out of account management
+  if (body.admin_id === admin.id && (body.action === 'disable' || (body.role && body.role !== admin.role))) {
+    return json(400, { success: false, error: 'You cannot demote or disable your own account' });
+  }
+
+  if (body.action === 'update') {
+    const changes: { role?: AdminRole; display_name?: string | null } = {};
+
+    if (body.role) {
+      changes.role = body.role;
+    }
+
+    if (body.display_name !== undefined) {
+      changes.display_name = body.display_name.trim().substring(0, 100) || null;
+    }
+
+    const { data: before, error: lookupError } = await supabase
+      .from('admins')
+      .select('role, display_name')
+      .eq('id', body.admin_id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Admin Users] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    if (!before) {
+      return json(404, { success: false, error: 'Admin not found' });
+    }
+
+    const { error } = await supabase
+      .from('admins')
+      .update(changes)
+      .eq('id', body.admin_id);
+
+    if (error) {
+      console.error('[Admin Users] Update error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'admin_user.updated',
+      targetType: 'admin',
+      targetId: body.admin_id,
+      diff: diffFields(before, changes),
+    });
+
+    console.log('[Admin Users] Updated:', { admin_id: body.admin_id, ...changes, by: admin.username });
+    return json(200, { success: true });
+  }
+
+  if (body.action === 'disable' || body.action === 'enable') {
+    const disabledAt = body.action === 'disable' ? new Date().toISOString() : null;
+
+    const { data: updated, error } = await supabase
+      .from('admins')
+      .update({ disabled_at: disabledAt })
+      .eq('id', body.admin_id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Admin Users] Disable error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!updated) {
+      return json(404, { success: false, error: 'Admin not found' });
+    }
+
+    if (disabledAt) {
+      // Sign the account out everywhere right away
+      const { error: revokeError } = await supabase
+        .from('admin_sessions')
+        .update({ revoked_at: disabledAt })
+        .eq('admin_id', body.admin_id)
+        .is('revoked_at', null);
+
+      if (revokeError) {
+        console.error('[Admin Users] Revoke sessions error:', revokeError);
+      }
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: body.action === 'disable' ? 'admin_user.disabled' : 'admin_user.enabled',
+      targetType: 'admin',
+      targetId: body.admin_id,
+    });
+
+    console.log(`[Admin Users] ${body.action === 'disable' ? 'Disabled' : 'Enabled'}:`, { admin_id: body.admin_id, by: admin.username });
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+}));
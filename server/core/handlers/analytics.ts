@@ -0,0 +1,60 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+
+// Students below this attendance rate are highlighted on the per-student chart
+const ATTENDANCE_THRESHOLD_PERCENT = 75;
+
+interface AnalyticsRequest {
+  course_id: string;
+}
+
+// Chart data for one course, read from the attendance_*_stats views
+export const analytics = defineHandler('Analytics', withAdmin<AnalyticsRequest>(async ({ body }, { supabase, admin }) => {
+  if (!body.course_id) {
+    return json(400, { success: false, error: 'Course ID is required' });
+  }
+
+  if (!(await canAccessCourse(supabase, admin, body.course_id))) {
+    return forbidden();
+  }
+
+  const [sessionsResult, offsetsResult, studentsResult, sectionsResult] = await Promise.all([
+    supabase
+      .from('attendance_session_stats')
+      .select('session_id, starts_at, week_number, enrolled, check_ins, attended')
+      .eq('course_id', body.course_id)
+      .order('starts_at', { ascending: true }),
+    supabase
+      .from('attendance_checkin_offsets')
+      .select('offset_minutes, check_ins')
+      .eq('course_id', body.course_id)
+      .order('offset_minutes', { ascending: true }),
+    supabase
+      .from('attendance_student_stats')
+      .select('student_id, full_name, section, sessions, attended, excused, rate')
+      .eq('course_id', body.course_id)
+      .order('rate', { ascending: true, nullsFirst: false }),
+    supabase
+      .from('attendance_section_stats')
+      .select('section, students, rate')
+      .eq('course_id', body.course_id)
+      .order('section', { ascending: true }),
+  ]);
+
+  const failed = [sessionsResult, offsetsResult, studentsResult, sectionsResult].find((result) => result.error);
+
+  if (failed?.error) {
+    console.error('[Analytics] Query error:', failed.error);
+    return json(500, { success: false, error: failed.error.message });
+  }
+
+  return json(200, {
+    success: true,
+    threshold: ATTENDANCE_THRESHOLD_PERCENT,
+    sessions: sessionsResult.data,
+    offsets: offsetsResult.data,
+    students: studentsResult.data,
+    sections: sectionsResult.data,
+  }, { 'Cache-Control': 'no-store' });
+}));
@@ -0,0 +1,127 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { getLectureSession } from '../lib/lectureSessions.ts';
+import { findEnrollment } from '../lib/enrollments.ts';
+import { canAccessCourse, forbidden, hasPermission } from '../lib/permissions.ts';
+import { diffFields, writeAuditLog } from '../lib/audit.ts';
+import { getAttachmentUrls, parseAttachment, storeAttachment, type AttachmentUpload } from '../lib/attachments.ts';
+import { CORRECTION_STATUSES, getCorrection, saveCorrection, type CorrectionStatus } from '../lib/corrections.ts';
+
+interface CorrectionRequest {
+  action: 'get' | 'set';
+  session_id?: string;
+  student_id?: string;
+  status?: string;
+  reason?: string;
+  attachment?: AttachmentUpload | null;
+}
+
+// Manual attendance changes for one student in one session. The scanned record is shown next to
+// the correction but never modified.
+export const attendanceCorrections = defineHandler('Attendance Corrections', withAdmin<CorrectionRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+  const studentId = body.student_id?.trim();
+
+  if (!body.session_id || !studentId) {
+    return json(400, { success: false, error: 'Session ID and student ID are required' });
+  }
+
+  const session = await getLectureSession(supabase, body.session_id);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  if (!hasPermission(admin, 'sessions.run') || !(await canAccessCourse(supabase, admin, session.course_id))) {
+    return forbidden();
+  }
+
+  const { data: record, error: recordError } = await supabase
+    .from('attendance_records')
+    .select('student_name, status, recorded_at, left_at')
+    .eq('session_id', session.id)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (recordError) {
+    console.error('[Attendance Corrections] Record lookup error:', recordError);
+    return json(500, { success: false, error: recordError.message });
+  }
+
+  if (body.action === 'get') {
+    const correction = await getCorrection(supabase, session.id, studentId);
+    const urls = await getAttachmentUrls(supabase, correction?.attachment_path ? [correction.attachment_path] : []);
+
+    return json(200, {
+      success: true,
+      record,
+      correction: correction
+        ? { ...correction, attachment_url: correction.attachment_path ? urls.get(correction.attachment_path) ?? null : null }
+        : null,
+    });
+  }
+
+  if (body.action === 'set') {
+    const status = body.status as CorrectionStatus;
+    const reason = body.reason?.trim().substring(0, 500);
+
+    if (!CORRECTION_STATUSES.includes(status)) {
+      return json(400, { success: false, error: 'Invalid status' });
+    }
+
+    if (!reason) {
+      return json(400, { success: false, error: 'A reason is required' });
+    }
+
+    if (new Date(session.starts_at).getTime() > Date.now()) {
+      return json(409, { success: false, error: 'Session has not started yet' });
+    }
+
+    const enrollment = session.course_id ? await findEnrollment(supabase, session.course_id, studentId) : null;
+    const studentName = record?.student_name ?? enrollment?.full_name;
+
+    if (!studentName) {
+      return json(404, { success: false, error: 'Student is not enrolled in this course' });
+    }
+
+    const attachment = parseAttachment(body.attachment);
+
+    if (typeof attachment === 'string') {
+      return json(400, { success: false, error: attachment });
+    }
+
+    const attachmentPath = attachment ? await storeAttachment(supabase, `corrections/${session.id}`, attachment) : null;
+
+    const { before, after } = await saveCorrection(supabase, {
+      sessionId: session.id,
+      studentId,
+      studentName,
+      status,
+      reason,
+      attachmentPath,
+      adminId: admin.id,
+    });
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'attendance.corrected',
+      targetType: 'attendance_correction',
+      targetId: after.id,
+      diff: {
+        session_id: session.id,
+        student_id: studentId,
+        ...diffFields(
+          {
+            status: before?.status ?? record?.status ?? 'absent',
+            reason: before?.reason ?? null,
+            attachment_path: before?.attachment_path ?? null,
+          },
+          { status: after.status, reason: after.reason, attachment_path: after.attachment_path }
+        ),
+      },
+    });
+
+    return json(200, { success: true, correction: after });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
@@ -0,0 +1,70 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { getLectureSession } from '../lib/lectureSessions.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+import type { Enrollment } from '../lib/enrollments.ts';
+
+// How many of the latest check-ins the panel lists
+const RECENT_LIMIT = 20;
+
+interface LiveRequest {
+  session_id: string;
+}
+
+// Snapshot for the live panel next to the projected QR: count, latest check-ins and,
+// for catalog courses, who on the roster has not scanned yet
+export const attendanceLive = defineHandler('Attendance Live', withAdmin<LiveRequest>(async ({ body }, { supabase, admin }) => {
+  if (!body.session_id) {
+    return json(400, { success: false, error: 'Session ID is required' });
+  }
+
+  const session = await getLectureSession(supabase, body.session_id);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  if (!(await canAccessCourse(supabase, admin, session.course_id))) {
+    return forbidden();
+  }
+
+  const { data: records, error } = await supabase
+    .from('attendance_records')
+    .select('student_id, student_name, recorded_at')
+    .eq('session_id', session.id)
+    .order('recorded_at', { ascending: false });
+
+  if (error) {
+    console.error('[Attendance Live] Records error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  const checkedIn = records || [];
+  let roster: Enrollment[] | null = null;
+
+  if (session.course_id) {
+    const { data: enrollments, error: rosterError } = await supabase
+      .from('enrollments')
+      .select('student_id, full_name, section')
+      .eq('course_id', session.course_id)
+      .order('full_name', { ascending: true });
+
+    if (rosterError) {
+      console.error('[Attendance Live] Roster error:', rosterError);
+      return json(500, { success: false, error: rosterError.message });
+    }
+
+    roster = enrollments || [];
+  }
+
+  const present = new Set(checkedIn.map((record) => record.student_id));
+
+  return json(200, {
+    success: true,
+    count: checkedIn.length,
+    recent: checkedIn.slice(0, RECENT_LIMIT),
+    enrolledCount: roster ? roster.length : null,
+    // null for free-text sessions, which have no roster to compare against
+    missing: roster ? roster.filter((student) => !present.has(student.student_id)) : null,
+  }, { 'Cache-Control': 'no-store' });
+}));
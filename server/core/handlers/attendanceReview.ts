@@ -0,0 +1,174 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden, getAccessibleCourseIds, hasPermission } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import { saveCorrection } from '../lib/corrections.ts';
+import type { ReviewStatus } from '../lib/fraud.ts';
+
+interface AttendanceReviewRequest {
+  action: 'list' | 'review';
+  status?: string;
+  id?: string;
+  decision?: 'clear' | 'confirm';
+  note?: string;
+}
+
+interface ReviewRow {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  device_id: string;
+  client_ip: string | null;
+  recorded_at: string;
+  flags: string[];
+  risk_score: number;
+  risk_reasons: string[];
+  risk_related: string[];
+  review_status: ReviewStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  lecture_sessions: { course: string; course_id: string | null; starts_at: string; week_number: number | null };
+}
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'cleared', 'confirmed'];
+
+const REVIEW_COLUMNS = 'id, session_id, student_id, student_name, device_id, client_ip, recorded_at, flags, ' +
+  'risk_score, risk_reasons, risk_related, review_status, review_note, reviewed_at, ' +
+  'lecture_sessions!inner(course, course_id, starts_at, week_number)';
+
+// Check-ins the proxy-attendance score sent for review. Clearing keeps the check-in;
+// confirming marks the student absent for that session through a correction.
+export const attendanceReview = defineHandler('Attendance Review', withAdmin<AttendanceReviewRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (!hasPermission(admin, 'sessions.run')) {
+    return forbidden();
+  }
+
+  if (body.action === 'list') {
+    const status = (body.status || 'pending') as ReviewStatus;
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return json(400, { success: false, error: 'Invalid status' });
+    }
+
+    let query = supabase
+      .from('attendance_records')
+      .select(REVIEW_COLUMNS)
+      .eq('review_status', status)
+      // Riskiest first while waiting, newest first once decided
+      .order(status === 'pending' ? 'risk_score' : 'reviewed_at', { ascending: false })
+      .order('recorded_at', { ascending: true })
+      .limit(200);
+
+    const courseIds = await getAccessibleCourseIds(supabase, admin);
+
+    if (courseIds) {
+      query = query.in('lecture_sessions.course_id', courseIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[Attendance Review] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    const rows = (data || []) as unknown as ReviewRow[];
+
+    return json(200, {
+      success: true,
+      records: rows.map(({ lecture_sessions: session, ...row }) => ({ ...row, session })),
+    });
+  }
+
+  if (body.action === 'review') {
+    const note = body.note?.trim().substring(0, 500) || null;
+
+    if (!body.id || (body.decision !== 'clear' && body.decision !== 'confirm')) {
+      return json(400, { success: false, error: 'Record ID and decision are required' });
+    }
+
+    // Marking a student absent needs a reason, as every correction does
+    if (body.decision === 'confirm' && !note) {
+      return json(400, { success: false, error: 'A note is required to confirm proxy attendance' });
+    }
+
+    const { data, error: lookupError } = await supabase
+      .from('attendance_records')
+      .select(REVIEW_COLUMNS)
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Attendance Review] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    const record = data as unknown as ReviewRow | null;
+
+    if (!record || !record.review_status) {
+      return json(404, { success: false, error: 'Record is not in the review queue' });
+    }
+
+    if (!(await canAccessCourse(supabase, admin, record.lecture_sessions.course_id))) {
+      return forbidden();
+    }
+
+    // Only a pending record can be decided, and only once even if two reviewers click together.
+    // A cleared record stops being marked in reports; a confirmed one keeps its flag.
+    const { data: reviewed, error } = await supabase
+      .from('attendance_records')
+      .update({
+        review_status: body.decision === 'clear' ? 'cleared' : 'confirmed',
+        review_note: note,
+        reviewed_by: admin.id,
+        reviewed_at: new Date().toISOString(),
+        flags: body.decision === 'clear' ? record.flags.filter((flag) => flag !== 'risk') : record.flags,
+      })
+      .eq('id', record.id)
+      .eq('review_status', 'pending')
+      .select('id, review_status, review_note, reviewed_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Attendance Review] Review error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!reviewed) {
+      return json(409, { success: false, error: 'Record was already reviewed' });
+    }
+
+    const correction = body.decision === 'confirm'
+      ? (await saveCorrection(supabase, {
+        sessionId: record.session_id,
+        studentId: record.student_id,
+        studentName: record.student_name,
+        status: 'absent',
+        reason: note!,
+        attachmentPath: null,
+        adminId: admin.id,
+      })).after
+      : null;
+
+    await writeAuditLog(supabase, req, admin, {
+      action: body.decision === 'clear' ? 'attendance.review_cleared' : 'attendance.review_confirmed',
+      targetType: 'attendance_record',
+      targetId: record.id,
+      diff: {
+        session_id: record.session_id,
+        student_id: record.student_id,
+        risk_score: record.risk_score,
+        risk_reasons: record.risk_reasons.join(','),
+        note,
+        correction_id: correction?.id ?? null,
+      },
+    });
+
+    return json(200, { success: true, record: reviewed });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
@@ -0,0 +1,87 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defineHandler, json, type CoreResponse } from '../http.ts';
+import { withAdmin, type AuthenticatedAdmin } from '../lib/adminSession.ts';
+import { getLectureSession, isSessionOpen, type LectureSession } from '../lib/lectureSessions.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+import { buildAttendanceSheet } from '../lib/attendanceSheet.ts';
+import { renderAttendanceSheetPdf } from '../lib/attendanceSheetPdf.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+interface SheetRequest {
+  session_id: string;
+  // PDF only: the lecturer and head-of-department signature blocks under the table
+  signatures?: boolean;
+}
+
+// The finished session the sheet is for, or the error response to send instead
+const loadClosedSession = async (
+  supabase: SupabaseClient,
+  admin: AuthenticatedAdmin,
+  sessionId: string | undefined
+): Promise<LectureSession | CoreResponse> => {
+  if (!sessionId) {
+    return json(400, { success: false, error: 'Session ID is required' });
+  }
+
+  const session = await getLectureSession(supabase, sessionId);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  if (!(await canAccessCourse(supabase, admin, session.course_id))) {
+    return forbidden();
+  }
+
+  // A sheet printed while students can still scan would not match the final records
+  if (isSessionOpen(session)) {
+    return json(409, { success: false, error: 'Session is still open' });
+  }
+
+  return session;
+};
+
+// Data for the printable attendance sheet of a finished session
+export const attendanceSheet = defineHandler('Attendance Sheet', withAdmin<SheetRequest>(async ({ body }, { supabase, admin }) => {
+  const session = await loadClosedSession(supabase, admin, body.session_id);
+
+  if ('status' in session) {
+    return session;
+  }
+
+  const sheet = await buildAttendanceSheet(supabase, session);
+
+  return json(200, { success: true, sheet }, { 'Cache-Control': 'no-store' });
+}));
+
+// The same sheet as a PDF file, so it looks the same whichever browser or printer it goes through
+export const attendanceSheetPdf = defineHandler('Attendance Sheet PDF', withAdmin<SheetRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+  const session = await loadClosedSession(supabase, admin, body.session_id);
+
+  if ('status' in session) {
+    return session;
+  }
+
+  const sheet = await buildAttendanceSheet(supabase, session);
+  const file = await renderAttendanceSheetPdf(sheet, { signatures: body.signatures !== false });
+  const code = (sheet.course_code || 'session').replace(/[^A-Za-z0-9_-]/g, '_');
+  const filename = `attendance-${code}-${session.starts_at.substring(0, 10)}.pdf`;
+
+  await writeAuditLog(supabase, req, admin, {
+    action: 'attendance_sheet.exported',
+    targetType: 'lecture_session',
+    targetId: session.id,
+    diff: { course: session.course, students: sheet.records.length, integrity_hash: sheet.integrity_hash },
+  });
+
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+    body: file,
+  };
+}));
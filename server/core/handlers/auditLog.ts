@@ -0,0 +1,66 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { forbidden, hasPermission } from '../lib/permissions.ts';
+
+const MAX_PAGE_SIZE = 100;
+
+interface AuditLogRequest {
+  page?: number;
+  page_size?: number;
+  action?: string;
+  actor?: string;
+  target_id?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+}
+
+// Newest first, filtered and paged; read-only by design
+export const auditLog = defineHandler('Audit Log', withAdmin<AuditLogRequest>(async ({ body }, { supabase, admin }) => {
+  if (!hasPermission(admin, 'audit.view')) {
+    return forbidden();
+  }
+
+  const pageSize = Math.min(Math.max(Math.floor(Number(body.page_size) || 25), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(Number(body.page) || 1), 1);
+  const offset = (page - 1) * pageSize;
+
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + pageSize - 1);
+
+  if (body.action) {
+    query = query.eq('action', body.action);
+  }
+
+  if (body.actor?.trim()) {
+    query = query.eq('actor_username', body.actor.trim().toLowerCase());
+  }
+
+  if (body.target_id?.trim()) {
+    query = query.eq('target_id', body.target_id.trim());
+  }
+
+  for (const [bound, value] of [['from', body.from], ['to', body.to]] as const) {
+    if (!value) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return json(400, { success: false, error: `Invalid ${bound} date` });
+    }
+
+    query = bound === 'from' ? query.gte('created_at', date.toISOString()) : query.lte('created_at', date.toISOString());
+  }
+
+  const { data: entries, count, error } = await query;
+
+  if (error) {
+    console.error('[Audit Log] List error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  return json(200, { success: true, entries, total: count ?? 0, page, pageSize });
+}));
@@ -0,0 +1,60 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { COOLDOWN_MINUTES } from '../lib/cooldown.ts';
+
+// The cooldown itself is claimed by submit-attendance when the check-in is recorded
+interface CheckRequest {
+  device_id: string;
+  action: 'check';
+}
+
+export const checkDeviceCooldown = defineHandler<CheckRequest>('Device Cooldown', async ({ body }, { env, supabase }) => {
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  const { device_id, action } = body;
+
+  console.log('[Device Cooldown] Request:', { device_id, action });
+
+  if (!device_id) {
+    return json(400, { success: false, error: 'Device ID is required' });
+  }
+
+  // Calculate cooldown threshold (30 minutes ago)
+  const cooldownThreshold = new Date(Date.now() - COOLDOWN_MINUTES * 60 * 1000).toISOString();
+
+  if (action === 'check') {
+    // Check if device has submitted within cooldown period
+    const { data: submissions, error } = await supabase
+      .from('device_submissions')
+      .select('submitted_at')
+      .eq('device_id', device_id)
+      .gte('submitted_at', cooldownThreshold)
+      .order('submitted_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('[Device Cooldown] Check error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (submissions && submissions.length > 0) {
+      const lastSubmission = new Date(submissions[0].submitted_at);
+      const remaining = (lastSubmission.getTime() + COOLDOWN_MINUTES * 60 * 1000) - Date.now();
+
+      console.log('[Device Cooldown] Device in cooldown, remaining:', remaining);
+
+      return json(200, {
+        inCooldown: true,
+        remaining,
+        lastSubmission: submissions[0].submitted_at
+      });
+    }
+
+    console.log('[Device Cooldown] Device NOT in cooldown');
+    return json(200, { inCooldown: false, remaining: 0 });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+});
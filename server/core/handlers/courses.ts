@@ -0,0 +1,314 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defineHandler, json, type CoreRequest, type CoreResponse } from '../http.ts';
+import { withAdmin, type AuthenticatedAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden, getAccessibleCourseIds, hasPermission } from '../lib/permissions.ts';
+import { diffFields, writeAuditLog } from '../lib/audit.ts';
+import { DEFAULT_LATE_GRACE_MINUTES } from '../lib/lectureSessions.ts';
+import { GEOFENCE_POLICIES, type GeofencePolicy } from '../lib/geofence.ts';
+import { DEVICE_POLICIES, type DevicePolicy } from '../lib/deviceBinding.ts';
+import { MAX_ALLOWED_NETWORKS, NETWORK_POLICIES, normalizeNetworks, type NetworkPolicy } from '../lib/network.ts';
+
+interface CoursesRequest {
+  action: 'list' | 'create' | 'roster' | 'update_settings' | 'update_check_in_policies' | 'staff' | 'assign_staff' | 'remove_staff';
+  course_id?: string;
+  admin_id?: string;
+  code?: string;
+  name?: string;
+  absence_limit?: number | string | null;
+  absence_warning_levels?: number[];
+  telegram_chat_id?: string | null;
+  late_grace_minutes?: number | string;
+  geofence_policy?: string;
+  network_policy?: string;
+  allowed_networks?: string[];
+  device_policy?: string;
+}
+
+// One group of course settings: absence alerts or check-in policies
+interface CourseSettingsChanges {
+  absence_limit?: number | null;
+  absence_warning_levels?: number[];
+  telegram_chat_id?: string | null;
+  late_grace_minutes?: number;
+  geofence_policy?: GeofencePolicy;
+  network_policy?: NetworkPolicy;
+  allowed_networks?: string[];
+  device_policy?: DevicePolicy;
+}
+
+// Update only the given settings of a course and audit what changed (lists are compared as text)
+const saveCourseSettings = async (
+  req: CoreRequest<CoursesRequest>,
+  supabase: SupabaseClient,
+  admin: AuthenticatedAdmin,
+  courseId: string,
+  changes: CourseSettingsChanges
+): Promise<CoreResponse> => {
+  const fields = Object.keys(changes) as (keyof CourseSettingsChanges)[];
+  const { data: before, error: lookupError } = await supabase
+    .from('courses')
+    .select(fields.join(', '))
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error('[Courses] Lookup error:', lookupError);
+    return json(500, { success: false, error: lookupError.message });
+  }
+
+  if (!before) {
+    return json(404, { success: false, error: 'Course not found' });
+  }
+
+  const { data: course, error } = await supabase
+    .from('courses')
+    .update(changes)
+    .eq('id', courseId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[Courses] Update settings error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  const asText = (values: CourseSettingsChanges) =>
+    Object.fromEntries(fields.map((field) => [field, Array.isArray(values[field]) ? (values[field] as unknown[]).join(',') : values[field]]));
+
+  await writeAuditLog(supabase, req, admin, {
+    action: 'course.updated',
+    targetType: 'course',
+    targetId: courseId,
+    diff: diffFields(asText(before as CourseSettingsChanges), asText(changes)),
+  });
+
+  return json(200, { success: true, course });
+};
+
+export const courses = defineHandler('Courses', withAdmin<CoursesRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (body.action === 'list') {
+    // Instructors and assistants only see the courses they are assigned to
+    const courseIds = await getAccessibleCourseIds(supabase, admin);
+
+    let query = supabase
+      .from('courses')
+      .select('*')
+      .order('code', { ascending: true });
+
+    if (courseIds) {
+      query = query.in('id', courseIds);
+    }
+
+    const { data: courses, error } = await query;
+
+    if (error) {
+      console.error('[Courses] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, courses });
+  }
+
+  if (body.action === 'create') {
+    if (!hasPermission(admin, 'courses.manage')) {
+      return forbidden();
+    }
+
+    const code = body.code?.trim().toUpperCase().substring(0, 20);
+    const name = body.name?.trim().substring(0, 100);
+
+    if (!code || !name) {
+      return json(400, { success: false, error: 'Course code and name are required' });
+    }
+
+    const { data: course, error } = await supabase
+      .from('courses')
+      .insert({ code, name })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[Courses] Insert error:', error);
+      const status = error.code === '23505' ? 409 : 500;
+      return json(status, { success: false, error: status === 409 ? 'Course code already exists' : error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, { action: 'course.created', targetType: 'course', targetId: course.id, diff: { code, name } });
+
+    return json(200, { success: true, course });
+  }
+
+  if (!body.course_id) {
+    return json(400, { success: false, error: 'Course ID is required' });
+  }
+
+  if (body.action === 'roster') {
+    if (!(await canAccessCourse(supabase, admin, body.course_id))) {
+      return forbidden();
+    }
+
+    const { data: enrollments, error } = await supabase
+      .from('enrollments')
+      .select('student_id, full_name, section')
+      .eq('course_id', body.course_id)
+      .order('section', { ascending: true, nullsFirst: false })
+      .order('full_name', { ascending: true });
+
+    if (error) {
+      console.error('[Courses] Roster error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, enrollments });
+  }
+
+  if (body.action === 'update_settings') {
+    if (!hasPermission(admin, 'roster.import') || !(await canAccessCourse(supabase, admin, body.course_id))) {
+      return forbidden();
+    }
+
+    const absenceLimit = body.absence_limit !== undefined && body.absence_limit !== null && body.absence_limit !== ''
+      ? parseInt(String(body.absence_limit), 10)
+      : null;
+    const levels = body.absence_warning_levels ?? [50, 80, 100];
+    const telegramChatId = body.telegram_chat_id?.trim().substring(0, 50) || null;
+    const lateGraceMinutes = body.late_grace_minutes !== undefined && body.late_grace_minutes !== ''
+      ? parseInt(String(body.late_grace_minutes), 10)
+      : DEFAULT_LATE_GRACE_MINUTES;
+
+    if (absenceLimit !== null && (isNaN(absenceLimit) || absenceLimit < 1 || absenceLimit > 100)) {
+      return json(400, { success: false, error: 'Absence limit must be between 1 and 100' });
+    }
+
+    if (!Array.isArray(levels) || levels.length > 5 || !levels.every((level) => Number.isInteger(level) && level >= 1 && level <= 100)) {
+      return json(400, { success: false, error: 'Warning levels must be up to 5 whole percentages between 1 and 100' });
+    }
+
+    if (telegramChatId && !/^-?\d+$|^@\w+$/.test(telegramChatId)) {
+      return json(400, { success: false, error: 'Invalid Telegram chat ID' });
+    }
+
+    if (isNaN(lateGraceMinutes) || lateGraceMinutes < 0 || lateGraceMinutes > 180) {
+      return json(400, { success: false, error: 'Late grace period must be between 0 and 180 minutes' });
+    }
+
+    return saveCourseSettings(req, supabase, admin, body.course_id!, {
+      absence_limit: absenceLimit,
+      absence_warning_levels: [...new Set(levels)].sort((a, b) => a - b),
+      telegram_chat_id: telegramChatId,
+      late_grace_minutes: lateGraceMinutes,
+    });
+  }
+
+  // Check-in rules are saved on their own, so saving absence alerts never touches them
+  if (body.action === 'update_check_in_policies') {
+    if (!hasPermission(admin, 'roster.import') || !(await canAccessCourse(supabase, admin, body.course_id))) {
+      return forbidden();
+    }
+
+    const geofencePolicy = (body.geofence_policy || 'ignore') as GeofencePolicy;
+    const networkPolicy = (body.network_policy || 'ignore') as NetworkPolicy;
+    const devicePolicy = (body.device_policy || 'ignore') as DevicePolicy;
+    const networks = normalizeNetworks(Array.isArray(body.allowed_networks) ? body.allowed_networks.map(String) : []);
+
+    if (!GEOFENCE_POLICIES.includes(geofencePolicy)) {
+      return json(400, { success: false, error: 'Invalid geofence policy' });
+    }
+
+    if (!NETWORK_POLICIES.includes(networkPolicy)) {
+      return json(400, { success: false, error: 'Invalid network policy' });
+    }
+
+    if (!DEVICE_POLICIES.includes(devicePolicy)) {
+      return json(400, { success: false, error: 'Invalid device policy' });
+    }
+
+    if ('invalid' in networks) {
+      return json(400, { success: false, error: `Invalid network range: ${networks.invalid}` });
+    }
+
+    if (networks.networks.length > MAX_ALLOWED_NETWORKS) {
+      return json(400, { success: false, error: `At most ${MAX_ALLOWED_NETWORKS} network ranges are allowed` });
+    }
+
+    return saveCourseSettings(req, supabase, admin, body.course_id!, {
+      geofence_policy: geofencePolicy,
+      network_policy: networkPolicy,
+      allowed_networks: networks.networks,
+      device_policy: devicePolicy,
+    });
+  }
+
+  // Staff assignments are managed by super admins only
+  if (!hasPermission(admin, 'admins.manage')) {
+    return forbidden();
+  }
+
+  if (body.action === 'staff') {
+    const { data: rows, error } = await supabase
+      .from('course_staff')
+      .select('admins(id, username, display_name, role)')
+      .eq('course_id', body.course_id);
+
+    if (error) {
+      console.error('[Courses] Staff error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    const staff = (rows || []).map((row) => row.admins).filter(Boolean);
+    return json(200, { success: true, staff });
+  }
+
+  if (!body.admin_id) {
+    return json(400, { success: false, error: 'Admin ID is required' });
+  }
+
+  if (body.action === 'assign_staff') {
+    const { error } = await supabase
+      .from('course_staff')
+      .upsert({ course_id: body.course_id, admin_id: body.admin_id }, { onConflict: 'course_id,admin_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('[Courses] Assign staff error:', error);
+      const status = error.code === '23503' ? 404 : 500;
+      return json(status, { success: false, error: status === 404 ? 'Course or admin not found' : error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'course.staff_assigned',
+      targetType: 'course',
+      targetId: body.course_id,
+      diff: { admin_id: body.admin_id },
+    });
+
+    console.log('[Courses] Staff assigned:', { course_id: body.course_id, admin_id: body.admin_id, by: admin.username });
+    return json(200, { success: true });
+  }
+
+  if (body.action === 'remove_staff') {
+    const { error } = await supabase
+      .from('course_staff')
+      .delete()
+      .eq('course_id', body.course_id)
+      .eq('admin_id', body.admin_id);
+
+    if (error) {
+      console.error('[Courses] Remove staff error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'course.staff_removed',
+      targetType: 'course',
+      targetId: body.course_id,
+      diff: { admin_id: body.admin_id },
+    });
+
+    console.log('[Courses] Staff removed:', { course_id: body.course_id, admin_id: body.admin_id, by: admin.username });
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+}));
@@ -0,0 +1,79 @@
+import { defineHandler, json } from '../http.ts';
+import { withStudent } from '../lib/studentSession.ts';
+import { parseAttachment, storeAttachment, type AttachmentUpload } from '../lib/attachments.ts';
+import { findStudentCourses, listExcusableSessions } from '../lib/excuses.ts';
+
+interface ExcuseSubmission {
+  action: 'sessions' | 'submit';
+  session_id?: string;
+  reason?: string;
+  attachment?: AttachmentUpload | null;
+}
+
+// The signed-in student lists the sessions they missed recently and asks for one to be excused.
+// The student ID comes from the session only, so nobody can file an excuse in a classmate's name.
+export const excuseRequest = defineHandler('Excuse Request', withStudent<ExcuseSubmission>(async ({ body }, { supabase, student: { student_id: studentId } }) => {
+  const student = await findStudentCourses(supabase, studentId);
+
+  if (!student.fullName) {
+    return json(404, { success: false, notEnrolled: true, error: 'Student is not enrolled in any course' });
+  }
+
+  const sessions = await listExcusableSessions(supabase, studentId, student.courseIds);
+
+  if (body.action === 'sessions') {
+    return json(200, { success: true, sessions });
+  }
+
+  if (body.action === 'submit') {
+    const reason = body.reason?.trim().substring(0, 1000);
+    const session = sessions.find((candidate) => candidate.id === body.session_id);
+
+    if (!reason) {
+      return json(400, { success: false, error: 'A reason is required' });
+    }
+
+    if (!session) {
+      return json(404, { success: false, error: 'Session cannot be excused' });
+    }
+
+    if (session.pending) {
+      return json(409, { success: false, duplicate: true, error: 'An excuse for this session is already pending' });
+    }
+
+    const attachment = parseAttachment(body.attachment);
+
+    if (typeof attachment === 'string') {
+      return json(400, { success: false, error: attachment });
+    }
+
+    const attachmentPath = attachment ? await storeAttachment(supabase, `excuses/${session.id}`, attachment) : null;
+
+    const { data: request, error } = await supabase
+      .from('excuse_requests')
+      .insert({
+        session_id: session.id,
+        student_id: studentId,
+        student_name: student.fullName,
+        reason,
+        attachment_path: attachmentPath,
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      // The partial unique index catches two submissions racing each other
+      if (error.code === '23505') {
+        return json(409, { success: false, duplicate: true, error: 'An excuse for this session is already pending' });
+      }
+      console.error('[Excuse Request] Insert error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    console.log('[Excuse Request] Submitted:', { id: request.id, session: session.id });
+
+    return json(200, { success: true, request });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
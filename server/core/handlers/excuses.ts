@@ -0,0 +1,158 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden, getAccessibleCourseIds, hasPermission } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import { getAttachmentUrls } from '../lib/attachments.ts';
+import { saveCorrection } from '../lib/corrections.ts';
+import { EXCUSE_STATUSES, type ExcuseStatus } from '../lib/excuses.ts';
+
+interface ExcusesRequest {
+  action: 'list' | 'review';
+  status?: string;
+  id?: string;
+  decision?: 'approve' | 'reject';
+  note?: string;
+}
+
+interface ExcuseRow {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  reason: string;
+  attachment_path: string | null;
+  status: ExcuseStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  lecture_sessions: { course: string; course_id: string | null; starts_at: string; week_number: number | null };
+}
+
+const EXCUSE_COLUMNS = 'id, session_id, student_id, student_name, reason, attachment_path, status, review_note, reviewed_at, created_at, ' +
+  'lecture_sessions!inner(course, course_id, starts_at, week_number)';
+
+// Instructors review the excuses students sent for their courses' sessions
+export const excuses = defineHandler('Excuses', withAdmin<ExcusesRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (!hasPermission(admin, 'sessions.run')) {
+    return forbidden();
+  }
+
+  if (body.action === 'list') {
+    const status = (body.status || 'pending') as ExcuseStatus;
+
+    if (!EXCUSE_STATUSES.includes(status)) {
+      return json(400, { success: false, error: 'Invalid status' });
+    }
+
+    let query = supabase
+      .from('excuse_requests')
+      .select(EXCUSE_COLUMNS)
+      .eq('status', status)
+      // Oldest first while waiting, newest first once decided
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(200);
+
+    const courseIds = await getAccessibleCourseIds(supabase, admin);
+
+    if (courseIds) {
+      query = query.in('lecture_sessions.course_id', courseIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[Excuses] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    const rows = (data || []) as unknown as ExcuseRow[];
+    const urls = await getAttachmentUrls(supabase, rows.flatMap((row) => (row.attachment_path ? [row.attachment_path] : [])));
+
+    return json(200, {
+      success: true,
+      excuses: rows.map(({ lecture_sessions: session, attachment_path, ...row }) => ({
+        ...row,
+        session,
+        attachment_url: attachment_path ? urls.get(attachment_path) ?? null : null,
+      })),
+    });
+  }
+
+  if (body.action === 'review') {
+    const note = body.note?.trim().substring(0, 500) || null;
+
+    if (!body.id || (body.decision !== 'approve' && body.decision !== 'reject')) {
+      return json(400, { success: false, error: 'Excuse ID and decision are required' });
+    }
+
+    const { data, error: lookupError } = await supabase
+      .from('excuse_requests')
+      .select(EXCUSE_COLUMNS)
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Excuses] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    const excuse = data as unknown as ExcuseRow | null;
+
+    if (!excuse) {
+      return json(404, { success: false, error: 'Excuse not found' });
+    }
+
+    if (!(await canAccessCourse(supabase, admin, excuse.lecture_sessions.course_id))) {
+      return forbidden();
+    }
+
+    // Only a pending request can be decided, and only once even if two reviewers click together
+    const { data: reviewed, error } = await supabase
+      .from('excuse_requests')
+      .update({
+        status: body.decision === 'approve' ? 'approved' : 'rejected',
+        review_note: note,
+        reviewed_by: admin.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', excuse.id)
+      .eq('status', 'pending')
+      .select('id, status, review_note, reviewed_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Excuses] Review error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!reviewed) {
+      return json(409, { success: false, error: 'Excuse was already reviewed' });
+    }
+
+    const correction = body.decision === 'approve'
+      ? (await saveCorrection(supabase, {
+        sessionId: excuse.session_id,
+        studentId: excuse.student_id,
+        studentName: excuse.student_name,
+        status: 'excused',
+        reason: excuse.reason,
+        attachmentPath: excuse.attachment_path,
+        excuseRequestId: excuse.id,
+        adminId: admin.id,
+      })).after
+      : null;
+
+    await writeAuditLog(supabase, req, admin, {
+      action: body.decision === 'approve' ? 'excuse.approved' : 'excuse.rejected',
+      targetType: 'excuse_request',
+      targetId: excuse.id,
+      diff: { session_id: excuse.session_id, student_id: excuse.student_id, note, correction_id: correction?.id ?? null },
+    });
+
+    return json(200, { success: true, excuse: reviewed });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
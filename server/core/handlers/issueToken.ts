@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defineHandler, json } from '../http.ts';
+import { tokenConfigMissing } from '../context.ts';
+import { withAdmin, type AuthenticatedAdmin } from '../lib/adminSession.ts';
+import { issueSignedToken, type TokenMode } from '../lib/signedToken.ts';
+import { getLectureSession, isSessionOpen } from '../lib/lectureSessions.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+interface IssueRequest {
+  session_id: string;
+  mode?: TokenMode;
+}
+
+// The QR rotates every few seconds, so only the first token an admin issues per session and
+// mode is audited: one entry says who projected it, not one for every rotation
+const isFirstProjection = async (
+  supabase: SupabaseClient,
+  admin: AuthenticatedAdmin,
+  sessionId: string,
+  mode: TokenMode
+): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('id')
+    .eq('actor_id', admin.id)
+    .eq('action', 'session.qr_projected')
+    .eq('target_id', sessionId)
+    .eq('diff->>mode', mode)
+    .limit(1);
+
+  if (error) {
+    console.error('[Issue Token] Audit lookup error:', error);
+    return false;
+  }
+
+  return data.length === 0;
+};
+
+export const issueToken = defineHandler('Issue Token', withAdmin<IssueRequest>(async (req, { env, supabase, admin }) => {
+  const secret = env.QR_TOKEN_SECRET;
+
+  if (!secret) {
+    return tokenConfigMissing();
+  }
+
+  const { session_id, mode = 'entry' } = req.body;
+
+  if (!session_id) {
+    return json(400, { success: false, error: 'Session ID is required' });
+  }
+
+  if (mode !== 'entry' && mode !== 'exit') {
+    return json(400, { success: false, error: 'Invalid token mode' });
+  }
+
+  const session = await getLectureSession(supabase, session_id);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  // Only staff of the session's course can project its QR code
+  if (!(await canAccessCourse(supabase, admin, session.course_id))) {
+    return forbidden();
+  }
+
+  if (!isSessionOpen(session)) {
+    return json(409, { success: false, error: 'Session is closed' });
+  }
+
+  const { token, payload } = await issueSignedToken(secret, session.id, mode);
+
+  if (await isFirstProjection(supabase, admin, session.id, mode)) {
+    await writeAuditLog(supabase, req, admin, {
+      action: 'session.qr_projected',
+      targetType: 'lecture_session',
+      targetId: session.id,
+      diff: { mode, course: session.course },
+    });
+  }
+
+  // Tokens rotate every few seconds and must never be served from a cache
+  return json(200, {
+    success: true,
+    token,
+    issuedAt: payload.iat,
+    expiresAt: payload.exp,
+  }, { 'Cache-Control': 'no-store' });
+}));
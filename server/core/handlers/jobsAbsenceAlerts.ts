@@ -0,0 +1,25 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { constantTimeEqual } from '../lib/totp.ts';
+import { runAbsenceAlerts } from '../lib/absenceAlerts.ts';
+
+// Scheduled absence check. Vercel Cron calls it with GET and "Authorization: Bearer $CRON_SECRET";
+// any other scheduler can do the same.
+export const jobsAbsenceAlerts = defineHandler('Absence Alerts Job', async (req, { env, supabase }) => {
+  if (!env.CRON_SECRET) {
+    console.error('Missing job configuration - CRON_SECRET');
+    return json(500, { success: false, error: 'Job configuration is missing. Add CRON_SECRET to the server environment.' });
+  }
+
+  if (!constantTimeEqual(req.headers.authorization || '', `Bearer ${env.CRON_SECRET}`)) {
+    return json(401, { success: false, error: 'Unauthorized' });
+  }
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  const summary = await runAbsenceAlerts(supabase, env);
+
+  return json(200, { success: true, ...summary });
+}, ['GET', 'POST']);
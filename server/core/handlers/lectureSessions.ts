@@ -0,0 +1,196 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { getLectureSession, isSessionOpen } from '../lib/lectureSessions.ts';
+import { canAccessCourse, forbidden, getAccessibleCourseIds, hasPermission } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import { findRoomByName } from '../lib/rooms.ts';
+
+interface SessionRequest {
+  action: 'open' | 'close' | 'get' | 'list';
+  session_id?: string;
+  course_id?: string;
+  course?: string;
+  instructor?: string;
+  room?: string;
+  week_number?: number | string;
+  starts_at?: string;
+  ends_at?: string;
+  max_forwards?: number | null;
+}
+
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const lectureSessions = defineHandler('Lecture Sessions', withAdmin<SessionRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  console.log('[Lecture Sessions] Request:', { action: body.action, session_id: body.session_id });
+
+  if (body.action === 'open') {
+    let course = body.course?.trim().substring(0, 100);
+    const instructor = body.instructor?.trim().substring(0, 100);
+    const room = body.room?.trim().substring(0, 50) || null;
+    const weekNumber = body.week_number !== undefined && body.week_number !== '' ? parseInt(String(body.week_number), 10) : null;
+    const startsAt = parseDate(body.starts_at) || new Date();
+    const endsAt = parseDate(body.ends_at);
+
+    if ((!course && !body.course_id) || !instructor || !endsAt) {
+      return json(400, { success: false, error: 'Course, instructor and end time are required' });
+    }
+
+    if (endsAt.getTime() <= startsAt.getTime()) {
+      return json(400, { success: false, error: 'End time must be after start time' });
+    }
+
+    if (weekNumber !== null && (isNaN(weekNumber) || weekNumber < 1)) {
+      return json(400, { success: false, error: 'Invalid week number' });
+    }
+
+    if (!hasPermission(admin, 'sessions.run') || !(await canAccessCourse(supabase, admin, body.course_id || null))) {
+      return forbidden();
+    }
+
+    // Sessions opened from the catalog always carry the catalog name
+    if (body.course_id) {
+      const { data: catalogCourse, error: courseError } = await supabase
+        .from('courses')
+        .select('id, name')
+        .eq('id', body.course_id)
+        .maybeSingle();
+
+      if (courseError) {
+        console.error('[Lecture Sessions] Course lookup error:', courseError);
+        return json(500, { success: false, error: courseError.message });
+      }
+
+      if (!catalogCourse) {
+        return json(404, { success: false, error: 'Course not found' });
+      }
+
+      course = catalogCourse.name;
+    }
+
+    // Linked by ID when the session opens, so renaming the room later keeps the geofence in place
+    const catalogRoom = await findRoomByName(supabase, room);
+
+    const { data: session, error } = await supabase
+      .from('lecture_sessions')
+      .insert({
+        course_id: body.course_id || null,
+        course,
+        instructor,
+        room: catalogRoom?.name ?? room,
+        room_id: catalogRoom?.id ?? null,
+        week_number: weekNumber,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        max_forwards: body.max_forwards ?? null,
+        opened_by: admin.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[Lecture Sessions] Insert error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'session.opened',
+      targetType: 'lecture_session',
+      targetId: session.id,
+      diff: { course_id: session.course_id, course: session.course, room: session.room, starts_at: session.starts_at, ends_at: session.ends_at },
+    });
+
+    console.log('[Lecture Sessions] Session opened:', session.id);
+    return json(200, { success: true, session });
+  }
+
+  if (body.action === 'close') {
+    if (!body.session_id) {
+      return json(400, { success: false, error: 'Session ID is required' });
+    }
+
+    const existing = await getLectureSession(supabase, body.session_id);
+
+    if (existing && (!hasPermission(admin, 'sessions.run') || !(await canAccessCourse(supabase, admin, existing.course_id)))) {
+      return forbidden();
+    }
+
+    const { data: session, error } = await supabase
+      .from('lecture_sessions')
+      .update({ closed_at: new Date().toISOString() })
+      .eq('id', body.session_id)
+      .is('closed_at', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Lecture Sessions] Close error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!session) {
+      return json(404, { success: false, error: 'Session not found or already closed' });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'session.closed',
+      targetType: 'lecture_session',
+      targetId: session.id,
+      diff: { course: session.course, closed_at: session.closed_at },
+    });
+
+    console.log('[Lecture Sessions] Session closed:', session.id);
+    return json(200, { success: true, session });
+  }
+
+  if (body.action === 'get') {
+    if (!body.session_id) {
+      return json(400, { success: false, error: 'Session ID is required' });
+    }
+
+    const session = await getLectureSession(supabase, body.session_id);
+
+    if (!session) {
+      return json(404, { success: false, error: 'Session not found' });
+    }
+
+    if (!(await canAccessCourse(supabase, admin, session.course_id))) {
+      return forbidden();
+    }
+
+    return json(200, { success: true, session, isOpen: isSessionOpen(session) });
+  }
+
+  if (body.action === 'list') {
+    // Sessions that can still be projected, newest first, limited to the admin's courses
+    const courseIds = await getAccessibleCourseIds(supabase, admin);
+
+    let query = supabase
+      .from('lecture_sessions')
+      .select('*')
+      .is('closed_at', null)
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: false })
+      .limit(50);
+
+    if (courseIds) {
+      query = query.in('course_id', courseIds);
+    }
+
+    const { data: sessions, error } = await query;
+
+    if (error) {
+      console.error('[Lecture Sessions] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, sessions });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+}));
@@ -0,0 +1,117 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing, tokenConfigMissing } from '../context.ts';
+import { verifySignedToken } from '../lib/signedToken.ts';
+import { getMaxForwards, redeemNonce } from '../lib/redemption.ts';
+import { getLectureSession } from '../lib/lectureSessions.ts';
+
+interface ExitRequest {
+  token: string;
+  device_id: string;
+}
+
+// Exit scan: stamps left_at on the check-in this device made for the session
+export const recordExit = defineHandler<ExitRequest>('Record Exit', async ({ body }, { env, supabase }) => {
+  const secret = env.QR_TOKEN_SECRET;
+
+  if (!secret) {
+    return tokenConfigMissing();
+  }
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  const { token, device_id } = body;
+
+  if (!token || !device_id) {
+    return json(400, { success: false, error: 'All fields are required' });
+  }
+
+  const { valid, expired, payload } = await verifySignedToken(token, secret);
+
+  if (!valid || payload!.mode !== 'exit') {
+    return json(403, { success: false, expired, error: 'Invalid or expired token' });
+  }
+
+  const session = await getLectureSession(supabase, payload!.sid);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  // Same forwarding rules as check-in, so a student who already left cannot be scanned out by a friend
+  const maxForwards = session.max_forwards ?? getMaxForwards(env);
+  const { status } = await redeemNonce(supabase, payload!.nonce, device_id, maxForwards);
+
+  if (status === 'forward_rejected') {
+    console.warn('[Record Exit] Forwarded exit token rejected:', { nonce: payload!.nonce, device_id });
+    return json(403, { success: false, forwarded: true, error: 'Token was already used on another device' });
+  }
+
+  // A shared device can have checked in more than one student; the exit goes to its latest open check-in
+  const { data: open, error: openError } = await supabase
+    .from('attendance_records')
+    .select('id')
+    .eq('session_id', session.id)
+    .eq('device_id', device_id)
+    .is('left_at', null)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (openError) {
+    console.error('[Record Exit] Lookup error:', openError);
+    return json(500, { success: false, error: openError.message });
+  }
+
+  const leftAt = new Date().toISOString();
+  let record: { student_name: string; recorded_at: string; left_at: string } | null = null;
+
+  if (open) {
+    // By id, so exactly one row; left_at is checked again in case another exit scan got there first
+    const { data, error } = await supabase
+      .from('attendance_records')
+      .update({ left_at: leftAt })
+      .eq('id', open.id)
+      .is('left_at', null)
+      .select('student_name, recorded_at, left_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Record Exit] Update error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    record = data;
+  }
+
+  if (!record) {
+    const { data: existing, error: lookupError } = await supabase
+      .from('attendance_records')
+      .select('left_at')
+      .eq('session_id', session.id)
+      .eq('device_id', device_id)
+      .order('left_at', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Record Exit] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    return existing
+      ? json(409, { success: false, alreadyLeft: true, leftAt: existing.left_at, error: 'Exit already recorded' })
+      : json(404, { success: false, notCheckedIn: true, error: 'No check-in from this device for the session' });
+  }
+
+  console.log('[Record Exit] Exit recorded:', { session: session.id, left_at: leftAt });
+
+  return json(200, {
+    success: true,
+    studentName: record.student_name,
+    course: session.course,
+    recordedAt: record.recorded_at,
+    leftAt: record.left_at,
+  });
+});
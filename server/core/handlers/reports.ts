@@ -0,0 +1,25 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+import { buildAttendanceReport, parseReportFilters } from '../lib/reports.ts';
+
+// Students × sessions attendance matrix for the reports page
+export const reports = defineHandler('Reports', withAdmin<Record<string, unknown>>(async ({ body }, { supabase, admin }) => {
+  const filters = parseReportFilters(body);
+
+  if (typeof filters === 'string') {
+    return json(400, { success: false, error: filters });
+  }
+
+  if (!(await canAccessCourse(supabase, admin, filters.courseId))) {
+    return forbidden();
+  }
+
+  const report = await buildAttendanceReport(supabase, filters);
+
+  if (!report) {
+    return json(404, { success: false, error: 'Course not found' });
+  }
+
+  return json(200, { success: true, report });
+}));
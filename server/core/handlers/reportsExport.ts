@@ -0,0 +1,65 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { canAccessCourse, forbidden } from '../lib/permissions.ts';
+import { buildAttendanceReport, parseReportFilters, reportToTable, reportToXlsx } from '../lib/reports.ts';
+import { toCsv } from '../lib/csv.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// The same matrix as /api/reports, as a downloadable CSV or XLSX file
+export const reportsExport = defineHandler('Reports Export', withAdmin<Record<string, unknown>>(async (req, { supabase, admin }) => {
+  const { body } = req;
+  const format = body.format === 'xlsx' ? 'xlsx' : body.format === 'csv' || body.format === undefined ? 'csv' : null;
+
+  if (!format) {
+    return json(400, { success: false, error: 'Format must be csv or xlsx' });
+  }
+
+  const filters = parseReportFilters(body);
+
+  if (typeof filters === 'string') {
+    return json(400, { success: false, error: filters });
+  }
+
+  if (!(await canAccessCourse(supabase, admin, filters.courseId))) {
+    return forbidden();
+  }
+
+  const report = await buildAttendanceReport(supabase, filters);
+
+  if (!report) {
+    return json(404, { success: false, error: 'Course not found' });
+  }
+
+  const file = format === 'xlsx' ? await reportToXlsx(report) : toCsv(reportToTable(report));
+  const filename = `attendance-${report.course.code.replace(/[^A-Za-z0-9_-]/g, '_')}-${new Date().toISOString().substring(0, 10)}.${format}`;
+
+  await writeAuditLog(supabase, req, admin, {
+    action: 'report.exported',
+    targetType: 'course',
+    targetId: report.course.id,
+    diff: {
+      format,
+      section: filters.section,
+      from: filters.from,
+      to: filters.to,
+      week: filters.week,
+      students: report.rows.length,
+      sessions: report.sessions.length,
+    },
+  });
+
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+    body: file,
+  };
+}));
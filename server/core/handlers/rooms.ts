@@ -0,0 +1,170 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { forbidden, hasPermission } from '../lib/permissions.ts';
+import { diffFields, writeAuditLog } from '../lib/audit.ts';
+import { MAX_ALLOWED_NETWORKS, normalizeNetworks } from '../lib/network.ts';
+
+interface RoomsRequest {
+  action: 'list' | 'save' | 'delete';
+  id?: string;
+  name?: string;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  radius_m?: number | string;
+  // CIDR ranges; empty falls back to the course's list
+  allowed_networks?: string[];
+}
+
+const DEFAULT_RADIUS_M = 75;
+
+const parseCoordinate = (value: number | string | null | undefined): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// Lecture halls with optional coordinates and networks for the check-in location checks. Anyone who opens sessions can
+// list them; editing needs courses.manage.
+export const rooms = defineHandler('Rooms', withAdmin<RoomsRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (body.action === 'list') {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('[Rooms] List error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, rooms: data });
+  }
+
+  if (!hasPermission(admin, 'courses.manage')) {
+    return forbidden();
+  }
+
+  if (body.action === 'save') {
+    const name = body.name?.trim().substring(0, 50);
+    const latitude = parseCoordinate(body.latitude);
+    const longitude = parseCoordinate(body.longitude);
+    const radius = body.radius_m !== undefined && body.radius_m !== '' ? parseInt(String(body.radius_m), 10) : DEFAULT_RADIUS_M;
+
+    if (!name) {
+      return json(400, { success: false, error: 'Room name is required' });
+    }
+
+    if ((latitude === null) !== (longitude === null)) {
+      return json(400, { success: false, error: 'Latitude and longitude must be set together' });
+    }
+
+    if (latitude !== null && (isNaN(latitude) || Math.abs(latitude) > 90 || isNaN(longitude!) || Math.abs(longitude!) > 180)) {
+      return json(400, { success: false, error: 'Invalid coordinates' });
+    }
+
+    if (isNaN(radius) || radius < 10 || radius > 2000) {
+      return json(400, { success: false, error: 'Radius must be between 10 and 2000 metres' });
+    }
+
+    const networks = normalizeNetworks(Array.isArray(body.allowed_networks) ? body.allowed_networks.map(String) : []);
+
+    if ('invalid' in networks) {
+      return json(400, { success: false, error: `Invalid network range: ${networks.invalid}` });
+    }
+
+    if (networks.networks.length > MAX_ALLOWED_NETWORKS) {
+      return json(400, { success: false, error: `At most ${MAX_ALLOWED_NETWORKS} network ranges are allowed` });
+    }
+
+    const fields = { name, latitude, longitude, radius_m: radius, allowed_networks: networks.networks };
+
+    if (!body.id) {
+      const { data: room, error } = await supabase
+        .from('rooms')
+        .insert(fields)
+        .select('*')
+        .single();
+
+      if (error) {
+        console.error('[Rooms] Insert error:', error);
+        const status = error.code === '23505' ? 409 : 500;
+        return json(status, { success: false, error: status === 409 ? 'A room with this name already exists' : error.message });
+      }
+
+      await writeAuditLog(supabase, req, admin, { action: 'room.created', targetType: 'room', targetId: room.id, diff: fields });
+
+      return json(200, { success: true, room });
+    }
+
+    const { data: before, error: lookupError } = await supabase
+      .from('rooms')
+      .select('name, latitude, longitude, radius_m, allowed_networks')
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Rooms] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    if (!before) {
+      return json(404, { success: false, error: 'Room not found' });
+    }
+
+    const { data: room, error } = await supabase
+      .from('rooms')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', body.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[Rooms] Update error:', error);
+      const status = error.code === '23505' ? 409 : 500;
+      return json(status, { success: false, error: status === 409 ? 'A room with this name already exists' : error.message });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'room.updated',
+      targetType: 'room',
+      targetId: room.id,
+      diff: diffFields(
+        { ...before, allowed_networks: before.allowed_networks.join(',') },
+        { ...fields, allowed_networks: fields.allowed_networks.join(',') }
+      ),
+    });
+
+    return json(200, { success: true, room });
+  }
+
+  if (body.action === 'delete') {
+    if (!body.id) {
+      return json(400, { success: false, error: 'Room ID is required' });
+    }
+
+    // Sessions keep their room name; their link to the room is cleared by the foreign key
+    const { data: room, error } = await supabase
+      .from('rooms')
+      .delete()
+      .eq('id', body.id)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Rooms] Delete error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!room) {
+      return json(404, { success: false, error: 'Room not found' });
+    }
+
+    await writeAuditLog(supabase, req, admin, { action: 'room.deleted', targetType: 'room', targetId: room.id, diff: { name: room.name } });
+
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Invalid action' });
+}));
@@ -0,0 +1,111 @@
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { parseRosterFile } from '../lib/roster.ts';
+import { canAccessCourse, forbidden, hasPermission } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+
+// Keep well under the 4.5 MB Vercel request body limit once base64 encoded
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+interface ImportRequest {
+  course_id: string;
+  // Raw CSV or XLSX file contents, base64 encoded
+  file: string;
+  // Parse and report without writing anything
+  dry_run?: boolean;
+}
+
+export const rosterImport = defineHandler('Roster Import', withAdmin<ImportRequest>(async (req, { supabase, admin }) => {
+  const { course_id, file, dry_run } = req.body;
+
+  if (!course_id || !file) {
+    return json(400, { success: false, error: 'Course ID and file are required' });
+  }
+
+  if (!hasPermission(admin, 'roster.import') || !(await canAccessCourse(supabase, admin, course_id))) {
+    return forbidden();
+  }
+
+  const bytes = Uint8Array.from(atob(file), (char) => char.charCodeAt(0));
+
+  if (bytes.length > MAX_FILE_BYTES) {
+    return json(413, { success: false, error: 'File is too large' });
+  }
+
+  const { data: course, error: courseError } = await supabase
+    .from('courses')
+    .select('id')
+    .eq('id', course_id)
+    .maybeSingle();
+
+  if (courseError) {
+    console.error('[Roster Import] Course lookup error:', courseError);
+    return json(500, { success: false, error: courseError.message });
+  }
+
+  if (!course) {
+    return json(404, { success: false, error: 'Course not found' });
+  }
+
+  let parsed;
+  try {
+    parsed = await parseRosterFile(bytes);
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : 'Could not read file';
+    return json(422, { success: false, error: message });
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('enrollments')
+    .select('student_id')
+    .eq('course_id', course_id);
+
+  if (existingError) {
+    console.error('[Roster Import] Enrollment lookup error:', existingError);
+    return json(500, { success: false, error: existingError.message });
+  }
+
+  const enrolled = new Set((existing || []).map((row) => row.student_id));
+  const updated = parsed.rows.filter((row) => enrolled.has(row.student_id)).length;
+
+  const report = {
+    total: parsed.rows.length + parsed.duplicates.length + parsed.malformed.length,
+    inserted: parsed.rows.length - updated,
+    updated,
+    duplicates: parsed.duplicates,
+    malformed: parsed.malformed,
+  };
+
+  console.log('[Roster Import] Parsed:', { course_id, dry_run: !!dry_run, ...report, duplicates: report.duplicates.length, malformed: report.malformed.length });
+
+  if (dry_run || parsed.rows.length === 0) {
+    return json(200, { success: true, dryRun: !!dry_run, report });
+  }
+
+  const { error: upsertError } = await supabase
+    .from('enrollments')
+    .upsert(
+      parsed.rows.map((row) => ({
+        course_id,
+        student_id: row.student_id,
+        full_name: row.full_name,
+        section: row.section,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'course_id,student_id' }
+    );
+
+  if (upsertError) {
+    console.error('[Roster Import] Upsert error:', upsertError);
+    return json(500, { success: false, error: upsertError.message });
+  }
+
+  await writeAuditLog(supabase, req, admin, {
+    action: 'roster.imported',
+    targetType: 'course',
+    targetId: course_id,
+    diff: { inserted: report.inserted, updated: report.updated, skipped: report.duplicates.length + report.malformed.length },
+  });
+
+  return json(200, { success: true, dryRun: false, report });
+}));
@@ -0,0 +1,108 @@
+import { defineHandler, json } from '../http.ts';
+import { SUBMIT_GRACE_MS, verifySignedToken } from '../lib/signedToken.ts';
+import { getLectureSession } from '../lib/lectureSessions.ts';
+import { formatAttendanceMessage, isTelegramConfigured, sendTelegramMessage } from '../lib/telegram.ts';
+
+interface TelegramRequest {
+  token: string;
+  device_id: string;
+}
+
+export const sendToTelegram = defineHandler<TelegramRequest>('Send To Telegram', async ({ body }, { env, supabase }) => {
+  const secret = env.QR_TOKEN_SECRET;
+
+  console.log('Environment check:', {
+    hasBotToken: !!env.TELEGRAM_BOT_TOKEN,
+    hasChatId: !!env.TELEGRAM_CHAT_ID,
+  });
+
+  if (!isTelegramConfigured(env)) {
+    console.error('Missing Telegram configuration');
+    return json(500, {
+      success: false,
+      error: 'Telegram configuration is missing. Please add TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID to the server environment.'
+    });
+  }
+
+  if (!secret || !supabase) {
+    return json(500, {
+      success: false,
+      error: 'Server configuration is missing. Add QR_TOKEN_SECRET, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to the server environment.'
+    });
+  }
+
+  const { token, device_id } = body;
+
+  // Validate input
+  if (!token || !device_id) {
+    return json(400, { success: false, error: 'All fields are required' });
+  }
+
+  const { valid, payload } = await verifySignedToken(token, secret, Date.now(), SUBMIT_GRACE_MS);
+
+  if (!valid) {
+    return json(403, { success: false, error: 'Invalid or expired token' });
+  }
+
+  // Only attendance that was actually recorded is announced, using the stored values. Stamping
+  // announced_at in the same update claims the record, so each one is posted once.
+  const { data: record, error: recordError } = await supabase
+    .from('attendance_records')
+    .update({ announced_at: new Date().toISOString() })
+    .eq('session_id', payload!.sid)
+    .eq('token_nonce', payload!.nonce)
+    .eq('device_id', device_id)
+    .is('announced_at', null)
+    .select('id, student_id, student_name, status')
+    .maybeSingle();
+
+  if (recordError) {
+    console.error('Attendance lookup error:', recordError);
+    return json(500, { success: false, error: recordError.message });
+  }
+
+  if (!record) {
+    const { data: announced } = await supabase
+      .from('attendance_records')
+      .select('id')
+      .eq('session_id', payload!.sid)
+      .eq('token_nonce', payload!.nonce)
+      .eq('device_id', device_id)
+      .maybeSingle();
+
+    return announced
+      ? json(409, { success: false, error: 'Attendance was already announced' })
+      : json(404, { success: false, error: 'Attendance record not found' });
+  }
+
+  const session = await getLectureSession(supabase, payload!.sid);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  const message = formatAttendanceMessage({
+    session,
+    studentName: record.student_name,
+    studentId: record.student_id,
+    status: record.status,
+  });
+
+  console.log('Sending message to Telegram:', { session: session.id, id: record.student_id });
+
+  const telegramResult = await sendTelegramMessage(env, message);
+
+  if (!telegramResult.ok) {
+    console.error('Telegram API error:', telegramResult);
+
+    // Release the claim so the check-in can still be announced on a retry
+    await supabase.from('attendance_records').update({ announced_at: null }).eq('id', record.id);
+
+    return json(500, {
+      success: false,
+      error: `Telegram API error: ${telegramResult.description || 'Unknown error'}`
+    });
+  }
+
+  return json(200, { success: true, message: 'Data sent successfully' });
+});
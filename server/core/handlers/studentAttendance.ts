@@ -0,0 +1,11 @@
+import { defineHandler, json } from '../http.ts';
+import { withStudent } from '../lib/studentSession.ts';
+import { getStudentHistory } from '../lib/studentHistory.ts';
+
+// The signed-in student's own attendance, per course and per session, with their excuse requests.
+// Takes no parameters: the student ID comes from the session only.
+export const studentAttendance = defineHandler('Student Attendance', withStudent(async (req, { supabase, student }) => {
+  const history = await getStudentHistory(supabase, student.student_id);
+
+  return json(200, { success: true, student_id: student.student_id, ...history }, { 'Cache-Control': 'no-store' });
+}));
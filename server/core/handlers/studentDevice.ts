@@ -0,0 +1,80 @@
+import { defineHandler, json } from '../http.ts';
+import { withStudent } from '../lib/studentSession.ts';
+import { getStudentDevice } from '../lib/deviceBinding.ts';
+
+interface StudentDeviceRequest {
+  action: 'status' | 'request';
+  // Fingerprint of the browser the student is using now
+  device_id?: string;
+  reason?: string;
+}
+
+// The signed-in student's device binding, and asking to move it to the device in hand.
+// Signing in needs the code sent to the student, so a request here cannot come from a classmate.
+export const studentDevice = defineHandler('Student Device', withStudent<StudentDeviceRequest>(async ({ body }, { supabase, student }) => {
+  const deviceId = body.device_id?.trim().substring(0, 200);
+
+  if (!deviceId) {
+    return json(400, { success: false, error: 'Device ID is required' });
+  }
+
+  const binding = await getStudentDevice(supabase, student.student_id);
+  const bound = !binding ? 'none' : binding.device_id === deviceId ? 'this' : 'other';
+
+  if (body.action === 'status') {
+    const { data: request, error } = await supabase
+      .from('device_rebind_requests')
+      .select('status, created_at, reviewed_at')
+      .eq('student_id', student.student_id)
+      .eq('device_id', deviceId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Student Device] Request lookup error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    return json(200, { success: true, bound, bound_at: binding?.bound_at ?? null, request }, { 'Cache-Control': 'no-store' });
+  }
+
+  if (body.action === 'request') {
+    if (bound !== 'other') {
+      return json(400, { success: false, error: 'This device does not need to be registered' });
+    }
+
+    const reason = body.reason?.trim().substring(0, 500) || null;
+
+    // A newer request replaces the one still waiting, so the queue holds one per student
+    const { data: updated, error: updateError } = await supabase
+      .from('device_rebind_requests')
+      .update({ device_id: deviceId, reason, created_at: new Date().toISOString() })
+      .eq('student_id', student.student_id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[Student Device] Update error:', updateError);
+      return json(500, { success: false, error: updateError.message });
+    }
+
+    if (!updated) {
+      const { error } = await supabase
+        .from('device_rebind_requests')
+        .insert({ student_id: student.student_id, device_id: deviceId, reason });
+
+      if (error) {
+        console.error('[Student Device] Insert error:', error);
+        return json(error.code === '23505' ? 409 : 500, { success: false, error: error.message });
+      }
+    }
+
+    console.log('[Student Device] Rebind requested:', { id: student.student_id });
+
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defineHandler, json } from '../http.ts';
+import { withAdmin } from '../lib/adminSession.ts';
+import { forbidden, getAccessibleCourseIds, hasPermission } from '../lib/permissions.ts';
+import { writeAuditLog } from '../lib/audit.ts';
+import { bindStudentDevice, getStudentDevice, type RebindStatus } from '../lib/deviceBinding.ts';
+
+interface StudentDevicesRequest {
+  action: 'requests' | 'lookup' | 'reset' | 'review';
+  status?: string;
+  student_id?: string;
+  id?: string;
+  decision?: 'approve' | 'reject';
+}
+
+const REBIND_STATUSES: RebindStatus[] = ['pending', 'approved', 'rejected'];
+
+// Names of the given students as enrolled in the admin's courses; students outside them are left out.
+// courseIds null means every course.
+const findVisibleStudents = async (
+  supabase: SupabaseClient,
+  courseIds: string[] | null,
+  studentIds: string[]
+): Promise<Map<string, string>> => {
+  if (studentIds.length === 0 || courseIds?.length === 0) {
+    return new Map();
+  }
+
+  let query = supabase
+    .from('enrollments')
+    .select('student_id, full_name')
+    .in('student_id', studentIds);
+
+  if (courseIds) {
+    query = query.in('course_id', courseIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map((data || []).map((row) => [row.student_id, row.full_name]));
+};
+
+// Device bindings of the students in the admin's courses: rebinding requests to approve or
+// reject, and resetting a binding so the student's next check-in binds again
+export const studentDevices = defineHandler('Student Devices', withAdmin<StudentDevicesRequest>(async (req, { supabase, admin }) => {
+  const { body } = req;
+
+  if (!hasPermission(admin, 'roster.import')) {
+    return forbidden();
+  }
+
+  const courseIds = await getAccessibleCourseIds(supabase, admin);
+
+  if (body.action === 'requests') {
+    const status = (body.status || 'pending') as RebindStatus;
+
+    if (!REBIND_STATUSES.includes(status)) {
+      return json(400, { success: false, error: 'Invalid status' });
+    }
+
+    const { data, error } = await supabase
+      .from('device_rebind_requests')
+      .select('id, student_id, device_id, reason, status, reviewed_at, created_at')
+      .eq('status', status)
+      // Oldest first while waiting, newest first once decided
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(200);
+
+    if (error) {
+      console.error('[Student Devices] Requests error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    const names = await findVisibleStudents(supabase, courseIds, [...new Set((data || []).map((row) => row.student_id))]);
+
+    return json(200, {
+      success: true,
+      requests: (data || [])
+        .filter((row) => names.has(row.student_id))
+        .map((row) => ({ ...row, student_name: names.get(row.student_id) })),
+    });
+  }
+
+  if (body.action === 'review') {
+    if (!body.id || (body.decision !== 'approve' && body.decision !== 'reject')) {
+      return json(400, { success: false, error: 'Request ID and decision are required' });
+    }
+
+    const { data: request, error: lookupError } = await supabase
+      .from('device_rebind_requests')
+      .select('id, student_id, device_id')
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('[Student Devices] Lookup error:', lookupError);
+      return json(500, { success: false, error: lookupError.message });
+    }
+
+    if (!request) {
+      return json(404, { success: false, error: 'Request not found' });
+    }
+
+    if (!(await findVisibleStudents(supabase, courseIds, [request.student_id])).has(request.student_id)) {
+      return forbidden();
+    }
+
+    const before = await getStudentDevice(supabase, request.student_id);
+
+    // Only a pending request can be decided, and only once even if two reviewers click together
+    const { data: reviewed, error } = await supabase
+      .from('device_rebind_requests')
+      .update({
+        status: body.decision === 'approve' ? 'approved' : 'rejected',
+        reviewed_by: admin.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending')
+      .select('id, status, reviewed_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Student Devices] Review error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!reviewed) {
+      return json(409, { success: false, error: 'Request was already reviewed' });
+    }
+
+    if (body.decision === 'approve') {
+      await bindStudentDevice(supabase, request.student_id, request.device_id, admin.id);
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: body.decision === 'approve' ? 'device.rebind_approved' : 'device.rebind_rejected',
+      targetType: 'device_rebind_request',
+      targetId: request.id,
+      diff: { student_id: request.student_id, from: before?.device_id ?? null, to: request.device_id },
+    });
+
+    return json(200, { success: true, request: reviewed });
+  }
+
+  const studentId = body.student_id?.trim().substring(0, 50);
+
+  if (!studentId) {
+    return json(400, { success: false, error: 'Student ID is required' });
+  }
+
+  const names = await findVisibleStudents(supabase, courseIds, [studentId]);
+
+  if (!names.has(studentId)) {
+    return json(404, { success: false, error: 'Student is not enrolled in your courses' });
+  }
+
+  if (body.action === 'lookup') {
+    return json(200, { success: true, student_name: names.get(studentId), device: await getStudentDevice(supabase, studentId) });
+  }
+
+  if (body.action === 'reset') {
+    const { data: removed, error } = await supabase
+      .from('student_devices')
+      .delete()
+      .eq('student_id', studentId)
+      .select('device_id, bound_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Student Devices] Reset error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    if (!removed) {
+      return json(404, { success: false, error: 'Student has no bound device' });
+    }
+
+    await writeAuditLog(supabase, req, admin, {
+      action: 'device.binding_reset',
+      targetType: 'student',
+      targetId: studentId,
+      diff: { device_id: removed.device_id, bound_at: removed.bound_at },
+    });
+
+    return json(200, { success: true });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
@@ -0,0 +1,85 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { studentSessionConfigMissing } from '../lib/studentSession.ts';
+import { issueLoginCode, LOGIN_CODE_TTL_MS } from '../lib/studentLogin.ts';
+import { getStudentNotifier, studentNotifierConfigMissing } from '../lib/studentNotifier.ts';
+
+interface StudentLoginRequest {
+  student_id: string;
+}
+
+const formatCodeMessage = (code: string, linkUrl: string | null): string =>
+  `رمز الدخول إلى سجل حضورك: ${code}\nصالح لمدة ${LOGIN_CODE_TTL_MS / 60000} دقائق. لا تشاركه مع أحد.` +
+  (linkUrl ? `\nأو افتح الرابط: ${linkUrl}` : '');
+
+// Public: sends a one-time code (and a magic link when PUBLIC_APP_URL is set) through the student
+// notifier. The answer is the same whether or not the student ID is on a roster.
+export const studentLogin = defineHandler<StudentLoginRequest>('Student Login', async ({ body }, { env, supabase }) => {
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  if (!env.STUDENT_SESSION_SECRET) {
+    return studentSessionConfigMissing();
+  }
+
+  const studentId = typeof body.student_id === 'string' ? body.student_id.trim().substring(0, 50) : '';
+
+  if (!studentId) {
+    return json(400, { success: false, error: 'Student ID is required' });
+  }
+
+  // Checked before the roster so the answer still does not depend on the student ID
+  const notifier = getStudentNotifier(env);
+
+  if (!notifier) {
+    return studentNotifierConfigMissing();
+  }
+
+  const sent = json(200, { success: true }, { 'Cache-Control': 'no-store' });
+
+  const { data: enrollment, error } = await supabase
+    .from('enrollments')
+    .select('full_name')
+    .eq('student_id', studentId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Student Login] Enrollment lookup error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  if (!enrollment) {
+    console.log('[Student Login] Unknown student ID');
+    return sent;
+  }
+
+  const issued = await issueLoginCode(supabase, studentId);
+
+  if (!issued) {
+    console.log('[Student Login] Code limit reached:', studentId);
+    return sent;
+  }
+
+  // The link is only built from configuration: a Host header can be forged to point it elsewhere
+  const appUrl = env.PUBLIC_APP_URL?.replace(/\/+$/, '');
+  const linkUrl = appUrl ? `${appUrl}/me?login=${encodeURIComponent(issued.link)}` : null;
+  let delivered = false;
+
+  try {
+    delivered = await notifier.notify(
+      { student_id: studentId, full_name: enrollment.full_name, course_id: null },
+      formatCodeMessage(issued.code, linkUrl)
+    );
+  } catch (notifyError) {
+    console.error('[Student Login] Notifier error:', notifyError);
+  }
+
+  if (!delivered) {
+    console.error('[Student Login] Code was not delivered:', { studentId, notifier: notifier.name });
+    return json(502, { success: false, error: 'The code could not be sent, try again later' });
+  }
+
+  return sent;
+});
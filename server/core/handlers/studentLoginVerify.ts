@@ -0,0 +1,52 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing } from '../context.ts';
+import { studentSessionConfigMissing, studentSignedInResponse } from '../lib/studentSession.ts';
+import { redeemLoginCode, redeemLoginLink } from '../lib/studentLogin.ts';
+
+interface StudentLoginVerifyRequest {
+  // Either the student ID with the code they were sent...
+  student_id?: string;
+  code?: string;
+  // ...or the token from the magic link
+  link?: string;
+}
+
+// Second step of the student sign-in: trades a code or magic link token for a session cookie
+export const studentLoginVerify = defineHandler<StudentLoginVerifyRequest>('Student Login Verify', async (req, { env, supabase }) => {
+  const secret = env.STUDENT_SESSION_SECRET;
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  if (!secret) {
+    return studentSessionConfigMissing();
+  }
+
+  const { body } = req;
+  let studentId: string | null = null;
+
+  if (typeof body.link === 'string' && body.link) {
+    studentId = body.link.length <= 100 ? await redeemLoginLink(supabase, body.link) : null;
+  } else {
+    const candidate = typeof body.student_id === 'string' ? body.student_id.trim().substring(0, 50) : '';
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+
+    if (!candidate || !code) {
+      return json(400, { success: false, error: 'Student ID and code are required' });
+    }
+
+    if (/^\d{6}$/.test(code) && (await redeemLoginCode(supabase, candidate, code))) {
+      studentId = candidate;
+    }
+  }
+
+  if (!studentId) {
+    console.log('[Student Login Verify] Rejected:', { ip: req.ip, link: !!body.link });
+    return json(401, { success: false, error: 'Invalid or expired code' });
+  }
+
+  console.log('[Student Login Verify] Signed in:', studentId);
+
+  return studentSignedInResponse(supabase, secret, studentId, req);
+});
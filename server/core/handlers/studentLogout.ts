@@ -0,0 +1,18 @@
+import { defineHandler, json } from '../http.ts';
+import { clearStudentSessionCookie, getStudentSession, revokeStudentSession } from '../lib/studentSession.ts';
+
+// Always clears the cookie; the session row is revoked when the cookie still resolves to one
+export const studentLogout = defineHandler('Student Logout', async (req, { env, supabase }) => {
+  const secret = env.STUDENT_SESSION_SECRET;
+
+  if (supabase && secret) {
+    const student = await getStudentSession(supabase, secret, req);
+
+    if (student) {
+      await revokeStudentSession(supabase, student.sessionId);
+      console.log('[Student Logout] Signed out:', student.student_id);
+    }
+  }
+
+  return json(200, { success: true }, { 'Set-Cookie': clearStudentSessionCookie() });
+});
@@ -0,0 +1,129 @@
+import { defineHandler, json } from '../http.ts';
+import { withStudent } from '../lib/studentSession.ts';
+import { toBase64Url } from '../lib/signedToken.ts';
+import {
+  MAX_PASSKEYS_PER_STUDENT,
+  issuePasskeyChallenge,
+  listStudentPasskeys,
+  readPasskeyChallenge,
+} from '../lib/passkeys.ts';
+import { PASSKEY_ALGORITHMS, getRelyingParty, verifyRegistration, type RegistrationResponse } from '../lib/webauthn.ts';
+
+interface StudentPasskeysRequest {
+  action: 'list' | 'options' | 'register' | 'remove';
+  challenge_token?: string;
+  credential?: RegistrationResponse;
+  label?: string;
+  id?: string;
+}
+
+const RP_NAME = 'QR Pulse Pass';
+
+// The signed-in student's passkeys. Once one is registered, every check-in with the student's
+// ID has to be signed by one of them (see submitAttendance).
+export const studentPasskeys = defineHandler('Student Passkeys', withStudent<StudentPasskeysRequest>(async (req, { env, supabase, student }) => {
+  const { body } = req;
+  const passkeys = await listStudentPasskeys(supabase, student.student_id);
+
+  if (body.action === 'list') {
+    return json(200, {
+      success: true,
+      passkeys: passkeys.map(({ id, label, created_at, last_used_at }) => ({ id, label, created_at, last_used_at })),
+    }, { 'Cache-Control': 'no-store' });
+  }
+
+  if (body.action === 'remove') {
+    const passkey = passkeys.find((item) => item.id === body.id);
+
+    if (!passkey) {
+      return json(404, { success: false, error: 'Passkey not found' });
+    }
+
+    const { error } = await supabase
+      .from('student_passkeys')
+      .delete()
+      .eq('id', passkey.id)
+      .eq('student_id', student.student_id);
+
+    if (error) {
+      console.error('[Student Passkeys] Remove error:', error);
+      return json(500, { success: false, error: error.message });
+    }
+
+    console.log('[Student Passkeys] Removed:', { id: student.student_id, passkey: passkey.id });
+
+    return json(200, { success: true });
+  }
+
+  const rp = getRelyingParty(req, env);
+
+  if (!rp) {
+    return json(400, { success: false, error: 'Cannot tell which site the passkey is for' });
+  }
+
+  if (passkeys.length >= MAX_PASSKEYS_PER_STUDENT) {
+    return json(400, { success: false, error: `At most ${MAX_PASSKEYS_PER_STUDENT} passkeys per student` });
+  }
+
+  // withStudent already checked the secret is set
+  const secret = env.STUDENT_SESSION_SECRET!;
+
+  if (body.action === 'options') {
+    const { challenge, token } = await issuePasskeyChallenge(secret, student.student_id);
+    // An opaque handle so the authenticator does not store the student ID as the account's ID
+    const userId = toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(student.student_id))));
+
+    return json(200, {
+      success: true,
+      challenge,
+      challenge_token: token,
+      rp: { id: rp.id, name: RP_NAME },
+      user: { id: userId, name: student.student_id },
+      algorithms: PASSKEY_ALGORITHMS,
+      exclude: passkeys.map((passkey) => passkey.credential_id),
+    }, { 'Cache-Control': 'no-store' });
+  }
+
+  if (body.action === 'register') {
+    const challenge = body.challenge_token
+      ? await readPasskeyChallenge(secret, body.challenge_token, student.student_id)
+      : null;
+
+    if (!challenge || !body.credential) {
+      return json(400, { success: false, error: 'Registration expired, try again' });
+    }
+
+    const result = await verifyRegistration(body.credential, challenge, rp);
+
+    if ('error' in result) {
+      console.warn('[Student Passkeys] Registration rejected:', { id: student.student_id, reason: result.error });
+      return json(400, { success: false, error: result.error });
+    }
+
+    const { credential } = result;
+    const { data, error } = await supabase
+      .from('student_passkeys')
+      .insert({
+        student_id: student.student_id,
+        credential_id: credential.credentialId,
+        public_key: credential.publicKey,
+        algorithm: credential.algorithm,
+        rp_id: rp.id,
+        sign_count: credential.signCount,
+        label: body.label?.trim().substring(0, 100) || req.headers['user-agent']?.substring(0, 100) || null,
+      })
+      .select('id, label, created_at, last_used_at')
+      .single();
+
+    if (error) {
+      console.error('[Student Passkeys] Insert error:', error);
+      return json(error.code === '23505' ? 409 : 500, { success: false, error: error.message });
+    }
+
+    console.log('[Student Passkeys] Registered:', { id: student.student_id, passkey: data.id });
+
+    return json(200, { success: true, passkey: data });
+  }
+
+  return json(400, { success: false, error: 'Unknown action' });
+}));
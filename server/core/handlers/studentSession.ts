@@ -0,0 +1,8 @@
+import { defineHandler, json } from '../http.ts';
+import { withStudent } from '../lib/studentSession.ts';
+
+// Who is signed in - lets the student page check its cookie without being able to read it
+export const studentSession = defineHandler('Student Session', withStudent(async (req, { student }) => json(200, {
+  success: true,
+  student: { studentId: student.student_id },
+}, { 'Cache-Control': 'no-store' })));
@@ -0,0 +1,232 @@
+import { defineHandler, json } from '../http.ts';
+import { SUBMIT_GRACE_MS, verifySignedToken } from '../lib/signedToken.ts';
+import { hasRedeemed } from '../lib/redemption.ts';
+import { classifyCheckIn, getLateGraceMinutes, getLectureSession } from '../lib/lectureSessions.ts';
+import { findEnrollment } from '../lib/enrollments.ts';
+import { COOLDOWN_MINUTES } from '../lib/cooldown.ts';
+import { checkLocation, getSessionGeofence, parseScanLocation, type LocationResult } from '../lib/geofence.ts';
+import { checkNetwork, getSessionNetworkAllowList, type NetworkCheck } from '../lib/network.ts';
+import { checkDeviceBinding, getCourseDevicePolicy } from '../lib/deviceBinding.ts';
+import { RISK_REVIEW_THRESHOLD, parseDeviceTraits, scoreSubmission, type RiskAssessment } from '../lib/fraud.ts';
+import { listStudentPasskeys, recordPasskeyUse } from '../lib/passkeys.ts';
+import { getRelyingParty, verifyAssertion, type AssertionResponse } from '../lib/webauthn.ts';
+
+interface SubmitRequest {
+  token: string;
+  device_id: string;
+  name: string;
+  id: string;
+  // Browser geolocation, sent when the lecture summary asked for it
+  location?: { latitude: number; longitude: number; accuracy: number } | null;
+  // Coarse browser properties for spotting one phone behind several fingerprints
+  device_traits?: Record<string, unknown> | null;
+  // WebAuthn assertion over the token's nonce, for students who registered a passkey
+  passkey?: AssertionResponse | null;
+}
+
+export const submitAttendance = defineHandler<SubmitRequest>('Submit', async (req, { env, supabase }) => {
+  const { body, ip } = req;
+  const secret = env.QR_TOKEN_SECRET;
+
+  if (!secret || !supabase) {
+    return json(500, {
+      success: false,
+      error: 'Server configuration is missing. Add QR_TOKEN_SECRET, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to the server environment.'
+    });
+  }
+
+  const { token, device_id, name, id } = body;
+
+  // Validate input
+  if (!token || !device_id || !name || !id) {
+    return json(400, { success: false, error: 'All fields are required' });
+  }
+
+  // The lecture comes from the scanned token, never from the student
+  const { valid, payload } = await verifySignedToken(token, secret, Date.now(), SUBMIT_GRACE_MS);
+
+  if (!valid || payload!.mode === 'exit' || !(await hasRedeemed(supabase, payload!.nonce, device_id))) {
+    return json(403, { success: false, error: 'Invalid or expired token' });
+  }
+
+  const session = await getLectureSession(supabase, payload!.sid);
+
+  if (!session) {
+    return json(404, { success: false, error: 'Session not found' });
+  }
+
+  // Timed from when the scanned QR was shown, not from when the form was sent
+  const checkInStatus = classifyCheckIn(session, await getLateGraceMinutes(supabase, session.course_id), payload!.iat);
+
+  if (!checkInStatus) {
+    console.log('[Submit] Outside the session window:', { session: session.id, scanned_at: new Date(payload!.iat).toISOString() });
+    return json(403, { success: false, outsideWindow: true, error: 'Check-in is outside the session time window' });
+  }
+
+  // Sanitize input
+  let studentName = name.trim().substring(0, 100);
+  const studentId = id.trim().substring(0, 50);
+
+  // Sessions linked to a course only accept students on its roster
+  if (session.course_id) {
+    const enrollment = await findEnrollment(supabase, session.course_id, studentId);
+
+    if (!enrollment) {
+      console.log('[Submit] Student not enrolled:', { session: session.id, id: studentId });
+      return json(403, { success: false, notEnrolled: true, error: 'Student is not enrolled in this course' });
+    }
+
+    studentName = enrollment.full_name;
+  }
+
+  // A student with a passkey proves each check-in with it. The challenge is the scanned token's
+  // nonce, so the signature shows the registered device was used while that QR was live.
+  // The first attempt without an assertion is answered with what the browser needs to make one.
+  const passkeys = await listStudentPasskeys(supabase, studentId);
+  let passkeyCredentialId: string | null = null;
+
+  if (passkeys.length > 0) {
+    if (!body.passkey) {
+      return json(403, {
+        success: false,
+        passkeyRequired: true,
+        challenge: payload!.nonce,
+        credentials: passkeys.map((item) => item.credential_id),
+        error: 'A passkey is required for this student',
+      });
+    }
+
+    const passkey = passkeys.find((item) => item.credential_id === body.passkey!.id);
+    const rp = getRelyingParty(req, env);
+    const assertion = passkey && rp
+      ? await verifyAssertion(body.passkey, payload!.nonce, rp, passkey)
+      : { error: 'Unknown passkey' };
+
+    if ('error' in assertion) {
+      console.warn('[Submit] Passkey rejected:', { session: session.id, id: studentId, reason: assertion.error });
+      return json(403, { success: false, passkeyInvalid: true, error: 'Passkey verification failed' });
+    }
+
+    await recordPasskeyUse(supabase, passkey!.id, assertion.signCount);
+    passkeyCredentialId = passkey!.credential_id;
+  }
+
+  // Sessions in a room with coordinates or on an allow-listed network check where the scan came from,
+  // as the course's policies say
+  const [geofence, allowList, devicePolicy] = await Promise.all([
+    getSessionGeofence(supabase, session),
+    getSessionNetworkAllowList(supabase, session),
+    getCourseDevicePolicy(supabase, session.course_id),
+  ]);
+  const location: LocationResult | null = geofence ? checkLocation(geofence, parseScanLocation(body.location)) : null;
+  const flags: string[] = [];
+
+  if (geofence && location && location.check !== 'inside') {
+    console.log('[Submit] Location check failed:', { session: session.id, id: studentId, ...location, policy: geofence.policy });
+
+    if (geofence.policy === 'block') {
+      return json(403, { success: false, outsideGeofence: true, location: location.check, error: 'Check-in location is not in the lecture room' });
+    }
+
+    flags.push('location');
+  }
+
+  const network: NetworkCheck | null = allowList ? checkNetwork(allowList.networks, ip) : null;
+
+  if (allowList && network !== 'allowed') {
+    console.log('[Submit] Network check failed:', { session: session.id, id: studentId, ip, network, policy: allowList.policy });
+
+    if (allowList.policy === 'block') {
+      return json(403, { success: false, outsideNetwork: true, error: 'Check-in network is not allowed for this lecture' });
+    }
+
+    flags.push('network');
+  }
+
+  // Courses that bind devices hold each student to the device of their first recorded check-in
+  const binding = devicePolicy !== 'ignore' ? await checkDeviceBinding(supabase, studentId, device_id) : null;
+
+  if (binding === 'mismatch') {
+    console.log('[Submit] Unbound device:', { session: session.id, id: studentId, device_id, policy: devicePolicy });
+
+    if (devicePolicy === 'block') {
+      return json(403, { success: false, unboundDevice: true, error: 'This device is not the one registered for this student' });
+    }
+
+    flags.push('device');
+  }
+
+  // Proxy-attendance score. A failure here is logged and the check-in goes ahead unscored:
+  // losing a student's attendance is worse than missing one review.
+  const traits = parseDeviceTraits(body.device_traits);
+  let risk: RiskAssessment = { score: 0, reasons: [], related: [] };
+
+  try {
+    risk = await scoreSubmission(supabase, { sessionId: session.id, studentId, deviceId: device_id, traits });
+  } catch (scoreError) {
+    console.error('[Submit] Risk scoring failed:', scoreError);
+  }
+
+  const needsReview = risk.score >= RISK_REVIEW_THRESHOLD;
+
+  if (needsReview) {
+    console.log('[Submit] Queued for review:', { session: session.id, id: studentId, ...risk });
+    flags.push('risk');
+  }
+
+  // Cooldown check, cooldown row and attendance row are written in one transaction
+  const { data, error } = await supabase.rpc('record_attendance', {
+    p_session_id: session.id,
+    p_student_id: studentId,
+    p_student_name: studentName,
+    p_device_id: device_id,
+    p_token_nonce: payload!.nonce,
+    p_cooldown_minutes: COOLDOWN_MINUTES,
+    p_status: checkInStatus,
+    p_location_check: location?.check ?? null,
+    p_location_distance_m: location?.distance_m ?? null,
+    p_location_accuracy_m: location?.accuracy_m ?? null,
+    p_flags: flags,
+    p_network_check: network,
+    p_client_ip: ip,
+    p_device_traits: traits,
+    p_risk_score: risk.score,
+    p_risk_reasons: risk.reasons,
+    p_risk_related: risk.related,
+    p_review_status: needsReview ? 'pending' : null,
+    p_passkey_credential_id: passkeyCredentialId,
+    p_bind_device: binding === 'unbound',
+  });
+
+  if (error) {
+    console.error('[Submit] Record error:', error);
+    return json(500, { success: false, error: error.message });
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+
+  if (result.status === 'cooldown') {
+    console.log('[Submit] Blocked - device in cooldown');
+    return json(403, {
+      success: false,
+      inCooldown: true,
+      remaining: Number(result.remaining_ms),
+      message: 'Device is in cooldown period'
+    });
+  }
+
+  if (result.status === 'duplicate') {
+    console.log('[Submit] Student already recorded for session:', { session: session.id, id: studentId });
+    return json(409, { success: false, duplicate: true, error: 'Attendance already recorded for this student' });
+  }
+
+  console.log('[Submit] Attendance recorded:', { record_id: result.record_id, status: checkInStatus });
+
+  return json(200, {
+    success: true,
+    message: 'Attendance recorded',
+    recordId: result.record_id,
+    status: checkInStatus,
+    cooldownUntil: new Date(Date.now() + COOLDOWN_MINUTES * 60 * 1000).toISOString()
+  });
+});
@@ -0,0 +1,70 @@
+import { defineHandler, json } from '../http.ts';
+import { supabaseConfigMissing, tokenConfigMissing } from '../context.ts';
+import { verifySignedToken } from '../lib/signedToken.ts';
+import { getMaxForwards, redeemNonce } from '../lib/redemption.ts';
+import { getLectureSession, isSessionOpen, toLectureSummary } from '../lib/lectureSessions.ts';
+import { getSessionGeofence } from '../lib/geofence.ts';
+
+interface VerifyRequest {
+  token: string;
+  device_id: string;
+}
+
+export const verifyToken = defineHandler<VerifyRequest>('Verify Token', async ({ body }, { env, supabase }) => {
+  const secret = env.QR_TOKEN_SECRET;
+
+  if (!secret) {
+    return tokenConfigMissing();
+  }
+
+  if (!supabase) {
+    return supabaseConfigMissing(env);
+  }
+
+  const { token, device_id } = body;
+
+  if (!token || typeof token !== 'string') {
+    return json(400, { success: false, valid: false, expired: false, timeLeft: 0, error: 'Token is required' });
+  }
+
+  if (!device_id) {
+    return json(400, { success: false, valid: false, expired: false, timeLeft: 0, error: 'Device ID is required' });
+  }
+
+  const { valid, expired, timeLeft, payload } = await verifySignedToken(token, secret);
+
+  console.log('[Verify Token] Result:', { valid, expired, timeLeft });
+
+  // Exit QR codes are redeemed through /api/record-exit, never as a check-in
+  if (!valid || payload!.mode === 'exit') {
+    return json(200, { success: true, valid: false, expired, timeLeft: 0 });
+  }
+
+  const session = await getLectureSession(supabase, payload!.sid);
+
+  if (!session || !isSessionOpen(session)) {
+    console.log('[Verify Token] Session not open:', payload!.sid);
+    return json(200, { success: true, valid: false, expired: true, timeLeft: 0 });
+  }
+
+  // Only a live, correctly signed token reaches the redemption ledger
+  const maxForwards = session.max_forwards ?? getMaxForwards(env);
+  const { status, originalDeviceId } = await redeemNonce(supabase, payload!.nonce, device_id, maxForwards);
+
+  if (status === 'forward_allowed' || status === 'forward_rejected') {
+    console.warn('[Verify Token] Suspected forward:', { nonce: payload!.nonce, device_id, originalDeviceId, status });
+  }
+
+  if (status === 'forward_rejected') {
+    return json(200, { success: true, valid: false, expired: false, timeLeft: 0, forwarded: true });
+  }
+
+  return json(200, {
+    success: true,
+    valid: true,
+    expired: false,
+    timeLeft,
+    forwarded: status === 'forward_allowed',
+    lecture: toLectureSummary(session, (await getSessionGeofence(supabase, session)) !== null),
+  });
+});
@@ -0,0 +1,121 @@
+// Runtime-neutral request and response shapes.
+// Handlers only ever see these; the adapters in server/adapters translate to and from each platform.
+import type { CoreContext } from './context.ts';
+
+export interface CoreRequest<TBody = unknown> {
+  method: string;
+  // Route below /api, e.g. "issue-token" or "roster/import"
+  path: string;
+  // Header names are lowercase
+  headers: Record<string, string | undefined>;
+  query: Record<string, string | undefined>;
+  // Parsed JSON body, an empty object when the request had none
+  body: TBody;
+  ip: string | null;
+}
+
+export interface CoreResponse {
+  status: number;
+  headers?: Record<string, string>;
+  // Strings and bytes are sent as-is, anything else is serialized as JSON
+  body?: unknown;
+}
+
+export type CoreHandler = (req: CoreRequest, ctx: CoreContext) => Promise<CoreResponse>;
+
+const corsHeaders = (methods: string[]): Record<string, string> => ({
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+});
+
+// "/api/roster/import/" and "/functions/v1/api/roster/import" both become "roster/import"
+export const toRoutePath = (pathname: string): string =>
+  pathname.replace(/^.*?\/api\//, '').replace(/^\/+|\/+$/g, '');
+
+export const json = (status: number, body: unknown, headers?: Record<string, string>): CoreResponse => ({
+  status,
+  headers,
+  body,
+});
+
+export const readCookie = (req: CoreRequest, name: string): string | null => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+// HttpOnly and SameSite=Strict: never readable from scripts and never sent on cross-site requests
+export const serializeCookie = (name: string, value: string, maxAgeSeconds: number): string =>
+  `${name}=${encodeURIComponent(value)}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${maxAgeSeconds}`;
+
+// Wrap a handler with the behaviour every endpoint shares: CORS, preflight,
+// method check and turning thrown errors into a JSON 500.
+export const defineHandler = <TBody = Record<string, unknown>>(
+  tag: string,
+  handle: (req: CoreRequest<TBody>, ctx: CoreContext) => Promise<CoreResponse>,
+  methods: string[] = ['POST']
+): CoreHandler => async (req, ctx) => {
+  const cors = corsHeaders(methods);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return { status: 200, headers: cors };
+  }
+
+  if (!methods.includes(req.method)) {
+    return json(405, { success: false, error: 'Method not allowed' }, cors);
+  }
+
+  try {
+    const response = await handle(req as CoreRequest<TBody>, ctx);
+    return { ...response, headers: { ...cors, ...response.headers } };
+  } catch (error: unknown) {
+    console.error(`[${tag}] Error:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return json(500, { success: false, error: errorMessage }, cors);
+  }
+};
+
+// "203.0.113.7:443" and "[2001:db8::1]:443" lose their port; bare IPv6 addresses are left alone
+const stripPort = (address: string): string => {
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  return /^[\d.]+:\d+$/.test(address) ? address.slice(0, address.lastIndexOf(':')) : address;
+};
+
+// The client address from a source the adapter trusts on its platform. Each adapter picks its
+// own source and never falls back to another platform's header, which a client could set itself.
+export const normalizeClientIp = (address: string | null | undefined): string | null =>
+  address?.trim() ? stripPort(address.trim()) : null;
+
+// Body and headers ready to hand to a platform response object
+export const serializeResponse = (
+  response: CoreResponse
+): { headers: Record<string, string>; body: string | Uint8Array | null } => {
+  const headers = { ...response.headers };
+
+  if (response.body === undefined || response.body === null) {
+    return { headers, body: null };
+  }
+
+  if (typeof response.body === 'string' || response.body instanceof Uint8Array) {
+    return { headers, body: response.body };
+  }
+
+  return {
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(response.body),
+  };
+};
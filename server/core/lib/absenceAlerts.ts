@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CoreEnv } from '../context.ts';
+import { sendTelegramMessage } from './telegram.ts';
+import { getStudentNotifier } from './studentNotifier.ts';
+
+interface AlertCourse {
+  id: string;
+  code: string;
+  name: string;
+  absence_limit: number;
+  absence_warning_levels: number[];
+  telegram_chat_id: string | null;
+}
+
+interface StudentAbsences {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+  absences: number;
+}
+
+interface NewWarning extends StudentAbsences {
+  level: number;
+}
+
+export interface AbsenceAlertSummary {
+  courses: number;
+  warnings: number;
+  studentFailures: number;
+  instructorFailures: number;
+}
+
+// Absences at which a level is reached, e.g. 50% of a limit of 5 is the 3rd absence
+const absencesForLevel = (limit: number, level: number): number => Math.ceil((limit * level) / 100);
+
+const formatStudentMessage = (course: AlertCourse, warning: NewWarning): string =>
+  warning.absences >= course.absence_limit
+    ? `بلغ عدد غيابك في مادة ${course.name} (${course.code}) ${warning.absences} من أصل ${course.absence_limit} غيابات مسموح بها. يرجى مراجعة المحاضر.`
+    : `تنبيه: عدد غيابك في مادة ${course.name} (${course.code}) ${warning.absences} من أصل ${course.absence_limit} غيابات مسموح بها.`;
+
+const formatInstructorMessage = (course: AlertCourse, warnings: NewWarning[]): string =>
+  `⚠️ *تنبيهات الغياب*\n\n` +
+  `📚 *المادة:* ${course.name} (${course.code})\n` +
+  `🚫 *الحد المسموح:* ${course.absence_limit}\n\n` +
+  warnings
+    .map((warning) => `• ${warning.full_name} (\`${warning.student_id}\`) - ${warning.absences} غياب (${warning.level}%)`)
+    .join('\n');
+
+// Warnings for one course that were not sent before. Every level a student has reached is recorded,
+// and only the highest new one is reported, so a student who skips past 50% straight to 80% gets one message.
+const claimNewWarnings = async (supabase: SupabaseClient, course: AlertCourse): Promise<NewWarning[]> => {
+  const levels = [...new Set(course.absence_warning_levels)].sort((a, b) => a - b);
+
+  if (levels.length === 0) {
+    return [];
+  }
+
+  const { data: rows, error } = await supabase
+    .from('attendance_absences')
+    .select('student_id, full_name, section, absences')
+    .eq('course_id', course.id)
+    .gte('absences', absencesForLevel(course.absence_limit, levels[0]));
+
+  if (error) {
+    throw error;
+  }
+
+  const students = (rows || []) as StudentAbsences[];
+  const reached = students.flatMap((student) =>
+    levels
+      .filter((level) => student.absences >= absencesForLevel(course.absence_limit, level))
+      .map((level) => ({
+        course_id: course.id,
+        student_id: student.student_id,
+        level,
+        absences: student.absences,
+        absence_limit: course.absence_limit,
+      }))
+  );
+
+  if (reached.length === 0) {
+    return [];
+  }
+
+  // The primary key makes this the claim: a row already there means that warning went out on an earlier run
+  const { data: inserted, error: insertError } = await supabase
+    .from('absence_alerts')
+    .upsert(reached, { onConflict: 'course_id,student_id,level', ignoreDuplicates: true })
+    .select('student_id, level');
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  const highestNewLevel = new Map<string, number>();
+  for (const row of inserted || []) {
+    highestNewLevel.set(row.student_id, Math.max(row.level, highestNewLevel.get(row.student_id) ?? 0));
+  }
+
+  return students
+    .filter((student) => highestNewLevel.has(student.student_id))
+    .map((student) => ({ ...student, level: highestNewLevel.get(student.student_id)! }));
+};
+
+// Check every course with an absence limit and warn students (and their instructor) who crossed
+// a warning level since the last run. Meant to be called by the scheduled job.
+export const runAbsenceAlerts = async (supabase: SupabaseClient, env: CoreEnv): Promise<AbsenceAlertSummary> => {
+  const { data: courses, error } = await supabase
+    .from('courses')
+    .select('id, code, name, absence_limit, absence_warning_levels, telegram_chat_id')
+    .not('absence_limit', 'is', null);
+
+  if (error) {
+    throw error;
+  }
+
+  const notifier = getStudentNotifier(env);
+  const summary: AbsenceAlertSummary = { courses: 0, warnings: 0, studentFailures: 0, instructorFailures: 0 };
+
+  for (const course of (courses || []) as AlertCourse[]) {
+    summary.courses += 1;
+
+    const warnings = await claimNewWarnings(supabase, course);
+
+    if (warnings.length === 0) {
+      continue;
+    }
+
+    summary.warnings += warnings.length;
+
+    for (const warning of warnings) {
+      if (!notifier) {
+        summary.studentFailures += 1;
+        continue;
+      }
+
+      try {
+        const delivered = await notifier.notify(
+          { student_id: warning.student_id, full_name: warning.full_name, course_id: course.id },
+          formatStudentMessage(course, warning)
+        );
+        if (!delivered) summary.studentFailures += 1;
+      } catch (notifyError) {
+        console.error('[Absence Alerts] Student notification error:', notifyError);
+        summary.studentFailures += 1;
+      }
+    }
+
+    if (env.TELEGRAM_BOT_TOKEN && (course.telegram_chat_id || env.TELEGRAM_CHAT_ID)) {
+      try {
+        const result = await sendTelegramMessage(env, formatInstructorMessage(course, warnings), course.telegram_chat_id);
+        if (!result.ok) {
+          console.error('[Absence Alerts] Telegram failed:', result.description);
+          summary.instructorFailures += 1;
+        }
+      } catch (telegramError) {
+        console.error('[Absence Alerts] Telegram error:', telegramError);
+        summary.instructorFailures += 1;
+      }
+    }
+  }
+
+  console.log('[Absence Alerts] Run finished:', { notifier: notifier?.name ?? null, ...summary });
+  return summary;
+};
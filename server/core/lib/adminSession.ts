@@ -0,0 +1,104 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { json, type CoreRequest, type CoreResponse } from '../http.ts';
+import type { CoreContext } from '../context.ts';
+import { createCookieSessions, withCookieSession, type SessionRow } from './cookieSession.ts';
+import type { AdminRole } from './permissions.ts';
+
+export const ADMIN_SESSION_COOKIE = 'qr_admin_session';
+
+// How long a login lasts before the admin has to sign in again
+export const ADMIN_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+export interface AuthenticatedAdmin {
+  id: string;
+  username: string;
+  display_name: string | null;
+  role: AdminRole;
+  // admin_sessions row behind the cookie
+  sessionId: string;
+}
+
+export type AdminContext = CoreContext & { supabase: SupabaseClient; admin: AuthenticatedAdmin };
+
+interface AdminRow {
+  id: string;
+  username: string;
+  display_name: string | null;
+  role: AdminRole;
+  disabled_at: string | null;
+}
+
+const adminSessions = createCookieSessions({
+  table: 'admin_sessions',
+  ownerColumn: 'admin_id',
+  cookie: ADMIN_SESSION_COOKIE,
+  ttlMs: ADMIN_SESSION_TTL_MS,
+});
+
+export const sessionConfigMissing = (): CoreResponse => {
+  console.error('Missing session configuration - ADMIN_SESSION_SECRET');
+  return json(500, {
+    success: false,
+    error: 'Session configuration is missing. Add ADMIN_SESSION_SECRET to the server environment.'
+  });
+};
+
+// Start a session row and return the Set-Cookie header value for it
+export const createAdminSession = adminSessions.create;
+
+// Complete a sign-in: start the session and answer with the admin profile and cookie
+export const signedInResponse = async (
+  supabase: SupabaseClient,
+  secret: string,
+  admin: Pick<AuthenticatedAdmin, 'id' | 'username' | 'display_name' | 'role'>,
+  req: CoreRequest
+): Promise<CoreResponse> => {
+  const { cookie, expiresAt } = await createAdminSession(supabase, secret, admin.id, req);
+
+  return json(200, {
+    success: true,
+    admin: { id: admin.id, username: admin.username, displayName: admin.display_name, role: admin.role },
+    expiresAt,
+  }, { 'Set-Cookie': cookie, 'Cache-Control': 'no-store' });
+};
+
+export const clearAdminSessionCookie = adminSessions.clearCookie;
+
+// Resolve the signed-in admin from the request cookie. A live session is not enough on its own:
+// the admin account must also still be enabled.
+export const getAdminSession = async (
+  supabase: SupabaseClient,
+  secret: string,
+  req: CoreRequest,
+  now = Date.now()
+): Promise<AuthenticatedAdmin | null> => {
+  // Many-to-one embed: a single object, although the untyped client would declare an array
+  const session = await adminSessions.find<SessionRow & { admins: AdminRow | null }>(
+    supabase,
+    secret,
+    req,
+    'admins(id, username, display_name, role, disabled_at)',
+    now
+  );
+
+  const admin = session?.admins;
+
+  if (!session || !admin || admin.disabled_at) {
+    return null;
+  }
+
+  return { id: admin.id, username: admin.username, display_name: admin.display_name, role: admin.role, sessionId: session.id };
+};
+
+export const revokeAdminSession = adminSessions.revoke;
+
+const adminGuard = withCookieSession(
+  (env) => env.ADMIN_SESSION_SECRET,
+  sessionConfigMissing,
+  (supabase, secret, req) => getAdminSession(supabase, secret, req),
+  'Admin sign-in required'
+);
+
+// Guard for admin endpoints: answers 401 unless the request carries a live admin session
+export const withAdmin = <TBody>(handle: (req: CoreRequest<TBody>, ctx: AdminContext) => Promise<CoreResponse>) =>
+  adminGuard<TBody>((req, ctx, admin) => handle(req, { ...ctx, admin }));
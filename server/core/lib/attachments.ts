@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Private bucket created by the corrections migration
+const ATTACHMENT_BUCKET = 'attendance-attachments';
+
+// Keep well under the 4.5 MB Vercel request body limit once base64 encoded
+const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+
+// Links handed to the admin UI stop working after this long
+const SIGNED_URL_SECONDS = 10 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface AttachmentUpload {
+  type: string;
+  // Raw file contents, base64 encoded
+  data: string;
+}
+
+export interface Attachment {
+  type: string;
+  bytes: Uint8Array;
+}
+
+// null when nothing was attached, a message when the upload is not acceptable
+export const parseAttachment = (upload: AttachmentUpload | null | undefined): Attachment | string | null => {
+  if (!upload || !upload.data) {
+    return null;
+  }
+
+  if (!EXTENSIONS[upload.type]) {
+    return 'Attachment must be a PDF or an image';
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(upload.data), (char) => char.charCodeAt(0));
+  } catch {
+    return 'Attachment is not valid base64';
+  }
+
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    return 'Attachment is too large';
+  }
+
+  return { type: upload.type, bytes };
+};
+
+// Upload under folder/ with a random name and return the storage path
+export const storeAttachment = async (supabase: SupabaseClient, folder: string, attachment: Attachment): Promise<string> => {
+  const path = `${folder}/${crypto.randomUUID()}.${EXTENSIONS[attachment.type]}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, attachment.bytes, { contentType: attachment.type });
+
+  if (error) {
+    throw error;
+  }
+
+  return path;
+};
+
+// Short-lived download links keyed by path; paths that could not be signed are left out
+export const getAttachmentUrls = async (supabase: SupabaseClient, paths: string[]): Promise<Map<string, string>> => {
+  const urls = new Map<string, string>();
+
+  if (paths.length === 0) {
+    return urls;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls([...new Set(paths)], SIGNED_URL_SECONDS);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) {
+      urls.set(item.path, item.signedUrl);
+    }
+  }
+
+  return urls;
+};
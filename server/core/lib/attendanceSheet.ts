@@ -0,0 +1,152 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isEarlyLeave, type LectureSession } from './lectureSessions.ts';
+
+const encoder = new TextEncoder();
+
+// Printed next to each name; enough to tell devices apart without exposing the full fingerprint
+const DEVICE_SUFFIX_LENGTH = 6;
+
+export interface SheetRecord {
+  student_id: string;
+  student_name: string;
+  // Null for students marked present or excused by hand without a scan
+  recorded_at: string | null;
+  status: string;
+  device_suffix: string | null;
+  left_at: string | null;
+  early_leave: boolean;
+  // The status comes from an attendance correction
+  corrected: boolean;
+}
+
+export interface AttendanceSheet {
+  session: LectureSession;
+  course_code: string | null;
+  records: SheetRecord[];
+  // SHA-256 (hex) of the records and corrections as stored, see hashAttendanceRecords
+  integrity_hash: string;
+  generated_at: string;
+}
+
+interface StoredRecord {
+  id: string;
+  student_id: string;
+  student_name: string;
+  device_id: string;
+  recorded_at: string;
+  status: string;
+  left_at: string | null;
+}
+
+interface StoredCorrection {
+  id: string;
+  student_id: string;
+  student_name: string;
+  status: string;
+  reason: string;
+  updated_at: string;
+}
+
+const byId = (a: { id: string }, b: { id: string }): number => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// One line per record in id order, so the same rows always give the same hash and any later
+// change to a name, time, device, status or exit gives a different one. left_at is only added
+// when set, so sheets printed before exit scans existed still check out. Corrections follow as
+// their own lines, also only when there are any, and cover what the sheet prints in their place.
+export const hashAttendanceRecords = async (
+  sessionId: string,
+  records: StoredRecord[],
+  corrections: StoredCorrection[] = []
+): Promise<string> => {
+  const lines = [...records]
+    .sort(byId)
+    .map((record) =>
+      [record.id, record.student_id, record.student_name, record.device_id, record.recorded_at, record.status]
+        .concat(record.left_at ? [record.left_at] : [])
+        .join('\t')
+    );
+  const correctionLines = [...corrections]
+    .sort(byId)
+    .map((correction) =>
+      ['correction', correction.id, correction.student_id, correction.student_name, correction.status, correction.reason, correction.updated_at]
+        .join('\t')
+    );
+  const canonical = [sessionId, ...lines, ...correctionLines].join('\n');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(canonical)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Students as they stand after corrections, like reports and analytics: a correction to absent
+// removes the scanned student, one to present or excused adds a student who never scanned
+export const buildAttendanceSheet = async (supabase: SupabaseClient, session: LectureSession): Promise<AttendanceSheet> => {
+  const [{ data: records, error }, { data: corrections, error: correctionsError }, { data: course, error: courseError }] = await Promise.all([
+    supabase
+      .from('attendance_records')
+      .select('id, student_id, student_name, device_id, recorded_at, status, left_at')
+      .eq('session_id', session.id)
+      .order('recorded_at', { ascending: true }),
+    supabase
+      .from('attendance_corrections')
+      .select('id, student_id, student_name, status, reason, updated_at')
+      .eq('session_id', session.id)
+      .order('student_name', { ascending: true }),
+    session.course_id
+      ? supabase.from('courses').select('code').eq('id', session.course_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  if (correctionsError) {
+    throw correctionsError;
+  }
+
+  if (courseError) {
+    throw courseError;
+  }
+
+  const stored = (records || []) as StoredRecord[];
+  const storedCorrections = (corrections || []) as StoredCorrection[];
+  const correctionByStudent = new Map(storedCorrections.map((correction) => [correction.student_id, correction]));
+  const scanned = new Set(stored.map((record) => record.student_id));
+  const hadExitScan = stored.some((record) => record.left_at);
+
+  const scannedRows: SheetRecord[] = stored
+    .filter((record) => correctionByStudent.get(record.student_id)?.status !== 'absent')
+    .map((record) => {
+      const correction = correctionByStudent.get(record.student_id);
+      return {
+        student_id: record.student_id,
+        student_name: record.student_name,
+        recorded_at: record.recorded_at,
+        status: correction?.status ?? record.status,
+        device_suffix: record.device_id.slice(-DEVICE_SUFFIX_LENGTH),
+        left_at: record.left_at,
+        early_leave: isEarlyLeave(session, record.left_at, hadExitScan),
+        corrected: !!correction,
+      };
+    });
+
+  const addedRows: SheetRecord[] = storedCorrections
+    .filter((correction) => !scanned.has(correction.student_id) && correction.status !== 'absent')
+    .map((correction) => ({
+      student_id: correction.student_id,
+      student_name: correction.student_name,
+      recorded_at: null,
+      status: correction.status,
+      device_suffix: null,
+      left_at: null,
+      early_leave: false,
+      corrected: true,
+    }));
+
+  return {
+    session,
+    course_code: course?.code ?? null,
+    records: [...scannedRows, ...addedRows],
+    integrity_hash: await hashAttendanceRecords(session.id, stored, storedCorrections),
+    generated_at: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,288 @@
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import bidiFactory from 'bidi-js';
+import { loadCairoRegular } from './fonts/cairo.ts';
+import { CELL_LABELS, REPORT_TIME_ZONE, type AttendanceCell } from './reports.ts';
+import type { AttendanceSheet } from './attendanceSheet.ts';
+
+const bidi = bidiFactory();
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 44;
+const ROW_HEIGHT = 24;
+const CELL_PADDING = 4;
+const SIGNATURES_HEIGHT = 100;
+
+const TEXT = rgb(0, 0, 0);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const BORDER = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.94, 0.94, 0.94);
+
+// Only steer the bidi algorithm (Intl puts them in Arabic dates); the font has no glyphs for them
+const BIDI_MARKS = /[\u200e\u200f\u061c\u202a-\u202e\u2066-\u2069]/g;
+
+// Characters the font's layout treats as right-to-left script
+const ARABIC_SCRIPT = /[\u0600-\u06ff]/;
+
+type Align = 'right' | 'center' | 'left';
+
+type Direction = 'rtl' | 'ltr';
+
+interface Column {
+  title: string;
+  width: number;
+  align: Align;
+}
+
+// Right to left, like the printed page; the name takes what the others leave
+const COLUMN_WIDTHS = [28, 82, 0, 62, 72, 62, 58];
+COLUMN_WIDTHS[2] = CONTENT_WIDTH - COLUMN_WIDTHS.reduce((sum, width) => sum + width, 0);
+
+const COLUMNS: Column[] = [
+  { title: '#', width: COLUMN_WIDTHS[0], align: 'center' },
+  { title: 'رقم الطالب', width: COLUMN_WIDTHS[1], align: 'right' },
+  { title: 'الاسم', width: COLUMN_WIDTHS[2], align: 'right' },
+  { title: 'وقت التسجيل', width: COLUMN_WIDTHS[3], align: 'center' },
+  { title: 'الحالة', width: COLUMN_WIDTHS[4], align: 'center' },
+  { title: 'الخروج', width: COLUMN_WIDTHS[5], align: 'center' },
+  { title: 'الجهاز', width: COLUMN_WIDTHS[6], align: 'center' },
+];
+
+// Pieces of a line in one direction each, ordered left to right as drawn (rule L2 of the bidi
+// algorithm). Each piece keeps its logical order: the font's layout shapes Arabic and places it
+// right to left on its own, but it goes by script rather than bidi level: it also reverses
+// Arabic-Indic digits (dates, times) and leaves runs of bare punctuation alone, so those pieces
+// are handed over reversed to come out in the right order.
+const visualRuns = (text: string, direction: Direction = 'rtl'): string[] => {
+  const { levels } = bidi.getEmbeddingLevels(text, direction);
+  const mirrored = bidi.getMirroredCharactersMap(text, levels);
+  const runs: { text: string; level: number }[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = mirrored.get(i) ?? text[i];
+    const last = runs[runs.length - 1];
+
+    if (last && last.level === levels[i]) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, level: levels[i] });
+    }
+  }
+
+  const highest = Math.max(0, ...runs.map((run) => run.level));
+  const lowestOdd = Math.min(...runs.map((run) => run.level | 1));
+
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let start = 0; start < runs.length; start++) {
+      if (runs[start].level < level) continue;
+      let end = start;
+      while (end + 1 < runs.length && runs[end + 1].level >= level) end++;
+      runs.splice(start, end - start + 1, ...runs.slice(start, end + 1).reverse());
+      start = end;
+    }
+  }
+
+  return runs
+    .map((run) => {
+      const piece = run.text.replace(BIDI_MARKS, '');
+      return run.level % 2 === 1 === ARABIC_SCRIPT.test(piece) ? piece : [...piece].reverse().join('');
+    })
+    .filter(Boolean);
+};
+
+const textWidth = (font: PDFFont, text: string, size: number, direction?: Direction): number =>
+  visualRuns(text, direction).reduce((width, run) => width + font.widthOfTextAtSize(run, size), 0);
+
+// Shortened with an ellipsis when it does not fit the cell
+const fitText = (font: PDFFont, text: string, size: number, maxWidth: number, direction?: Direction): string => {
+  if (textWidth(font, text, size, direction) <= maxWidth) {
+    return text;
+  }
+
+  let end = text.length;
+  while (end > 0 && textWidth(font, `${text.substring(0, end).trimEnd()}…`, size, direction) > maxWidth) end--;
+  return `${text.substring(0, end).trimEnd()}…`;
+};
+
+// Draw a line of mixed Arabic and Latin text inside [x, x + width]
+const drawText = (
+  page: PDFPage,
+  font: PDFFont,
+  text: string,
+  { x, y, width, size, align = 'right', direction = 'rtl', color = TEXT }: {
+    x: number;
+    y: number;
+    width: number;
+    size: number;
+    align?: Align;
+    direction?: Direction;
+    color?: ReturnType<typeof rgb>;
+  }
+) => {
+  const fitted = fitText(font, text, size, width, direction);
+  const total = textWidth(font, fitted, size, direction);
+  let cursor = align === 'right' ? x + width - total : align === 'center' ? x + (width - total) / 2 : x;
+
+  for (const run of visualRuns(fitted, direction)) {
+    page.drawText(run, { x: cursor, y, size, font, color });
+    cursor += font.widthOfTextAtSize(run, size);
+  }
+};
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('ar-EG', { timeZone: REPORT_TIME_ZONE, hour: '2-digit', minute: '2-digit' });
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('ar-EG', { timeZone: REPORT_TIME_ZONE, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+const drawHeader = (page: PDFPage, font: PDFFont, sheet: AttendanceSheet): number => {
+  const { session } = sheet;
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  drawText(page, font, 'كشف حضور محاضرة', { x: MARGIN, y, width: CONTENT_WIDTH, size: 9, color: MUTED });
+  y -= 24;
+  drawText(page, font, `${sheet.course_code ? `${sheet.course_code} - ` : ''}${session.course}`, { x: MARGIN, y, width: CONTENT_WIDTH, size: 16 });
+  y -= 22;
+
+  const details: string[] = [
+    `التاريخ: ${formatDate(session.starts_at)}`,
+    `الوقت: ${formatTime(session.starts_at)} - ${formatTime(session.closed_at || session.ends_at)}`,
+    `المحاضر: ${session.instructor}`,
+    `القاعة: ${session.room || '-'}`,
+    ...(session.week_number !== null ? [`الأسبوع: ${session.week_number}`] : []),
+    `عدد الحضور: ${sheet.records.length}`,
+  ];
+  const half = (CONTENT_WIDTH - 24) / 2;
+
+  details.forEach((detail, index) => {
+    // Two columns, filled from the right
+    const x = index % 2 === 0 ? MARGIN + half + 24 : MARGIN;
+    drawText(page, font, detail, { x, y, width: half, size: 9.5 });
+    if (index % 2 === 1 || index === details.length - 1) y -= 16;
+  });
+
+  y -= 2;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1.5, color: TEXT });
+  return y - 12;
+};
+
+// Cells from the right edge, each with an optional small second line
+const drawRow = (
+  page: PDFPage,
+  font: PDFFont,
+  top: number,
+  cells: { text: string; note?: string | null; direction?: Direction }[],
+  header = false
+) => {
+  let right = PAGE_WIDTH - MARGIN;
+
+  COLUMNS.forEach((column, index) => {
+    const x = right - column.width;
+    const { text, note, direction } = cells[index];
+
+    page.drawRectangle({
+      x,
+      y: top - ROW_HEIGHT,
+      width: column.width,
+      height: ROW_HEIGHT,
+      borderColor: BORDER,
+      borderWidth: 0.75,
+      ...(header ? { color: HEADER_FILL } : {}),
+    });
+
+    const box = { x: x + CELL_PADDING, width: column.width - 2 * CELL_PADDING, align: header ? 'center' as const : column.align };
+    drawText(page, font, text, { ...box, direction, y: top - (note ? 12 : 15), size: 9 });
+
+    if (note) {
+      drawText(page, font, note, { ...box, align: 'center', y: top - 20.5, size: 6.5 });
+    }
+
+    right = x;
+  });
+};
+
+const drawSignatures = (page: PDFPage, font: PDFFont, top: number) => {
+  const width = (CONTENT_WIDTH - 48) / 2;
+
+  ['توقيع المحاضر', 'اعتماد رئيس القسم'].forEach((title, index) => {
+    const x = index === 0 ? PAGE_WIDTH - MARGIN - width : MARGIN;
+    drawText(page, font, title, { x, y: top - 12, width, size: 9.5 });
+    page.drawLine({ start: { x, y: top - 50 }, end: { x: x + width, y: top - 50 }, thickness: 0.75, color: TEXT });
+    drawText(page, font, 'الاسم والتاريخ', { x, y: top - 64, width, size: 9, color: MUTED });
+  });
+};
+
+const drawFooter = (page: PDFPage, font: PDFFont, sheet: AttendanceSheet, pageNumber: number, pageCount: number) => {
+  const top = MARGIN + FOOTER_HEIGHT - 14;
+  page.drawLine({ start: { x: MARGIN, y: top }, end: { x: PAGE_WIDTH - MARGIN, y: top }, thickness: 0.5, color: BORDER });
+
+  const generated = new Date(sheet.generated_at).toLocaleString('ar-EG', { timeZone: REPORT_TIME_ZONE });
+  drawText(page, font, `أُنشئ في ${generated} · المحاضرة ${sheet.session.id}`, { x: MARGIN, y: top - 11, width: CONTENT_WIDTH - 60, size: 7, color: MUTED });
+  drawText(page, font, `بصمة السجلات (SHA-256): ${sheet.integrity_hash}`, { x: MARGIN, y: top - 22, width: CONTENT_WIDTH - 60, size: 7, color: MUTED });
+  drawText(page, font, `صفحة ${pageNumber} من ${pageCount}`, { x: MARGIN, y: top - 11, width: 60, size: 7, align: 'left', color: MUTED });
+};
+
+// The attendance sheet as an A4 PDF, the same content as the printable page. Rows run onto further
+// pages with the column headings repeated; every page carries the records hash.
+export const renderAttendanceSheetPdf = async (sheet: AttendanceSheet, { signatures = true } = {}): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  const font = await doc.embedFont(loadCairoRegular(), { subset: true });
+
+  doc.setTitle(`${sheet.course_code ? `${sheet.course_code} - ` : ''}${sheet.session.course}`);
+  doc.setCreationDate(new Date(sheet.generated_at));
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = drawHeader(page, font, sheet);
+  const bottom = MARGIN + FOOTER_HEIGHT;
+
+  const headingRow = () => {
+    drawRow(page, font, y, COLUMNS.map((column) => ({ text: column.title })), true);
+    y -= ROW_HEIGHT;
+  };
+
+  if (sheet.records.length === 0) {
+    y -= 30;
+    drawText(page, font, 'لم يسجل أي طالب حضوره في هذه المحاضرة', { x: MARGIN, y, width: CONTENT_WIDTH, size: 11, align: 'center', color: MUTED });
+    y -= 20;
+  } else {
+    headingRow();
+
+    sheet.records.forEach((record, index) => {
+      if (y - ROW_HEIGHT < bottom) {
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        headingRow();
+      }
+
+      drawRow(page, font, y, [
+        { text: String(index + 1) },
+        { text: record.student_id },
+        { text: record.student_name },
+        { text: record.recorded_at ? formatTime(record.recorded_at) : '-' },
+        { text: CELL_LABELS[record.status as AttendanceCell] || record.status, note: record.corrected ? 'تعديل يدوي' : null },
+        { text: record.left_at ? formatTime(record.left_at) : '-', note: record.early_leave ? 'خروج مبكر' : null },
+        { text: record.device_suffix ? `…${record.device_suffix}` : '-', direction: 'ltr' },
+      ]);
+      y -= ROW_HEIGHT;
+    });
+  }
+
+  if (signatures) {
+    if (y - 30 - SIGNATURES_HEIGHT < bottom) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    drawSignatures(page, font, y - 30);
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((item, index) => drawFooter(item, font, sheet, index + 1, pages.length));
+
+  return doc.save();
+};
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CoreRequest } from '../http.ts';
+
+export type AuditAction =
+  | 'admin.login'
+  | 'admin.login_failed'
+  | 'admin.logout'
+  | 'admin.two_factor_enabled'
+  | 'admin.two_factor_disabled'
+  | 'admin.recovery_codes_replaced'
+  | 'admin_user.created'
+  | 'admin_user.updated'
+  | 'admin_user.disabled'
+  | 'admin_user.enabled'
+  | 'attendance.corrected'
+  | 'attendance.review_cleared'
+  | 'attendance.review_confirmed'
+  | 'attendance_sheet.exported'
+  | 'course.created'
+  | 'course.updated'
+  | 'course.staff_assigned'
+  | 'course.staff_removed'
+  | 'device.binding_reset'
+  | 'device.rebind_approved'
+  | 'device.rebind_rejected'
+  | 'excuse.approved'
+  | 'excuse.rejected'
+  | 'report.exported'
+  | 'room.created'
+  | 'room.updated'
+  | 'room.deleted'
+  | 'roster.imported'
+  | 'session.opened'
+  | 'session.closed'
+  | 'session.qr_projected';
+
+export interface AuditActor {
+  id: string | null;
+  username: string;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string | null;
+  diff?: Record<string, unknown> | null;
+}
+
+// Field-by-field changes between two versions of a row, as { field: { from, to } }
+export const diffFields = <T extends Record<string, unknown>>(before: Partial<T>, after: Partial<T>): Record<string, unknown> => {
+  const changes: Record<string, unknown> = {};
+
+  for (const field of Object.keys(after)) {
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+
+  return changes;
+};
+
+// Append an entry to audit_log. A failed write is logged but never fails the action itself.
+export const writeAuditLog = async (
+  supabase: SupabaseClient,
+  req: CoreRequest,
+  actor: AuditActor | null,
+  entry: AuditEntry
+): Promise<void> => {
+  const { error } = await supabase.from('audit_log').insert({
+    actor_id: actor?.id ?? null,
+    actor_username: actor?.username ?? null,
+    action: entry.action,
+    target_type: entry.targetType ?? null,
+    target_id: entry.targetId ?? null,
+    ip: req.ip,
+    user_agent: req.headers['user-agent']?.substring(0, 300) ?? null,
+    diff: entry.diff ?? null,
+  });
+
+  if (error) {
+    console.error('[Audit] Write error:', { action: entry.action, error });
+  }
+};
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { json, readCookie, serializeCookie, type CoreRequest, type CoreResponse } from '../http.ts';
+import { supabaseConfigMissing, type CoreContext, type CoreEnv } from '../context.ts';
+import { readSignedPayload, signPayload } from './signedToken.ts';
+
+// A sign-in kept as a row in a sessions table and a signed cookie naming that row.
+// Admins and students each have their own table, cookie and secret.
+export interface CookieSessionOptions {
+  table: string;
+  // Column of the sessions table holding who signed in (admin_id, student_id)
+  ownerColumn: string;
+  cookie: string;
+  ttlMs: number;
+}
+
+export interface SessionRow {
+  id: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface SessionCookiePayload {
+  // Row id in the sessions table
+  sid: string;
+  exp: number;
+}
+
+export type SessionGuard<TUser> = <TBody>(
+  handle: (req: CoreRequest<TBody>, ctx: CoreContext & { supabase: SupabaseClient }, user: TUser) => Promise<CoreResponse>
+) => (req: CoreRequest<TBody>, ctx: CoreContext) => Promise<CoreResponse>;
+
+export const createCookieSessions = ({ table, ownerColumn, cookie, ttlMs }: CookieSessionOptions) => {
+  // Start a session row and return the Set-Cookie header value for it
+  const create = async (
+    supabase: SupabaseClient,
+    secret: string,
+    ownerId: string,
+    req: CoreRequest,
+    now = Date.now()
+  ): Promise<{ cookie: string; expiresAt: number }> => {
+    const expiresAt = now + ttlMs;
+
+    const { data: session, error } = await supabase
+      .from(table)
+      .insert({
+        [ownerColumn]: ownerId,
+        expires_at: new Date(expiresAt).toISOString(),
+        ip: req.ip,
+        user_agent: req.headers['user-agent']?.substring(0, 300) ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const value = await signPayload(secret, { sid: session.id, exp: expiresAt } satisfies SessionCookiePayload);
+    return { cookie: serializeCookie(cookie, value, Math.floor(ttlMs / 1000)), expiresAt };
+  };
+
+  // The session row named by the request cookie, with the extra columns asked for. The signature
+  // alone is not enough: the row must exist, be unrevoked and not have expired.
+  const find = async <TRow extends SessionRow>(
+    supabase: SupabaseClient,
+    secret: string,
+    req: CoreRequest,
+    columns: string,
+    now = Date.now()
+  ): Promise<TRow | null> => {
+    const value = readCookie(req, cookie);
+    const payload = value ? await readSignedPayload<SessionCookiePayload>(value, secret) : null;
+
+    if (!payload || typeof payload.sid !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) {
+      return null;
+    }
+
+    const { data: session, error } = await supabase
+      .from(table)
+      .select(`id, expires_at, revoked_at, ${columns}`)
+      .eq('id', payload.sid)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const row = session as unknown as TRow | null;
+
+    if (!row || row.revoked_at || new Date(row.expires_at).getTime() <= now) {
+      return null;
+    }
+
+    return row;
+  };
+
+  const revoke = async (supabase: SupabaseClient, sessionId: string): Promise<void> => {
+    const { error } = await supabase
+      .from(table)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .is('revoked_at', null);
+
+    if (error) {
+      throw error;
+    }
+  };
+
+  const clearCookie = (): string => serializeCookie(cookie, '', 0);
+
+  return { create, find, revoke, clearCookie };
+};
+
+// Guard for endpoints behind a session: answers 500 when the server is not configured and 401
+// unless resolve finds a live session for the request
+export const withCookieSession = <TUser>(
+  secretOf: (env: CoreEnv) => string | undefined,
+  configMissing: () => CoreResponse,
+  resolve: (supabase: SupabaseClient, secret: string, req: CoreRequest) => Promise<TUser | null>,
+  unauthorized: string
+): SessionGuard<TUser> =>
+  (handle) => async (req, ctx) => {
+    const secret = secretOf(ctx.env);
+
+    if (!ctx.supabase) {
+      return supabaseConfigMissing(ctx.env);
+    }
+
+    if (!secret) {
+      return configMissing();
+    }
+
+    const user = await resolve(ctx.supabase, secret, req);
+
+    if (!user) {
+      return json(401, { success: false, error: unauthorized });
+    }
+
+    return handle(req, { ...ctx, supabase: ctx.supabase }, user);
+  };
@@ -0,0 +1,2 @@
+// How long a device is blocked after submitting
+export const COOLDOWN_MINUTES = 30;
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Statuses an admin can set by hand; late only ever comes from a scan
+export type CorrectionStatus = 'present' | 'excused' | 'absent';
+
+export const CORRECTION_STATUSES: CorrectionStatus[] = ['present', 'excused', 'absent'];
+
+export interface AttendanceCorrection {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  status: CorrectionStatus;
+  reason: string;
+  attachment_path: string | null;
+  excuse_request_id: string | null;
+  corrected_by: string | null;
+  updated_at: string;
+}
+
+export interface CorrectionInput {
+  sessionId: string;
+  studentId: string;
+  studentName: string;
+  status: CorrectionStatus;
+  reason: string;
+  attachmentPath: string | null;
+  excuseRequestId?: string | null;
+  adminId: string;
+}
+
+export const getCorrection = async (
+  supabase: SupabaseClient,
+  sessionId: string,
+  studentId: string
+): Promise<AttendanceCorrection | null> => {
+  const { data, error } = await supabase
+    .from('attendance_corrections')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as AttendanceCorrection | null;
+};
+
+// Set the student's status for the session, replacing any earlier correction.
+// The scanned record is never touched; returns the correction it replaced for the audit diff.
+export const saveCorrection = async (
+  supabase: SupabaseClient,
+  input: CorrectionInput
+): Promise<{ before: AttendanceCorrection | null; after: AttendanceCorrection }> => {
+  const before = await getCorrection(supabase, input.sessionId, input.studentId);
+
+  const { data, error } = await supabase
+    .from('attendance_corrections')
+    .upsert({
+      session_id: input.sessionId,
+      student_id: input.studentId,
+      student_name: input.studentName,
+      status: input.status,
+      reason: input.reason,
+      // A new correction without a file keeps the one already attached
+      attachment_path: input.attachmentPath ?? before?.attachment_path ?? null,
+      excuse_request_id: input.excuseRequestId ?? null,
+      corrected_by: input.adminId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'session_id,student_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { before, after: data as AttendanceCorrection };
+};
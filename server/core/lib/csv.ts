@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV parsing and writing (quoted fields, escaped quotes, CRLF)
+
+// Pick the delimiter that appears most often in the header line
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Text that starts like a formula gets a leading apostrophe so spreadsheets do not evaluate it
+export const neutralizeFormula = (value: string): string => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const escapeCsvField = (input: string): string => {
+  const value = neutralizeFormula(input);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// CRLF line endings and a BOM so Excel opens UTF-8 (Arabic names) correctly
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
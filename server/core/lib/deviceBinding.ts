@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type DevicePolicy = 'block' | 'flag' | 'ignore';
+
+export const DEVICE_POLICIES: DevicePolicy[] = ['block', 'flag', 'ignore'];
+
+export type RebindStatus = 'pending' | 'approved' | 'rejected';
+
+// 'unbound' when the student has no device yet: recording the check-in binds this one
+export type DeviceBindingCheck = 'bound' | 'unbound' | 'mismatch';
+
+export interface StudentDevice {
+  student_id: string;
+  device_id: string;
+  bound_at: string;
+  approved_by: string | null;
+}
+
+export const getCourseDevicePolicy = async (
+  supabase: SupabaseClient,
+  courseId: string | null
+): Promise<DevicePolicy> => {
+  if (!courseId) {
+    return 'ignore';
+  }
+
+  const { data, error } = await supabase
+    .from('courses')
+    .select('device_policy')
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.device_policy ?? 'ignore') as DevicePolicy;
+};
+
+export const getStudentDevice = async (supabase: SupabaseClient, studentId: string): Promise<StudentDevice | null> => {
+  const { data, error } = await supabase
+    .from('student_devices')
+    .select('*')
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StudentDevice | null;
+};
+
+// Compare the device with the student's binding. Nothing is written here: a first binding is
+// made by record_attendance, and only if the check-in is recorded.
+// The device ID is whatever the browser sends. Bound IDs are only readable by the server, but a
+// classmate who learns one (from the student's own phone, say) can send it, so a binding deters
+// casual sharing of a QR rather than proving the device: the student's passkey does that.
+export const checkDeviceBinding = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  deviceId: string
+): Promise<DeviceBindingCheck> => {
+  const existing = await getStudentDevice(supabase, studentId);
+
+  if (!existing) {
+    return 'unbound';
+  }
+
+  return existing.device_id === deviceId ? 'bound' : 'mismatch';
+};
+
+// Point the student's binding at a device, replacing any earlier one
+export const bindStudentDevice = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  deviceId: string,
+  adminId: string
+): Promise<StudentDevice> => {
+  const { data, error } = await supabase
+    .from('student_devices')
+    .upsert({ student_id: studentId, device_id: deviceId, bound_at: new Date().toISOString(), approved_by: adminId }, { onConflict: 'student_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StudentDevice;
+};
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface Enrollment {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+}
+
+export const findEnrollment = async (
+  supabase: SupabaseClient,
+  courseId: string,
+  studentId: string
+): Promise<Enrollment | null> => {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('student_id, full_name, section')
+    .eq('course_id', courseId)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
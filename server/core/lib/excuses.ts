@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ExcuseStatus = 'pending' | 'approved' | 'rejected';
+
+export const EXCUSE_STATUSES: ExcuseStatus[] = ['pending', 'approved', 'rejected'];
+
+// Students can ask to excuse sessions from this far back
+export const EXCUSE_WINDOW_DAYS = 14;
+
+export interface ExcusableSession {
+  id: string;
+  course: string;
+  course_id: string;
+  starts_at: string;
+  week_number: number | null;
+  // A request for this session is already waiting for review
+  pending: boolean;
+}
+
+// Courses where the roster has this student ID, and the name it lists them under.
+// The ID must come from the student's session, never from the request.
+export const findStudentCourses = async (
+  supabase: SupabaseClient,
+  studentId: string
+): Promise<{ courseIds: string[]; fullName: string | null }> => {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('course_id, full_name')
+    .eq('student_id', studentId);
+
+  if (error) {
+    throw error;
+  }
+
+  return { courseIds: (data || []).map((row) => row.course_id), fullName: data?.[0]?.full_name ?? null };
+};
+
+// Sessions of those courses within the window that the student missed and that were not excused yet
+export const listExcusableSessions = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  courseIds: string[],
+  now = Date.now()
+): Promise<ExcusableSession[]> => {
+  if (courseIds.length === 0) {
+    return [];
+  }
+
+  const { data: sessions, error } = await supabase
+    .from('lecture_sessions')
+    .select('id, course, course_id, starts_at, week_number')
+    .in('course_id', courseIds)
+    .gte('starts_at', new Date(now - EXCUSE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .lte('starts_at', new Date(now).toISOString())
+    .order('starts_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const sessionIds = (sessions || []).map((session) => session.id);
+
+  if (sessionIds.length === 0) {
+    return [];
+  }
+
+  const [{ data: attended, error: attendedError }, { data: pending, error: pendingError }] = await Promise.all([
+    supabase
+      .from('attendance_effective')
+      .select('session_id')
+      .eq('student_id', studentId)
+      .in('session_id', sessionIds),
+    supabase
+      .from('excuse_requests')
+      .select('session_id')
+      .eq('student_id', studentId)
+      .eq('status', 'pending')
+      .in('session_id', sessionIds),
+  ]);
+
+  if (attendedError) {
+    throw attendedError;
+  }
+
+  if (pendingError) {
+    throw pendingError;
+  }
+
+  // Any row in attendance_effective means present, late or already excused
+  const counted = new Set((attended || []).map((row) => row.session_id));
+  const waiting = new Set((pending || []).map((row) => row.session_id));
+
+  return (sessions || [])
+    .filter((session) => !counted.has(session.id))
+    .map((session) => ({ ...session, pending: waiting.has(session.id) }));
+};
@@ -0,0 +1,71 @@
+// Cairo Regular, an Arabic and Latin typeface under the SIL Open Font License 1.1 (see OFL.txt).
+// Kept as base64 in a module so every platform bundles it with the code, with no file to ship
+// beside the functions. Taken from @expo-google-fonts/cairo 0.4.2, 400Regular/Cairo_400Regular.ttf.
+const CAIRO_REGULAR_BASE64 = [
+  'AAEAAAAQAQAABAAAR0RFRr0Hn+QAAAI8AAACGEdQT1OOWAWJAABV9AAAYmZHU1VCiCdPCwAAKbgAAA84T1MvMql1jZoAAAHcAAAAYFNUQVTxa9kpAAABmAAAAERjbWFw5H2zVgAAE5gAAAlIZ2FzcAAAABAAAAEUAAAACGdseWYlBDkyAAC4XAAAuLRoZWFkJQKeYgAAAWAAAAA2aGhlYQq9Bl8AAAE8AAAAJGhtdHhDdWI+AAAc4AAADNZsb2Nh+MrKOQAABFQAAAZubWF4cANSAQcAAAEcAAAAIG5hbWU/41TYAAAKxAAACNRwb3N042TgLgAAOPAAAB0CcHJlcGgGjIUAAAEMAAAAB7gB/4WwBI0AAAEAAf//AA8AAQAAAzYAcAAMAJUADAABAAAAAAAAAAAAAAAAAAMAAQABAAAFF/3FAAAGb/8g/vUGgwABAAAAAAAAAAAAAAAAAAADNQABAAAAAyFIv2jFeV8PPPUAAwPoAAAAAOAanXsAAAAA4CucLv8g/lIGgwQ8AAAABgACAAAAAAAAAAEAAQAIAAIAAAAUAAIAAAAkAAJzbG50AQEAAHdnaHQBAAABABQABAADAAEAAgEEAZAAAAK8AAAAAQAAAAIBHgAAAAAABAJjAZAABQAAAooCWAAAAEsCigJYAAABXgAyASwAAAAAAAAAAAAAAACgACCvkAAgSwAAAAgAAAAAMUtURgDAABD+/AUX/cUAAAUgAjsgAADTAAgAAAH0ArwAAAAgAAQAAQACAW4AAAAOAAABugDoAHIBWAFYAVgBWAFYAVgBWAFYAVgBUAFQAUgBQAFAAUABOAE4AVgBUAFQAUgBQAFAAUABUAFQAUgBQAFAAUABUAFQAUgBQAFAAUABMAEwASgBKAEoASgBMAEwASABIAEgASABKAEoATABMAEwATABIAEgASgBKAEoASgBKAEoAVABUAFQAVABIAEgASABIAEYARgBGAEYARgBGAFQAVABUAFQASABIAEYARgBGAEYARgBGAE4ATgBOAE4AVABUAFIAUABQAFAAVABUAFIAUABUAFQAUgBQAFQAVABSAFAAUABQAEEAQQAAgAEAcgCKgAAAiwCLQBjAi8CLwBlAjECPABmAAMAEAAMAAgAAQP7AAEC2QABAbgAAQAEAAEDIgABAAQAAQMqAAEABAABAycAAQAEAAEBmwABAAQAAQH+AAEABAABAgYAAQAEAAEBqAABAAQAAQEpAAEABAABAUwAAgAMAQgBFQABARcBFwABARkBfgABAYEBxwABAcgCKgACAiwCLQACAi8CLwACAjECPAACAo0ClgADAvUC9QADAvcDEgADAy8DLwADAAEAAgAAAEYAAAAMAAEAGwKNAo8CkQKTApUC9QL3AvkC+wL8Av0C/gL/AwIDAwMFAwYDCAMJAwoDCwMMAw4DDwMQAxEDEgABAAoCjgKQApIClAKWAvgC+gMBAwQDBwAAABQALgA6AEYAUQBdAGkAdQCBAI0AnQCpAMsA1wETAUoBVgFiAW4BeQGFAawB2wHnAhYCLAI4AkQCUAJbAmcCcwJ/AosClwKsAugC9AL/A0IDhQOcA7sDxgPSA90D6APzA/4EEQQcBCcEMwQ+BFcEYgR9BKAErwS6BNEE6AUABRwFNAVABUwFbQV5BaQF1gXiBe4F+QYFBhEGHQYpBmwGtgbCBwcHKQdNB4YHrwe7B8cH9whCCE4IWghmCHEIwwjUCOwI+AkECR0JPglKCVYJYQltCXkJhQmRCZwJqAm0CccJ5gnyCf4KCgoWCjEKRgpSCl0KaQp1Co0KmQqlCrEKwQrNCxwLJwsyCz0LSAtTC14LaQt1C4QLjwv4DAQMOgxuDHkMhAyQDJsMpwzjDScNbA2vDeMN7g35DgQOEA4cDigOMw4/DkoOcg7qDvYPAg+BD40PtA/iD+4QABAMEBcQIhAtEDgQQxBOEFoQZRCEEJwQpxDAEOEQ7RD5EQ0RIBE1EXcRnhGq',
+  'EbYR5RHxEiMSVRJgEmwSeBKEEpASnBKoEusTNRNBE5gTzhQFFDgUURRcFGcUiBTRFNwU5xTzFP4VThWsFdUWBRY1FkAWcRaVFqEWrRa4FsQWzxbbFucW9RcDFxIXHRcoFzQXQBdTF3EXfReJF5UXoRe4F84X2RfkF+8X+hgQGBsYJhgxGHYYnBjZGQQZEBkvGTsZRxlTGV8Zaxl3GYMZjxm1Ge8aHxpPGmsahxqTGp8aqxq3GsMazxraGuUa7Rr1GwEbDRsYGyMbLxs7G0YbURtdG2kbdRuBG8AcFBwgHCwcdhzWHOEc7B0pHXsdvR3rHfceAx4PHhseNh5lHnAeex6HHpMesR7jHu4e+R8FHxEfHB8nH4If8SBRIJwgqCC0IMAgzCEdIYEh0yIQIhwiKCI0IkAibyKzIwUjECMcIygjNCNDI4kj/CRaJJMknySrJLckwyTPJNsk5yTzJP8lCyUXJSMlYiW1Jf4mMyZ8Jtom5ibyJv4nCicyJ20neSeFJ9QoDyhSKKkosSi5KQ0pdCnVKiIqTyqRKsMq4Ss1K54r9yw8LEgsVCxfLGoslyyfLKcs6S0QLUQtyy4ZLiEuTy6XLrwuyC7ULuAvJy9oL74wJTAtMDkwRTBRMF0wlDDgMOww+DFNMZYxojGuMboxxjHSMd4x6TH0MfwyBDIQMhwyRzJ0MoAyjDKyMsky9TMBMw0zGTMlMzAzOzNGM1IzYTNtM3kziTOZM6U0GzQmNDI0QTRNNFk0aTR5NIU0lDSgNKw0vDTMNNg05zTzNP81DzUfNXg15DZrNwY3EjceNyk3NDdAN0w3tDgwODw4SDhUOGA4bzh+OI44njiqOLY4xjjWOOY49jlFOac5sjm9Ock51TozOqQ7ITuxO707yTvVO+E77Tv5PAg8FzwnPDc8QzxPPF88bzx/PI88nzyrPLs8xzzTPOI87jz6PQo9Gj1YPZY9oT31Pkk+tz8jPy8/Pj9KP1Y/Yj9xP30/iT+ZP6lADkCjQKtAuEDEQNBA4UEgQWpBpEG1QctB4UILQhNCG0IjQitCcULBQvtDA0MLQxNDPENOQ4dDmEPERA5EJ0RhRKZEuEUTRVdFYEVpRXJFe0WERY1FlkWfRahFsUW5RcFFyUXRRdlF4UXpRfFF+UYBRg9GH0YvRj9GSEZRRlpGY0ZsRnVGfkaHRpBGmUbLRtxHBUdAR1lHjUfOR99IMEhrSGtIa0h3SIBIi0iYSKlIskjJSOBI90kASQtJGEkrSWZJbkl2SZlJu0nGSdNJ5Un4Sg5KIUo1SnFKrkq3SsRK4UsJSxdLJ0szSz9LS0tXS2NLhkuoS/1MUkxjTHNMgUyUTKhMu0zITNVM8U0MTR1NLU1ATU1Nik2kTipOjE6rTyNPfU/PT/FQF1AkUDhQTlBqUK1Q5VEzUY1Rv1HkUfJSBlISUitSQ1JWUnFSg1KWUq5Sx1LhUzNTX1NuU4FT2VQMVElUYFR2VJNUrVS5VPlVX1XxVg1WNVZWVmJWalaTVpxWqFa0VsBW0FbcVulW+lcFVzNXQFdMV25Xd1enV7ZXwVfRV9xX51fzV/9YK1hLWHdYiViVWKNYsVjGWNdY6FkGWTBZWVlmWYtZsVnDWc9Z3VnrWgBaEVoiWj9aaVqSWp9aqFq1WrVazlrbWu5bL1t4W9BcEVxaAAAAAAAtAiIAAwABBAkAAACYBhoAAwABBAkAAQAKBhAAAwABBAkAAgAOBgIAAwABBAkAAwAwBdIAAwABBAkABAAaBbgAAwABBAkABQA6BX4AAwABBAkABgAaBWQAAwABBAkACABoBPwAAwABBAkACQBgBJwAAwABBAkACwAoBHQAAwABBAkADAAoBHQAAwABBAkADQEgA1QAAwABBAkADgA0AyAAAwABBAkAGQAKBhAAAwABBAkBAAAMAxQAAwABBAkBAQAKAwoAAwABBAkBAgAUAvYAAwABBAkBAwAKAuwAAwABBAkBBAAOBgIAAwABBAkBBQAM',
+  'AuAAAwABBAkBBgAQAtAAAwABBAkBBwAIAsgAAwABBAkBCAASArYAAwABBAkBCQAKAqwAAwABBAkBCgAUApgAAwABBAkBCwAsAmwAAwABBAkBDAAiAkoAAwABBAkBDQAWAjQAAwABBAkBDgAkAhAAAwABBAkBDwAoAegAAwABBAkBEAAgAcgAAwABBAkBEQAqAZ4AAwABBAkBEgAiAXwAAwABBAkBEwAsAVAAAwABBAkBFAAqASYAAwABBAkBFQAgAQYAAwABBAkBFgAUAPIAAwABBAkBFwAiANAAAwABBAkBGAAmAKoAAwABBAkBGQAeAIwAAwABBAkBGgAoAGQAAwABBAkBGwAgAEQAAwABBAkBHAAqABoAAwABBAkBHQAMAA4AAwABBAkBHgAOAAAARABlAGYAYQB1AGwAdAB3AGUAaQBnAGgAdABFAHgAdAByAGEAQgBsAGEAYwBrACAAUwBsAGEAbgB0ACAATABlAGYAdABCAGwAYQBjAGsAIABTAGwAYQBuAHQAIABMAGUAZgB0AEUAeAB0AHIAYQBCAG8AbABkACAAUwBsAGEAbgB0ACAATABlAGYAdABCAG8AbABkACAAUwBsAGEAbgB0ACAATABlAGYAdABTAGUAbQBpAEIAbwBsAGQAIABTAGwAYQBuAHQAIABMAGUAZgB0AE0AZQBkAGkAdQBtACAAUwBsAGEAbgB0ACAATABlAGYAdABTAGwAYQBuAHQAIABMAGUAZgB0AEwAaQBnAGgAdAAgAFMAbABhAG4AdAAgAEwAZQBmAHQARQB4AHQAcgBhAEwAaQBnAGgAdAAgAFMAbABhAG4AdAAgAEwAZQBmAHQARQB4AHQAcgBhAEIAbABhAGMAawAgAFMAbABhAG4AdAAgAFIAaQBnAGgAdABCAGwAYQBjAGsAIABTAGwAYQBuAHQAIABSAGkAZwBoAHQARQB4AHQAcgBhAEIAbwBsAGQAIABTAGwAYQBuAHQAIABSAGkAZwBoAHQAQgBvAGwAZAAgAFMAbABhAG4AdAAgAFIAaQBnAGgAdABTAGUAbQBpAEIAbwBsAGQAIABTAGwAYQBuAHQAIABSAGkAZwBoAHQATQBlAGQAaQB1AG0AIABTAGwAYQBuAHQAIABSAGkAZwBoAHQAUwBsAGEAbgB0ACAAUgBpAGcAaAB0AEwAaQBnAGgAdAAgAFMAbABhAG4AdAAgAFIAaQBnAGgAdABFAHgAdAByAGEATABpAGcAaAB0ACAAUwBsAGEAbgB0ACAAUgBpAGcAaAB0AEUAeAB0AHIAYQBCAGwAYQBjAGsAQgBsAGEAYwBrAEUAeAB0AHIAYQBCAG8AbABkAEIAbwBsAGQAUwBlAG0AaQBCAG8AbABkAE0AZQBkAGkAdQBtAEwAaQBnAGgAdABFAHgAdAByAGEATABpAGcAaAB0AFMAbABhAG4AdABXAGUAaQBnAGgAdABoAHQAdABwADoALwAvAHMAYwByAGkAcAB0AHMALgBzAGkAbAAuAG8AcgBnAC8ATwBGAEwAVABoAGkAcwAgAEYAbwBuAHQAIABTAG8AZgB0AHcAYQByAGUAIABpAHMAIABsAGkAYwBlAG4AcwBlAGQAIAB1AG4AZABlAHIAIAB0AGgAZQAgAFMASQBMACAATwBwAGUAbgAgAEYAbwBuAHQAIABMAGkAYwBlAG4AcwBlACwAIABWAGUAcgBzAGkAbwBuACAAMQAuADEALgAgAFQAaABpAHMAIABsAGkAYwBlAG4AcwBlACAAaQBzACAAYQB2AGEAaQBsAGEAYgBsAGUAIAB3AGkAdABoACAAYQAgAEYAQQBRACAAYQB0ADoAIABoAHQAdABwADoALwAvAHMAYwByAGkAcAB0AHMALgBzAGkAbAAuAG8AcgBnAC8ATwBGAEwAaAB0AHQAcABzADoALwAvAGcAYQBiAGUAcgAuAGQAZQBzAGkAZwBuAE0AbwBoAGEAbQBlAGQAIABH',
+  'AGEAYgBlAHIALAAgAEEAYwBjAGEAZABlAG0AaQBhACAAZABpACAAQgBlAGwAbABlACAAQQByAHQAaQAgAGQAaQAgAFUAcgBiAGkAbgBvAEsAaQBlAGYAIABUAHkAcABlACAARgBvAHUAbgBkAHIAeQAsACAAQQBjAGMAYQBkAGUAbQBpAGEAIABkAGkAIABCAGUAbABsAGUAIABBAHIAdABpACAAZABpACAAVQByAGIAaQBuAG8AQwBhAGkAcgBvAC0AUgBlAGcAdQBsAGEAcgBWAGUAcgBzAGkAbwBuACAAMwAuADEAMwAwADsAZwBmAHQAbwBvAGwAcwBbADAALgA5AC4AMgA0AF0AQwBhAGkAcgBvACAAUgBlAGcAdQBsAGEAcgAzAC4AMQAzADAAOwAxAEsAVABGADsAQwBhAGkAcgBvAC0AUgBlAGcAdQBsAGEAcgBSAGUAZwB1AGwAYQByAEMAYQBpAHIAbwBDAG8AcAB5AHIAaQBnAGgAdAAgADIAMAAwADkAIABUAGgAZQAgAEMAYQBpAHIAbwAgAFAAcgBvAGoAZQBjAHQAIABBAHUAdABoAG8AcgBzACAAKABoAHQAdABwAHMAOgAvAC8AZwBpAHQAaAB1AGIALgBjAG8AbQAvAEcAdQBlADMAYgBhAHIAYQAvAEMAYQBpAHIAbwApAAAAAgAAAAMAAAAUAAMAAQAAABQABAk0AAABLgEAAAcALgAQAC8AOQB+ATEBNwE+AUgBfgGSAf8CGwI3ArwCxwLdA8AGDQYVBhsGHwY6BlYGWAZpBnEGeQZ+BoYGiAaRBpgGoQakBqkGrwa6Br4GwwbMBtQG+R6FHqsesB7FHtce8x75IBQgGiAeICIgJiAwIDogRCBwIHkgiSCsISIhJiICIgYiDyISIhUiGiIeIisiSCJgImUlyva+9sP7UftZ+2n7bft9+4n7i/uN+5H7lfuf+6n7rfuv+7n7vvvp+//8RPxl/Gv8cfx3/Hv8h/yL/I/8kvyU/Jb8/v0I/RD9Gv0k/Sz9P/3y/oL+hP6G/oj+jP6O/pL+lP6Y/pz+oP6k/qj+qv6s/q7+sP60/rj+vP7A/sT+yP7M/tD+1P7Y/tz+4P7k/uj+7P7u/vD+/P//AAAAEAAgADAAOgCgATQBOQFBAUoBkgH6AhgCNwK7AsYC2APABgwGFQYbBh8GIQZABlgGYAZqBnkGfgaGBogGkQaYBqEGpAapBq8Guga+BsEGzAbSBvAegB6rHrAexR7XHvIe+CATIBggHCAgICYgMCA5IEQgcCB0IIAgrCEiISYiAiIGIg8iESIVIhoiHiIrIkgiYCJkJcr2vvbD+1H7V/tn+2v7e/uJ+4v7jfuP+5P7n/un+6v7r/ux+7376Pv9/EP8ZPxn/G38c/x5/Ib8ivyN/JH8lPyW/Pv9Bf0N/Rf9If0p/T798v6C/oT+hv6I/or+jv6Q/pT+lv6a/p7+ov6m/qr+rP6u/rD+sv62/rr+vv7C/sb+yv7O/tL+1v7a/t7+4v7m/ur+7v7w/vL//wMdAAACJQAAAAAAAAAAAAAAAAEzAAAAAP6AAAAAUgAA/UcAAPzg/H78ewAAAAD8uvvfAAD6svqf+q36u/q4+rP61PrN+tz62vrf+usAAPrzAAD7WQAA4kPhz+Iq4hkAAAAA4p0AAAAAAADifeLD4ojiL+IR4hHh9+In4avhxeDv4Obg3gAA4MTg1eDL4L/gneB/AADdKgxwDGwFwQAAAAAAAAAABbsFwQW9AAAAAAX9AAAAAAYVAAAG0gAAAAAAAAXRAAAAAAAABW8AAAWaBZkFoAWfBZ4AAAAAAAAAAAAAAAAFXwRJAo4CiAMuAoYAAAJ8AAADGgAAAAAAAAAAAAAClgKWApgCmAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALEAsYAAAABAAABLAAAAUgB0ALyAvgDAgMQAAADdgOAAAADhAAAA4QAAAOMAAAAAAAA',
+  'A4gDugAAAAAD4gAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAPYAAAD2gAAA9wAAAAAAAAAAAPeA+AAAAPgA+QD6AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA9IAAAAAAAAAAAAAAAADyAAAAAAAAAAAA8IDxgPKA84AAAAAAAADzAPQAAAD0gPWAAAD2AAAA+YD6APsAAAD7AP0A/wAAAQCAAAAAAAAAAAAAAP6BAAEBgQMBBIEGAAAAAAAAAAAAAAAAAQSAAAEFAAABBYEGgQeBCIEJgAAAAAAAAAABCIEJgQqBC4EMgQ2BDoEPgRCBEYESgROBFIEVgRaAAAAAARaAAACiwKkAsMCqwLWAvICyALEArMCtAKqAtoCoAKuAp8CrAKhAqIC4QLeAuACpgLHAAEADgAPABUAGQAjACQAKQAsADYAOAA6AD8AQABGAFIAVABVAFkAXwBkAG8AcAB1AHYAewK3Aq0CuALoArIDFQCBAI4AjwCVAJkAowCkAKkArAC2ALkAuwDAAMEAxwDTANUA1gDaAOEA5gD1APYA+wD8AQECtQLPArYC5gKMAqUC1ALXAtUC2ALQAsoDEwLLAQUCvwLnAq8CzAMdAs4C5AKDAoQDFgLwAskCqAMeAoIBBgLAAnUCdAJ2AqcABgACAAQACwAFAAkADAASACAAGgAdAB4AMgAtAC8AMAAWAEQASwBHAEkAUABKAtwATgBpAGUAZwBoAHcAUwDgAIYAggCEAIsAhQCJAIwAkgCgAJoAnQCeALIArgCwALEAlgDFAMwAyADKANEAywLdAM8A6wDnAOkA6gD9ANQA/wAHAIcAAwCDAAgAiAAQAJAAEwCTABQAlAARAJEAFwCXABgAmAAhAKEAGwCbAB8AnwAiAKIAHACcACYApgAlAKUAKACoACcApwArAKsAKgCqADUAtQAzALMALgCvADQAtAAxAK0ANwC4ADkAugA7ALwAPQC+ADwAvQA+AL8AQQDCAEMAxABCAMMARQDGAE0AzgBIAMkATADNAFEA0gBWANcAWADZAFcA2ABaANsAXQDeAFwA3QBbANwAYgDkAGEA4wBgAOIAbgD0AGsA7QBmAOgAbQDzAGoA7ABsAPIAcgD4AHgA/gB5AHwBAgB+AQQAfQEDAAoAigANAI0ATwDQAF4A3wBjAOUDLAMrAxoDFAMbAx8DHAMXApgCnAEIAQ8BCwGzAQ0BuwEJARkBrQEjAScBLwE3ATsBPwFBAUUBRwFNAVEBVQFZAV0BYQFlAWkBxwFtAXsBgQGNAZEBlQGdAbEBtQG3AwIDAwMEAwUDBgMHAwgDEAMRAvkC+gL4AsYCPQI+ApsBEwF5AvcBEQGhAaUBrwHDAcUClwB0APoAcQD3AHMA+QB6AQAAgADxAr0CvgK5ArsCvAK6AtEC0gKpAu4C2wLjAuIBHgEgAR8BLAEuAS0BcgF0AXMBNAE2ATUBhgGIAYcBigGMAYsBogGkAaMBqgGsAasBxgKNAo4CkQKSApUClgKTApQBIgEhAcABwgHBAdcCIAI3AjgCOQHRAdIB0wHUAdUB4AHhAeIB4wHkAeYB5wHYAiEB7gHwAgACAgIOAhACGgIcAfoB7AIGAhQB7wHxAgECAwIPAhECGwIdAfsB7QIHAhUBvAG+Ab0BGgEcARsBJAEmASUBKAEqASkBMAEyATEBOAE6ATkBPAE+AT0BTgFQAU8BUgFUAVMBVgFYAVcBWgFcAVsBXgFgAV8BYgFkAWMBZgFoAWcBagFsAWsBbgFwAW8BfAF+AX0BggGEAYMBjgGQAY8BkgGUAZMBlgGYAZcBngGgAZ8BuAG6AbkBzgHPAcoBywHMAc0ByAHJAOsAFQJUABcCVAAXAlQAFwJUABcCVAAXAlQAFwJUABcCVAAXAlQAFwJUABcCVAAXA2wAEwNsABMCZwBUAiAAOgIgADoCIAA6AiAAOgIgADoCIAA6AoQAVAKHABQChABUAocAFAIpAFQCKQBU',
+  'AikAVAIpAFQCKQBUAikAVAIpAFQCKQBUAikAVAIpAFQCDgBUAmgAOAJoADgCaAA4AmgAOAJoADgCowBUAq4ADwKjAFQA+ABUAPgADQD4/+YA+P/QAPj/8AD4AFQA+P/sAPj/4gD4AA8A+P/NASEAEgEhAAACOgBUAjkAVAHeAFQB3wBUAe8AVAHeAFQB4//7A0kAVAKlAFQCpQBUAqUAVAKlAFQCpQBUAqYAVAKUADgClAA4ApQAOAKUADgClAA4ApQAOAKUADgClAA4ApQAOAKWADgClAA4A5wANQJQAFQCVwBUApQAOAJoAFQCaABUAmgAVAJoAFQCHgAwAh4AMAIeADACHgAwAh4AMAIeADACDgANAhEADwIOAA0CDgANAg4ADQKFAE8ChQBPAoUATwKFAE8ChQBPAoUATwKFAE8ChQBPAoUATwKFAE8ChQBPAkcAGAN4AB4DeAAeA3gAHgN4AB4DeAAeAi8AEgIbAAoCGwAKAhsACgIbAAoCGwAKAhgAKwIYACsCGAArAhgAKwJSABcCEwAHAfYAKAH2ACgB9gAoAfYAKAH2ACgB9gAoAfYAKAH2ACgB9gAoAfYAKAH2ACgDIwAoAyMAKAIPAEcBtAAzAbQAMwG0ADMBtAAzAbQAMwG0ADMCEgAxAiUAKgJDADECEgAxAfkAMQH5ADEB+QAxAfkAMQH5ADEB+QAxAfkAMQH5ADEB+QAxAfkAMQFMAB4CAwAxAgMAMQIDADECAwAxAgMAMQIaAEgCGgAKAhoASADdAEgA3QBIAN0AJgDd/9oA3f/WAN3/9wDd/8QA3f/kAN0ABADd/9IA3f/QAN3/0ADd/9AB4QBIAeEASADpAE4A6QAzARQATgDpACEBOgAJA0QASAIaAEgCGgBIAhoASAIaAEgCGgBIAhoARwIRADICEQAyAhEAMgIRADICEQAyAhEAMgIRADICEQAyAhEAMgIRADICEQAyA1gAMgIQAEgCEABIAg8AMQFbAEgBWwBCAVsAGQFbAB8B0gAtAdIALQHSAC0B0gAtAdIALQHSAC0CQABIAV8AGgFjABoBswAaAV8AGgFfABoCFABDAhQAQwIUAEMCFABDAhQAQwIUAEMCFABDAhQAQwH2ACgB+gAxAhEAMgHkABkCFABDAhQAQwIUAEMB4gAYAvsAHwL7AB8C+wAfAvsAHwL7AB8BxQAWAeQAGQHkABkB5AAZAeQAGQHkABkBxwAqAccAKgHHACoBxwAqAYQANQF+ADUCMAAWAiAAKAENAGABJwBgAQ0AJAEnACQBDQAkAScAJAENAAsBJwALAQ0AEAEnABADFgAoAzEAKAEm/+wBJv/sAQv/7AEL/+wDFgAoAzEAKAEm/+wBC//sAxYAKAMxACgBJv/sAQv/7AEm/+wBC//sAxYAKAMxACgBJv/sAQv/7AMWACgDMQAoASb/7AEL/+wDFgAoAzEAKAEm/+wBC//sAkQAKAJ0ACgCW//sAiv/7AJEACgCdAAoAlv/7AIr/+wCRAAoAnQAKAJb/+wCK//sAkQAKAJ0ACgCW//sAiv/7AHjACgCFwAoAeMAKAIXACgB4wAoAhcAKAEH/9EBLP/RAQf/0QEs/9EBB//RASz/0QEH/9EBLP/RBLsAKATfACgDXP/sAzv/7AS7ACgE3wAoA1z/7AM7/+wEpwAoBMgAKANV/+wDNP/sBKcAKATIACgDVf/sAzT/7AL8ABQDHQAUAu3/7ALn/+wC/AAUAx0AFALt/+wC5//sAigAKAJ3ACgCfP/sAlD/7AIoACgCdwAoAnz/7AJQ/+wECQA2BB8ANgJ//+wCX//sBAkANgQfADYCf//sAl//7AQJADYEHwA2An//7AJf/+wDXwAoA38AKANfACgDfwAoAn//7AJf/+wDEAAoAzEAKAMQACgDMQAoApL/7AJx/+wDEAAoAzEAKAKS/+wCcf/sAxAAKAMxACgCxP/sAqP/7AKaACgCuwAoATP/7AET/+wCcgAo',
+  'ApMAKAKj/+wCgv/sApoAKAK7ACgBJv/sAQv/7AKaACgBJv/sAQv/7AK7ACgCSAAoAkIAKAKU/+wDHP/sAkgAKAJCACgCQv/sAQv/7AJIACgCQgAoAkL/7AEL/+wDEwAoAzMAKAMz/+wDHP/sAkgAKAJCACgCSAAoAkIAKAIhACgCQgAoAiEAKAJCACgDgAAoA3QAKAOAACgDdAAoASb/7AEL/+wDgAAKA3QACgEm/+wBC//sA4AAKAN0ACgBJv/sAQv/7ALXACgCwgAoAtcAJQLCACUA+v/sAoQAKAKfACgChAAoAp8AKAKEACgCnwAoAoQAKAKfACgChAAoAlL/0QJS/9ED4QAoBFcAKARXACgEVwAKA/wAKAQcACgCnwAoAlL/0QJS/9ED4QAoBFcAKARXACgEVwAKAlL/0QJS/9ED4QAoBFcAKARXACgEVwAKAlL/0QJS/9ED4QAoBFcAKARXACgEVwAKBFb/0QR3/9EGTgAoBm8AKAZOACgGbwAoBFb/0QR3/9EF5QAoBgUAKAXlACgGBQAoBk4ACgZvAAoEVv/RBHf/0QRW/9EEd//RBeUAKAYFACgGTgAoBm8AKAZOACgGbwAoBk4ACgZvAAoEPv/RBF//0QQ+/9EEX//RBc0AKAXuACgFzQAoBe4AKAY2ACgGVwAoBjYAKAZXACgGNgAKBlcACgQ+/9EEX//RBD7/0QRf/9EFzQAoBe4AKAY2ACgGVwAoBjYAKAZXACgGNgAKBlcACgP8ACgEHAAoA/wACgQcAAoCUv/RAlL/0QPhACgEVwAoBFcAKARXAAoCUv/RAlL/0QJS/9ED4QAoA+EAKARXACgEVwAoAlL/0QJS/9ED4QAoBFcAKAJS/9ECUv/RA+EAKARXACgEVwAoBFcACgUsACgFKwAoAOEAIgDBACIA+gBQATUAdAIPAHQCpABvAdQAMgKmAEcB4gAeAnAAJAJwACQCBwAUAPoAUAE1AHQCDwB0AqQAbwKYAHQCIgBGAd4AQgJwACQCcAAkAgcAFAIxAGQBqwAaAjAAJgIwAGkCMABFAjAAPgIwACgCMAA/AjAAMQIwAE0CMAAfAjAAKQEYABUBGAAeARgAHgEYAB4BGAAYARgAJgEYABwBGAAdARgAFgEYABkBGAAVARgAHgEYAB4BGAAeARgAGAEYACYBGAAcARgAHQEYABYBGAAZAAT/IAI0AB4CNAAeAjQAHgEYABUBGAAeARgAHgEYAB4BGAAYARgAJgEYABwBGAAdARgAFgEYABkBGAAVARgAHgEYAB4BGAAeARgAGAEYACYBGAAcARgAHQEYABYBGAAZANwAAADcAAAAAAAUAAAAFAAAABQAAAAUAAAABQAAAAYAAAASAAAAEgAAABIAAAAfAXEAQwDfADEA+gBGAb4AJwGkADYA4QAiAPUAHAD1ABoA2gBDAOEAIgDbAEMA+gAvAtcAQwD5AFIA5gBIAb4AJAG5ACUA2wBEAdgAbwGkADYCMAAYAZ8AIAG3AB4BtABDAbUAQwJ2AEIEagBCAncAZgEKADIBCgAkAWAAFwFgACcBSgBOAUoAKADcACMBagAUAXgAMgF8ADUA3QAyANoANQIeAC0CHwBCAS4ALQEuAEIBdwBCANEAQgIwACcCMABZA9AAMwKxACoCUQAjAfQAMwKFADsChQA7AqQAWwIwAIoA6ABNAOwATwHeACICCQA3AjAAHQIwAGQCMAA5AjAARAIwAFACMAAWAZ8AIAIwADcCMABCAjAARgIwADcCMABAAjAAQAIwAFICMAA9AjAARwIwAEECMAA3AjAAQAIwAEMCMABBAjAAOAIwAB4CMABdAjAALgIwADUCMAAeAjAAKwIwAAQCDQBDAjAALQIwABwDQwAiAjAANQAAABsAAAAbAAAAFAAAABQAAAAUAAAAFAAAAAwAAAAcAAAAFAAAABQAAAAUAAAAFAAAABQAAAAUAAAAHAAAABQAAAAUAAAAFAAAABQAAP/5',
+  'AAD/+QAA//cAAP/5AAD/+QAA//kAAP/6AAD/+QAAAAoAAAAYAAAAFAEoAAoA7gBQAO7//gEMABkBigAAAO7/7QDu/+8A7v/vAO4AEgDu/+MA7v/yAQcAKQHDAL4A7v/pAO4AUADuAAoA7gAMAdj/2QHPADQA7v/dAO7/6wDuAA0A7v/iAO7/6gDhACIA4QAhAAAAAADb/88AAAAWADL/7AKUADgClgA4AjAARAIRADIAMgAAAAEAAAAKAMoBrgADREZMVACYYXJhYgBEbGF0bgAUAIgAAU1PTCAACgAA//8AEAAAAAEAAwAEAAUABgAHAAgACgALAAwADQAPABAAEQAOADAAAVVSRCAACgAA//8AEAAAAAEAAwAEAAUABgAHAAkACgALAAwADQAPABAAEQAOAAD//wAPAAAAAgADAAQABQAGAAcACgALAAwADQAPABAAEQAOAAQAAAAA//8ADwAAAAEAAwAEAAUABgAHAAoACwAMAA0ADwAQABEADgASYWFsdADcY2NtcADWY2NtcADOZGxpZwDIZG5vbQDCZmluYQC8ZnJhYwCyaW5pdACsbG9jbACmbG9jbACgbWVkaQCabnVtcgCUb3JkbgCOcmxpZwCGcnZybgCAc2luZgB6c3VicwB0c3VwcwBuAAAAAQAHAAAAAQAFAAAAAQAGAAAAAQAXAAAAAgAVABYAAAABAA8AAAABAAgAAAABABIAAAABAAQAAAABAAMAAAABABEAAAADAAoACwAMAAAAAQATAAAAAQAJAAAAAQAUAAAAAgACAAIAAAABAAIAAAACAAAAAQAYDEwJ8gi+CJwIfghmCGYIWAhKCDwIKAhKB+AH0gfSB5QHcgbMBnQE+gE6ARYAWAAyAAEAAAABAAgAAgAQAAUDMQMyAzQDNQMzAAEABQBOAE8AzwDQAtYABAAIAAEACAABAIwAEwRiBDAD/gOqA3gDPgMEAtICoAJmAiwB+gHIAFwALAFiA9wBQAEOAAgAKgAkAB4AGAF8ABIBdgFwAdAAAgESAc4AAgEQAcwAAgEOAcoAAgEMAcgAAgEKAAgAKgAkAB4AGAFmABIBYAFaAdkAAgESAc8AAgEQAc0AAgEOAcsAAgEMAckAAgEKAAEAEwEJARsBHwElASkBTwFQAVMBVAFXAVgBWwFcAY8BkAGXAbUBuQG9AAQAAAABAAgAAQAWAAEACAABAAQCPAAEAZABjwGeAAEAAQEJAAQACQABAAgAAQOOABMDgANOAxwC+gLIApYCXAIiAfABvgGEAUoBGADmAMwAsgCAAF4ALAAGACwAJgAgABoAFAAOAjYAAgFIAjoAAgG8AjkAAgG4AjUAAgFGAjcAAgGWAjgAAgG2AAQAHAAWABAACgIyAAIBSAI0AAIBuAIxAAIBRgIzAAIBlgAGACwAJgAgABoAFAAOAiUAAgFIAikAAgG8AigAAgG4AiQAAgFGAiYAAgGWAicAAgG2AAMAFAAOAAgCIgACAbwCIAACAbgB1wACAbYAAwAUAA4ACAIjAAIBvAIhAAIBuAHYAAIBtgAGACwAJgAgABoAFAAOAhYAAgFIAh4AAgG8AhwAAgG4AhQAAgFGAhgAAgGWAhoAAgG2AAYALAAmACAAGgAUAA4CFwACAUgCHwACAbwCHQACAbgCFQACAUYCGQACAZYCGwACAbYABwA0AC4AKAAiABwAFgAQAggAAgFIAhIAAgG8AhAAAgG4AgYAAgFGAgwAAgGcAgoAAgGWAg4AAgG2AAcANAAuACgAIgAcABYAEAIJAAIBSAITAAIBvAIRAAIBuAIHAAIBRgINAAIBnAILAAIBlgIPAAIBtgAGACwAJgAgABoAFAAOAfwAAgFIAgQAAgG8AgIAAgG4AfoAAgFGAf4AAgGWAgAAAgG2AAYALAAmACAAGgAUAA4B/QACAUgCBQACAbwCAwACAbgB+wACAUYB/wACAZYCAQACAbYABwA0AC4AKAAiABwAFgAQAfIAAgFI',
+  'AfgAAgG8AfAAAgG4AewAAgFGAfYAAgGcAfQAAgGWAe4AAgG2AAcANAAuACgAIgAcABYAEAHzAAIBSAH5AAIBvAHxAAIBuAHtAAIBRgH3AAIBnAH1AAIBlgHvAAIBtgAGACwAJgAgABoAFAAOAecAAgFIAesAAgG8AeoAAgG4AeYAAgFGAegAAgGWAekAAgG2AAYALAAmACAAGgAUAA4B4QACAUgB5QACAbwB5AACAbgB4AACAUYB4gACAZYB4wACAbYABAAcABYAEAAKAiwAAgFIAioAAgFGAi0AAgGWAi8AAgG2AAYALAAmACAAGgAUAA4B2wACAUgB3wACAbwB3gACAbgB2gACAUYB3AACAZYB3QACAbYABgAsACYAIAAaABQADgHSAAIBSAHWAAIBvAHVAAIBuAHRAAIBRgHTAAIBlgHUAAIBtgABAAQCOwAEAZABjwGeAAEAEwEJARsBHwEhASUBKQFPAVABUwFUAVcBWAFbAVwBjwGQAZcBuQG9AAEAAAABAAgAAgC6AFoBCgEMAQ4BEAESARQBGgEeASQBKAEsATABNAE4ATwBQAFCAUQBRgFIAUoBTAFOAVIBVgFaAV4BYgFmAWoBbgFyAXYBegF8AYIBhgGKAY4BkgGWAZwBngGiAaYBqgGuAbABsgG0AbYBuAG8AcABxAHGAckBywHNAc8B2QHYAe0B7wHxAfMB9QH3AfkB+wH9Af8CAQIDAgUCBwIJAgsCDQIPAhECEwIVAhcCGQIbAh0CHwIhAiMAAQBaAQkBCwENAQ8BEQETARkBHQEjAScBKwEvATMBNwE7AT8BQQFDAUUBRwFJAUsBTQFRAVUBWQFdAWEBZQFpAW0BcQF1AXkBewGBAYUBiQGNAZEBlQGZAZ0BoQGlAakBrQGvAbEBswG1AbcBuwG/AcMBxQHIAcoBzAHOAdAB1wHsAe4B8AHyAfQB9gH4AfoB/AH+AgACAgIEAgYCCAIKAgwCDgIQAhICFAIWAhgCGgIcAh4CIAIiAAEAAAABAAgAAgCoACUBFQEbAR8BJQEpAS0BMQE1ATkBPQFPAVMBVwFbAV8BYwFnAWsBbwFzAXcBfQGDAYcBiwGPAZMBlwGaAZ8BowGnAasBIQG5Ab0BwQABAAAAAQAIAAIAUAAlARcBHAEgASYBKgEuATIBNgE6AT4BUAFUAVgBXAFgAWQBaAFsAXABdAF4AX4BhAGIAYwBkAGUAZgBmwGgAaQBqAGsASIBugG+AcIAAQAlARMBGQEdASMBJwErAS8BMwE3ATsBTQFRAVUBWQFdAWEBZQFpAW0BcQF1AXsBgQGFAYkBjQGRAZUBmQGdAaEBpQGpAbUBtwG7Ab8AAQAAAAEACAACAA4ABAEFAQYBBQEGAAEABAABAEYAgQDHAAYAAAACACQACgADAAEA1gABABIAAAABAAAAEAABAAIARgDHAAMAAQC8AAEAEgAAAAEAAAAQAAEAAgABAIEAAQAAAAEACAABAD7/9gAGAAAAAgAmAAoAAwABABIAAQAuAAAAAQAAAA4AAgABAl8CaAAAAAMAAQAcAAEAEgAAAAEAAAANAAIAAQJpAnIAAAABAAECcwABAAAAAQAIAAEABv/HAAEAAQKsAAEAAAABAAgAAQAwAAoAAQAAAAEACAABACIAFAABAAAAAQAIAAEAFAAsAAEAAAABAAgAAQAGACIAAgABAlUCXgAAAAEAAAABAAgAAgAMAAMCUwJFAlQAAQADAk0CTwJQAAEAAAABAAgAAgAOAAQAXgBjAN8A5QABAAQAXABiAN0A5AAEAAAAAQAIAAEBEgALAQgA3gDMALoAqACWAIQAcgBgACYAHAABAAQC/wACAvkABwA0AC4AKAAiABwAFgAQAwsAAgMEAw4AAgMHAwkAAgMCAwwAAgMFAwoAAgMDAw0AAgMGAw8AAgL3AAIADAAGAw4AAgMIAwAAAgL6AAIADAAGAw0AAgMIAvsAAgL5AAIADAAGAwwAAgMI',
+  'Av0AAgL5AAIADAAGAwsAAgMIAwEAAgL6AAIADAAGAwoAAgMIAvwAAgL5AAIADAAGAwkAAgMIAv4AAgL5AAIADAAGAwEAAgMEAwAAAgMHAAUAJAAeABgAEgAMAv8AAgMQAv4AAgMCAv0AAgMFAvwAAgMDAvsAAgMGAAEABAMPAAIDCAABAAsC9wL5AvoDAgMDAwQDBQMGAwcDCAMQAAMAAAABAAgAAQBkAC8CSgJCAjoCMgIqAiICGgISAgoCAgH6AfIB6gHiAdoB0gHKAcIBugGyAaoBogGaAZIBigGCAXoBcgFqAWIBWgFSAUoBQgE6ATIBKgEgARYBDAECAPgA7gDkANoA0ADGAAEALwETARkBHQEjAScBKwEvATMBNwE7AU0BUQFVAVkBXQFhAWUBaQFtAXEBdQF7AYEBhQGJAY0BkQGVAZkBnQGhAaUBqQG1AbcBuwG/AlUCVgJXAlgCWQJaAlsCXAJdAl4ABAJoAnICgAKKAAQCZwJxAn8CiQAEAmYCcAJ+AogABAJlAm8CfQKHAAQCZAJuAnwChgAEAmMCbQJ7AoUABAJiAmwCegKEAAQCYQJrAnkCgwAEAmACagJ4AoIABAJfAmkCdwKBAAMBwAHBAcIAAwG8Ab0BvgADAbgBuQG6AAMBIQEiAbYAAwGqAasBrAADAaYBpwGoAAMBogGjAaQAAwGeAZ8BoAADAZoBmwGcAAMBlgGXAZgAAwGSAZMBlAADAY4BjwGQAAMBigGLAYwAAwGGAYcBiAADAYIBgwGEAAMBfAF9AX4AAwF2AXcBeAADAXIBcwF0AAMBbgFvAXAAAwFqAWsBbAADAWYBZwFoAAMBYgFjAWQAAwFeAV8BYAADAVoBWwFcAAMBVgFXAVgAAwFSAVMBVAADAU4BTwFQAAMBPAE9AT4AAwE4ATkBOgADATQBNQE2AAMBMAExATIAAwEsAS0BLgADASgBKQEqAAMBJAElASYAAwEeAR8BIAADARoBGwEcAAMBFAEVARcAAQAAAAEACAACAJwASwEFAQYAXgBjAQUBBgDfAOUBCgEMAQ4BEAESAUABQgFEAUYBSAFKAUwBegGuAbABsgG0AcQBxgHJAcsBzQHPAdkB2AHtAe8B8QHzAfUB9wH5AfsB/QH/AgECAwIFAgcCCQILAg0CDwIRAhMCFQIXAhkCGwIdAh8CIQIjAlMCRQJUAl8CYAJhAmICYwJkAmUCZgJnAmgCcwABAEsAAQBGAFwAYgCBAMcA3QDkAQkBCwENAQ8BEQE/AUEBQwFFAUcBSQFLAXkBrQGvAbEBswHDAcUByAHKAcwBzgHQAdcB7AHuAfAB8gH0AfYB+AH6AfwB/gIAAgICBAIGAggCCgIMAg4CEAISAhQCFgIYAhoCHAIeAiACIgJNAk8CUAJpAmoCawJsAm0CbgJvAnACcQJyAqwAAgAAAAAAAP+cADIAAAAAAAAAAAAAAAAAAAAAAAAAAAM2AAAAJADJAQIAxwBiAK0BAwEEAGMBBQCuAJABBgAlACYA/QD/AGQBBwEIACcA6QEJAQoAKABlAQsBDADIAMoBDQDLAQ4BDwApACoA+AEQAREBEgArARMBFAAsAMwBFQDNAM4A+gDPARYBFwEYAC0BGQAuARoALwEbARwBHQDiADAAMQEeAR8BIABmASEAMgDQASIA0QBnANMBIwEkAJEBJQCvALAAMwDtADQANQEmAScBKAA2ASkA5AD7ASoBKwA3ASwBLQEuAS8AOADUATAA1QBoANYBMQEyATMBNAE1ADkAOgE2ATcBOAE5ADsAPADrAToAuwE7AD0BPADmAT0BPgE/AEQAaQFAAGsAbABqAUEBQgBuAUMAbQCgAUQARQBGAP4BAABvAUUBRgBHAOoBRwEBAEgAcAFIAUkAcgBzAUoAcQFLAUwASQBKAPkBTQFOAU8ASwFQAVEATADXAHQBUgB2AHcAdQFTAVQBVQBNAVYBVwBOAVgATwFZAVoBWwDjAFAAUQFc',
+  'AV0BXgB4AV8AUgB5AWAAewB8AHoBYQFiAKEBYwB9ALEAUwDuAFQAVQFkAWUBZgBWAWcA5QD8AWgBaQCJAFcBagFrAWwBbQBYAH4BbgCAAIEAfwFvAXABcQFyAXMBdAF1AXYBdwBZAFoBeAF5AXoBewBbAFwA7AF8ALoBfQBdAX4A5wF/AJ0AngCbAYABgQGCAYMBhAGFAYYBhwGIAYkBigGLAYwBjQGOAY8BkAGRAZIBkwGUAZUBlgGXAZgBmQGaAZsBnAGdAZ4BnwGgAaEBogGjAaQBpQGmAacBqAGpAaoBqwGsAa0BrgGvAbABsQGyAbMBtAG1AbYBtwG4AbkBugG7AbwBvQG+Ab8BwAHBAcIBwwHEAcUBxgHHAcgByQHKAcsBzAHNAc4BzwHQAdEB0gHTAdQB1QHWAdcB2AHZAdoB2wHcAd0B3gHfAeAB4QHiAeMB5AHlAeYB5wHoAekB6gHrAewB7QHuAe8B8AHxAfIB8wH0AfUB9gH3AfgB+QH6AfsB/AH9Af4B/wIAAgECAgIDAgQCBQIGAgcCCAIJAgoCCwIMAg0CDgIPAhACEQISAhMCFAIVAhYCFwIYAhkCGgIbAhwCHQIeAh8CIAIhAiICIwIkAiUCJgInAigCKQIqAisCLAItAi4CLwIwAjECMgIzAjQCNQI2AjcCOAI5AjoCOwI8Aj0CPgI/AkACQQJCAkMCRAJFAkYCRwJIAkkCSgJLAkwCTQJOAk8CUAJRAlICUwJUAlUCVgJXAlgCWQJaAlsCXAJdAl4CXwJgAmECYgJjAmQCZQJmAmcCaAJpAmoCawJsAm0CbgJvAnACcQJyAnMCdAJ1AnYCdwJ4AnkCegJ7AnwCfQJ+An8CgAKBAoICgwKEAoUChgKHAogCiQKKAosCjAKNAo4CjwKQApECkgKTApQClQKWApcCmAKZApoCmwKcAp0CngKfAqACoQKiAqMCpAKlAqYCpwKoAqkCqgKrAqwCrQKuAq8CsAKxArICswK0ArUCtgK3ArgCuQK6ArsCvAK9Ar4CvwLAAsECwgLDAsQCxQLGAscCyALJAsoCywLMABMAFAAVABYAFwAYABkAGgAbABwCzQLOAs8C0ALRAtIC0wLUAtUC1gLXAtgC2QLaAtsC3ALdAt4C3wLgALwA9AD1APYC4QLiAuMC5ALlAuYC5wLoAukC6gLrAuwC7QLuAu8C8ALxAvIC8wL0AAMC9QL2AvcC+AL5AvoC+wL8Av0C/gL/AwADAQMCAwMDBAMFAwYDBwARAA8AHQAeAKsABACjACIAogDDAIcADQAGABIAPwAQAwgAsgCzAEIACwAMAF4AYAA+AEAAxADFALQAtQC2ALcAqQCqAL4AvwAFAAoApgMJACMACQCIAIYAiwCKAIwAgwBfAOgAggDCAwoAhAC9AAcAhQCWAwsADgDvAPAAuAAgAI8AIQAfAJUAlACTAKcAYQCkAEEAkgCcAwwDDQCaAJkApQMOAJgACADGALkDDwMQAxEDEgMTAxQDFQMWAxcDGAMZAxoDGwMcAx0DHgMfAyADIQMiAyMDJAMlAyYDJwMoAykDKgMrAywAjgDcAEMAjQDfANgA4QDbAN0A2QDaAN4A4AMtAy4DLwMwAzEDMgMzAzQDNQM2AzcDOAM5AzoDOwM8Az0DPgM/A0ADQQNCBkFicmV2ZQdBbWFjcm9uB0FvZ29uZWsKQXJpbmdhY3V0ZQdBRWFjdXRlC0NjaXJjdW1mbGV4CkNkb3RhY2NlbnQGRGNhcm9uBkRjcm9hdAZFYnJldmUGRWNhcm9uCkVkb3RhY2NlbnQHRW1hY3JvbgdFb2dvbmVrC0djaXJjdW1mbGV4B3VuaTAxMjIKR2RvdGFjY2VudARIYmFyC0hjaXJjdW1mbGV4BklicmV2ZQdJbWFjcm9uB0lvZ29uZWsGSXRpbGRlC0pjaXJjdW1mbGV4B3VuaTAxMzYGTGFjdXRlBkxjYXJvbgd1bmkwMTNCBk5hY3V0',
+  'ZQZOY2Fyb24HdW5pMDE0NQNFbmcGT2JyZXZlDU9odW5nYXJ1bWxhdXQHT21hY3JvbgtPc2xhc2hhY3V0ZQZSYWN1dGUGUmNhcm9uB3VuaTAxNTYGU2FjdXRlC1NjaXJjdW1mbGV4B3VuaTAyMTgEVGJhcgZUY2Fyb24HdW5pMDE2Mgd1bmkwMjFBBlVicmV2ZQ1VaHVuZ2FydW1sYXV0B1VtYWNyb24HVW9nb25lawVVcmluZwZVdGlsZGUGV2FjdXRlC1djaXJjdW1mbGV4CVdkaWVyZXNpcwZXZ3JhdmULWWNpcmN1bWZsZXgGWWdyYXZlBlphY3V0ZQpaZG90YWNjZW50B3VuaTFFQjAHdW5pMUVGOAZhYnJldmUHYW1hY3Jvbgdhb2dvbmVrCmFyaW5nYWN1dGUHYWVhY3V0ZQtjY2lyY3VtZmxleApjZG90YWNjZW50BmRjYXJvbgZlYnJldmUGZWNhcm9uCmVkb3RhY2NlbnQHZW1hY3Jvbgdlb2dvbmVrC2djaXJjdW1mbGV4B3VuaTAxMjMKZ2RvdGFjY2VudARoYmFyC2hjaXJjdW1mbGV4BmlicmV2ZQdpbWFjcm9uB2lvZ29uZWsGaXRpbGRlB3VuaTAyMzcLamNpcmN1bWZsZXgHdW5pMDEzNwZsYWN1dGUGbGNhcm9uB3VuaTAxM0MGbmFjdXRlBm5jYXJvbgd1bmkwMTQ2A2VuZwZvYnJldmUNb2h1bmdhcnVtbGF1dAdvbWFjcm9uC29zbGFzaGFjdXRlBnJhY3V0ZQZyY2Fyb24HdW5pMDE1NwZzYWN1dGULc2NpcmN1bWZsZXgHdW5pMDIxOQR0YmFyBnRjYXJvbgd1bmkwMTYzB3VuaTAyMUIGdWJyZXZlDXVodW5nYXJ1bWxhdXQHdW1hY3Jvbgd1bmkxRUFCB3VuaTFFQzUHdW5pMUVENwd1bmkxRUY5B3VvZ29uZWsFdXJpbmcGdXRpbGRlBndhY3V0ZQt3Y2lyY3VtZmxleAl3ZGllcmVzaXMGd2dyYXZlC3ljaXJjdW1mbGV4BnlncmF2ZQZ6YWN1dGUKemRvdGFjY2VudAd1bmkwNjIxB3VuaTA2MjcHdW5pRkU4RQd1bmkwNjIzB3VuaUZFODQHdW5pMDYyNQd1bmlGRTg4B3VuaTA2MjIHdW5pRkU4Mgd1bmkwNjcxB3VuaUZCNTEHdW5pMDY2RQx1bmkwNjZFLmZpbmEMdW5pMDY2RS5tZWRpEHVuaTA2NkUubWVkaS5hbHQMdW5pMDY2RS5pbml0EHVuaTA2NkUuaW5pdC5hbHQHdW5pMDYyOAd1bmlGRTkwB3VuaUZFOTIHdW5pRkU5MQd1bmkwNjdFB3VuaUZCNTcHdW5pRkI1OQd1bmlGQjU4B3VuaUZCRTkHdW5pRkJFOAd1bmkwNjJBB3VuaUZFOTYHdW5pRkU5OAd1bmlGRTk3B3VuaTA2MkIHdW5pRkU5QQd1bmlGRTlDB3VuaUZFOUIHdW5pMDY3OQd1bmlGQjY3B3VuaUZCNjkHdW5pRkI2OAd1bmkwNjJDB3VuaUZFOUUHdW5pRkVBMAd1bmlGRTlGB3VuaTA2ODYHdW5pRkI3Qgd1bmlGQjdEB3VuaUZCN0MHdW5pMDYyRAd1bmlGRUEyB3VuaUZFQTQHdW5pRkVBMwd1bmkwNjJFB3VuaUZFQTYHdW5pRkVBOAd1bmlGRUE3B3VuaTA2MkYHdW5pRkVBQQd1bmkwNjMwB3VuaUZFQUMHdW5pMDY4OAd1bmlGQjg5B3VuaTA2MzEHdW5pRkVBRQd1bmkwNjMyB3VuaUZFQjAHdW5pMDY5MQd1bmlGQjhEB3VuaTA2OTgHdW5pRkI4Qgd1bmkwNjMzB3VuaUZFQjIHdW5pRkVCNAd1bmlGRUIzB3VuaTA2MzQHdW5pRkVCNgd1bmlGRUI4B3VuaUZFQjcHdW5pMDYzNQd1bmlGRUJBB3VuaUZFQkMHdW5pRkVCQgd1',
+  'bmkwNjM2B3VuaUZFQkUHdW5pRkVDMAd1bmlGRUJGB3VuaTA2MzcHdW5pRkVDMgd1bmlGRUM0B3VuaUZFQzMHdW5pMDYzOAd1bmlGRUM2B3VuaUZFQzgHdW5pRkVDNwd1bmkwNjM5B3VuaUZFQ0EHdW5pRkVDQwd1bmlGRUNCB3VuaTA2M0EHdW5pRkVDRQd1bmlGRUQwB3VuaUZFQ0YHdW5pMDY0MQd1bmlGRUQyB3VuaUZFRDQHdW5pRkVEMwd1bmkwNkE0B3VuaUZCNkIHdW5pRkI2RAd1bmlGQjZDB3VuaTA2QTEMdW5pMDZBMS5maW5hDHVuaTA2QTEubWVkaQx1bmkwNkExLmluaXQHdW5pMDY2Rgx1bmkwNjZGLmZpbmEHdW5pMDY0Mgd1bmlGRUQ2B3VuaUZFRDgHdW5pRkVENwxrYWZEb3RsZXNzYXIRa2FmRG90bGVzc2FyLmZpbmEHdW5pMDY0Mwd1bmlGRURBB3VuaUZFREMHdW5pRkVEQgd1bmkwNkE5B3VuaUZCOEYHdW5pRkI5MQd1bmlGQjkwB3VuaTA2QUYHdW5pRkI5Mwd1bmlGQjk1B3VuaUZCOTQHdW5pMDY0NAd1bmlGRURFB3VuaUZFRTAHdW5pRkVERgd1bmkwNjQ1B3VuaUZFRTIHdW5pRkVFNAd1bmlGRUUzB3VuaTA2NDYHdW5pRkVFNgd1bmlGRUU4B3VuaUZFRTcHdW5pMDZCQQx1bmkwNkJBLm1lZGkMdW5pMDZCQS5pbml0B3VuaUZCOUYHdW5pMDY0Nwd1bmlGRUVBB3VuaUZFRUMHdW5pRkVFQgd1bmkwNkMxB3VuaUZCQTcHdW5pRkJBOQd1bmlGQkE4B3VuaTA2QzIMdW5pMDZDMi5maW5hDHVuaTA2QzIubWVkaQx1bmkwNkMyLmluaXQHdW5pMDZCRQd1bmlGQkFCB3VuaUZCQUQHdW5pRkJBQwd1bmkwNjI5B3VuaUZFOTQHdW5pMDZDMwx1bmkwNkMzLmZpbmEHdW5pMDY0OAd1bmlGRUVFB3VuaTA2MjQHdW5pRkU4Ngd1bmkwNjQ5B3VuaUZFRjAHdW5pMDY0QQd1bmlGRUYyB3VuaUZFRjQHdW5pRkVGMwd1bmkwNjI2B3VuaUZFOEEHdW5pRkU4Qwd1bmlGRThCB3VuaTA2Q0MHdW5pRkJGRAd1bmlGQkZGB3VuaUZCRkUHdW5pMDZEMgd1bmlGQkFGB3VuaTA2RDMHdW5pRkJCMQd1bmkwNjQwB3VuaUZFRkIHdW5pRkVGQwd1bmlGRUY3B3VuaUZFRjgHdW5pRkVGOQd1bmlGRUZBB3VuaUZFRjUHdW5pRkVGNg9sYW1fYWxlZldhc2xhYXIHdW5pRkM2QQd1bmlGQzZCB3VuaUZDNkQHdW5pRkM2RQd1bmlGQzZGGGJlaF95ZWhIYW16YWFib3ZlYXIuZmluYQd1bmlGQzQzB3VuaUZDODYUbGFtX2FsZWZXYXNsYWFyLmZpbmEOcGVoX3JlaGFyLmZpbmEPcGVoX3phaW5hci5maW5hD3BlaF9ub29uYXIuZmluYRZwZWhfYWxlZk1ha3N1cmFhci5maW5hDnBlaF95ZWhhci5maW5hGHBlaF95ZWhIYW16YWFib3ZlYXIuZmluYQd1bmlGQzcwB3VuaUZDNzEHdW5pRkM3Mwd1bmlGQzc0B3VuaUZDNzUYdGVoX3llaEhhbXphYWJvdmVhci5maW5hB3VuaUZDNzYHdW5pRkM3Nwd1bmlGQzc5B3VuaUZDN0EHdW5pRkM3Qhl0aGVoX3llaEhhbXphYWJvdmVhci5maW5hB3VuaUZEMEUHdW5pRkQyQQd1bmlGQ0ZCB3VuaUZEMTcHdW5pRkNGQwd1bmlGRDE4C3NlZW5femFpbmFyEHNlZW5femFpbmFyLmZpbmELc2Vlbl9ub29uYXIQc2Vlbl9ub29uYXIuZmluYRFzZWVuX25vb25naHVubmFhchZz',
+  'ZWVuX25vb25naHVubmFhci5maW5hFHNlZW5feWVoSGFtemFhYm92ZWFyGXNlZW5feWVoSGFtemFhYm92ZWFyLmZpbmEHdW5pRkQwRAd1bmlGRDI5DHNoZWVuX3phaW5hchFzaGVlbl96YWluYXIuZmluYQxzaGVlbl9ub29uYXIRc2hlZW5fbm9vbmFyLmZpbmEHdW5pRkNGRAd1bmlGRDE5B3VuaUZDRkUHdW5pRkQxQRVzaGVlbl95ZWhIYW16YWFib3ZlYXIac2hlZW5feWVoSGFtemFhYm92ZWFyLmZpbmEHdW5pRkQwRgd1bmlGRDJCCnNhZF96YWluYXIPc2FkX3phaW5hci5maW5hCnNhZF9ub29uYXIPc2FkX25vb25hci5maW5hEHNhZF9ub29uZ2h1bm5hYXIVc2FkX25vb25naHVubmFhci5maW5hB3VuaUZEMDUHdW5pRkQyMQd1bmlGRDA2B3VuaUZEMjITc2FkX3llaEhhbXphYWJvdmVhchhzYWRfeWVoSGFtemFhYm92ZWFyLmZpbmEHdW5pRkQxMAd1bmlGRDJDCmRhZF96YWluYXIPZGFkX3phaW5hci5maW5hCmRhZF9ub29uYXIPZGFkX25vb25hci5maW5hB3VuaUZEMDcHdW5pRkQyMwd1bmlGRDA4B3VuaUZEMjQTZGFkX3llaEhhbXphYWJvdmVhchhkYWRfeWVoSGFtemFhYm92ZWFyLmZpbmEHdW5pRkM0NAd1bmlGQzg3E2xhbV95ZWhIYW16YWFib3ZlYXIYbGFtX3llaEhhbXphYWJvdmVhci5maW5hB3VuaUZDOEEHdW5pRkM4Qgd1bmlGQzhEB3VuaUZDOEUHdW5pRkM4Rhlub29uX3llaEhhbXphYWJvdmVhci5maW5hFmFsZWZNYWtzdXJhX3JlaGFyLmZpbmEaYWxlZk1ha3N1cmFfcmVoYXIuZmluYS5hbHQXYWxlZk1ha3N1cmFfemFpbmFyLmZpbmEXYWxlZk1ha3N1cmFfbm9vbmFyLmZpbmEbYWxlZk1ha3N1cmFfbm9vbmFyLmZpbmEuYWx0HmFsZWZNYWtzdXJhX2FsZWZNYWtzdXJhYXIuZmluYSJhbGVmTWFrc3VyYV9hbGVmTWFrc3VyYWFyLmZpbmEuYWx0B3VuaUZDOTEHdW5pRkM5Mgd1bmlGQzk0B3VuaUZDOTYHdW5pRkM2NAd1bmlGQzY1B3VuaUZDNjcHdW5pRkM2OAd1bmlGQzY5InllaEhhbXphYWJvdmVfeWVoSGFtemFhYm92ZWFyLmZpbmEHdW5pRkRGMhB1bmlGREYyLnRhc2hrZWVsB3VuaTA2NkIHdW5pMDY2Qwd1bmkwNjYwB3VuaTA2NjEHdW5pMDY2Mgd1bmkwNjYzB3VuaTA2NjQHdW5pMDY2NQd1bmkwNjY2B3VuaTA2NjcHdW5pMDY2OAd1bmkwNjY5B3VuaTA2RjAHdW5pMDZGMQd1bmkwNkYyB3VuaTA2RjMHdW5pMDZGNAd1bmkwNkY1B3VuaTA2RjYHdW5pMDZGNwd1bmkwNkY4B3VuaTA2RjkMdW5pMDZGNC51cmR1DHVuaTA2RjcudXJkdQl6ZXJvLmRub20Ib25lLmRub20IdHdvLmRub20KdGhyZWUuZG5vbQlmb3VyLmRub20JZml2ZS5kbm9tCHNpeC5kbm9tCnNldmVuLmRub20KZWlnaHQuZG5vbQluaW5lLmRub20JemVyby5udW1yCG9uZS5udW1yCHR3by5udW1yCnRocmVlLm51bXIJZm91ci5udW1yCWZpdmUubnVtcghzaXgubnVtcgpzZXZlbi5udW1yCmVpZ2h0Lm51bXIJbmluZS5udW1yB3VuaTIwODAHdW5pMjA4MQd1bmkyMDgyB3VuaTIwODMHdW5pMjA4NAd1bmkyMDg1B3VuaTIwODYHdW5pMjA4Nwd1bmkyMDg4B3VuaTIwODkHdW5pMjA3',
+  'MAd1bmkwMEI5B3VuaTAwQjIHdW5pMDBCMwd1bmkyMDc0B3VuaTIwNzUHdW5pMjA3Ngd1bmkyMDc3B3VuaTIwNzgHdW5pMjA3OQd1bmkwMEEwCmRvdGFib3ZlYXIKZG90YmVsb3dhchZ0d29kb3RzdmVydGljYWxhYm92ZWFyFnR3b2RvdHN2ZXJ0aWNhbGJlbG93YXIYdHdvZG90c2hvcml6b250YWxhYm92ZWFyGHR3b2RvdHNob3Jpem9udGFsYmVsb3dhchR0aHJlZWRvdHNkb3duYWJvdmVhchR0aHJlZWRvdHNkb3duYmVsb3dhchJ0aHJlZWRvdHN1cGFib3ZlYXISdGhyZWVkb3RzdXBiZWxvd2FyB3VuaTA2RDQHdW5pMDYwQwd1bmkwNjFCB3VuaTA2MUYHdW5pMDY2RAd1bmkwNjBEB3VuaUZEM0UHdW5pRkQzRgd1bmkwMEFEB3VuaTA2NkEERXVybwd1bmkyMjE1B3VuaTAzQTkHdW5pMDM5NAd1bmkwM0JDB3VuaTA2MTUHd2FzbGFhcgd1bmkwNjcwB3VuaTA2NTYHdW5pMDY1NAd1bmkwNjU1C3VuaTA2NTQwNjRGC3VuaTA2NTQwNjRDC3VuaTA2NTQwNjRFC3VuaTA2NTQwNjRCC3VuaTA2NTQwNjUyC3VuaTA2NTUwNjUwC3VuaTA2NTUwNjREB3VuaTA2NEIHdW5pMDY0Qwd1bmkwNjREB3VuaTA2NEUHdW5pMDY0Rgd1bmkwNjUwB3VuaTA2NTENdW5pMDY1MTA2NEIuMQt1bmkwNjUxMDY0Qwt1bmkwNjUxMDY0RAt1bmkwNjUxMDY0RQt1bmkwNjUxMDY0Rgt1bmkwNjUxMDY1MAt1bmkwNjUxMDY3MAd1bmkwNjUyB3VuaTA2NTMHdW5pMDY1OAxkaWVyZXNpcy5jYXANZG90YWNjZW50LmNhcAlncmF2ZS5jYXAJYWN1dGUuY2FwEGh1bmdhcnVtbGF1dC5jYXAOY2lyY3VtZmxleC5jYXAJY2Fyb24uY2FwCWJyZXZlLmNhcAhyaW5nLmNhcAl0aWxkZS5jYXAKbWFjcm9uLmNhcAd1bmkwMkJDB3VuaTAyQkIDRExFB3VuaUY2QkUHdW5pMDMyNgxjb25uZWN0aW9uX2wXT3NsYXNoLkJSQUNLRVQudmFyQWx0MDEcT3NsYXNoYWN1dGUuQlJBQ0tFVC52YXJBbHQwMRdkb2xsYXIuQlJBQ0tFVC52YXJBbHQwMRdvc2xhc2guQlJBQ0tFVC52YXJBbHQwMRxvc2xhc2hhY3V0ZS5CUkFDS0VULnZhckFsdDAxAAAAAQAAAAoATgCUAANERkxUADRhcmFiACRsYXRuABQABAAAAAD//wADAAAAAwAEAAQAAAAA//8AAwABAAMABAAEAAAAAP//AAMAAgADAAQABWtlcm4APmtlcm4ANmtlcm4AMG1hcmsAKG1rbWsAIAAAAAIABQAGAAAAAgADAAQAAAABAAIAAAACAAIAAAAAAAIAAgABAAdg9hNED84ICgJSAagAEAAGABAAAQAKAAEAAQFUAVQAAQDmAAwAGwDUAM4AyADCALwAtgCwAKoApACeAJgAkgCMAIYAgAB6AHQAbgBoAGIAXABWAFAASgBEAD4AOAABAHICXgABAJQC2AABAGICswABAHYDGQABAHUDWQABAHYC2QABAHYClwABAHEDOwABAHYDPwABAHUCXwABAH8C7AABAHYCdgABAJoC2AABAHcCrAABAHcDrAABAHcDgAABAHcDLQABAI4DhwABAHMDfgABAHcC1gABACYCpQABAJICjgABAH4DiwABAH4C5AABAHADAwABADsDhQABADsC+AAbAAAOpgAADpoAAA6OAAAOggAADnYAAA5qAAAOZAAADlgAAA5MAAAORgAADlgAAA5YAAAOWAAADjoAAA40AAAOKAAADiIAAA4WAAAOEAAADgoAAA4EAAAOEAAA',
+  'Df4AAA4QAAAN+AAADfIAAA3sAAEAGwKNAo8CkQKTApUC9QL3AvkC+wL8Av0C/gL/AwIDAwMFAwYDCAMJAwoDCwMMAw4DDwMQAxEDEgAGABAAAQAKAAAAAQCIAIgAAQBeAAwACgBMAEYAQAA6ADQALgAoACIAHAAWAAEAd//GAAEAd/+QAAEAd/5qAAEAd/82AAEAJgG5AAEAi/7eAAEAfv6rAAEAcf9WAAEAO/7gAAEAO/9fAAoAAA2QAAANhAAADXgAAA1sAAANYAAADU4AAA1CAAANMAAADR4AAA0MAAEACgKOApACkgKUApYC+AL6AwEDBAMHAAUAAAABAAgAAQ1SAAwAAgv8ACgAAgAEAcgCKgAAAiwCLQBjAi8CLwBlAjECPABmAHIFZgVmBVYFVgVGBUYFNgU2BSYFCgUABOQEzgTEBLoEngSeBSYEjgSEBG4EXgRUBEoENAQqBBQD/gP0A+oD2gPQA8ADsAOmA5wDhgOGA3ADcANgA2ADVgNWA0ADQANAA0ADNgM2AyYDJgMcAxwDDAMMAvwC/ALyAvIC6ALoAsYCxgK2ArYDQANAA0ADQAKgAqAClgKWAowCjAJ8AnwCcgJyAmICYgJSAlICSAJIAj4CPgSeBJ4EngSeAi4CJAIUAgQB+gHwAeYB3AHSAcgBuAGuAZ4BjgF+AXQBZAFUAUoBQAD+AOYABABUAE4ASABCABIANgAwACoAAQK+BEQABAA8ADYAMAAqACQAHgAYABIAAQEw/6YAAQEwAjcAAQK+/6YAAQK+AsIAAQPG/6YAAQPGAw8AAQSl/6YAAQSlAw8AAgAeAsgHcgeEAAIAFAK+B4AHdAACAAoCtAd2B3AAAQOJAyYAAgAKAroDigf8AAEDTgM3AAIAFALKCWADoAACAAoCwAliA5YAAQG/AzcAAgNQAAoHPAc2AAEDxP72AAIDXAAKAtoHwgABA07+9gACA3IAFAkmA2YAAgNoAAoJKANcAAEBv/72AAIDFgJABwIG/AACAygCTAMcB44AAgNEAmII+AM4AAIDOgJYCPoDLgACAB4CGAbCBtQAAgAUAg4G0AbEAAIACgIEBsYGwAABA8QC0wACAAoCCgLaB0wAAQNOAuQAAgAUAhoIsALwAAIACgIQCLIC5gABAb8C5AACAB4AbAZ0AmoAAgAUAGIGggEiAAIACgBYBngCVgABBMgC0wACAAoA6AbyBv4AAQRgAuQAAgAUAGoATgBeAAIACgBgAFoAVAABAtAC0wACACQAHgYmAhwAAgAaABQGNADUAAIAEAAKBioCCAABBMj/nAABBMgCPQACACwAJgAKABoAAQCZAtMAAgAcABYAEAAKAAEAZf7AAAEAmQI9AAEC0P+cAAEC0AI9AAIAHgCSBcoBwAACABQAiAXYAHgAAgAKAH4FzgGsAAEEyQOLAAIACgA+BkgGVAABBGADiwACABQAdAe4AfgAAgAKAGoHugHuAAEC0QOLAAIASgBEBXwBcgACABAACgYUBiAAAQRg/6YAAQRgAk4AAgBAADoHfgG+AAIAIAAaBWoACgABAbP+JAACABAACgVaATgAAQTJ/6YAAQTJAk4AAgAQAAoHWgGOAAEC0f+mAAEC0QJOAAIAHgBsBRYFKAACABQAYgUkBRgAAgAKAFgFGgUUAAEDgAOLAAIACgBeALgFoAABA04DiwACABQAbgcEAUQAAgAKAGQHBgE6AAEBvwOLAAIAJAAeBMgE2gACABoAFATWBMoAAgAQAAoEzATGAAEDxP+mAAEDgAMDAAIAEAAKAGQFTAABA07/pgABA04DAwACABoAFAaqAOoAAgAQAAoGrADgAAEBv/+mAAEBvwMDAAIAlAAeBGgEegACAIoAFAR2BGoAAgCAAAoEbARmAAEDxP5pAAIAjAAQAAoE8gABAT0ClwABA07+aQACAJwAFAZQAJAAAgCSAAoGUgCGAAEBv/5pAAIAFgAQBCwACgABAbP+1AABA4n+1AAB',
+  'A4kDEwACACQAHgP4BAoAAgAaABQEBgP6AAIAEAAKA/wD9gABA8T+/wABA4ACTgACABYAEAAKBHwAAQE9AqsAAQNO/v8AAQNOAk4AAgAgABoF1AAUAAIAFgAQBdYACgABAGX+zgABAb/+/wABAb8CTgACAFwAVgAKAEoAAQDvA24AAgBMAEYACgA6AAEA7wMfAAIAPAA2ADAACgABAO/+vQACACwAJgAKABoAAQDvA2sAAgAcABYAEAAKAAEA7/+mAAEA7wKCAAECDP+mAAECDAMPAAQAAAABAAgAAQeaBigAAgZEAAwAvAYWBhAGCgYEBgoGBAX+BgQF/gYEBgoF+AYKBfgF8gYEBfIGBAXsBgQF7AYEBeYF4AXmBeAF2gXUBdoF1AXmBc4F5gXOBdoFyAXaBcgF5gXCBeYFwgXaBbwF2gW2BdoF1AXaBdQFsAXgBbAF4AWqBdQFqgXUBaQF4AWkBeAFngXUBZ4F1AWYBeAFmAXgBZIF1AWSBdQFjAWGBYwFhgWABXoFgAV6BYwFhgWMBYYFgAV0BYAFdAWMBYYFjAWGBYAFbgWABW4FaAWGBWgFhgViBW4FYgVuBVwFVgVcBVYFUAVWBVAFVgVKBVYFSgVWBUQFPgVEBT4FOAU+BTgFPgUyBT4FMgU+BSwFPgUsBT4FJgUgBSYFIAUaBRQFGgUUBQ4FIAUOBSAFCAUUBQgFFAUCBSAFAgUgBPwE9gT8BPYE8AUgBPAFIATqBPYE6gT2BOQE3gTkBN4E2ATSBNgE0gTMBN4EzATeBMYE0gTGBNIEwAS6BLQErgSoBKIEnASWBJAEugSKBK4EhASiBH4ElgR4BHIEeARyBGwEZgRsBGYEYARyBGAEcgRaBGYEWgRmBFQEcgRUBHIETgRmBE4EZgRIBEIESARCBDwEQgQ8BEIENgRmBDYEZgQwBeAEMAXgBCoEJAQqBCQEHgQYBB4EGAQqBCQEKgQkBBIEGAQMBBgEBgQABAYEAAP6A/QD+gP0A+4D6APuA+gD4gPcA+ID3APWA9AD1gPQA8oDxAPKA8QDvgXUA74F1AO4A8QF2gXUBdoF1AO4A8QDsgOsA6YDoAOaA5QDjgOIA7IDrAOmA6ADggN8A3YDcANqA6wDZAOgA14DfANYA3ADUgNMA1IDTANSA0wDjgOIA0YDrANAA6ADRgOsA0ADoAYWAzoGFgM6AzQDOgM0AzoDLgMoAy4DKAMuAyIDLgMiBdoDHAXaAxwDFgMoAxYDKAMQBdQDEAXUAy4DKAMuAygF2gMcBdoDHAMKAwQDCgMEAv4DBAL+AwQC+ALyAAEAe/+mAAEAewH0AAEAiAGWAAEBd/69AAEAiACtAAEAkwM3AAEAbQHqAAEAk/72AAEBs/38AAEBs/6sAAEAbQEBAAEBEAM3AAEBEP6iAAEBEQMDAAEBJAMDAAEBef+mAAEBeQKGAAEAlAM/AAEBIgIDAAEBEQM3AAEBJAM3AAEAlP6VAAEAlAI9AAEBIv5pAAEBIgEaAAEBg/+mAAEBggJ6AAEBK/6OAAEBKwJOAAEBEf+mAAEBEQJOAAEBJP+mAAEBJAJOAAEBPQH0AAEAkwLkAAEBQf62AAEBPQKKAAEBN/+mAAEBNwJOAAEBKP58AAEBKAJPAAEAoP+mAAEAoAMTAAEBRv6sAAECKAMTAAEBO/+mAAEA2wNIAAEA2AMfAAEBLgNMAAEBqP+mAAEA5wLaAAEA/f+mAAEA0AMTAAEBdwJDAAEBUwMDAAECUwMDAAEBsP6EAAECUwJOAAEBUwJOAAEC8wJOAAEBUwOLAAEC8wOLAAEBU/+mAAEBUwLkAAEBhf+mAAEC8wLkAAEBSgLkAAEBQALkAAEBPgLkAAEBLgLkAAEBSv+mAAEBSgJOAAEBQP+mAAEBQAJOAAEBIP5wAAEBPgJOAAEBKP5wAAEBLgJOAAEBegLkAAEBjgLkAAEBev+mAAEBegJOAAEBjv+mAAEBjgJOAAEBxgLjAAEDOQLj',
+  'AAEBxv+mAAEBxgJNAAEDOQJNAAEBtgOLAAEDOQOLAAEBtv+mAAEBtgJOAAEDOf+mAAEDOQJOAAEAmQOLAAEAmQMfAAEAmQLkAAEAZf7KAAEAmQJOAAEA0wMfAAEAmwLkAAEA7v+mAAEAmwJOAAEA+wLPAAEBFALTAAEA+/+mAAEA+/5pAAEA+/7/AAEA+wI5AAEBFP5wAAEBFAI9AAEAkwMfAAEBdwK+AAEAkwOLAAEBdwMqAAEAkwMDAAEBdwKiAAEAk/5pAAEAlP6HAAEBd/5pAAEAk/7/AAEBd/7/AAEAk/+mAAEAkwJOAAEBd/+mAAEBdwHtAAEAhwP7AAEAhwOsAAEAh/69AAEAhwP4AAEAh/+mAAEAhwMPAAEBEP+mAAEBEAJOAAIABAEIARUAAAEXARcADgEZAX4ADwGBAccAdQAlAAABUAABAUoAAAFEAAEBPgAAATgAAQEyAAABLAABASYAAAEgAAEBGgAAARQAAAEOAAEBCAAAAQIAAQD8AAAA9gAAAPAAAAECAAABAgAAAQIAAQDqAAAA5AAAAN4AAQDYAAAA0gAAAMwAAQDGAAAAwAAAALoAAAC0AAAArgAAALoAAACoAAAAugAAAKIAAACcAAAAlgABAHIBeAABAJQCOwABAGIBugABAHUCHAABAHYA9wABAHEBsQABAHYBrQABAHUBrQABAHcAHgABAH8CHgABAHYCHgABAHcAMgABAJoCHgABAHcCCgABAHcAIQABAI4B7QABAHMB7QABAHcAHwABAHcB7QABACYCcAABACYB1gABAJIBvQABAIsAHQABAH4CTgABAH7/6AABAH4BuwABAHEABgABAHACTgABADsALgABADsCRQABADsABgABADsCYgACAAUCjQKWAAAC9QL1AAoC9wL/AAsDAQMMABQDDgMSACAAAgAIAAIBrAAKAAIAxAAEAAABUADsAAkACgAAAAD/4P/1AAAAAAAA/27/c/9yAAAAAAAAAAAAAAAAAAD/twAA/7wAAP/1AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/90AAP/eAAAAAAAAAAAAAAAAAAD/wQAA/8UAAAAAAAAAAAAAAAAAAP/y//b/9gAA/23/tgAA/8D/3f/yAAAAAAAAAAD/aQAA//sAAAAA/+wAAAAAAAAAAP9k/6//9/+z/9T/6AAAAAAAAAACAAYCnwKgAAACrgKuAAICsAKxAAMCuQLEAAUDMQMyABEDNAM1ABMAAgAQAp8CoAABAqMCowABAq4CrgACArACsQACArkCugABArsCuwAIArwCvAAJAr0CvQAIAr4CvgAJAr8CvwAEAsACwAAFAsECwQAEAsICwgAFAsMCxAAHAzEDMgADAzQDNQAGAAIADQKuAq4AAQKwArEAAQK7ArsABwK8ArwACAK9Ar0ABwK+Ar4ACAK/Ar8AAwLAAsAABALBAsEAAwLCAsIABALDAsQABgMxAzIAAgM0AzUABQABADYABAAAABYBvAGqAaABkgF4AXIBWAFKATABIgEIAPoA9ADaANAAwgCoAI4AgACAAGYAZgABABYCnwKnAqoCrAKtAq4CswK0ArUCtgK3ArwCvQK+AsICwwLEAsgDMQMyAzQDNQAGAqb/+QKt/9oCtP/uArb/3wK4/9oCzf/xAAMCpv/5Arb/6AK4/+QABgK8/9ECvv/tAsP/zwLE/+ADMf/6AzL/+gAGAp//sQKs/8wCrv/aAsH/5ALH//YCyP/qAAMCrP/BAsf/9ALI/+QAAgK+//ACxP/jAAYCn/+wAqz/yQKu/+cCwf/gAsf/8ALI/+cAAQKf/7oAAwKs/7kCx//oAsj/4QAGArP/+AK1/+sDMf/kAzL/5AM0AAEDNQABAAMCtP/1Arb/7QK4/+sABgKz//gCtf/tAzH/5wMy/+cDNAACAzUAAgADArT/9AK2//gCuP/4AAYCs//0ArX/9QMx//MDMv/zAzT/7gM1/+4AAQLE',
+  '/9oABgK8/7wCvv/UAsP/uwLE/80DNAADAzUAAwADAqwAAAM0/98DNf/fAAIDNP/vAzX/7wAEAzH/5QMy/+UDNP/8AzX//AADAr3/wQK+/78CxP+xAAIACAACETgACgACDVwABAAAD3oN2AAuACUAAAAA//sAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/9gAAAAAAAAAA//sAAAAAAAD/+gAAAAAAAAAAAAD/+wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD//P+sAAAAAP/3/+8AAAAAAAD/+/+l//sAAP/9AAAAAP/yAAAAAAAAAAAAAAAA//T/9//3AAAAAP/3//gAAAAAAAAAAAAA//n/+P/9AAAAAAAA//UAAAAA//IAAP/0AAAAAP/3//oAAP/sAAD/+AAAAAD/9QAA//cAAAAAAAAAAAAA//r/9AAAAAAAAAAA//kAAP/0//n/0AAAAAD/7v/qAAD/9wAA//H/0gAA//r/8gAA//b//f/0AAAAAP/7AAD/+v/W/9j/1wAAAAAAAAAAAAD/9AAAAAAAAAAAAAAAAP/kAAAAAAAA//3/9QAAAAAAAP/s//sAAAAAAAAAAP/uAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/8EAAAAA//v/8gAAAAAAAAAA/7EAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8AAAAAAAAAAAAAAAAAAAAAAAAAAA//sAAAAAAAD/+gAAAAD/+wAAAAD/+P+6AAAAAP/2/+wAAAAAAAD/+/+k//gAAP/9//0AAP/nAAAAAAAAAAAAAAAA//L/9v/2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/8MAAAAAAAD/8QAAAAAAAAAA/6sAAAAAAAAAAAAA//AAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//sAAAAA//kAAAAAAAD/+wAAAAAAAAAA//sAAAAA//T/9QAAAAAAAAAA//sAAAAAAAD/8QAAAAAAAAAAAAD/+wAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+gAAAAD/+v+7AAAAAP/6/+4AAAAAAAD/+/+iAAAAAP/9AAAAAP/vAAAAAAAAAAAAAAAA//T/+f/4AAAAAP/2//UAAAAAAAD//AAA//X/+QAAAAAAAAAA//EAAAAA//EAAP/wAAAAAP/3//sAAP/h//z/9QAAAAD/8v/7//YAAAAAAAAAAAAAAAAAAAAA//YAAAAAAAAAAAAAAAD/8QAAAAD/9gAAAAD/+AAA//cAAAAAAAD/+P/9AAD/8wAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/uv/j/7//0AAA/8MAAP/F/+X/7gAAAAD/uv/XAAD/tv+1AAD/0wAAAAD/uf/v/9D/uf/b/+MAAP/V/77/z/+6AAAAAAAAAAAAAP/6AAAAAAAAAAAAAAAAAAAAAAAA/88AAAAAAAAAAAAA//sAAAAA/5wAAP/7AAAAAP/Z//oAAAAAAAD/4v/6//oAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/yAAAAAD/+P/0AAD/+wAA//z/qAAAAAAAAAAA//f/7AAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/9wAA//f/7gAAAAAAAAAAAAAAAP/YAAD/+QAAAAD/3P/2AAAAAP++//H/9wAAAAD/8//nAAAAAAAA//QAAP/3AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+8AAAAA//kAAAAA//oAAP/5AAAAAAAA//sAAAAA//cAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//v/7QAAAAAAAAAA//P/+//xAAD/qAAAAAD/0//TAAAAAAAA/97/ogAA//v/7wAA/7gAAP/t',
+  'AAAAAP/b//L/+/+n/6f/pwAAAAD/xAAA//H/6gAA//EAAP/0AAAAAAAAAAD/8QAAAAD/3P/oAAAAAAAAAAD/7AAAAAD/7f/tAAAAAAAA/+//+f/EAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+AAAAAAAAAAAAAAAAAAAAAA/7gAAAAAAAAAAP/0AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//sAAP/7//EAAAAAAAAAAAAAAAD/0wAA//0AAAAA/+T/+QAAAAD/vP/w//sAAAAA//n/5wAAAAAAAP/6AAD/+wAAAAAAAAAAAAAAAAAAAAD/8wAAAAAAAAAAAAAAAP/jAAAAAAAA//3/8gAAAAAAAP/q//kAAAAAAAAAAP/tAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/3AAAAAP/5AAAAAAAA//0AAAAA/+sAAAAAAAAAAAAA//gAAAAA//cAAP/3AAAAAP/2//sAAAAAAAD/8gAA//cAAAAAAAAAAAAA/6b/7P+o/9IAAP+sAAD/q//yAAAAAAAA/6n/vQAA/8H/nQAA/7wAAAAA/6f/5/+r/8D/6//s//n/yv/D/8f/pgAAAAAAAAAAAAD/9v/7AAAAAAAA//oAAP/1//sAAAAAAAAAAP/0AAAAAP/xAAD/9AAAAAD/9v/9AAD/4QAA//sAAAAA//H/+//2AAAAAAAAAAAAAAAA//UAAAAAAAAAAP/0AAD/9QAA/7YAAAAA/93/3AAAAAAAAP/k/8EAAAAA/+0AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/9gAAAAD/4AAAAAAAAAAAAAAAAP/nAAAAAAAAAAD/yf/6AAAAAP+9//H/9AAAAAD/0//kAAAAAAAA/9f/6//2AAAAAAAAAAAAAP/9AAAAAAAAAAAAAAAAAAAAAAAA/80AAAAAAAD/+gAA//4AAAAA/6sAAP/9AAAAAP/h//oAAAAAAAD/5wAA//0AAAAAAAAAAP/7AAAAAAAA//oAAAAAAAAAAAAA//n/vAAAAAD/9//tAAAAAAAA//v/pv/4AAD//f/9AAD/5wAAAAAAAAAAAAAAAP/x//L/8gAAAAAAAAAA//j/9wAAAAAAAAAAAAD/5f+5AAAAAP/z/+0AAAAAAAD/+f/A/+UAAP/x/90AAP/kAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+MAAAAAAAAAAAAAAAAAAAAA/7cAAAAAAAAAAP/qAAAAAAAAAAD/4//wAAAAAAAAAAAAAAAA//sAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+AAAAAAAAAAA//sAAAAAAAAAAAAAAAAAAAAAAAD/+wAAAAAAAAAAAAD/8f/vAAAAAAAAAAAAAP/y//EAAAAAAAAAAP/nAAAAAP/0AAD/5wAAAAD/8v/1AAD/3QAA/+8AAAAA/+oAAP/xAAAAAAAAAAAAAAAAAAAAAP/0AAAAAAAAAAAAAAAA/+QAAAAAAAD//QAAAAAAAAAA/+z/+wAAAAAAAAAA/+4AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/1QAAAAAAAAAAAAAAAAAAAAD/yQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACwAAAAAAAAAAAAAAAAALAAAAA0AAAAAAAAAJgAAAAAAAAAAAA8AAAAAAAAAAAAtAAAAAAAAAAAAEgAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAD/zgAAAAAAAP/5AAAAAAAAAAD/xQAAAAD/+QAAAAD/7wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+wAAAAAAAAAAAAD/8v+/AAAAAP/0/+8AAAAAAAD/+v/D//UAAP/5/+cAAP/uAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/z//3//QAAAAAAAAAAAAD//QAA/9cAAAAAAAAAAAAA//YAAAAA/7YAAP/0AAAAAP/cAAD//QAAAAD/5QAA//MAAAAAAAAAAP/7AAAAAAAA//oAAAAA//sAAAAA//j/ugAAAAD/9v/sAAAAAAAA//v/pP/4AAD//f/9AAD/5wAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8gAAAAD/1QAAAAAAAAAAAAAAAAAAAAD/+wAAAAAAAP/1AAAAAAAAAAD/7QAAAAAAAP/qAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/s//sAAP/QAAAAAAAAAAAAAAAAAAAAAP/zAAAAAAAA/+8AAAAAAAAAAP/iAAAAAAAA/+oAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+j/9wAA/84AAAAAAAAAAP/7AAAAAAAA/+8AAAAAAAD/6wAAAAAAAAAA/94AAAAAAAD/6gAAAAAAAAAAAAAAAAAAAAAAAAACABQAAQANAAAADwAiAA0AJABRACEAVABhAE8AYwBuAF0AcAB0AGkAdgCVAG4AlwCiAI4ApAC2AJoAuADfAK0A4QDiANUA5QD0ANcA9gD6AOcA/AEEAOwCnwKiAPUCrgKuAPkCsAKxAPoCuQLEAPwDMQMyAQgDNAM1AQoAAgBFAAEACwAFAA0ADQAFAA4ADgABAA8AFAAKABUAIwABACQAKAADACkANQABADYANwAbADgARQABAEYAUQADAFIAUwABAFQAVAADAFUAWAABAFkAXgALAF8AYQAVAGMAYwAVAGQAbgAIAHAAdAAQAHYAegAMAHsAfgAWAH8AfwAFAIAAgAAMAIEAjQAEAI4AjgAdAI8AlAACAJUAlQAXAJcAmAAXAJkAogACAKQAqAASAKkAqwANAKwAtgAGALgAuAAGALkAugANALsAvwATAMAAxgAHAMcA0gACANMA0wAHANQA1AAdANUA1QAXANYA2QAHANoA3wAOAOAA4AANAOEA4wAYAOUA5QAYAOYA7QAJAO4A7gAEAO8A8AACAPEA8QAPAPIA9AAJAPYA+gAUAPwBAAAPAQEBBAAZAp8CoAARAqECogAeAqMCowARAq4CrgAaArACsQAaArkCugARArsCuwAjArwCvAAkAr0CvQAjAr4CvgAkAr8CvwAfAsACwAAgAsECwQAfAsICwgAgAsMCxAAiAzEDMgAcAzQDNQAhAAIASAABAAsAAwAMAA0AAgAPABQACwAVABgAFgAZACIAAgAkACgAEQA2ADcAIQA4ADkAIgA6AD4AEgBGAFAABABRAFEAAgBUAFQABABVAFgAFwBZAF4ADABfAGEAGABjAGMAGABkAG4ACQBwAHQAEwB2AHoADQB7AH4AGQB/AH8AAwCAAIAADQCBAIsABQCMAI0AAQCOAI4AHgCPAJQADgCVAJUAJQCXAJcAJgCYAJgAJQCZAKIAAQCkAKgAFACpAKsACgCsALYABgC4ALgABgC5ALoAKQC7ALwAGwC9AL0AJgC+AL8AGwDAAMYACgDHANEABwDSANIAAQDTANQAHgDVANUACADWANkAHADaAN8ADwDhAOIAIADlAOUAIADmAO0ACADuAO4ABQDvAO8AAQDwAPAABwDxAPEAEADyAPQACAD2APoAFQD8AQAAEAEBAQQAHQKfAqAAGgKhAqIAJAKuAq4AHwKwArEAHwK5AroAGgK7ArsALAK8ArwALQK9Ar0ALAK+Ar4ALQK/Ar8AJwLAAsAAKALBAsEAJwLCAsIAKALDAsQAKwMxAzIAIwM0AzUAKgABAjIABAAA',
+  'ARQ7+DvKO8o7yjvKO8o7yjuYO8o7yjvKO3o7ejqIOkY6JDokOiQ6JDokOd45vDm8Obw5fjt6O3o7ejt6O3o7ejt6O3o5XDaeNmw2WjZaNlo2WjZUNj42MDYiNhQ2DjYANdo1zDU+NRw0rjSAM8Y0gDSAM4AzZjNmM2YzZjNmM2YzZjNmM2YzZjt6MYwwujNmMIAwajBqMGowKDAKMAowCjAKMAovOC7GLsYuxi6YLpIuki6SLpIuki6SLpIuki6SLpIruCs2KwwrDCsMKwwpMigcJ7InsieyJ7IndCdOJ04nTjvKJ7Im/CbeJt4m3ibeJt4m3ia8Jt4m3ibeJpYmliZEJh4mCCYIJggmCCYIJCIj8CPaI5QmliaWJpYmliaWJpYmliaWJpYiJiHgIdIh0iHSIdIhtCG0IbQhkiF4IVIhHCD2IPAgwiCcIEogNCAuICgfhiAoH3whtB8+IbQhtCG0IbQhtB7oHroeuh66Hroeuh66HroejB6MHromlh42HgQd3h2gHYIdgh2CHUAdGh0aHRodGh0aG/Qb0hvEGn4bxBpYGj4aPho+Gj4aPho+Gj4m3iaWHroaHBn+Gj4aPhhAF+4XzBfMF8wXzBZ+FiAaHBocGhwaHBX2FdwV3BXcFb4VsBWiFZwVYhFwEVoQMA5iDaQNeg1gDWAL8glsBu4VsBWwBtgGwgZ4BhIGDAX2BegFygW8BWYFLAQSA4wDGgL8Au4C7gLYAtgAAgAbAAEAKAAAACoAKgAoACwALAApAC8AMAAqADMAPgAsAEYAYQA4AGMAlABUAJYAqwCGAK4AsQCcALMAtQCgALgA4wCjAOUBBADPAp8CogDvAqUCpQDzAqcCqAD0AqoCqgD2AqwCrgD3ArACsQD6ArMCswD8ArUCtQD9ArcCtwD+ArkCxAD/AscCyAELAswCzQENAs8CzwEPAzEDMgEQAzQDNQESAAUADP/5AG//4AB1/+sA9f/3APv/9AADAAz/8QBv//QAdf/tAAcANAALALAADgCxAB0AswAIALQAFAC1ABYAtgAoABwAAf/rAAL/5AAD/+QABP/kAAX/5AAG/+QAB//kAAj/5AAJ/+QACv/kAAv/5AAM/90ADf/kADb/+AA3/+sAdgAFAHv/+wB8//sAff/7AH7/+wB//+QAqgAGAK8ACQCwABIAsQAqALMAFQC1AAwAuAASACEAAf/qAAL/5gAD/+YABP/mAAX/5gAG/+YAB//mAAj/5gAJ/+YACv/mAAv/5gAM/98ADf/mADb/9QA3/+kAX//3AGD/9wBh//cAY//3AG//+QB1//cAdv/xAHf/6gB4/+oAef/qAHr/6gB7//MAfP/zAH3/8wB+//MAf//mAID/6gCxAA4ARgAP//oAEP/6ABH/+gAS//oAE//6ABT/+gAWAAoAGAAKACT/+gAl//oAJv/6ACf/+gAo//oAPgAGAEb/+gBH//oASP/6AEn/+gBK//oAS//6AEz/+gBN//oATv/6AE//+gBQ//oAUf/6AFT/+gBf/+AAYP/XAGH/1wBj/9cAZP/6AGX/+gBm//oAZ//6AGj/+gBp//oAav/6AGv/+gBs//oAbf/6AG7/+gBv/98AcP/sAHH/7ABy/+wAc//sAHT/7AB2/9kAd//KAHj/ygB5/8oAev/KAID/ygDh//kA4v/5AOP/+QDl//kA8f/0APX/9AD2//YA9//2APj/9gD5//YA+v/2APz/9AD9//QA/v/0AP//9AEA//QADgAM//oANv/5ADf/+QBf//EAYP/xAGH/8QBj//EAb//5AHb/6gB3/+MAeP/jAHn/4wB6/+MAgP/jABUAAf/iAAz/zAA2//gAbwAIAHUABwB2AA0Aj//zAJX/7gCW//MAmf/vAKoACgCvABUAsAAUALEAMQCyABEAswAcALUAKgC4ABMAx//wANX/8ADa//cAAwAM/8wAlv/zALIAEQAHAAz/+gBf/9oAb//uAHX/7AB2/9UA9f/5',
+  'APv/8AADAF//8wBv//YAdv/kAAUADP/6AG//5AB1/+gA9f/5APv/5gABAG//7QAZAAH/3wAM/8QAJP/4ADb/+ABG//cAbwARAHUAEQB2ABYAgf/2AI//7QCV/+gAlv/3AJn/6QCk//IAqgASAK8AHQCwAA4AsQA5ALIACwCzACQAtQAyALgADgDH/+oA1f/qANr/8QASAAH/5QAM/8YANv/4AHYABwCP//gAlf/0AJb/9wCZ//UAqgAHAK8AEACwABUAsQAsALIAIACzABcAtQAlALgAFADH//YA1f/3AAUADP/EAJb/9wCvABIAsgAjALUAFgAFAAz/xgCW//cArwAMALIAIAC1ABIAnwAB/+oAAv/qAAP/6gAE/+oABf/qAAb/6gAH/+oACP/qAAn/6gAK/+oAC//qAAz/6gAN/+oAD//0ABD/5gAR/+YAEv/mABP/5gAU/+YAJP/zACX/5AAm/+QAJ//kACj/5AAvACIAMAAjADMACwA0ABoANQALAEb/8QBH/+QASP/kAEn/5ABK/+QAS//kAEz/5ABN/+QATv/kAE//5ABQ/+QAUf/kAFT/5ABZ//UAWv/1AFv/9QBc//UAXf/1AF7/9QB2AAgAf//qAIH/4QCC/+EAg//hAIT/4QCF/+EAhv/hAIf/4QCI/+EAif/hAIr/4QCL/+EAjP/hAI3/4QCP//EAkP/aAJH/2gCS/9oAk//aAJT/2gCV//IAlv/zAJf/2wCY/9sAmf/wAJr/2gCb/9oAnP/aAJ3/2gCe/9oAn//aAKD/2gCh/9oAov/aAKP/8QCqAAgArwAYALAAGQCxACwAsgAnALMAFwC0ACQAtQAlALYANwDA/+gAwf/oAML/6ADD/+gAxP/oAMX/6ADG/+gAx//vAMj/2gDJ/9oAyv/aAMv/2gDM/9oAzf/aAM7/2gDPAAEA0AABANH/2gDS/9oA0//oANX/8QDW/+gA1//oANj/6ADZ/+gA2v/pANv/6QDc/+kA3f/pAN7/6QDf/+kA4f/oAOL/6ADj/+gA5f/oAOb/8wDn/98A6P/fAOn/3wDq/98A6//fAOz/3wDt/98A7v/hAO//2gDw/9oA8f/iAPL/3wDz/98A9P/fAPX/4QD2//MA9//gAPj/4AD5/+AA+v/gAPv/7wD8//EA/f/iAP7/4gD//+IBAP/iAQH/7QEC/+0BA//tAQT/7QChAAH/7QAC/+0AA//tAAT/7QAF/+0ABv/tAAf/7QAI/+0ACf/tAAr/7QAL/+0ADP/sAA3/7QAP//IAEP/pABH/6QAS/+kAE//pABT/6QAk//AAJf/nACb/5wAn/+cAKP/nAC8AIwAwACQAMwAMADQAGwA1ABAARv/uAEf/5wBI/+cASf/nAEr/5wBL/+cATP/nAE3/5wBO/+cAT//nAFD/5wBR/+cAVP/nAFn/9gBa//YAW//2AFz/9gBd//YAXv/2AG8ABQB1AAUAdgALAH//7QCB/+YAgv/mAIP/5gCE/+YAhf/mAIb/5gCH/+YAiP/mAIn/5gCK/+YAi//mAIz/5gCN/+YAj//vAJD/3wCR/98Akv/fAJP/3wCU/98Alf/wAJb/9wCX/+AAmP/gAJn/7gCa/98Am//fAJz/3wCd/98Anv/fAJ//3wCg/98Aof/fAKL/3wCj//YAqgAKAK8AGQCwABIAsQAuALIAJwCzABkAtAAlALUAJwC2ADkAwP/qAMH/6gDC/+oAw//qAMT/6gDF/+oAxv/qAMf/7QDI/98Ayf/fAMr/3wDL/98AzP/fAM3/3wDO/98AzwACANAAAgDR/98A0v/fANP/6gDV/+8A1v/qANf/6gDY/+oA2f/qANr/6wDb/+sA3P/rAN3/6wDe/+sA3//rAOH/9QDi/+8A4//vAOX/7wDm//EA5//jAOj/4wDp/+MA6v/jAOv/4wDs/+MA7f/jAO7/5gDv/98A8P/fAPH/5wDy/+MA8//jAPT/4wD1/+YA9v/yAPf/5AD4',
+  '/+QA+f/kAPr/5AD7//EA/P/vAP3/5wD+/+cA///nAQD/5wEB//ABAv/wAQP/8AEE//AAWwAP//EAEP/0ABH/9AAS//QAE//0ABT/9AAk//EAJf/zACb/8wAn//MAKP/zAC8AIgAwACwAMwAUADQAIwA1ABQARv/wAEf/8wBI//MASf/zAEr/8wBL//MATP/zAE3/8wBO//MAT//zAFD/8wBR//MAVP/zAIH/8wCP/+4AkP/uAJH/7gCS/+4Ak//uAJT/7gCV/+8Alv/1AJf/7gCY/+4Amf/uAJr/7gCb/+4AnP/uAJ3/7gCe/+4An//uAKD/7gCh/+4Aov/uAKP/9ACvABIAsQAsALIAFgCzABQAtAAuALUACAC2ACsAwf/1AMf/7gDI/+4Ayf/uAMr/7gDL/+4AzP/uAM3/7gDO/+4Az//uAND/7gDR/+4A0v/uANX/7gDa//QA4f/0AOb/8QDn//IA6P/yAOn/8gDq//IA6//yAOz/8gDt//IA7//uAPD/7gDy//IA8//yAPT/8gD1//EA9v/yAPz/8QEB//UABgAM/+8Ab//iAHX/2gCj//QA9f/0APv/4gAKAAH/+AAM/+8AX//WAG//7QBw//gAdf/tAHb/1gCj//QA9f/0APv/8QAvAA//7gAk/+wARv/qAF//1wBg/8cAYf/HAGP/xwBk/+4Ab//UAHD/7gBx/+IAcv/iAHP/4gB0/+IAdv/NAHf/vAB4/7wAef+8AHr/vACA/7wAj//zAJX/8wCW//YAmf/yALQACQC2ACMAx//xAM8AAwDQAAMA1f/zAOH/7gDi//MA4//zAOX/8wDm//IA8f/pAPX/6QD2//MA9//uAPj/7gD5/+4A+v/uAPz/6wD9/+kA/v/pAP//6QEA/+kAcwAB/9sAAv/VAAP/1QAE/9UABf/VAAb/1QAH/9UACP/VAAn/1QAK/9UAC//VAAz/zQAN/9UAD//yACT/8AA2/+0AN//tAEb/7gB2AAkAf//VAIH/5wCC/+oAg//qAIT/6gCF/+oAhv/qAIf/6gCI/+oAif/qAIr/6gCL/+oAjP/qAI3/6gCP/98AkP/fAJH/3wCS/98Ak//fAJT/3wCV/98Alv/xAJf/3gCY/94Amf/dAJr/3wCb/98AnP/fAJ3/3wCe/98An//fAKD/3wCh/98Aov/fAKP/9gCk/+MApf/gAKb/4ACn/+AAqP/gAK8AGACxABoAsgApALMAEgC1ACMAwP/sAMH/7QDC/+wAw//sAMT/7ADF/+wAxv/sAMf/3gDI/98Ayf/fAMr/3wDL/98AzP/fAM3/3wDO/98Az//fAND/3wDR/98A0v/fANP/7QDV/94A1v/sANf/7ADY/+wA2f/sANr/4gDb/+YA3P/mAN3/5gDe/+YA3//mAOH/9gDm/+4A5//uAOj/7gDp/+4A6v/uAOv/7gDs/+4A7f/uAO7/6gDv/98A8P/fAPL/7gDz/+4A9P/uAPX/8wD2//MA+//2APz/8wEB/+4ASgAB/+QAAv/aAAP/2gAE/9oABf/aAAb/2gAH/9oACP/aAAn/2gAK/9oAC//aAAz/0QAN/9oANv/4ADf/6wB7//UAfP/1AH3/9QB+//UAf//aAI//8ACQ/+8Akf/vAJL/7wCT/+8AlP/vAJX/6wCW/+8Al//sAJj/7ACZ/+sAmv/vAJv/7wCc/+8Anf/vAJ7/7wCf/+8AoP/vAKH/7wCi/+8ApP/2AKX/8gCm//IAp//yAKj/8gCqABAArwAIALAAJQCxADQAswAfALUAHQC4ACUAx//tAMj/7wDJ/+8Ayv/vAMv/7wDM/+8Azf/vAM7/7wDP/+8A0P/vANH/7wDS/+8A1f/tANr/9ADb//UA3P/1AN3/9QDe//UA3//1AO//7wDw/+8A+wAFAAUAu//gALz/yQC9/8kAvv/JAL//yQD8AAH/2wAC/9sAA//bAAT/2wAF/9sABv/bAAf/2wAI/9sACf/bAAr/2wAL',
+  '/9sADP/ZAA3/2wAO/+QAD//vABD/5QAR/+UAEv/lABP/5QAU/+UAFf/kABb/5AAX/+QAGP/kABn/5AAa/+QAG//kABz/5AAd/+QAHv/kAB//5AAg/+QAIf/kACL/5AAj/+QAJP/vACX/5QAm/+UAJ//lACj/5QAp/+QAKv/kACv/5AAs/+QALf/kAC7/5AAv/+QAMP/kADH/5AAy/+QAM//kADT/6AA1/+QANv/zADf/8wA4/+QAOf/kADr/5AA7/+QAPP/kAD3/5AA+/+QAP//kAED/5ABB/+QAQv/kAEP/5ABE/+QARf/kAEb/7wBH/+UASP/lAEn/5QBK/+UAS//lAEz/5QBN/+UATv/lAE//5QBQ/+UAUf/lAFL/5ABT/+QAVP/lAFX/5ABW/+QAV//kAFj/5ABZ//MAWv/lAFv/5QBc/+UAXf/lAF7/5QBf/+oAYP+yAGH/sgBj/7IAZP/uAGX/4wBm/+MAZ//jAGj/4wBp/+MAav/jAGv/4wBs/+MAbf/jAG7/4wBv/9QAcP/tAHH/3ABy/9wAc//cAHT/3AB1/9wAdv/ZAHf/vgB4/74Aef++AHr/vgB7/9wAfP/cAH3/3AB+/9wAf//bAID/vgCB//AAgv/fAIP/3wCE/98Ahf/fAIb/3wCH/98AiP/fAIn/3wCK/98Ai//fAIz/3wCN/98Ajv/2AI//7gCQ/+AAkf/gAJL/4ACT/+AAlP/gAJX/7gCW/98Al//gAJj/4ACZ/+4Amv/gAJv/4ACc/+AAnf/gAJ7/4ACf/+AAoP/gAKH/4ACi/+AAo//lAKn/4QCq/+EAq//hAKz/4QCt/+EArv/hAK//4QCw/+EAsf/hALL/4QCz/+EAtP/xALX/4QC2ACEAuAAhALn/4QC6/+EAu//hALz/4QC9/+EAvv/hAL//4QDA/+EAwf/hAML/4QDD/+EAxP/hAMX/4QDG/+EAx//uAMj/4ADJ/+AAyv/gAMv/4ADM/+AAzf/gAM7/4ADP//wA0P/8ANH/4ADS/+AA0//hANT/4QDV/+0A1v/hANf/4QDY/+EA2f/hANr/9ADb/+EA3P/hAN3/4QDe/+EA3//hAOD/4QDh//IA4v/kAOP/5ADl/+QA5v/wAOf/4gDo/+IA6f/iAOr/4gDr/+IA7P/iAO3/4gDu/98A7//gAPD/4ADx/+IA8v/iAPP/4gD0/+IA9f/gAPb/8gD3/+EA+P/hAPn/4QD6/+EA+//mAPz/8AD9/+IA/v/iAP//4gEA/+IBAf/kAQL/5AED/+QBBP/kAA4ANAASAF//0QBg/9EAYf/RAGP/0QBv//kAdv/nAHf/4AB4/+AAef/gAHr/4ACA/+AAtAAcALYALgABAG//8wADAF//7ABv//QAdv/jAAMAb//MAKP/9gD1/94ABwBf/9gAb//kAHD/9AB2/84Ao//2APX/9AD8//QABgBv//MAlv/4Aqb/+AK2//ACuP/tAs3/+wAKAF//+gBv//MAcP/7AHb/zQCW//gCpv/4Aq3/7gK2//ACuP/tAs3/8gAXAAH/7AAM/+sANv/3AG//+QB1/+wAdv/lAIH//ACP//oAlf/5AJb/+QCZ//gApP/8AMf/+QDV//kA2v/7Ap//9QKm//cCrP/vAq3/9AK0//ICtv/yArj/9QLN//YAUwAP//sAJP/7ADb//QA3//0ARv/6AF//uQBg/7kAYf+5AGP/uQBv//kAdv/lAHf/2QB4/9kAef/ZAHr/2QCA/9kAgf/3AIL//QCD//0AhP/9AIX//QCG//0Ah//9AIj//QCJ//0Aiv/9AIv//QCM//0Ajf/9AI//8ACQ//QAkf/0AJL/9ACT//QAlP/0AJX/7wCW/+4Al//0AJj/9ACZ/+wAmv/0AJv/9ACc//QAnf/0AJ7/9ACf//QAoP/0AKH/9ACi//QApP/zAKX/9gCm//YAp//2AKj/9gDH/+wAyP/0AMn/9ADK//QAy//0AMz/9ADN//QAzv/0',
+  'AM//9ADQ//QA0f/0ANL/9ADV/+4A2v/6AO7//QDv//QA8P/0AqoACAKt//YCrv/0ArD/4QKx/+ECtv/xArj/7gK//+YCwf/zAs3/9gM0//QDNf/0AAgADP/uAG//9gB1/+cAlv/3Aqb/9wKs/+8Ctv/kArj/4AAUAAH/9QAM/+4ANv/6AG//9wB1//EAdv/cAI///ACV//sAlv/8AJn/+wCk//wAx//7ANX/+wKm//cCrP/1Aq3/8gK0//ECtv/0Arj/9gLN//UAbwAB/+sAAv/vAAP/7wAE/+8ABf/vAAb/7wAH/+8ACP/vAAn/7wAK/+8AC//vAAz/7AAN/+8ANv/2ADf/5wBf/74AYP++AGH/vgBj/74Ab//4AHX/5gB2/+QAd//YAHj/2AB5/9gAev/YAHv/8QB8//EAff/xAH7/8QB//+8AgP/YAIH/+wCC//gAg//4AIT/+ACF//gAhv/4AIf/+ACI//gAif/4AIr/+ACL//gAjP/4AI3/+ACP//kAkP/3AJH/9wCS//cAk//3AJT/9wCV//gAlv/zAJf/+ACY//gAmf/4AJr/9wCb//cAnP/3AJ3/9wCe//cAn//3AKD/9wCh//cAov/3AKT/+wCl//cApv/3AKf/9wCo//cAx//4AMj/9wDJ//cAyv/3AMv/9wDM//cAzf/3AM7/9wDP//cA0P/3ANH/9wDS//cA1f/4ANr/+wDb//oA3P/6AN3/+gDe//oA3//6AO7/+ADv//cA8P/3Ap//9AKg/94Co//eAqb/9wKs/+wCrf/zAq7/8wKw//MCsf/zArT/8QK2/+YCuP/hArn/3gK6/94Cv//0AsH/9ALN//UDNP/3AzX/9wAHAG//5gC2ABECpv/0Aq3/6QK2/+oCuP/oAs3/9QAIAAz/6wBv//gAdf/mAJb/8gKm//cCrP/rArb/6AK4/+MABgBv/+YCpv/0Aq3/6QK2/+oCuP/oAs3/9QAJAG//8gBw//oAdv/MAqb/9AKt/+0CtP/2Arb/6gK4/+gCzf/yAFEAhQBSAI4AiQCP//EAkP/xAJEAcwCS//EAk//xAJT/8QCV//AAlv/kAJf/8ACY//AAmf/xAJr/8QCb//EAnABHAJ3/8QCe//EAn//xAKD/8QCh//EAov/xAKMAVwCk//gApf/4AKb/+ACn//gAqP/4AKkAigCsAIsArgAeALYAiQC7AIoAwwBDAMf/8QDI//EAyf/xAMr/8QDL//EAzP/xAM3/8QDO//EAz//xAND/8QDR//EA0v/xANQAjADV//AA2v/+ANv//gDcAGYA3f/+AN7//gDf//4A4ABZAOEAXADv//EA8P/xAqQAeQKmAH8CqgB2Aq0AhAKu/7wCsP+8ArH/vAK0AJwCtgCYArgAlgK9AD8CvgBoAr//xgLA/+gCwf/GAsL/6ALEAIQCyAAUAswARALNAHACzwB5AzT/8QM1//EAAwCW//0Ctv/4Arj/9QAIAF//+wBv//YAdv/VAJb//QKt//ACtv/4Arj/9QLN//QASQAM//0ANv/tADf/7QBZ//sAWv/7AFv/+wBc//sAXf/7AF7/+wBf/9IAYP/iAGH/4gBj/+IAb//kAHD/7wBx/+0Acv/tAHP/7QB0/+0Adf/6AHb/vAB3/9cAeP/XAHn/1wB6/9cAgP/XAKP/+wCk//oApf/7AKb/+wCn//sAqP/7ANr//gDb//4A3P/+AN3//gDe//4A3//+AOH/9wDi//gA4//4AOX/+ADx//AA9f/wAPb/+AD3//UA+P/1APn/9QD6//UA+//3APz/9AD9//AA/v/wAP//8AEA//ABAf/+AQL//gED//4BBP/+Aqb/9wKq//ECrf/tArT/9QK2//ACuP/sArv/8QK8//ICvf/qAr7/7ALD//MCxP/tAsz/8wLN//UACQAM//sAb//qAPX/+QD7//0Cpv/0Aq3/6gK2/+YCuP/hAs3/9AAQAAH/+gAM//sAX//5AG//8ABw',
+  '//kAdf/xAHb/yACk//wA9f/5APv/+QKm//QCrf/sArT/8gK2//UCuP/hAs3/8QAHAAz/1gB1/+UAlv/ZAqz/3gK2/+kCuP/kAsj/9gAPAAH/4wAM/9YANv/zAG//+wB1/+cAdv/nAJb//AKf/+QCrP/jAq3/9AK0//ECtv/xArj/9ALI//YCzf/3AAkAX//7AG//8QBw//kAdv/JAqb/9AKt/+wCtv/qArj/6ALN//IADAAM//kAb//hAHX/7AD1//gA+//1Aqb/5wKq//gCrf/cArT/7gK2/+ACuP/bAs3/7wAVAAH/+QAM//kAX//BAG//4gBw//MAdf/kAHb/sACj//wA9f/5APb/+wD7/+0A/P/5Aqb/8AKq//QCrP/yAq3/3wK0/+8Ctv/vArj/8wLE//MCzf/tAAsADP/5AG//4AB1/+sA9f/3APv/9AKm//kCrf/aArT/7gK2/98CuP/aAs3/8QALAAz/+QBv/+AAdf/rAPX/9wD7//QCpv/pAq3/2gK0/+4Ctv/fArj/2gLN//EAFQAB//gADP/5AF//wABv/+EAcP/yAHX/3wB2/6sAo//8APX/+AD2//oA+//pAPz/+AKm//ACqv/wAqz/8QKt/94CtP/uArb/7gK4//ICxP/wAs3/7QAPAF//xABv/+EAcP/zAHb/sAD1//gA9v/7APz/+AKm//ICqv/0Aq3/3wK0//YCtv/pArj/6ALE//QCzf/sAAIAvwAGAqj/yQAoAIH//ACOADkAj//cAJH//QCV/9cAlgAZAJn/ywCjAAwApP/uAKkAOQCsADoAtgA6ALsAOQDH/9EA1f/SANr/6gDc//cA4AAOAOEAEAD1ABUA9gANAPsAGAD8ABUBAwANAp//zQKkAC8CpgA1AqoALAKs/9MCrQA1Aq7/1AK0ACUCtgA4ArgANgK+AB4Cwf/fAsQAOgLI//UCzQAmAs8AJQABAqj/yQABAqj/4AAFAG//9wCW/+8Cpv/6Arb/8wK4//AAFAAk//sARv/6AG//+AB2/94Agf/5AI//8gCV//IAlv/zAJn/7wCk//YAx//vANX/8QDa//oCpv/6Aq3/9AKu//YCtv/zArj/8ALB//YCzf/yAAkCpAAUAqYAGwKqABsCtgAWArgAGwK+ABACxAAVAs0AEgLPAA8ACwKkAB8CpgAmAqoAFAKtACkCtAALArYAFAK4ABQCvgAVAsQAJQLNACACzwAYAAEAtgAQAAkCpAAKAqYAEQKqAB4CrQATArQACwK2ABMCuAASAsQAFQLNAAkADQKkACQCpgAsAqoAOAKtABMCtAAoArYALQK4ACwCvQAGAr4AHALEAC8CzAANAs0AIwLPABsACQKkABQCpgAbAqoAEwK2ABUCuAAbAr4AEALEABUCzQASAs8ADwAGAqYAEQKtABYCtAATArYAGQK4ABkCxAAPAAgA2AAjAqYAJwKtACwCtAAZArYAKAK4ACkCwwARAsQAEQAHAG//4wD1//sCpv/rAq3/3AK2/+kCuP/oAs3/8AADAJb/+wC2ABMAuAATABEAb//5AHb/3wCP//sAlf/6AJb/9gCZ//gAtgATALgAEwDH//kAzwABANAAAQDV//kCrf/zAq7/9gLN//cDNAABAzUAAQBbAAH/5wAC/+MAA//jAAT/4wAF/+MABv/jAAf/4wAI/+MACf/jAAr/4wAL/+MADP/fAA3/4wA2/+gAN//oAF//4wBg/+MAYf/jAGP/4wBvAA0Adf/zAHYAFAB3//cAeP/3AHn/9wB6//cAe//1AHz/9QB9//UAfv/1AH//4wCA//cAj//3AJD/9wCR//cAkv/3AJP/9wCU//cAlf/3AJb/3gCX//cAmP/3AJn//ACa//cAm//3AJz/9wCd//cAnv/3AJ//9wCg//cAof/3AKL/9wCk//sApf/7AKb/+wCn//sAqP/7AK8ANwCyAE0AtQAjAMf/9wDI//cAyf/3AMr/9wDL//cAzP/3',
+  'AM3/9wDO//cAz//3AND/9wDR//cA0v/3ANX/9wDv//cA8P/3Ap//7QKg/9cCo//XAqz/5QKu/9cCsP/XArH/1wK5/9cCuv/XAr//3gLA/+wCwf/eAsL/7ALI//cDNP/3AzX/9wARAAz/+wBf/8EAb//lAHD/9QB2/7IA9f/6APb//AD7//sA/P/6Aqb/8gKq//QCrf/gArT/9AK2/+YCuP/pAsT/9ALN/+8ABQKmAAkCqgAWArYACwK4AAoCxAAMAAwAkQALAKMACADgABUA9QAOAPsAEAEDAA0CpgAuAqoAJwKtADQCtAAYArYAFwK4ABcAeQAB//EAAv/3AAP/9wAE//cABf/3AAb/9wAH//cACP/3AAn/9wAK//cAC//3AAz/9QAN//cADv/7ABX/+wAW//sAF//7ABj/+wAZ//sAGv/7ABv/+wAc//sAHf/7AB7/+wAf//sAIP/7ACH/+wAi//sAI//7ACn/+wAq//sAK//7ACz/+wAt//sALv/7AC//+wAw//sAMf/7ADL/+wAz//sANP/7ADX/+wA2//kAN//mADj/+wA5//sAOv/7ADv/+wA8//sAPf/7AD7/+wA///sAQP/7AEH/+wBC//sAQ//7AET/+wBF//sAUv/7AFP/+wBV//sAVv/7AFf/+wBY//sAWf/9AFr//QBb//0AXP/9AF3//QBe//0AX//1AGD/zwBh/88AY//PAG//6wBw//kAcf/0AHL/9ABz//QAdP/0AHX/5AB2/9YAd//WAHj/1gB5/9YAev/WAHv/+QB8//QAff/0AH7/9AB///cAgP/WAPH/+QD1//oA9v/8APf//AD4//wA+f/8APr//AD7//sA/P/5AP3/+QD+//kA///5AQD/+QKf//cCoP/3AqP/9wKm//QCrP/qAq3/7QK0//ICtv/rArj/6AK5//cCuv/3Arv/+wK8//sCvf/7Ar7/+wLN//oABQBv//QAlv/1Aqb/9wK2//ECuP/uAAkAb//2AHb/zgCW//UAx//8Aqb/9wKt/+8Ctv/xArj/7gLN//UAFAAB//gADP/5AF//wQBv/+MAcP/zAHX/4gB2/7AA9f/5APb/+wD7/+wA/P/5Aqb/8AKq//ECrP/yAq3/4AK0/+8Ctv/vArj/8wLE//ACzf/rAAkADP/7AG//4QD1//gA+//8Aqb/7AKt/90Ctv/mArj/6QLN//IACABv/+cAtgAxAPX/+wKm//ECrf/cArb/9wK4//UCzf/0AAcAb//nAPX/+wKm//ECrf/cArb/9wK4//UCzf/0ABQAX//CAG//2ABw/+sAdv+oAKP/+wCk//sAx//8ANX//ADh//oA5v/8APX/9AD2//cA/P/zAqb/8QKq//ECrf/dArb/9wK4//UCxP/wAs3/6AAJAJb/+ACvAAoAsAAQALIAJwCzAAkAtQAbALgADwD1//QCzP/5AA8AD//7ACT/+QBG//cAlv/4AKT/9wCqAAcArwAOALAAHACxACoAsgAnALMAFgC1ACMAuAAbAPX/9ALM//kAGgAM/8wAg//CAIX/yACL/8wAlv/ZAJ7/vQCj/+4Arf/DAK8ALgCxAC4AsgBAALMAHwC1AC4Av//6AM3/wwDX/9MA2P/ZAPH/4wD1/9gA+//YAP//3wEA/9sCrP/AAsf/3ALI/9sCzP/qAEUAAf+tAAz/zAAP/98AJP/ZADb/5gBG/9UAWf/sAF8ACQCB/78Ag//CAIX/yACL/8wAj/+wAJH/xgCT/70Alf+tAJb/7wCZ/6kAnv/EAKP/7ACk/7YAqgAgAK3/zQCu//EArwAyALAAEgCxAE4AsgAgALMAOQC1AEcAuAASAL//+gDB/80Ax/+rAMv/vgDN/7EA0f+4ANP/zQDV/6sA1//TANj/+wDa/7gA4P/pAOH/7ADm/9IA8f/jAPX/5gD2/90A+//mAPz/5gD//98BAP/bAQH/0AKf/84Cof/jAqQABgKmAAwCrP/NAq0ADAKu',
+  '/9UCtgAPArgADQK9//cCwf/VAsL/4wLEABECx//kAsj/3gLM//IAdgAP/+QAEP/uABH/7gAS/+4AE//uABT/7gAk/+AAJf/tACb/7QAn/+0AKP/tAEb/3QBH/+0ASP/tAEn/7QBK/+0AS//tAEz/7QBN/+0ATv/tAE//7QBQ/+0AUf/tAFT/7QBZ//YAXwAFAIH/9wCP/+UAkP/rAJH/6wCS/+sAk//rAJT/6wCV/+YAlv/0AJf/7gCY/+4Amf/kAJr/6wCb/+sAnP/rAJ3/6wCe/+sAn//rAKD/6wCh/+sAov/rAKP/+QCk//UApf/wAKb/8ACn//AAqP/wAKoAHQCvACYAsAANALEAJQCyADgAswAXALUAJgC4AA0Ax//hAMj/6wDJ/+sAyv/rAMv/6wDM/+sAzf/rAM7/6wDP/+0A0P/tANH/6wDS/+sA1f/lAOH/8ADi//cA4//3AOX/9wDm/+sA5//wAOj/8ADp//AA6v/wAOv/8ADs//AA7f/wAO//6wDw/+sA8f/mAPL/8ADz//AA9P/wAPX/5gD2/+oA9//nAPj/5wD5/+cA+v/nAPz/6QD9/+YA/v/mAP//5gEA/+YCpgAJAq0ABwKu/+8CsP/aArH/2gK2AAoCuAAJAr//6QLB/+4CxAAMAsz/9wMx/+0DMv/tAzT/7QM1/+0ACgAM/+UAlv/uAK3/8QCvABoAsgAwALMAEgC1ACQAuAAPAqz/5QLI//oAIAAB/+MADP/lAA//+QAk//gANv/zAEb/+ACB//YAj//zAJX/8gCW//cAmf/iAKT/9ACqABAArf/5AK8AGQCwABoAsQA2ALIACACzACEAtQAvALgAGQDB//kAx//yANP/+QDV//IA2v/0AOb/+wEB//oCn//0Aqz/7gKu//gCyP/6ALYAAf/SAAL/5AAD/+QABP/kAAX/5AAG/+QAB//kAAj/5AAJ/+QACv/kAAv/5AAM/+AADf/kAA//8wAQ//UAEf/1ABL/9QAT//UAFP/1ACT/8gAl//QAJv/0ACf/9AAo//QANv/uADf/5gBG//EAR//0AEj/9ABJ//QASv/0AEv/9ABM//QATf/0AE7/9ABP//QAUP/0AFH/9ABU//QAWf/4AFr/+ABb//gAXP/4AF3/+ABe//gAf//kAIH/6gCC/+YAg//mAIT/5gCF/+YAhv/mAIf/5gCI/+YAif/mAIr/5gCL/+YAjP/mAI3/5gCP/+MAkP/gAJH/4ACS/+AAk//gAJT/4ACV/+EAlv/kAJf/4ACY/+AAmf/fAJr/4ACb/+AAnP/gAJ3/4ACe/+AAn//gAKD/4ACh/+AAov/gAKP/+ACk/+gApf/bAKb/2wCn/9sAqP/bAKoAGwCt/+YArwAgALAAHQCxACAAsgA3ALMAFwC1ACgAuAAQAMD/5gDB//EAwv/mAMP/5gDE/+YAxf/mAMb/5gDH/+AAyP/gAMn/4ADK/+AAy//gAMz/4ADN/+AAzv/gAM//4ADQ/+AA0f/gANL/4ADT//EA1f/gANb/5gDX/+oA2P/qANn/5gDa/+cA2//nANz/5wDd/+cA3v/nAN//5wDg//gA4f/6AOL//QDm//QA5//pAOj/6QDp/+kA6v/pAOv/6QDs/+kA7f/pAO7/5gDv/+AA8P/gAPH/+ADy/+kA8//pAPT/6QD1//gA9v/3APf/9gD4//YA+f/2APr/9gD7//gA/P/4AP3/+AD+//gA///4AQD/+AEB//MBAv/0AQP/9AEE//QCn//lAqD/zAKh//QCov/zAqP/zAKs/9cCrv/uArD/4gKx/+ICuf/MArr/zAK//+QCwP/tAsH/7wLC//UCxAAFAsf/8gLI/+0CzP/5AzH/9AMy//QDNP/gAzX/4AABAAz/9wALAAH/8AAM//cANv/6AHb/+gCvAAkAsAAWALEAJQCzABAAtQAeALgAFQKs/+4AHAAM/8oAhf+wAIv/vwCT/7EAlv/eAKP/8gCl/6MArf+s',
+  'AK8AKgCxACoAsgBFALMAJgC1ADoAzf+yANf/vQDY/9AA3v+uAOD//ADo/68A7v+yAPH/xAD0/7AA9f++APv/uQKs/80Cx//nAsj/7ALM//gANAAB/8gADP/KAA//9wAk//UANv/uAEb/9AB2AAUAgf/yAIX/sACL/78Aj//DAJP/zACV/8IAlv/vAJn/vwCj//IApP/KAKX/owCqABEArf+sAK8AGQCwACUAsQA1ALIABgCzAB8AtQAtALgAJQDH/8EAzf+yANX/wgDX/70A2P/QANr/yQDe/9AA4P/8AOb/+gDo/68A7v+yAPH/xAD0/7AA9f++APv/uQEB//oCn//aAqH/7AKs/9gCrv/YAsH/3ALC//ECx//yAsj/6QLM//gABwAM//QAb//3AHX/+wCj//gAsgAUAPX/9gD7//cAEAAB//gADP/0AF//+gBv//oAdf/1AHb/9wCj//gAsAANALEAHwCyABQAswAKALUAFgC4AAwA9f/2APv/+QKs//UABQAM//gAb//2AJb/8wK2//ICuP/wAA4AAf/6AAz/+ABf//sAb//2AHX/9wB2/+UAlv/6AJn/+wCwAAgAsQAXALgABwKt//UCtv/yArj/8AA0AAH/5QAC/+4AA//uAAT/7gAF/+4ABv/uAAf/7gAI/+4ACf/uAAr/7gAL/+4ADP/qAA3/7gA2/+4AN//qAF//6gBg/9EAYf/RAGP/0QBv//EAcP/0AHH/+gBy//oAc//6AHT/+gB1/9gAdv/EAHf/2QB4/9kAef/ZAHr/2QB7/+4AfP/sAH3/7AB+/+wAf//uAID/2QD1//sA+//0APz/+wKf/+ECoP/hAqP/4QKm//ACrP/tAq3/7gK0//ECtv/iArj/3AK5/+ECuv/hAs3/+gB2AAH/2QAC/+IAA//iAAT/4gAF/+IABv/iAAf/4gAI/+IACf/iAAr/4gAL/+IADP/cAA3/4gAP//oAJP/6ADb/6QA3/+cARv/6AFn/+gBf//QAZP/5AG//+gBw//UAdf/vAHb/4QB3/+wAeP/sAHn/7AB6/+wAe//zAHz/+gB9//oAfv/6AH//4gCA/+wAgf/2AIL/+wCD//sAhP/7AIX/+wCG//sAh//7AIj/+wCJ//sAiv/7AIv/+wCM//sAjf/7AI//9gCQ//wAkf/8AJL//ACT//wAlP/8AJX/9gCW/+8Al//7AJj/+wCZ//YAmv/8AJv//ACc//wAnf/8AJ7//ACf//wAoP/8AKH//ACi//wAo//7AKT/+ACl//0Apv/9AKf//QCo//0AsQATALgACADH//YAyP/8AMn//ADK//wAy//8AMz//ADN//wAzv/8AM///ADQ//wA0f/8ANL//ADV//YA2v/3AOb/+gDu//sA7//8APD//AD2//sA+//2AQH/+AKf/+ACoP+wAqP/sAKm//YCrP/cAq3/7QKu//YCsP/3ArH/9wK0/+kCtv/rArj/6gK5/7ACuv+wAr//9wLB//YCxP/4Asj/9QLN//UDNP/8AzX//AAGAAz/8QBv//QAdf/tAqb/+QK2/+gCuP/kABEAAf/uAAz/8QA2//cAX//0AG//8QBw//gAdf/dAHb/1AB7//cA+//5Aqb/+QKs/+oCrf/uArT/8AK2//ACuP/zAs3/9gAuACoACwBfABkAYP/YAGH/2QBj/9kAZAAIAG//1ABwABwAcf/bAHL/2wBz/9sAdP/bAHUAKQB2AC8Ad//dAHj/3QB5/90Aev/dAHsADwCA/94AjgANAJb/+wCpAAwArAANALYADAC7AAwA1AAQAPX/8gD8//ECpAAKAqYAEQKo/8sCqv/NAq3/xwK0ABICtgAcArgAGwK7/7QCvP+zAr3/0AK+//kCw/+sAsQAFQLM/7ECzf+vAs8ACgALAG//xgCW//sA9f/TAqb/8wKo/8sCqv+nAq3/uQK2//YCuP/yAsz/rgLN/6cAGwAP//gAJP/2AEb/9QBf/6wAZP/4',
+  'AG//uwBw/8YAdv+SAJb/+wCj//kApP/4AOH/8wDm//sA9f/oAPb/8wD8/+cCpv/vAqj/ywKq/8QCrf/MArb/9gK4//ICvf/FAr7/xQLE/8UCzP/VAs3/xAAIAJb/+ACvABwAsQAcALIAMQCzAA4AtQAfAPX/6ALM//UAIwAP/+sAJP/oAEb/5ABZ//gAj//wAJX/8ACW//cAmf/vAKP/+wCk//gAqgASAK8AIACwAAkAsQA7ALIADQCzACYAtQA0ALgACADH/+wAz//1AND/9QDV/+8A4f/0AOb/9AD1//AA9v/yAPz/8AKu//QCtgAHArgABgK9//gCwf/zAsz/9QM0//UDNf/1AAMCtAAnArYAKwK4ACkACQAB//UAdv/6AK8ACACwABUAsQAkALMADgC1AB0AuAAUAqz/8wADArQAGAK2ABcCuAANAAEAtgAKAAMCtAAVArYADwK4AA4AAwK0ACwCtgAmArgAJQADArQAIQK2ACYCuAAlAAUAsAASALEAIQCzAAwAtQAaALgAEgABAqoABgAEAG//9wCj//oAsgAPAPX/+QAMAAH/+wBf//sAb//6AHb/9wCj//oAsAAQALEAHgCyAA8AswAKALUAEwC4AA4A9f/5AK8AAf/JAAL/3wAD/98ABP/fAAX/3wAG/98AB//fAAj/3wAJ/98ACv/fAAv/3wAM/9MADf/fAA//+gAQ//cAEf/3ABL/9wAT//cAFP/3ACT/+QAl//YAJv/2ACf/9gAo//YANv/yADf/6wBG//cAR//2AEj/9gBJ//YASv/2AEv/9gBM//YATf/2AE7/9gBP//YAUP/2AFH/9gBU//YAWf/2AFr/9gBb//YAXP/2AF3/9gBe//YAdf/9AHYACAB//98Agf/2AIL/4ACD/+AAhP/gAIX/4ACG/+AAh//gAIj/4ACJ/+AAiv/gAIv/4ACM/+AAjf/gAI//5QCQ/+4Akf/uAJL/7gCT/+4AlP/uAJX/5ACW/+wAl//tAJj/7QCZ/+MAmv/uAJv/7gCc/+4Anf/uAJ7/7gCf/+4AoP/uAKH/7gCi/+4Ao//5AKT/5gCl/+sApv/rAKf/6wCo/+sAqgATAK3/6wCvAB0AsAAoALEAHQCyADgAswAZALUALAC4ACcAwP/rAMH/6wDC/+sAw//rAMT/6wDF/+sAxv/rAMf/5ADI/+4Ayf/uAMr/7gDL/+4AzP/uAM3/7gDO/+4Az//uAND/7gDR/+4A0v/uANP/6wDV/+QA1v/rANf/6wDY/+sA2f/rANr/5QDb/+8A3P/vAN3/7wDe/+8A3//vAOH/+QDi//kA4//5AOX/+QDm/+4A5//uAOj/7gDp/+4A6v/uAOv/7gDs/+4A7f/uAO7/4ADv/+4A8P/uAPH/8wDy/+4A8//uAPT/7gD1//UA9v/zAPf/8wD4//MA+f/zAPr/8wD7/+oA/P/zAP3/8wD+//MA///zAQD/8wEB/+0BAv/tAQP/7QEE/+0Cn//sAqD/ugKj/7oCrP/gAq7/8AK5/7oCuv+6AsH/9ALI//QDMf/2AzL/9gM0/+4DNf/uAAgAlv/4AKP//QCvAAoAsgAkALMABgC1ABkAtgAWAPX/9QAPAA//+wAk//kARv/3AJb/+ACj//0ApP/6AKoACwCvABIAsAAfALEALgCyACQAswAaALUAJwC4AB8A9f/1AAgADP/vAG//9AB1/+sA+//9Aqb/9wK0//QCtv/nArj/4wARAAH/7AAM/+8ANv/2AF//9ABv//EAcP/4AHX/2wB2/9IAe//2APv/+QKm//cCrP/pAq3/7gK0/+8Ctv/vArj/8wLN//YACACW//kAo//6AK8ADwCyACEAswAJALUAHQD1//ECzP/0ABAAD//6ACT/+QBG//cAlv/5AKP/+gCk//oAqgANAK8AEwCwAB8AsQAyALIAIQCzABwAtQAoALgAHwD1//ECzP/0ADwAAf/3AAL/9gAD//YABP/2AAX/9gAG',
+  '//YAB//2AAj/9gAJ//YACv/2AAv/9gAM//MADf/2ADb/8QA3//EAX//4AGD/8QBh//EAY//xAG//9QBw//gAcf/9AHL//QBz//0AdP/9AHX/8wB2/+IAd//nAHj/5wB5/+cAev/nAH//9gCA/+cApP/3AKX/9wCm//cAp//3AKj/9wCwAAsAsQAaALgACwDx//0A9f/9APb//QD3//0A+P/9APn//QD6//0A+//7APz//QD9//0A/v/9AP///QEA//0Cpv/5Aqz/9AKt//QCtP/yArb/7QK4/+YABwCW//gAo//9AK8ACgCyACQAswAGALUAGQD1//UADABv/+QAlv/7AKP/+QC2AEAA9f/vAqb/6AKq/9wCrf/RArb/7QK4/+oCzP/nAs3/2AALAG//5ACW//sAo//5APX/7wKm/+gCqv/cAq3/0QK2/+0CuP/qAsz/5wLN/9gAIAAP//EAJP/wAEb/7gBf/8cAZP/xAG//0gBw/+MAdv+tAI//+QCV//kAlv/7AJn/+QCj//kApP/6AMf/+ADV//kA4f/yAOb/+AD1/+wA9v/yAPz/7AKm//ECqv/kAq3/2wKu//gCtgAGArj/6gK9/+wCvv/pAsT/4gLM/+oCzf/fAAIACAABAAgAAgAoAAUAAAC4AIQAAgADAAAAAAAAAAAAUABQAAAAAP85/zkAAAAAAAEALAFFAUYBRwFIAUkBSgFLAUwBcAF0AXgBfgHRAdIB2gHbAeAB4QHmAecB7AHtAfIB8wH6AfsB/AH9AgYCBwIIAgkCFAIVAhYCFwIkAiUCKgIsAjECMgI1AjYAAgAIASABIAACAbYBtgABAbgBuAABAboBugACAbwBvAABAcABwAABAcQBxAABAcYBxgABAAIABAFwAXAAAQF0AXQAAQF4AXgAAQF+AX4AAQAAAAIAFQAAAM8CxQADAAcAAFMzESMTETMRFbq6FJICxf07ArH9YwKdAAACABcAAAI9ArMABwALAABzEzMTIychBzchAyMXva28UDH+3DFCAQJnNAKz/U2vr/YBeQD//wAXAAACPQOkBiYAAQAAAAcDIwCtAAD//wAXAAACPQOWBiYAAQAAAAcDJwCfAAD//wAXAAACPQOdBiYAAQAAAAYDJU0A//8AFwAAAj0DggYmAAEAAAAHAyAAtQAA//8AFwAAAj0DpAYmAAEAAAAHAyIAmAAA//8AFwAAAj0DZwYmAAEAAAAHAyoAowAA//8AF/8xAlECswYmAAEAAAAHAx8A5gAA//8AFwAAAj0DUQYmAAEAAAAHAygApf/c//8AFwAAAj0EAgYmAAEAAAAnAygApf/eAAcDIwCdAF7//wAXAAACPQObBiYAAQAAAAcDKQCaAAAAAgATAAADPQK4AA8AEwAAcxMhFSEVIRUhFSEVITUjBzczEyMT3gJM/qkBG/7lAVf+Wvg5TuMBbQK4TeFM8kysrPkBcv//ABMAAAM9A6QGJgAMAAAABwMjAY8AAAADAFQAAAIzArMAEwAfACkAAHMRMzIWFhUUBgYHHgIVFA4CIyczMjY2NTQuAiMjNTMyNjY1NCYjI1T8RFsvFSYcHjEdHjlPMbi1Kj0iHSwwFLGwKzUZP0GpArMkTj4sPSgOCiZAMjZLLRRGFjcyJzAYCEYbNik7NgABADr/9gH3Ar4AJAAARSIuAjU0PgIzMhYWFwcuAiMiDgIVFB4CMzI2NxcOAgE4TmM4FRU4Y04kRz4WAxZAQhs5RyYODiVIOiplIwMYQEYKLlqEVliGWi4HCwVDBAgGIkdrSkhrRSILBkQFCgYA//8AOv/2AfcDpAYmAA8AAAAHAyMAqAAA//8AOv/2AfcDnQYmAA8AAAAHAyYAqwAA//8AOv8mAfcCvgYmAA8AAAAHAx4A1AAA//8AOv/2AfcDnQYmAA8AAAAGAyVaAP//ADr/9gH3A3UGJgAPAAAABwMhAK3//QACAFQAAAJNArMADAAZAABzETMyHgIVFA4C',
+  'IyczMj4CNTQuAiMjVPdMZDoYFzpkTaenNkQmDw8mRDanArMxWXtKS4FiNkcuUGY5OGBIKAADABQAAAJQArMAAwAQAB0AAFM1IRUDETMyHgIVFA4CIyczMj4CNTQuAiMjFAEv7PdMZDoYFzpkTaenNkQmDw8mRDanATVNTf7LArMxWXtKS4FiNkcuUGY5OGBIKAD//wBUAAACTQOdBiYAFQAAAAcDJgCjAAAAAwAUAAACUAKzAAMAEAAdAABTNSEVAxEzMh4CFRQOAiMnMzI+AjU0LgIjIxQBL+z3TGQ6GBc6ZE2npzZEJg8PJkQ2pwE1TU3+ywKzMVl7SkuBYjZHLlBmOThgSCgAAAEAVAAAAfsCswALAABzESEVIRUhFSEVIRVUAaf+qQEb/uUBVwKzR+pG9Uf//wBUAAAB+wOkBiYAGQAAAAcDIwCkAAD//wBUAAAB+wOWBiYAGQAAAAcDJwCnAAD//wBUAAAB+wOdBiYAGQAAAAcDJgCdAAD//wBUAAAB+wOdBiYAGQAAAAYDJUoA//8AVAAAAfsDggYmABkAAAAHAyAAsgAA//8AVAAAAfsDeAYmABkAAAAHAyEAsgAA//8AVAAAAfsDpAYmABkAAAAHAyIAngAA//8AVAAAAfsDZwYmABkAAAAHAyoAnwAA//8AVP8xAfsCswYmABkAAAAHAx8AjwAAAAEAVAAAAfMCswAJAABzESEVIREhFSERVAGf/rEBG/7lArNH/vZH/uUAAAEAOP/2AiYCvgApAABFIi4CNTQ+AjMyFhYXBy4CIyIOAhUUFhYzMjY2NzUjNTMRDgMBRVBoPBkZPWdOJ1VNGgMaTE8hO0wqER5TTxc0MRBwvxE4QD8KL1uEVFeFWy8IDQZCBQkHIkdrSmB+PQQGA9FH/qwDCAgF//8AOP/2AiYDlgYmACQAAAAHAycAvwAA//8AOP/2AiYDmgYmACQAAAAGAyVm/QACADj+4gImAr4AKQAtAABFIi4CNTQ+AjMyFhYXBy4CIyIOAhUUFhYzMjY2NzUjNTMRDgMDNzMHAUVQaDwZGT1nTidVTRoDGkxPITtMKhEeU08XNDEQcL8ROEA/XClNMgovW4RUV4VbLwgNBkIFCQciR2tKYH49BAYD0Uf+rAMICAX+7NDQAAIAOP/2AiYDeAADAC0AAEE1MxUDIi4CNTQ+AjMyFhYXBy4CIyIOAhUUFhYzMjY2NzUjNTMRDgMBEk4bUGg8GRk9Z04nVU0aAxpMTyE7TCoRHlNPFzQxEHC/EThAPwMfWVn81y9bhFRXhVsvCA0GQgUJByJHa0pgfj0EBgPRR/6sAwgIBQAAAQBUAAACTwKzAAsAAHMRMxEhETMRIxEhEVRQAVtQUP6lArP+zAE0/U0BOP7IAAIADwAAAqQCswADAA8AAFM1IRUBETMRIREzESMRIREPApX9tFABW1BQ/qUB+kVF/gYCs/7MATT9TQE4/sj//wBUAAACTwOdBiYAKQAAAAYDJXYAAAEAVAAAAKQCswADAABzETMRVFACs/1N//8ADQAAAQEDpAYmACwAAAAGAyMBAP///+YAAAEjA5YGJgAsAAAABgMn+wD////QAAABIAOdBiYALAAAAAYDJZwA////8AAAAQcDggYmACwAAAAGAyAHAAACAFQAAACkA3gAAwAHAABTNTMVAxEzEVZNT1ADH1lZ/OECs/1N////7AAAAOADpAYmACwAAAAGAyLiAP///+IAAAEbA2cGJgAsAAAABgMq+AD//wAP/zEAvAKzBCcDH/9RAAACBgAsAAD////NAAABIQObBiYALAAAAAYDKesAAAEAEv+4ANECswANAABXNTI+AjURMxEUDgISISwYClAWL0hIRwYVLCUCSP2tOEMiCwD//wAA/7gBUAOaBiYANgAAAAYDJcz9AAEAVAAAAioCswAMAABzETMRNxMzAxMjAwcRVFBxrlzDzl+1cgKz/sAEATz+pf6oATAE/tQAAAIAVP7i',
+  'AioCswADABAAAFM3MwcDETMRNxMzAxMjAwcR3ilNMs5Qca5cw85ftXL+4tDQAR4Cs/7ABAE8/qX+qAEwBP7UAAABAFQAAAHSArMABQAAcxEzESEVVFABLgKz/ZVIAP//AFQAAAHSA6QEJgMjeQAABgA6AAAAAgBUAAAB0gK4AAMACQAAQTUzFQERMxEhFQFtS/6cUAEuAczs7P40ArP9lUgAAAIAVP7iAdICswADAAkAAFM3MwcDETMRIRXGKU0ytlABLv7i0NABHgKz/ZVIAAAC//sAAAHXArMAAwAJAAB3JyUXAREzESEVIicBOif+/VABLuY23DX+PQKz/ZVIAAABAFQAAAL1ArMADgAAcxEzExMzESMRIwMjAyMRVJG/wJFQD8VZxQ8Cs/28AkT9TQJe/bsCRf2iAAEAVAAAAlECswALAABzETMBMxEzESMBIxFUlQEEFFCS/vgTArP9lAJs/U0CbP2U//8AVAAAAlEDpAYmAEAAAAAHAyMAzwAA//8AVAAAAlEDmgYmAEAAAAAHAyYAz//9AAIAVP7iAlECswADAA8AAEE3MwcBETMBMxEzESMBIxEBGSlNMf72lQEEFFCS/vgT/uLQ0AEeArP9lAJs/U0CbP2U//8AVAAAAlEDmwYmAEAAAAAHAykAxAAAAAIAVP9HAlECswANABkAAEU1Mj4CNTUzFRQOAiURMwEzETMRIwEjEQGSISsZClAWL0j+kJUBBBRQkv74E7lHBhQsJi04OEMiC7kCs/2UAmz9TQJs/ZQAAgA4//YCXAK+AA8AHwAARSImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhYBSmx3LzB3a2t3MC93bE9SHh9STk5SHx5SClCdc3OgVVShc3adTUc8fWBdgUNDgF5dfT8A//8AOP/2AlwDpAYmAEYAAAAHAyMAuQAA//8AOP/2AlwDlgYmAEYAAAAHAycAwgAA//8AOP/2AlwDnQYmAEYAAAAGAyVuAP//ADj/9gJcA4IGJgBGAAAABwMgANUAAP//ADj/9gJcA6QGJgBGAAAABwMiAL0AAP//ADj/9gJcA5gGJgBGAAAABwMkAL8AAP//ADj/9gJcA2cGJgBGAAAABwMqAMIAAAAEADj/iwJcAyAAAwAHABcAJwAAZScBFwEnExcDIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgExOwEJPP5fO9A8IWx3LzB3a2t3MC93bE9SHh9STk5SHx5SzhwCNhr8hRwBvRr+rFCdc3OgVVShc3adTUc8fWBdgUNDgF5dfT8AAAUAOP+LAlwDpAADAAcACwAbACsAAGUnARcBJxMXAyc3FwMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWATE7AQk8/l870DyEF9oaemx3LzB3a2t3MC93bE9SHh9STk5SHx5SzhwCNhr8hRwBvRoBvjhkRfyXUJ1zc6BVVKFzdp1NRzx9YF2BQ0OAXl19P///ADj/9gJcA5sGJgBGAAAABwMpALsAAAACADX/9gNtAr0AGwAuAABFIiYmNTQ+AjMyFhYXIRUhFSEVIRUhFSEOAicyPgI3ES4DIyIGBhUUFhYBPmtzKxg7Z08TNDQUAaD+rwEV/usBUf5lFTc1CQkhKCUNDScnIQlOUh8dUwpSn3VbhVcqAgUDSOdH9UkCBQJIAQIDAQIoAQMCAjl9ZWN+OwACAFQAAAIvArMADAAVAABzETMyFhYVFAYGIyMVETMyNjU0JiMjVP1MYjAwYkytrUpCQkqtArMxY0xLaTfoAS5WT1BKAAIAVAAAAjACuAAOABcAAHMRMxUzMhYWFRQGBiMjFTUzMjY1NCYjI1RQrUxjMDBjTK2tSkNDSq0CuHAxYkxMbDp3xVhMTEcAAAIAOP9uAlwCvgAUACQAAEUnBgYjIiYmNTQ2NjMyFhYVFAYHFycyNjY1NCYmIyIGBhUUFhYB9FgQKxdsdy8wd2tr',
+  'dzAxQVX1T1IeH1JOTlIfHlKSkQQFT510c6BVVKFzeZwmiqw8fWBdgUNDgF5efT4AAAIAVAAAAjkCswAOABgAAHMRITIWFhUUBgcTIwMjEREzMjY2NTQmIyNUAQFJYzI9QYRZesKyMz0aREexArMsXUlMaBX+6AEH/vkBTSZDKkdGAP//AFQAAAI5A6QGJgBVAAAABwMjAK8AAP//AFQAAAI5A50GJgBVAAAABwMmAKgAAAADAFT+4gI5ArMADgAYABwAAHMRITIWFhUUBgcTIwMjEREzMjY2NTQmIyMTNzMHVAEBSWMyPUGEWXrCsjM9GkRHsVApTTICsyxdSUxoFf7oAQf++QFNJkMqR0b8ddDQAAABADD/9wHvAr8AMwAARSImJic3HgIzMjY2NTQmJicuAzU0NjYzMhYWFwcuAiMiBgYVFBYWFx4DFRQGBgERHlBPHggdTUsaMUAgHUM4NlA2GjdlQx5NSxsHHUxGFTBCIiFKPDRLMRc2ZAkHCwRCAwgGHTwvJi0bCwscK0IxQ1ImBwkFQwQHBhgxJiwuGg4MHCk9LUxeK///ADD/9wHvA6QGJgBZAAAABwMjAJcAAP//ADD/9wHvA50GJgBZAAAABwMmAJYAAP//ADD/JgHvAr8GJgBZAAAABwMeAL4AAP//ADD/9wHvA5oGJgBZAAAABgMlNv0AAgAw/uIB7wK/AAMANwAAUzczBwMiJiYnNx4CMzI2NjU0JiYnLgM1NDY2MzIWFhcHLgIjIgYGFRQWFhceAxUUBgbPKE4yAh5QTx4IHU1LGjFAIB1DODZQNho3ZUMeTUsbBx1MRhUwQiIhSjw0SzEXNmT+4tDQARUHCwRCAwgGHTwvJi0bCwscK0IxQ1ImBwkFQwQHBhgxJiwuGg4MHCk9LUxeKwABAA0AAAIBArMABwAAcxEjNSEVIxHg0wH00QJrSEj9lQAAAgAPAAACAwKzAAMACwAAUzUhFQMRIzUhFSMRQQGT8tMB9NEBKkRE/tYCa0hI/ZX//wANAAACAQOdBiYAXwAAAAcDJgCEAAD//wAN/yYCAQKzBiYAXwAAAAcDHgCuAAAAAgAN/uICAQKzAAMACwAAUzczBwMRIzUhFSMRzClNMjDTAfTR/uLQ0AEeAmtISP2VAAABAE//9gI2ArMAEwAARSImJjURMxEUFjMyNjURMxEUBgYBQExsOVBVTFBWUDluCixhUAHg/h5PRUVPAeL+IE9iLP//AE//9gI2A6QGJgBkAAAABwMjALoAAP//AE//9gI2A5YGJgBkAAAABwMnALsAAP//AE//9gI2A50GJgBkAAAABgMlZgD//wBP//YCNgOCBiYAZAAAAAcDIADOAAD//wBP//YCNgOkBiYAZAAAAAcDIgC5AAD//wBP//YCNgOYBiYAZAAAAAcDJADCAAD//wBP//YCNgNnBiYAZAAAAAcDKgC+AAD//wBP/zECNgKzBiYAZAAAAAYDH1AA//8AT//2AjYDuAYmAGQAAAAHAygAwABD//8AT//2AjYDmwYmAGQAAAAHAykAtQAAAAEAGAAAAi8CswAHAABzAzMTMxMzA8y0U503nVOzArP9lAJs/U0AAQAeAAADWgKzAA8AAHMDMxMzEzMTMxMzAyMDMwOpi1N0HIxejBx0U4yQiQ6JArP9kwJo/ZgCbf1NAm79kv//AB4AAANaA6QGJgBwAAAABwMjAUAAAP//AB4AAANaA5oGJgBwAAAABwMlAOD//f//AB4AAANaA4IGJgBwAAAABwMgAUcAAP//AB4AAANaA6QGJgBwAAAABwMiATYAAAABABIAAAIdArMACwAAcxMDMxMTMwMTIwMDEtXVW6yuVtTUW6uvAVIBYf7bASX+ov6rARz+5AABAAoAAAIRArMACAAAcxEDMxMTMwMR5txaqapa2wEiAZH+vwFB/m/+3v//AAoAAAIRA6QGJgB2AAAABwMjAJoAAP//AAoAAAIRA50GJgB2AAAABgMl',
+  'MgD//wAKAAACEQOCBiYAdgAAAAcDIACYAAD//wAKAAACEQOkBiYAdgAAAAcDIgCCAAAAAQAr//8B7QKzAAsAAFc1ATUhNSEVARUhFSsBZf6bAcL+mgFmAVsB/RVHW/4DFEj//wAr//8B7QOkBiYAewAAAAcDIwCMAAD//wAr//8B7QOdBiYAewAAAAcDJgCPAAD//wAr//8B7QN4BiYAewAAAAcDIQCUAAD//wAXAAACPQQ8BCcDJwCf/94AJwMVALABVwAGAAEAAP//AAcAAAIOA5MEJwMcAIQAxAAGAHb9AAACACj/9gHjAf4AKAA0AABXIiY1NDY2Nzc1NCYjIgYGByc+AjMyFhYVFRYWFwciJiYnJiYnDgInMjY2NzUHBgYVFBa1RUgiRTOaLSwZRUQaBBhESh85SCECHxgDDhoXCw0XCxM7QxQbOjQRkS0nJgpOSzE+IQQPKzMqBAYDOwUKByNHN/0WFAM9AgUDBQ4KCBINQQoOBqMOBCwpKjAA//8AKP/2AeMC5QYmAIEAAAAGAxZcAP//ACj/9gHjAtsGJgCBAAAABgMaeAX//wAo//YB4wLcBiYAgQAAAAYDGHEA//8AKP/2AeMCyAYmAIEAAAAGAxN0AP//ACj/9gHjAuUGJgCBAAAABgMVegD//wAo//YB4wKsBiYAgQAAAAYDHX0A//8AKP8xAeMB/gYmAIEAAAAGAx94AP//ACj/9gHjAu0GJgCBAAAABwMbAIUAAP//ACj/9gHjA5wGJgCBAAAAJgMbfAAABwMWAGoAt///ACj/9gHjAs8GJgCBAAAABgMcaQAAAwAo//YC9wH+ADIAQQBIAABXIiY1NDY2Nzc1NCYjIgYGByc+AjMyFhc2NjMyFhUHIRQWMzI2NjcXDgIjIiYnDgInMj4CNyYmNQcGBhUUFiUzNCYjIgawQ0UnUD2ALCkbRkQZAxpGSRwzQxAbUDFkZgX+uDlJHENBFwIYREkeNEgXJEZKHhg3MiYICgiPKyklAQ7/O0FAQwpQSTg9HQYLKS4qAwQDRgMHBSMkJiFveztNTwMEAj8ECAUcGRAYDUQJDAsDGlYmDAMoKyss3lhISgD//wAo//YC9wLlBiYAjAAAAAcDFgEIAAAAAgBH//YB3QLNABIAIgAAVyImJicRMxU+AjMyFhYVFAYGJzI2NjU0JiYjIgYGBxEWFvAWPT4YThAwNxlEUSMrZ1xEQxcUMSsYNC0PFTcKAwYCAszxCA8LM29aZHUzRilYRUBQJgkNBv6lAgMAAQAz//YBjAH+ACEAAEUiJiY1NDY2MzIWFhcHLgIjIgYGFRQWFjMyNjY3Fw4CAQFPWiUpXEoRMTQTAxEsKg45PxkWPj0OKy0RAhQ0Mgo1dmFbbzIFBwNAAgQDJE9DSVcmAwQBQAMGBf//ADP/9gGMAuUGJgCPAAAABgMWZAD//wAz//YBjALcBiYAjwAAAAYDGWsA//8AM/8mAYwB/gYmAI8AAAAHAx4AiwAA//8AM//2AYwC3AYmAI8AAAAGAxhlAP//ADP/9gGMArgGJgCPAAAABwMUAIQAAAACADH/9gHKAs0AFgAoAABXIi4DNTQ2NjMyFhYXNTMRIzUOAicyNjY3ES4CIyIGBhUUHgLmHjYtIhIqXEwTLisNTk0QMzkRGjUuDwwqLRIzOhkSHygKDSA5WkBZdToEBgPc/TMhCRQORgwRBwFPAgUELFdBPEknDgADACr/9wHyAuYAGAAnACsAAEUiJjU0NjYzMhYWFy4DJzceAhUUBgYnMjY2NS4CIyIGBhUUFgMnJRcBCmp2MF5EGz05EwMjSnhZD36tWS9mUzVBIBI3OxsrPB5HJCMBBiMJcm5BYTYMEAgsUUU6FjoYX5VrgZ9JRzFzYwgQCydBKUlQAcgwsDEAAwAx//YCfQLNAAMAGgAsAABBNzMHASIuAzU0NjYzMhYWFzUzESM1DgInMjY2NxEuAiMiBgYVFB4CAgcpTTL+mx42LSIS',
+  'KlxMEy4rDU5NEDM5ERo1Lg8MKi0SMzoZEh8oAdvQ0P4bDSA5WkBZdToEBgPc/TMhCRQORgwRBwFPAgUELFdBPEknDgAAAwAx//YB3gLNAAMAGgAsAABTNSEVAyIuAzU0NjYzMhYWFzUzESM1DgInMjY2NxEuAiMiBgYVFB4CuQEl+B42LSISKlxMEy4rDU5NEDM5ERo1Lg8MKi0SMzoZEh8oAm5ERP2IDSA5WkBZdToEBgPc/TMhCRQORgwRBwFPAgUELFdBPEknDgACADH/9gHNAf4AGAAgAABXIiYmNTQ2NjMyFhUHIRYWMzI2NjcXDgIDMzQmIyIGBvlLVyY0XkBkZgT+twE4SRxDQhcCGEVIl/87QSo6Hwo6clVfczVveztOUAMEAj0ECAUBIlxJIUgA//8AMf/2Ac0C5QYmAJkAAAAGAxZ2AP//ADH/9gHNAtYGJgCZAAAABgMafAD//wAx//YBzQLcBiYAmQAAAAYDGXgA//8AMf/2Ac0C3AYmAJkAAAAHAxgAggAA//8AMf/2Ac0CyAYmAJkAAAAHAxMAgwAA//8AMf/2Ac0CuAYmAJkAAAAHAxQAhwAA//8AMf/2Ac0C5gYmAJkAAAAGAxV6Af//ADH/9gHNAqwGJgCZAAAABwMdAIgAAP//ADH/NAHNAf4GJgCZAAAABgMfTgMAAQAeAAABSgLXABoAAHMRIzUzNTQ2NjMyFhYXByYmIyIGBhUVMxUjEV0/Pxo8MQwqKAgBEjMQHCANkJABsUMsSFAfAgMCQQEBEzItK0P+TwADADH/FQHwAf4ANQBJAFUAAEUiJiY1NDY2NyYmNTQ2NjcuAjU0NjYzMhYXNxUnFhYVFAYGIyImJwYGFRQeAjMyFhYVFAYnMjY1NCYmIyIuAiMOAhUUFhYTMjY1NCYjIgYVFBYBCU5fKxIjGg0PCxAHFSMWL1U3GzwRlV4OEyxWQQchCAYMBxcwKkhWJXZpSkYXNi0JICIbBRQZChg9ID40ND46MzPrG0I5HSkjEwolFwccHw0KIzwuPksiCAUEQgIOLiZBSh4DAQ4kBw8RCgMYPzxVS0IqMCUjCwEBAg8ZGxMhKBIBkTE6OjIyOjoxAP//ADH/FQHwAtYGJgCkAAAABwMaAIIAAP//ADH/FQHwAtwGJgCkAAAABwMYAIQAAAAEADH/FQHwAx0AAwA5AE0AWQAAUzczBwMiJiY1NDY2NyYmNTQ2NjcuAjU0NjYzMhYXNxUnFhYVFAYGIyImJwYGFRQeAjMyFhYVFAYnMjY1NCYmIyIuAiMOAhUUFhYTMjY1NCYjIgYVFBa/MkQpA05fKxIjGg0PCxAHFSMWL1U3GzwRlV4OEyxWQQchCAYMBxcwKkhWJXZpSkYXNi0JICIbBRQZChg9ID40ND46MzMCTdDQ/MgbQjkdKSMTCiUXBxwfDQojPC4+SyIIBQRCAg4uJkFKHgMBDiQHDxEKAxg/PFVLQiowJSMLAQECDxkbEyEoEgGRMTo6MjI6OjEA//8AMf8VAfACuAYmAKQAAAAHAxQAjgAAAAEASAAAAdcCzQAYAABzETMVPgIzMh4CFREjETQmJiMiBgYHEUhNEjM6GjRCJQ5ODywuGTUuDwLN9AgRDBs7XUL+9wEGQU4jCQ4G/mUAAAIACgAAAdcCzQADABwAAFM1IRUDETMVPgIzMh4CFREjETQmJiMiBgYHEQoBJedNEjM6GjRCJQ5ODywuGTUuDwJBRUX9vwLN9AgRDBs7XUL+9wEGQU4jCQ4G/mX//wBIAAAB1wORBiYAqQAAAAcDGACJALUAAgBIAAAAlQK8AAMABwAAcxEzEQM1MxVITU1NAfT+DAJiWloAAQBIAAAAlQH0AAMAAHMRMxFITQH0/gz//wAmAAABGgLlBiYArQAAAAYDFg0A////2gAAAQQC1gYmAK0AAAAGAxrrAP///9YAAAECAtwGJgCtAAAABgMY6QD////3AAABCwLIBiYArQAAAAYDE+0A',
+  '////xAAAALkC5QYmAK0AAAAGAxXGAP///+QAAAD4AqwGJgCtAAAABgMd8gD//wAE/zEAsQK8BCcDH/9GAAACBgCsAAD////SAAABDwLPBiYArQAAAAYDHO8AAAL/0P8hAJYCvAANABEAAEcnPgM1ETMRFA4CEzUzFREfJi8ZCk4PJUEnTt88FiMkMCQB5v4ZLkM0LQMnWloAAf/Q/yEAlgH0AAwAAEcnPgI1ETMRFA4CER8yNBJODyVB3zweLDkuAeb+GS5DNC3////Q/yEBAwLcBiYAtwAAAAYDGOoAAAEASAAAAc8CzQAMAABzETMRNzczBxMjJwcVSE1NjFmhqVmSTwLN/loDyuf+8+YE4gAAAgBI/uIBzwLNAAMAEAAAUzczBwMRMxE3NzMHEyMnBxVeKU0yWk1NjFmhqVmST/7i0NABHgLN/loDyuf+8+YE4gAAAQBOAAAAmwLNAAMAAHMRMxFOTQLN/TP//wAzAAABJwOxBiYAuwAAAAcDFgAaAMwAAgBOAAABTwLNAAMABwAAUzczBwMRMxHZKU0yz00B29DQ/iUCzf0zAAIAIf7iAJsCzQADAAcAAHMRMxEDNzMHTk16KU0yAs39M/7i0NAAAgAJAAABMALNAAMABwAAdyclFwMRMxEwJwEAJ71N5jazNv5nAs39MwAAAQBIAAADAQH+AC0AAHMRMxU+AjMyFhc+AjMyHgIVESMRNCYmIyIGBgcWFhURIxE0JiYjIgYGBxFITRAwNxkyPRMUOkMgM0IlD00PLC0aNS0OBwVNDi0tGTMqDgH0IwoUDxgbCxgQGjpdRP73AQZBTiMLEQgaTSn+/AECRE8jCxEI/mwAAQBIAAAB2AH+ABgAAHMRMxU+AjMyHgIVESMRNCYmIyIGBgcRSE0RMzobNEIlD04PLS4ZNS4PAfQjChQPGztdQv73AQZBTiMLEQj+bAD//wBIAAAB2ALlBiYAwQAAAAcDFgCHAAD//wBIAAAB2ALcBiYAwQAAAAcDGQCIAAAAAgBI/uIB2AH+AAMAHAAAUzczBwMRMxU+AjMyHgIVESMRNCYmIyIGBgcReClNMnRNETM6GzRCJQ9ODy0uGTUuD/7i0NABHgH0IwoUDxs7XUL+9wEGQU4jCxEI/mwA//8ASAAAAdgCzwYmAMEAAAAHAxwAlAAAAAEAR/8SAdgB/gAgAABFJz4CNRE0JiYjIgYGBxEjETMVPgIzMhYWFREUDgIBNyIxMhIPKysYNjERTk4TNTsZQ0gcDiI/7kIdKzYrAQY8UCgLEQj+bQH0IQoTDjZuVv76L0IzLgACADL/9gHfAf4ADwAfAABFIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgEIVF0lKV5PUF4pJV1VOjoTGDo1NDsYEzoKOnZaVnA4OHBWWnY6QylYRkVSJCRSRUZYKQD//wAy//YB3wLlBiYAxwAAAAYDFn8A//8AMv/2Ad8C1gYmAMcAAAAHAxoAhwAA//8AMv/2Ad8C3AYmAMcAAAAHAxgAgwAA//8AMv/2Ad8CyAYmAMcAAAAHAxMAiAAA//8AMv/2Ad8C5QYmAMcAAAAHAxUAjgAA//8AMv/2AhgC/gYmAMcAAAAHAxcAjgAA//8AMv/2Ad8CtwYmAMcAAAAHAx0AjgALAAQAMv+RAd8CXgADAAcAFwAnAABXJwEXAScBFwMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWkjQBHjT+4jQBHjSoVF0lKV5PUF4pJV1VOjoTGDo1NDsYEzpvEwK6E/1GEwK6E/2rOnZaVnA4OHBWWnY6QylYRkVSJCRSRUZYKQAABQAy/5EB3wLlAAMABwALABsAKwAAVycBFwEnARclJzcXAyImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhaSNAEeNP7iNAEeNP70Fdoae1RdJSleT1BeKSVdVTo6Exg6NTQ7GBM6bxMCuhP9RhMCuhMD',
+  'NGND/VQ6dlpWcDg4cFZadjpDKVhGRVIkJFJFRlgp//8AMv/2Ad8CzwYmAMcAAAAHAxwAhQAAAAMAMv/2AywB/gAkADMAOgAARSImJjU0NjYzMhYXNjYzMhYVByEUFjMyNjY3Fw4CIyImJwYGJzI2NjU0JiMiBgYVFBYWJSE0JiMiBgEJVF4lKV9PQVcXGlg3ZWYF/rg5SRtEQRcCGEVIHj5OFhZSRDo5Ez9HNDsZFDsBDgEAPEE/RAo6dlpWcTcvODotb3s7TU8DBAI/BAgFLC4wKkYrV0FiViNQRERXKdxYSEoAAAIASP8jAd8B/gATACIAAFcRMxU+AjMyFhYVFAYGIyImJxUTMjY2NTQmIyIGBgcRFhZITRAxOBpAUCctYU0fPxFrNj8aPDYYMy4PED7dAtEkChUPNXBZYnUzCAPeARcoV0dlUwwRCf6yAggAAAIASP8jAd4CzQATACMAAFcRMxU+AjMyFhYVFAYGIyImJxUTMjY2NTQmJiMiBgYHERYWSE0RMDcZRFEjKmRWFjsUYEFCFhQxKxg0Lg8VOt0DqvEIDwsyb1tjdTQFAtoBFytYREFQJgkNBv6kAgQAAgAx/yMBxwH+ABEAHwAARTUGBiMiJiY1NDY2MzIWFhcRAzI2NxEmJiMiBgYVFBYBeRZPJkRTJi1oWBM8QRnRJkkUEzYRQEUaNt30Chc0cFhjdjMDBQL9LwEZEwkBXQIDK1hFXFoAAQBIAAABSwH/AA0AAHMRMxU+AjcVDgIHEUhNEzpGIyJGOxMB9EMNHxwGTwcXGgr+kv//AEIAAAFLAuUGJgDWAAAABgMWKQD//wAZAAABSwLcBiYA1gAAAAYDGSoAAAIAH/7iAUsB/wADABEAAFM3MwcDETMVPgI3FQ4CBxEfKU0yG00TOkYjIkY7E/7i0NABHgH0Qw0fHAZPBxcaCv6SAAEALf/2AacB/gAxAABXIiYmJzceAjMyNjY1NCYmJy4CNTQ2NjMyFhYXBy4CIyIGBhUUFhYXHgIVFAYG5BdBQBkEGT88Eik2HBU5NjhLJDRTLRxDQBcCGEBAGB4wHBQ4NT5LIi9XCgYJBEMDCAUPJCEZHBIICRs2MjhAGwYJBEMEBwUNIB0WGxIJCh42MTpFHgD//wAt//YBpwLlBiYA2gAAAAYDFlgA//8ALf/2AacC3AYmANoAAAAGAxluAP//AC3/JgGnAf4GJgDaAAAABwMeAIgAAP//AC3/9gGnAtwGJgDaAAAABgMYZwAAAgAt/uIBpwH+AAMANQAAUzczBxMiJiYnNx4CMzI2NjU0JiYnLgI1NDY2MzIWFhcHLgIjIgYGFRQWFhceAhUUBgZoKU0yOBdBQBkEGT88Eik2HBU5NjhLJDRTLRxDQBcCGEBAGB4wHBQ4NT5LIi9X/uLQ0AEUBgkEQwMIBQ8kIRkcEggJGzYyOEAbBgkEQwQHBQ0gHRYbEgkKHjYxOkUeAAEASP/2Ah0C1wBCAABFIiYmJzceAjMyNjU0JiYnLgI1NDY2Nz4CNTQmIyIGBhURIxE0PgIzMhYWFRQGBgcOAhUUFhYXHgIVFAYGAVUTMS8RAxIvLA1KNBEvLCovFBEjGRocCjJBKzUYTRcvSzRFVygSJBwYGgoOJyQvORkoVwoFBwNBAgUDNjMbJB8VFCEnGxkjGQsLFx0ULCMVNDH96QIgM0cqEx4/NCQwHw0LDw4KChEXEhcqNSlEUiUAAQAa//UBUgKNABsAAFciJiY1ESM1MzUzFTMVIxUUFhYzMjY2NxcOAuw0PRpHR02dnQkeIAogIQ0FDiYlCyBPSAEFQ5mZQ+41OxgCAwFBAgUEAAIAGv/1AVICjQADAB8AAHc1IRUDIiYmNREjNTM1MxUzFSMVFBYWMzI2NjcXDgIuAQdJND0aR0dNnZ0JHiAKICENBQ4mJfs9Pf76IE9IAQVDmZlD7jU7GAIDAUECBQQAAAIAGv/1Ab4CuAADAB8AAEE1MxUDIiYmNREjNTM1',
+  'MxUzFSMVFBYWMzI2NjcXDgIBckzSND0aR0dNnZ0JHiAKICENBQ4mJQHM7Oz+KSBPSAEFQ5mZQ+41OxgCAwFBAgUE//8AGv8mAVICjQYmAOEAAAAGAx5lAAACABr+4gFSAo0AAwAfAABTNzMHEyImJjURIzUzNTMVMxUjFRQWFjMyNjY3Fw4CYClNMkg0PRpHR02dnQkeIAogIQ0FDiYl/uLQ0AETIE9IAQVDmZlD7jU7GAIDAUECBQQAAAEAQ//2AcwB9AAVAABXIiYmNREzERQWFjMyNjcRMxEjNQYG4EBEGU0NLCwsSBZNTSBLCjRuVwEF/vtCTiMYDAGU/gwjEhsA//8AQ//2AcwC5QYmAOYAAAAHAxYAgQAA//8AQ//2AcwC1gYmAOYAAAAHAxoAgQAA//8AQ//2AcwC3AYmAOYAAAAGAxh7AP//AEP/9gHMAsgGJgDmAAAABwMTAI8AAP//AEP/9gHMAuUGJgDmAAAABgMVcwD//wBD//YCKQL+BiYA5gAAAAcDFwCfAAD//wBD//YBzAKsBiYA5gAAAAcDHQCMAAD//wAo//YB4wNNBiYAgQAAACYDGGniAAYDHGJ+//8AMf/2Ac0DTQQmAxh/4gAmAxx6fgAGAJkAAP//ADL/9gHfA00GJgDHAAAAJwMYAID/4gAGAxx1fv//ABn/IwHMAs8EJgMcbAACBgD8AAD//wBD/zEB4gH0BCYDH3cAAgYA5gAA//8AQ//2AcwC7QYmAOYAAAAHAxsAjwAA//8AQ//2AcwCzwYmAOYAAAAHAxwAhwAAAAEAGAAAAcoB9AAHAABzAzMTMxMzA6SMVHImdlCMAfT+TwGx/gwAAQAfAAAC3AH0AA4AAHMDMxMzEzMTMxMzAyMDA5V2TmIRdVF1EWJOdoFoZwH0/k8Bp/5ZAbH+DAGD/n3//wAfAAAC3ALlBiYA9gAAAAcDFgD7AAD//wAfAAAC3ALcBiYA9gAAAAcDGAD8AAD//wAfAAAC3ALIBiYA9gAAAAcDEwEBAAD//wAfAAAC3ALlBiYA9gAAAAcDFQDwAAAAAQAWAAABrwH0AAsAAHM3JzMXNzMHFyMnBxabm1V3eFWdnVV4d/r6wsL4/MHBAAEAGf8jAcwB9AAJAABXNyMDMxMzEzMDsEFLjU56IntOzt3dAfT+TwGx/S///wAZ/yMBzALlBiYA/AAAAAYDFn8A//8AGf8jAcwC3AYmAPwAAAAGAxhyAP//ABn/IwHMAsgGJgD8AAAABgMTdAD//wAZ/yMBzALlBiYA/AAAAAYDFWkAAAEAKgAAAZ0B9AAJAABzNQEhNSEVASEVKgEU/uwBc/7sARRGAWhGRv6YRgD//wAqAAABnQLlBiYBAQAAAAYDFlcA//8AKgAAAZ0C3AYmAQEAAAAGAxliAP//ACoAAAGdArgGJgEBAAAABgMUbAAAAgA1AWIBTgKTABYALAAAQS4CJzU0JgciBgcnNjYzMhYVFRYWFwciJjU0Njc3FwcGBhUUFjMyNjcXBgYBSRomFwQXGhNFGgQcQx04NgUQCMQmLzExagFhFhISERk7FQEXRAFiAgoUEp4XEQEFAjEHCSw4iQcHAjMzKSorAwYvBwERFBMUDwgpEBUAAgA1AWMBSQKTAAsAFwAAUyImNTQ2MzIWFRQGJzI2NTQmIyIGFRQWwEVGRkVERUVEJRwcJSUfHwFjS09OSEhOT0s/Ky8wKCgwLysAAAMAFv/8AhICAgAMABAAJAAARSImJjURNxEUHgIzBRMzAwM1PgIzMzI2NjcVBgYnByMHJgYCCURHGU4IEyEa/lkgSxybDSw4HusbMikMD1A7Db4XHUsEGkRAASgB/tcbJBQIPwG//kEBpEEEBgUFBgNBBwoEAwYHCAAAAgAoAAAB9wGtABYAGgAAdyYmNTQ+AjMyFhcHJiYjIgYGFRQWFwc1IRWnKCckQFUxJUUcKxUrGi5HKR0fuQHPDi1aMzJUPSIUEjsODClHLiVD',
+  'Iz1HRwABAGAAAACtAs0AAwAAcxEzEWBNAs39MwADAGAAAAE7As0AAwAHABIAAHM1MxUjETMRMzUyHgIVFA4CrXrHTXoGCAQCAgQIR0cCzf0zRwUJDQgIDgkF//8AJAAAAOkDwwYmAQkAAAAHAvkAEAEi//8AJAAAATsDwwYmAQoAAAAHAvkAEAEi//8AJP7zAOkCzQYmAQkAAAAHAvkAEP0G//8AJP7zATsCzQYmAQoAAAAHAvkAEP0G//8ACwAAAPsDYwYmAQkAAAAHAxH/8wDU//8ACwAAATsDYwYmAQoAAAAHAxH/8wDU//8AEAAAAP0DpQYmAQkAAAAHAvb/9QEI//8AEAAAATsDpQYmAQoAAAAHAvb/9QEIAAEAKAAAAsUB9AAXAABhIiYmNTQ+AjcXDgIVFB4CMyERMxEBUWOEQgcKCAFMAwsKFzNUPQEmTi5eSRg4NScHDhA4QB0lNiMQAa3+DAADACgAAANFAfQAAwAbACYAAGE1MxUhIiYmNTQ+AjcXDgIVFB4CMyERMxEzNTIeAhUUDgICxWz+IGOEQgcKCAFMAwsKFzNUPQEmTmwGCAQCAgQIR0cuXkkYODUnBw4QOEAdJTYjEAGt/gxHBQkNCAgOCQUAAAT/7AAAAToB9AADAA0AFAAfAABzNTMVISIuAjU0NjYzFTUzBxEzETM1Mh4CFRQOArps/toGCAQCAwkIkCRObAYIBAICBAhHRwUJDggLDwlHRx0Byv4MRwUJDQgIDgkFAAT/7AAAAToB9AADAA4AGAAfAABzNTMVMTUyHgIVFA4CISIuAjU0NjYzFTUzBxEzEbpsBggEAgIECP7UBggEAgMJCJAkTkdHRwUJDQgIDgkFBQkOCAsPCUdHHQHK/gwAAAL/7AAAALoB9AAGABAAAHE1MwcRMxEjIi4CNTQ2NjOQJE66BggEAgMJCEcdAcr+DAUJDggLDwkAAv/sAAAAugH0AAYAEAAAcTUzBxEzESMiLgI1NDY2M5AkTroGCAQCAwkIRx0Byv4MBQkOCAsPCf//ACj/TALFAfQGJgETAAAABwKNATz86v//ACj/TANFAfQGJgEUAAAABwKNATz86v///+z/TAE6AfQGJgEVAAAABwKNAFj86v///+z/TAC6AfQGJgEXAAAABwKNAFj86v//ACj+zgLFAfQGJgETAAAABwKUAPn/vv//ACj+zgNFAfQGJgEUAAAABwKUAPn/vv///+z+7AE6AfQGJgEWAAAABgKUFtz////s/s4A/gH0BiYBGAAAAAYClBW+////7AAAAToB9AYGARUAAP///+wAAAC6AfQGBgEXAAD//wAoAAACxQJHBiYBEwAAAAcCkQEH/5///wAoAAADRQJHBiYBFAAAAAcCkQEH/5/////sAAABOgKoBiYBFgAAAAYCkSMA////7AAAAP8CqAYmARgAAAAGApEjAP//ACgAAALFAsYGJgETAAAABwKVAPn/n///ACgAAANFAsYGJgEUAAAABwKVAPn/n////+wAAAE6AycGJgEWAAAABgKVFQD////sAAAA/gMnBiYBGAAAAAYClRUA//8AKAAAAsUCqwYmARMAAAAHAvUA5QAw//8AKAAAA0UCqwYmARQAAAAHAvUA5QAw////7AAAAToDDAYmARUAAAAHAvUAAQCR////7AAAAQkDDAYmARgAAAAHAvUAAQCRAAIAKP7CAggB9AADACoAAEU1MxUHIiYmNTQ2NjMzNTQmIyIGByc2NjMyFhYVESMiBhUUFjMyNjcXBgYBUkOASWs5OWtKpVJTGmI2CSliLkxtO/JTTU1SEi8iDRk6p09Ply1YPj5XLeNBQQkIQAoPL1pB/tY/PTw/BARDBQcAAAQAKP7CAogB9AADAA4ANQA5AABFNTMVNzUyHgIVFA4CASImJjU0NjYzMzU0JiMiBgcnNjYzMhYWFREjIgYVFBYzMjY3FwYGEzUzFQFSQ98GCAQCAgQI/ptJazk5a0ql',
+  'UlMaYjYJKWIuTG078lNNTVISLyINGTrWbKdPT6dHBQkNCAgOCQX+wi1YPj5XLeNBQQkIQAoPL1pB/tY/PTw/BARDBQcBPkdH////7P9MAm8B9AYmATkAAAAHAo0AwPzq////7P9MAe8B9AYmAToAAAAHAo0AwPzqAAQAKP7CAggB9AADAAcACwAyAABFMxUjNzMVIyczFSMHIiYmNTQ2NjMzNTQmIyIGByc2NjMyFhYVESMiBhUUFjMyNjcXBgYBSi0tKTExVzIyB0lrOTlrSqVSUxpiNgkpYi5MbTvyU01NUhIvIg0ZOok2iTk5Oc8tWD4+Vy3jQUEJCEAKDy9aQf7WPz08PwQEQwUHAAAGACj+wgKIAfQAAwAHAAsAFgA9AEEAAEUzFSM3MxUjJzMVIyU1Mh4CFRQOAgEiJiY1NDY2MzM1NCYjIgYHJzY2MzIWFhURIyIGFRQWMzI2NxcGBhM1MxUBSi0tKTExVzIyAVgGCAQCAgQI/ptJazk5a0qlUlMaYjYJKWIuTG078lNNTVISLyINGTrWbIk2iTk5OW9HBQkNCAgOCQX+wi1YPj5XLeNBQQkIQAoPL1pB/tY/PTw/BARDBQcBPkdHAP///+z+zgJvAfQGJgE5AAAABgKUfb7////s/s4B7wH0BiYBOgAAAAYClH2+AAIAKP7CAggB9AAXACgAAEUXBgYjIiYmNTQ2NjMzFSMiBhUUFjMyNgEnNjYzMhYWFREjETQmIyIGAaoML08jSWs5OWtKpaVTTU1SGUj+7gkpYi5MbTtNUlMaYuo/CgstWD4+Vy1HPz08PwYCjEAKDy9aQf7WASpBQQkABAAo/sICiAH0AAMAGwAsADcAAGE1MxUHFwYGIyImJjU0NjYzMxUjIgYVFBYzMjYBJzY2MzIWFhURIxE0JiMiBgE1Mh4CFRQOAgIIbMoML08jSWs5OWtKpaVTTU1SGUj+7gkpYi5MbTtNUlMaYgHaBggEAgIECEdH6j8KCy1YPj5XLUc/PTw/BgKMQAoPL1pB/tYBKkFBCf5dRwUJDQgIDgkFAAAE/+wAAAJvAfQAAwANACEALAAAYTUzFSEiLgI1NDY2MxU1IQc1NCYjIgYHJzY2MzIWFhURMzUyHgIVFA4CAe9s/aUGCAQCAwkIAbkYUVMaYjYJKWIuTG07bAYIBAICBAhHRwUJDggLDwlHRxX4QUEJCEAKDy9aQf7WRwUJDQgIDgkFAAAC/+wAAAHvAfQAEwAdAABxNSEHNTQmIyIGByc2NjMyFhYVESEiLgI1NDY2MwG5GFFTGmI2CSliLkxtO/4RBggEAgMJCEcV+EFBCQhACg8vWkH+1gUJDggLDwkA//8AKP7CAggClwYmATcAAAAHAo0A2f/b//8AKP7CAogClwYmATgAAAAHAo0A2f/b////7AAAAm8CkwYmATkAAAAHAo0AwP/X////7AAAAe8CkwYmAToAAAAHAo0AwP/XAAEAKAAAAasB9AAQAABzNSEHNTQmJiMjNTMyFhYVFSgBdUAiTUFRUVByPEc52kpWJUcydWXoAAMAKAAAAisB9AADABQAHwAAYTUzFSE1IQc1NCYmIyM1MzIWFhUVMzUyHgIVFA4CAats/hEBdUAiTUFRUVByPGwGCAQCAgQIR0dHOdpKViVHMnVl6EcFCQ0ICA4JBf//ACgAAAGrAqgGJgE/AAAABgKNYOz//wAoAAACKwKoBiYBQAAAAAYCjWDs//8AKAAAAasDDAYmAT8AAAAHAvUAQQCR//8AKAAAAisDDAYmAUAAAAAHAvUAQQCRAAH/0f8jAMAB9AAQAABXIiYnNxYWMzI2NREzERQGBgkNHQ4JDhgJLzpOL1LdAwFHAQNHPwIE/fw9XTMAAAP/0f8jAUAB9AADABQAHwAAczUzFQUiJic3FhYzMjY1ETMRFAYGNzUyHgIVFA4CrID+3Q0dDgkOGAkvOk4vUu0GCAQCAgQIR0fdAwFHAQNHPwIE/fw9XTPd',
+  'RwUJDQgIDgkFAP///9H/IwDAAqgGJgFFAAAABgKNXuz////R/yMBQAKoBiYBRgAAAAYCjV7s////0f8jAQ8DDAYmAUUAAAAHAvUABwCR////0f8jAUADDAYmAUYAAAAHAvUABwCR////0f8jAQQDJwYmAUUAAAAGApUbAP///9H/IwFAAycGJgFGAAAABgKVGwAAAwAo/wgEcwH0ABwAKgA/AABFIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgY3NTMyNjY1NTMVFAYGIzMiJic3FhYzMwc1NCYmJzceAhURAUFPgEoHCw4GTQsRCTNcPDxWLk5JesNwIiQOTiFHOtMiQR8zFyUTsh4IDQhMBw4J+DpoQxVFVVcnDEV1UxQuRykmRC4Bqf5XRmQ1+EcUPDrx8U5cJxocNRMRIO8SQlMqDSNWTRj+6gAFACj/CATzAfQAAwAgAC4AQwBOAABhNTMVBSImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGNzUzMjY2NTUzFRQGBiMzIiYnNxYWMzMHNTQmJic3HgIVETM1Mh4CFRQOAgRzbPxiT4BKBwsOBk0LEQkzXDw8Vi5OSXrDcCIkDk4hRzrTIkEfMxclE7IeCA0ITAcOCWwGCAQCAgQIR0f4OmhDFUVVVycMRXVTFC5HKSZELgGp/ldGZDX4RxQ8OvHxTlwnGhw1ExEg7xJCUyoNI1ZNGP7qRwUJDQgIDgkFAAAG/+wAAANwAfQAAwANACIAKQA3AEIAAGE1MxUhIi4CNTQ2NjMFIiYnNxYWMzMHNTQmJic3HgIVESE1MwcRMxExNTMyNjY1NTMVFAYGIyE1Mh4CFRQOAgLwbPykBggEAgMJCAIOIkEeMxckE7IeBw0JTAcOCv0QkhRNcSIjDk4hRjoCIAYIBAICBAhHRwUJDggLDwlHGhw1ExEg7xJCUyoNI1ZNGP7qRxQBXf5wRxQ8OvHxTlwnRwUJDQgIDgkFAAAE/+wAAALwAfQAFAAbACkAMwAAYSImJzcWFjMzBzU0JiYnNx4CFREhNTMHETMRMTUzMjY2NTUzFRQGBiMhIi4CNTQ2NjMCDiJBHjMXJBOyHgcNCUwHDgr9EJIUTXEiIw5OIUY6/sQGCAQCAwkIGhw1ExEg7xJCUyoNI1ZNGP7qRxQBXf5wRxQ8OvHxTlwnBQkOCAsPCf//ACj/CARzAycGJgFNAAAABwKVArsAAP//ACj/CATzAycGJgFOAAAABwKVArsAAP///+wAAANwAycGJgFPAAAABwKVATgAAP///+wAAALwAycGJgFQAAAABwKVATgAAAACACj/CARbAfQAHAA4AABFIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgY3NSEHNTQmJiMiDgMHJz4EMzIeAhUVAUFPgEoHCw4GTQsRCTNcPDxWLk5JesMCB0gjRTQsS0A3LhMaGTM4Q1AyR1szFPg6aEMVRVVXJwxFdVMULkcpJkQuAg3980ZkNfhHQes/UyodLzk6GEcfPjcqGTBPWirxAAAEACj/CATcAfQAAwAgADwARwAAYTUzFQUiJiY1ND4CNxcOAhUUFhYzMjY2NREzERQGBjc1IQc1NCYmIyIOAwcnPgQzMh4CFRUzNTIeAhUUDgIEW238eU+ASgcLDgZNCxEJM1w8PFYuTkl6wwIHSCNFNCxLQDcuExoZMzhDUDJHWzMUbQYIBAICBAhHR/g6aEMVRVVXJwxFdVMULkcpJkQuAg3980ZkNfhHQes/UyodLzk6GEcfPjcqGTBPWirxRwUJDQgIDgkFAAX/7AAAA2kB9AADAA0AKQAtADgAAGE1MxUhIi4CNTQ2NjMVNSEHNTQmJiMiDgMHJz4EMzIeAhUVJREzEQU1Mh4CFRQOAgLpbPyrBggEAgMJCALjSCNFNCxLQDcuExkZMzhDUDJHWzMU/aVOAnkGCAQCAgQIR0cFCQ4ICw8JR0dB6z9TKh0vOToYRx8+NyoZME9aKvFH',
+  'Aa3+U0dHBQkNCAgOCQUAA//sAAAC6QH0ABsAHwApAABxNSEHNTQmJiMiDgMHJz4EMzIeAhUVJREzEQciLgI1NDY2MwLjSCNFNCxLQDcuExkZMzhDUDJHWzMU/aVO3AYIBAIDCQhHQes/UyodLzk6GEcfPjcqGTBPWirxRwGt/lNHBQkOCAsPCf//ACj/CARbAqcGJgFVAAAABwKNAv7/6///ACj/CATcAqcGJgFWAAAABwKNAv7/6////+wAAANpAqcGJgFXAAAABwKNAYv/6////+wAAALpAqcGJgFYAAAABwKNAYv/6wACABQAAAKwAs0AGgAeAABzNSEHNTQmJiMiDgMHJz4DMzIeAhUVJREzERQCl0gjRTQsS0A3LhMaH0BMYD5HWzMU/aZOR0HrP1MqHS85OhhHJ0w+JjBPWirxRwKG/XoABAAUAAADMQLNAAMAHgAiAC0AAGE1MxUhNSEHNTQmJiMiDgMHJz4DMzIeAhUVJREzEQU1Mh4CFRQOAgKwbfz3ApdII0U0LEtANy4TGh9ATGA+R1szFP2mTgJ5BggEAgIECEdHR0HrP1MqHS85OhhHJ0w+JjBPWirxRwKG/XpHRwUJDQgIDgkFAAX/7AAAAwECzQADAB4AIgAsADcAAGE1MxUhNSEHNTQmJiMiDgMHJz4DMzIeAhUVJREzEQciLgI1NDY2MwU1Mh4CFRQOAgKBbP0TApdII0U0LEtANy4TGh9ATGA+R1szFP2mTpAGCAQCAwkIAu0GCAQCAgQIR0dHQes/UyodLzk6GEcnTD4mME9aKvFHAob9ekcFCQ4ICw8JR0cFCQ0ICA4JBQD////sAAACnALNBCYBXewAAAYDMAAA//8AFAAAArACzQYmAV0AAAAHAo0BU//s//8AFAAAAzECzQYmAV4AAAAHAo0BU//s////7AAAAwECzQYmAV8AAAAHAo0BP//s////7AAAApwCzQQmAV3sAAAmAzAAAAAHAo0BP//sAAIAKP7CAeEB9AAXAC4AAEEiJiY1NDY2MzMVIyIGFRQWMzI2NxcGBgMmJjU0PgIzMhYXByYmIyIGBhUUFhcBFUlrOTlrSsvLU01NUhlINAwvT3s2OShGYDcdQx8bGTMXNlMwLCj+wi1YPj5XLUc/PTw/Bgc/CgsBQS53QzlhSCcMC0MJCjJXOTRbIwAAAgAo/sICiwH0AEkAVAAARRcGBiMiJiY1NDY2Nzc+BDU1FyYmIyIGBzcVFB4DMzMVIyIuAzU1PgIzMhYWFxUUDgIHDgMHDgIVFBYzMjYlNTIeAhUUDgIBqgwvTyNJazkiQC0fJ1BKOiIqOXE1NXA5KiZDXG48fn5OiG5PKitYVygpVlgrME1aKgohIxsDGCobTVIYSQEBBggEAgIECOlACgstWD4wUj0SDRAoMTtFKDw/Hh4eHj88JFJPQSdHMlNjYyk8Fx4PDx4XPDtfSjgUBA8QCwILJDcoPUAH8EcFCQ0ICA4JBQAD/+wAAAKQAfQAMQA7AEYAAHE1MzI+AzU1FyYmIyIGBzcVFB4DMzMVIyIuAzU1PgIzMhYWFxUUDgMjIyIuAjU0NjYzBTUyHgIVFA4ChjxuXEQmKjpwNTVwOSomQ1xuPICATohuTyorWFcoKVZYKypPbohOhgYIBAIDCQgCfAYIBAICBAhHJ0FPUiQ8Px4eHh4/PCRST0EnRzJTY2MpPBceDw8eFzwpY2NTMgUJDggLDwlHRwUJDQgIDgkFAAP/7AAAAfoB9AAWABoAJAAAdyYmNTQ+AjMyFhcHJiYjIgYGFRQWFwU1IRUhIi4CNTQ2NjPZNjkoRmA3HUMfGxkzFzVULysp/vQB+v4GBggEAgMJCAMud0M5YUgnDAtDCQoyVzk0WyM5R0cFCQ4ICw8J//8AKP7CAeECqAYmAWUAAAAHAo0A8//s//8AKP7CAosCqAYmAWYAAAAHAo0BA//s////7AAAApACqAYmAWcAAAAHAo0BBf/s////7AAA',
+  'AfoCqAYmAWgAAAAHAo0BD//s//8ANgAAA7MCqAYmAXUAAAAHAo0CuP/s//8ANgAABDMCqAYmAXYAAAAHAo0CuP/s////7AAAApMCqAYmAXcAAAAHAo0BGP/s////7AAAAhMCqAYmAXgAAAAHAo0BGP/s//8ANgAAA7MDJwYmAXUAAAAHApUCdQAA//8ANgAABDMDJwYmAXYAAAAHApUCdQAA////7AAAApMDJwYmAXcAAAAHApUA1QAA////7AAAAhMDJwYmAXgAAAAHApUA1QAAAAEANgAAA7MB9AArAABhIiYmNTQ+AjcXDgIVFB4CMyEHERcjIgYGFRQWFjMVIiYmNTQ2NjMzEQFfY4RCBwoIAUwDCwoXM1Q9Ajo0Kao6PxgYPzpXYScnYVfPLl5JGDg1JwcOEDhAHSU2IxAtAbUiHE1KSk0cMytlVlZvNf4MAAMANgAABDMB9AADAC8AOgAAYTUzFSEiJiY1ND4CNxcOAhUUHgIzIQcRFyMiBgYVFBYWMxUiJiY1NDY2MzMRMzUyHgIVFA4CA7Ns/UBjhEIHCggBTAMLChczVD0COjQpqjo/GBg/OldhJydhV89sBggEAgIECEdHLl5JGDg1JwcOEDhAHSU2IxAtAbUiHE1KSk0cMytlVlZvNf4MRwUJDQgIDgkFAAAE/+wAAAKTAfQAAwANACcAMgAAYTUzFSEiLgI1NDY2MxU1IQcRFyMiBgYVFBYWMxUiJiY1NDY2MzMRMzUyHgIVFA4CAhNs/YEGCAQCAwkIAfk0Kao6PxgYPzpXYScnYVfPbAYIBAICBAhHRwUJDggLDwlHRy0BtSIcTUpKTRwzK2VWVm81/gxHBQkNCAgOCQUAAAL/7AAAAhMB9AAZACMAAHE1IQcRFyMiBgYVFBYWMxUiJiY1NDY2MzMRISIuAjU0NjYzAfk0Kao6PxgYPzpXYScnYVfP/e0GCAQCAwkIRy0BtSIcTUpKTRwzK2VWVm81/gwFCQ4ICw8JAAABACj+9gMTAfQAMwAAQSImJjU0PgI3Fw4CFRQWFjMzMjY2NREXIyIGBhUUFhYzMxUjIiYmNTQ2NjMzERQGBiMBL0l4RggMDgZNCxIJLlM36DdNKimqOj8YGD86gYFYYCcnYFjPR3NC/vY2YD8VSVdaJQxEc1QXL0IjIj0qAgkiHE1KSk0cRzVvVlZvNf3SRV0uAAMAKP72A5MB9AADADcAQgAAYTUzFQEiJiY1ND4CNxcOAhUUFhYzMzI2NjURFyMiBgYVFBYWMzMVIyImJjU0NjYzMxEUBgYjATUyHgIVFA4CAxNs/bBJeEYIDA4GTQsSCS5TN+g3TSopqjo/GBg/OoGBWGAnJ2BYz0dzQgFoBggEAgIECEdH/vY2YD8VSVdaJQxEc1QXL0IjIj0qAgkiHE1KSk0cRzVvVlZvNf3SRV0uAQpHBQkNCAgOCQX//wAo/vYDEwKoBiYBeQAAAAcCkQHjAAD//wAo/vYDkwKoBiYBegAAAAcCkQHjAAD////sAAACkwKoBiYBdwAAAAcCkQDjAAD////sAAACEwKoBiYBeAAAAAcCkQDjAAAAAQAoAAACxQLNABgAAGEiJiY1ND4CNxcOAhUUHgIzIQcRMxEBUWOEQgcKCAFMAwsKFzNUPQFKJE4uXkkYODUnBw4QOEAdJTYjEB0Co/0zAAADACgAAANFAs0AAwAcACcAAGE1MxUhIiYmNTQ+AjcXDgIVFB4CMyEHETMRMzUyHgIVFA4CAsVs/iBjhEIHCggBTAMLChczVD0BSiRObAYIBAICBAhHRy5eSRg4NScHDhA4QB0lNiMQHQKj/TNHBQkNCAgOCQX//wAoAAACxQLNBiYBfwAAAAcC+QEA/23//wAoAAADRQLNBiYBgAAAAAcC+QEA/20ABP/sAAACpgLUAAMADQArADYAAGE1MxUhIi4CNTQ2NjMVNSEHNTQmJiMjJzc+AjcXDgIHByczMh4CFRUzNTIeAhUUDgIC',
+  'Jmz9bgYIBAIDCQgB9BwdOSvaOSsMGiYdQR0kGQsyFOk/US0SbAYIBAICBAhHRwUJDggLDwlHRxmyNkcjVlMWLjwrJyw6KhVgHytGUSXgRwUJDQgIDgkFAAAC/+wAAAImAtQAHQAnAABxNSEHNTQmJiMjJzc+AjcXDgIHByczMh4CFRUhIi4CNTQ2NjMB9BwdOSvaOSsMGiYdQR0kGQsyFOk/US0S/doGCAQCAwkIRxmyNkcjVlMWLjwrJyw6KhVgHytGUSXgBQkOCAsPCQAAAQAoAAACxQLUAC4AAGEiJiY1ND4CNxcOAxUUHgIzITU0JiYjIyc3PgI3Fw4CBwczMh4CFRUBUWOEQgYICQNMAwkHBRczVD0BJh05K9s4KwwaJh1AHSQYCyPGP1EtEi5eSRIxMy4PDhIsLioPJTYjEJk2RyNWUxYuPCsnLDoqFUErRlEl4AADACgAAANFAtQAAwAyAD0AAGE1MxUhIiYmNTQ+AjcXDgMVFB4CMyE1NCYmIyMnNz4CNxcOAgcHMzIeAhUVMzUyHgIVFA4CAsVs/iBjhEIGCAkDTAMJBwUXM1Q9ASYdOSvbOCsMGiYdQB0kGAsjxj9RLRJsBggEAgIECEdHLl5JEjEzLg8OEiwuKg8lNiMQmTZHI1ZTFi48KycsOioVQStGUSXgRwUJDQgIDgkFAP///+wAAAKmAtQGBgGDAAD////sAAACJgLUBgYBhAAAAAIAKAAAAsUDAwAKADkAAFMnPgI3Fw4DEyImJjU0PgI3Fw4DFRQeAjMhNTQmJiMjJzc+AjcXDgIHBzMyHgIVFc0iFiIoHy4VIR8icGOEQgYICQNMAwkHBRczVD0BJh05K9s4KwwaJh1AHSQYCyPGP1EtEgH1MytBQi0cIDQ1Pv3gLl5JEjEzLg8OEiwuKg8lNiMQmTZHI1ZTFi48KycsOioVQStGUSXgAAQAKAAAA0UDAwAKADkARABIAABTJz4CNxcOAxMiJiY1ND4CNxcOAxUUHgIzITU0JiYjIyc3PgI3Fw4CBwczMh4CFRUzNTIeAhUUDgIjNTMVzSIWIigfLhUhHyJwY4RCBggJA0wDCQcFFzNUPQEmHTkr2zgrDBomHUAdJBgLI8Y/US0SbAYIBAICBAhybAH1MytBQi0cIDQ1Pv3gLl5JEjEzLg8OEiwuKg8lNiMQmTZHI1ZTFi48KycsOioVQStGUSXgRwUJDQgIDgkFR0cABf/sAAAC2AMDAAMADgAsADcAQQAAYTUzFQEnPgI3Fw4DAzUhBzU0JiYjIyc3PgI3Fw4CBwcnMzIeAhUVMzUyHgIVFA4CISIuAjU0NjYzAlhs/ZEiFiIoHy4VIR8iaQImHB05K9o5KwwaJh1BHSQZCzIU6T9RLRJsBggEAgIECP02BggEAgMJCEdHAfUzK0FCLRwgNDU+/eBHGbI2RyNWUxYuPCsnLDoqFWAfK0ZRJeBHBQkNCAgOCQUFCQ4ICw8JAAAD/+wAAAJYAwMACgAoADIAAFMnPgI3Fw4DAzUhBzU0JiYjIyc3PgI3Fw4CBwcnMzIeAhUVISIuAjU0NjYzVSIWIigfLhUhHyJpAiYcHTkr2jkrDBomHUEdJBkLMhTpP1EtEv2oBggEAgMJCAH1MytBQi0cIDQ1Pv3gRxmyNkcjVlMWLjwrJyw6KhVgHytGUSXgBQkOCAsPCQAAAQAo/wgCTwLNABwAAEUiJiY1ND4CNxcOAhUUFhYzMjY2NREzERQGBgFBT4BKBwsOBk0LEQkzXDw8Vi5OSXr4OmhDFUVVVycMRXVTFC5HKSZELgLm/RpGZDUAAwAo/wgCzwLNAAMAIAArAABhNTMVBSImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGJTUyHgIVFA4CAk9s/oZPgEoHCw4GTQsRCTNcPDxWLk5JegEvBggEAgIECEdH+DpoQxVFVVcnDEV1UxQuRykmRC4C5v0aRmQ1+EcFCQ0ICA4JBQAABf/sAAABRwLN',
+  'AAMADQARABUAIAAAczUzFSEiLgI1NDY2MxcRMxEjNTMVMzUyHgIVFA4Cx2z+zQYIBAIDCQh5Tsd5ugYIBAICBAhHRwUJDggLDwlHAs39M0dHRwUJDQgIDgkFAAP/7AAAAMcCzQADAAcAEQAAcxEzESM1MxUjIi4CNTQ2NjN5Tsd5eQYIBAIDCQgCzf0zR0cFCQ4ICw8JAAEAKP60AicB9AA+AABTJiY1NDY2MzoDMwc1NCYmIyIGBzcOAhUUFhYXBy4CNTQ2Njc2NjMyHgMVFSoDIyIOAhUUFhdBCg8tVTsRQlZcKTogTUIqUxcvBgwHBwoDSgQLCQkNBhZgOjJRPSkUKmFdSREQJiMWDgn+tDlmJEFdMjPhRlAiDAowGElUKitSPAwVDUBaMzFdTBcJEhEmO1U49QkbNy4mYjsAAAMAKP60AqcB9AADAEIATQAAYTUzFQEmJjU0NjYzOgMzBzU0JiYjIgYHNw4CFRQWFhcHLgI1NDY2NzY2MzIeAxUVKgMjIg4CFRQWFwE1Mh4CFRQOAgInbP2uCg8tVTsRQlZcKTogTUIqUxcvBgwHBwoDSgQLCQkNBhZgOjJRPSkUKmFdSREQJiMWDgkCBgYIBAICBAhHR/60OWYkQV0yM+FGUCIMCjAYSVQqK1I8DBUNQFozMV1MFwkSESY7VTj1CRs3LiZiOwFMRwUJDQgIDgkFAAT/7AAAArcB9AADAA0AMwA+AABhNTMVISIuAjU0NjYzFTUhBzU0JiYjIgYHNw4CFRQWFhcHLgI1NDY2NzY2MzIWFhUVMzUyHgIVFA4CAjds/V0GCAQCAwkIAiM6IE1CKlMXLwYMCAgKA0oECwkJDQYWYDpUcThsBggEAgIECEdHBQkOCAsPCUdHKddGUCIMCjAYSVQqK1I8DBUNQFozMV1MFwkSMm9e9UcFCQ0ICA4JBQAC/+wAAAI3AfQAJQAvAABxNSEHNTQmJiMiBgc3DgIVFBYWFwcuAjU0NjY3NjYzMhYWFRUhIi4CNTQ2NjMCIzogTUIqUxcvBgwICAoDSgQLCQkNBhZgOlRxOP3JBggEAgMJCEcp10ZQIgwKMBhJVCorUjwMFQ1AWjMxXUwXCRIyb171BQkOCAsPCf//ACj/CAJPAk4GJgGZAAAABwKNAQL/kv//ACj/CALPAk4GJgGcAAAABwKNAQL/kv///+wAAAE6AqgGJgEVAAAABgKNWOz////sAAAAugKoBiYBFwAAAAYCjVjsAAEAKP8IAk8B9AAcAABFIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgYBQU+ASgcLDgZNCxEJM1w8PFYuTkl6+DpoQxVFVVcnDEV1UxQuRykmRC4CDf3zRmQ1////7AAAAToB9AYGARYAAP///+wAAAC6AfQGBgEXAAAAAwAo/wgCzwH0AAMAIAArAABhNTMVBSImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGJTUyHgIVFA4CAk9s/oZPgEoHCw4GTQsRCTNcPDxWLk5JegEvBggEAgIECEdH+DpoQxVFVVcnDEV1UxQuRykmRC4CDf3zRmQ1+EcFCQ0ICA4JBQAAAgAoAAACIAH0AAoAFwAAczU0NjYzMhYWFRUlJyEHNTQmJiMiBgYVKDhxU1RwOP5WKQGuKCBNQkJMIPBgcjIycmDwJSIiy0hTIiJTSAAAAgAoAAACVgH0ABgAIwAAYSImJjU0NjYzMxEjERcjIgYGFRQWFjMhFTE1Mh4CFRQOAgEHV2EnJ2FXz04oqTo/GBg/OgE7BggEAgIECDVvVlZvNf40AaciHE1KSk0cR0cFCQ0ICA4JBQAF/+z/CQKoAfQAJQBIAEwAVwBhAABxNSEHNTQmJiMiBgc3DgIVFBYWFwcuAjU0NjY3NjYzMhYWFRUHIiYnLgI1NDY2NxcOAhUUFhYXJxYWMzI2NjU1MxUUBgY3NTMVMTUyHgIVFA4CISIuAjU0NjYzAihNIExBLVIYLwYLCAgK',
+  'A0oEDAkJDgUWYDtUcDj9OmAWBQ4JCQwERgMIBgYLBjQXWS5FSx1NOHCobAYIBAICBAj9ZgYIBAIDCQhHR/VFUCMMCjAYSVUqK1E8DBUNQVkyMl5LFwkSMm9e9fcLBg8vPCAgOCkIHQgmLRMULiwRLAcIEighnJw7SB/3R0dHBQkNCAgOCQUFCQ4ICw8JAAAD/+wAAALQAh8AFwAtADcAAHE1IQc1NCYmIyIGBgcnPgIzMh4CFRUlNTQ2NjMyFhYVFSM1NCYmIyIGBhUVByIuAjU0NjYzArQxOnVYJVJQIgsXUWIwP3hfOP2nMFQ0NVMvThwvHh0wHcUGCAQCAwkIRyqqXng6CAwGOwYTDiJOhWPHR1AwUjIyUjBQUB8xHR0xH1BHBQkOCAsPCf//ACgAAAIgAfQGBgGdAAAAAgAoAAACVgH0ABMAHgAAczU0NjYzMxEnMxUjERcjIgYGFRUhNTIeAhUUDgIoKWJUzxN/uh+gOj8YAcwGCAQCAgQI+lpuMv5AE0cB0CMcTUr6RwUJDQgIDgkFAAAD/+z+xAJWAEcAGwAmADAAAEEGBiMiLgInFyM1Mx4DMzI2NjcHETMVIzcXNTIeAhUUDgIhIi4CNTQ2NjMB1iVCGUJZNBgBJZO9AhAjOisMGiMZMLmPI2wGCAQCAgQI/bgGCAQCAwkI/s0FBCVThmEjR2V9QhgBBAJHAXxHIyNHBQkNCAgOCQUFCQ4ICw8JAAAD/+z+1AC6AfQAAwANABQAAFM3MwcDIi4CNTQ2NjMVNTMHETMRHjJEKWsGCAQCAwkIkCRO/tTQ0AEsBQkOCAsPCUdHHQHK/gwA//8AKAAAAiADAgYmAZ0AAAAHAvkArQBh//8AKAAAAlYDAgYmAaIAAAAHAvkAmgBh////7P7EAlYBzgYmAaMAAAAHAvkAq/8tAAX/7P7UAPYC8QADAA0AFAApAC0AAFM3MwcDIi4CNTQ2NjMVNTMHETMRAyYmNTQ2NjMyFhcHJiYjIgYVFBYXBzUzFR4yRClrBggEAgMJCJAkTlUQER0wHBAgDBoIDwgXGwsLY8X+1NDQASwFCQ4ICw8JR0cdAcr+DAI9FCYVHS4aCQgtBQMaFQ0YDhw1NQACACgAAALHAh8AFwAtAABzNSEHNTQmJiMiBgYHJz4CMzIeAhUVJTU0NjYzMhYWFRUjNTQmJiMiBgYVFSgCgjE6dFglU1AiChdRYjA/eF84/acwVDQ1UjBOHDAdHTAdRyqqXng6CAwGOwYTDiJOhWPHR1AwUjIyUjBQUB8xHR0xH1AABAAoAAADRwIfAAMAGwAxADwAAGE1MxUhNSEHNTQmJiMiBgYHJz4CMzIeAhUVJTU0NjYzMhYWFRUjNTQmJiMiBgYVFQU1Mh4CFRQOAgLHbPz1AoIxOnRYJVNQIgoXUWIwP3hfOP2nMFQ0NVIwThwwHR0wHQJ3BggEAgIECEdHRyqqXng6CAwGOwYTDiJOhWPHR1AwUjIyUjBQUB8xHR0xH1BHRwUJDQgIDgkFAAb/7AAAA0cCHwADABsAMQA8AEAASgAAcTUzFTE1IQc1NCYmIyIGBgcnPgIzMh4CFRUlNTQ2NjMyFhYVFSM1NCYmIyIGBhUVBTUyHgIVFA4CIzUzFSEiLgI1NDY2MygCgjE6dFglU1AiChdRYjA/eF84/acwVDQ1UjBOHDAdHTAdAncGCAQCAgQIcmz8zQYIBAIDCQhHR0cqql54OggMBjsGEw4iToVjx0dQMFIyMlIwUFAfMR0dMR9QR0cFCQ0ICA4JBUdHBQkOCAsPCQD////sAAAC0AIfBgYBoAAA//8AKAAAAiACqAYmAZ0AAAAHApEAtAAA//8AKAAAAlYCqAYmAZ4AAAAHApEAoQAA//8AKAAAAiACqAYmAZ0AAAAHApEAtAAA//8AKAAAAlYCqAYmAaIAAAAHApEAoQAAAAEAKP8jAdYB9AAlAABXIiYnNxYWMzI2NREXIyIGBhUUFhYzMxUjIiYm',
+  'NTQ2NjMzERQGBukjTy8MNUcZU0woqTo/GBg/OoGBV2EnJ2FXzzlq3QsKPwcGPzwB4hocTUpKTRxHNW9WVm81/fI+WC0AAwAo/yMCVgH0AAMAKQA0AABhNTMVBSImJzcWFjMyNjURFyMiBgYVFBYWMzMVIyImJjU0NjYzMxEUBgYlNTIeAhUUDgIB1mz+pyNPLww1RxlTTCipOj8YGD86gYFXYScnYVfPOWoBDwYIBAICBAhHR90LCj8HBj88AeIaHE1KSk0cRzVvVlZvNf3yPlgt3UcFCQ0ICA4JBf//ACj/IwHWAwIGJgGxAAAABwL5AJkAYf//ACj/IwJWAwIGJgGyAAAABwL5AJkAYQABACj/CAM+AfQAOwAARSIuAjU0NjY3FwYGFRQWFjMhMjY1NCYmJy4DNTQ2NjMyFhcHJiYjIgYGFRQeAhceAxUUBgYjATs6ZEsqBwsHTQsNMlk6ARtMTxk/OjNSOh8zYEQiWE8JRl4fLjwdFCo+Ki9KNRw2Z0v4ITtSMRRCUysLQ24XLUUnU1UpLyARDxwmPDA+USgKDUEICRcvJh8mGRMMDR8tRTNFajwAAAMAKP8IA4gAuwAcACcAMgAARSIuAjU0NjY3FwYGFRQWFjMhMjY1NTMVFAYGIzciJic3HgIzMxUxNTIeAhUUDgIBOzpkSyoHCwdNCw0yWToBG0xPTTZnS2EiRSIsDhogFb0GCAQCAgQI+CE7UjEUQlMrC0NuFy1FJ1RRISJFajz4DhY7CQsER0cFCQ0ICA4JBQD//wAo/lIDPgH0BiYBtQAAAAcCkQFD/AT//wAo/lIDiAC7BiYBtgAAAAcCkQFD/AT////s/0wBOgH0BiYBFgAAAAcCkQAj/P7////s/0wA/wH0BiYBGAAAAAcCkQAj/P7//wAK/wgDPgH0BiYBtQAAAAcC+f/2/xT//wAK/wgDiAG1BiYBtgAAAAcC+f/2/xT////sAAABOgMCBiYBFQAAAAYC+Rxh////7AAAAPUDAgYmARcAAAAGAvkcYf//ACj/CAM+AfQGBgG1AAD//wAo/wgDiAC7BgYBtgAA////7P9MAToB9AYmARYAAAAHApEAI/z+////7P9MAP8B9AYmARgAAAAHApEAI/z+AAEAKP8gAqUBXwAcAABFIiY1NTchMjY2NTUzFRQOAiMhNxUUHgIzIRUBH3p9QAE/QE4jTR09YET+ryAWKz8pATngXF05NSBHOnd3N1Y8Hx5FIiwZC0cAAgAo/yAC1gBHABEAHAAARSImNTU3IRUhNxUUHgIzIRU3NTIeAhUUDgIBH3p9QAJa/ZQgFis/KQE5agYIBAICBAjgXF05NUceRSIsGQtH4EcFCQ0ICA4JBQD//wAl/yACpQFhBiYBwwAAAAcC+QAR/sD//wAl/yAC1gFhBiYBxAAAAAcC+QAR/sAAA//sAAABDgBHAAMADgAYAABxNTMVMTUyHgIVFA4CISIuAjU0NjYz+gYIBAICBAj/AAYIBAIDCQhHR0cFCQ0ICA4JBQUJDggLDwkAAAIAKAAAAjMCzQAGAAoAAHM1IQcRMxElETMRKAHpLE7+lU1HLQKz/TNHAfj+CAAEACgAAAKzAs0AAwAKAA4AGQAAYTUzFSE1IQcRMxElETMRBTUyHgIVFA4CAjNs/YkB6SxO/pVNAYoGCAQCAgQIR0dHLQKz/TNHAfj+CEdHBQkNCAgOCQX//wAoAAACMwM2BiYByAAAAAcC+QB4AJX//wAoAAACswM2BiYByQAAAAcC+QB4AJX//wAo/vMCMwLNBiYByAAAAAcC+QB4/Qb//wAo/vMCswLNBiYByQAAAAcC+QB4/Qb//wAoAAACMwLWBiYByAAAAAYDEVtH//8AKAAAArMC1gYmAckAAAAGAxFbR///ACgAAAIzAxgGJgHIAAAABgL2XXv////R/yMCZgH0BiYCKgAAAAcCjQGE/Or////R/yMCZgKoBiYCKgAAACcCjQGE/OoABgKN',
+  'Xuz//wAo/wgD9QJOBiYCLQAAAAcCjQMT/Or//wAo/wgEawH0BiYCLwAAAAcCjQOJ/Or//wAo/lIEawH0BiYCLwAAACcCjQOJ/OoABwKRAUP8BP//AAr/CARrAfQGJgIvAAAAJwKNA4n86gAHAvn/9v8U//8AKP8IA7ACzQQnAZAC6QAAAAYBtgAAAAgAKP8IBDACzQADAA0AEQAVACAAPQBIAFMAAGE1MxUhIi4CNTQ2NjMXETMRIzUzFTM1Mh4CFRQOAgUiLgI1NDY2NxcGBhUUFhYzITI2NTUzFRQGBiM3IiYnNx4CMzMVMzUyHgIVFA4CA7Bs/s0GCAQCAwkIeU7HeRIGCAQCAgQI/cE6ZEsqBwsHTQsNMlk6ARtMT002Z0thIkUiLA4aIBW9qAYIBAICBAhHRwUJDggLDwlHAs39M0dHRwUJDQgIDgkF+CE7UjEUQlMrC0NuFy1FJ1RRISJFajz4DhY7CQsER0cFCQ0ICA4JBQD//wAoAAACswMYBiYByQAAAAYC9l17////0f7OAmYB9AYmAisAAAAHApQBQf++////0f7OAmYCqAYmAisAAAAmAo1e7AAHApQBQf++//8AKP7OA/UCTgYmAi4AAAAHApQC0P++//8AKP7OBGsB9AYmAjAAAAAHApQDRv++//8AKP5SBGsB9AYmAjAAAAAnApEBQ/wEAAcClANG/77//wAK/s4EawH0BiYCMAAAACcC+f/2/xQABwKUA0b/vv///9H/IwJmAqgGJgIrAAAABwKRAU8AAP///9H/IwJmAqgGJgIrAAAAJgKNXuwABwKRAU8AAP//ACj/CAP1AqgGJgIuAAAABwKRAt4AAP//ACj/CARrAqgGJgIvAAAABwKRAxAAAP//ACj+UgRrAqgGJgIvAAAAJwKRAxAAAAAHApEBQ/wE//8ACv8IBGsCqAYmAi8AAAAnApEDEAAAAAcC+f/2/xT////R/yMCZgMnBiYCKwAAAAcClQFBAAD////R/yMCZgMnBiYCKwAAACYCjV7sAAcClQFBAAD//wAo/wgD9QMnBiYCLgAAAAcClQLQAAD//wAo/wgEawMnBiYCLwAAAAcClQMCAAD//wAo/lIEawMnBiYCLwAAACcClQMCAAAABwKRAUP8BP//AAr/CARrAycGJgIvAAAAJwKVAwIAAAAHAvn/9v8UAAX/0f8jBAoB9AAUABgAHAAqADsAAGEiJic3FhYzMwc1NCYmJzceAhURATUzFRERMxExNTMyNjY1NTMVFAYGIwUiJic3FhYzMjY1ETMRFAYGAykiQR80FiUTsh4HDQlMBw4J/LbYTnAiJA5OIUc6/bMNHQ4JDhgJLzpOL1IaHDUTESDvEkJTKg0jVk0Y/uoBSkhI/rYB9P4MRxQ8OvHxTlwn3QMBRwEDRz8CBP38PV0zAAAH/9H/IwSLAfQAAwAOAB8ANAA4ADwASgAAYTUzFTE1Mh4CFRQOAgUiJic3FhYzMjY1ETMRFAYGJSImJzcWFjMzBzU0JiYnNx4CFREBNTMVEREzETE1MzI2NjU1MxUUBgYjBAptBggEAgIECPuMDR0OCQ4YCS86Ti9SAuoiQR80FiUTsh4HDQlMBw4J/LbYTnAiJA5OIUc6R0dHBQkNCAgOCQXdAwFHAQNHPwIE/fw9XTPdGhw1ExEg7xJCUyoNI1ZNGP7qAUpISP62AfT+DEcUPDrx8U5cJwAFACj/CAYCAfQANQA5AD0ASwBgAABFIi4CNTQ2NjcXBgYVFBYWMyEyNjU0JiYnLgM1NDY2MwciBgYVFB4CFx4DFRQGBiMDNyEVEREzETE1MzI2NjU1MxUUBgYjMyImJzcWFjMzBzU0JiYnNx4CFREBOzpkSyoHCwdNCw0yWToBG0xPGT86M1I6HzNgRAMuPB0UKj4qL0o1HDZnSwEDAThOcCIkDk4hRzrTIkEfNBYlE7IeCA0ITAcOCfghO1IxFEJTKwtDbhctRSdTVSkvIBEPHCY8',
+  'MD5RKEcXLyYfJhkTDA0fLUUzRWo8AqVHR/5TAfT+DEcUPDrx8U5cJxocNRMRIO8SQlMqDSNWTRj+6gAHACj/CAaDAfQAAwA5AD0AQQBPAGQAbwAAYTUzFQUiLgI1NDY2NxcGBhUUFhYzITI2NTQmJicuAzU0NjYzByIGBhUUHgIXHgMVFAYGIwM3IRURETMRMTUzMjY2NTUzFRQGBiMzIiYnNxYWMzMHNTQmJic3HgIVETM1Mh4CFRQOAgYCbfrMOmRLKgcLB00LDTJZOgEbTE8ZPzozUjofM2BEAy48HRQqPiovSjUcNmdLAQMBOE5wIiQOTiFHOtMiQR80FiUTsh4IDQhMBw4JbQYIBAICBAhHR/ghO1IxFEJTKwtDbhctRSdTVSkvIBEPHCY8MD5RKEcXLyYfJhkTDA0fLUUzRWo8AqVHR/5TAfT+DEcUPDrx8U5cJxocNRMRIO8SQlMqDSNWTRj+6kcFCQ0ICA4JBQD//wAo/noGAgH0BiYB7gAAAAcCkQFD/Cz//wAo/noGgwH0BiYB7wAAAAcCkQFD/Cz////R/yMECgKoBiYB7AAAAAYCjV7s////0f8jBIsCqAYmAe0AAAAGAo1e7P//ACj/CAWZAk4GJgH2AAAABwKNAQL/kv//ACj/CAYZAk4GJgH3AAAABwKNAQL/kgAFACj/CAWZAfQAFAAYABwAKgBHAABhIiYnNxYWMzMHNTQmJic3HgIVEQE1MxURETMRMTUzMjY2NTUzFRQGBiMFIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgYEuCJBHzQWJROyHgcNCUwHDgn8tthOcCIkDk4hRzr9XE+ASgcLDgZNCxEJM1w8PFYuTkl6Ghw1ExEg7xJCUyoNI1ZNGP7qAUpISP62AfT+DEcUPDrx8U5cJ/g6aEMVRVVXJwxFdVMULkcpJkQuAg3980ZkNQAABwAo/wgGGQH0AAMAIAA1ADkAPQBLAFYAAGE1MxUFIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgYlIiYnNxYWMzMHNTQmJic3HgIVEQE1MxURETMRMTUzMjY2NTUzFRQGBiMhNTIeAhUUDgIFmWz7PE+ASgcLDgZNCxEJM1w8PFYuTkl6AywiQR80FiUTsh4HDQlMBw4J/LbYTnAiJA5OIUc6AiAGCAQCAgQIR0f4OmhDFUVVVycMRXVTFC5HKSZELgIN/fNGZDX4Ghw1ExEg7xJCUyoNI1ZNGP7qAUpISP62AfT+DEcUPDrx8U5cJ0cFCQ0ICA4JBf//AAr/CAYCAfQGJgHuAAAABwL5//b/FP//AAr/CAaDAfQGJgHvAAAABwL5//b/FP///9H/IwQKAycGJgHsAAAABwKVAlMAAP///9H/IwSLAycGJgHtAAAABwKVAlMAAP///9H/IwQKAycGJgHsAAAAJwKVAlMAAAAGAo1e7P///9H/IwSLAycGJgHtAAAAJwKVAlMAAAAGAo1e7P//ACj/CAWZAycGJgH2AAAAJwKNAQL/kgAHApUD4gAA//8AKP8IBhkDJwYmAfcAAAAnAo0BAv+SAAcClQPiAAD//wAo/wgGAgMnBiYB7gAAAAcClQRLAAD//wAo/wgGgwMnBiYB7wAAAAcClQRLAAD//wAo/noGAgMnBiYB7gAAACcClQRLAAAABwKRAUP8LP//ACj+egaDAycGJgHvAAAAJwKVBEsAAAAHApEBQ/ws//8ACv8IBgIDJwYmAe4AAAAnApUESwAAAAcC+f/2/xT//wAK/wgGgwMnBiYB7wAAACcClQRLAAAABwL5//b/FAAE/9H/IwPzAfQAGwAfACMANAAAYTUhBzU0JiYjIg4DByc+BDMyHgIVFQE1MxURETMRBSImJzcWFjMyNjURMxEUBgYB5gIHSCJFNStMQDcuExkZMzhDUDJHWzMU/M3YTv4jDR0OCQ4YCS86Ti9SR0HrP1MqHS85OhhHHz43KhkwT1oq8QFKSEj+tgH0',
+  '/gzdAwFHAQNHPwIE/fw9XTMAAAb/0f8jBHMB9AADAA4AHwA7AD8AQwAAYTUzFTE1Mh4CFRQOAgUiJic3FhYzMjY1ETMRFAYGJTUhBzU0JiYjIg4DByc+BDMyHgIVFQE1MxURETMRA/NsBggEAgIECPukDR0OCQ4YCS86Ti9SAacCB0giRTUrTEA3LhMZGTM4Q1AyR1szFPzN2E5HR0cFCQ0ICA4JBd0DAUcBA0c/AgT9/D1dM91HQes/UyodLzk6GEcfPjcqGTBPWirxAUpISP62AfT+DP///9H/IwPzApcGJgIGAAAABgKNXtv////R/yMEcwKXBiYCBwAAAAYCjV7b//8AKP8IBYICTgYmAgwAAAAHAo0BAv+S//8AKP8IBgICTgYmAg0AAAAHAo0BAv+SAAQAKP8IBYIB9AAbAB8AIwBAAABhNSEHNTQmJiMiDgMHJz4EMzIeAhUVATUzFRERMxEBIiYmNTQ+AjcXDgIVFBYWMzI2NjURMxEUBgYDJwJVSCNFNCxLQDcuExkZMzhDUDJHWzMU/M3YTv3MT4BKBwsOBk0LEQkzXDw8Vi5OSXpHQes/UyodLzk6GEcfPjcqGTBPWirxAUpISP79Aa3+U/7BOmhDFUVVVycMRXVTFC5HKSZELgIN/fNGZDUABgAo/wgGAgH0AAMADgArAEcASwBPAABhNTMVMTUyHgIVFA4CBSImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGJTUhBzU0JiYjIg4DByc+BDMyHgIVFQE1MxURETMRBYJsBggEAgIECPtNT4BKBwsOBk0LEQkzXDw8Vi5OSXoBmwJVSCNFNCxLQDcuExkZMzhDUDJHWzMU/M3YTkdHRwUJDQgIDgkF+DpoQxVFVVcnDEV1UxQuRykmRC4CDf3zRmQ1+EdB6z9TKh0vOToYRx8+NyoZME9aKvEBSkhI/v0Brf5TAAQAKP8IBesB9AA1ADkAPQBZAABFIi4CNTQ2NjcXBgYVFBYWMyEyNjU0JiYnLgM1NDY2MwciBgYVFB4CFx4DFRQGBiMDNyEVEREzETE1IQc1NCYmIyIOAwcnPgQzMh4CFRUBOzpkSyoHCwdNCw0yWToBG0xPGT86M1I6HzNgRAMuPB0UKj4qL0o1HDZnSwEDAThOAgdII0U0LEtANy4TGRkzOENQMkdbMxT4ITtSMRRCUysLQ24XLUUnU1UpLyARDxwmPDA+UShHFy8mHyYZEwwNHy1FM0VqPAKlR0f+UwH0/gxHQes/UyodLzk6GEcfPjcqGTBPWirxAAAGACj/CAZrAfQAAwA5AD0AQQBdAGgAAGE1MxUFIi4CNTQ2NjcXBgYVFBYWMyEyNjU0JiYnLgM1NDY2MwciBgYVFB4CFx4DFRQGBiMDNyEVEREzETE1IQc1NCYmIyIOAwcnPgQzMh4CFRUzNTIeAhUUDgIF62z65DpkSyoHCwdNCw0yWToBG0xPGT86M1I6HzNgRAMuPB0UKj4qL0o1HDZnSwEDAThOAgdII0U0LEtANy4TGRkzOENQMkdbMxRsBggEAgIECEdH+CE7UjEUQlMrC0NuFy1FJ1NVKS8gEQ8cJjwwPlEoRxcvJh8mGRMMDR8tRTNFajwCpUdH/lMB9P4MR0HrP1MqHS85OhhHHz43KhkwT1oq8UcFCQ0ICA4JBf//ACj+egXrAfQGJgIOAAAABwKRAUP8LP//ACj+egZrAfQGJgIPAAAABwKRAUP8LP//AAr/CAXrAfQGJgIOAAAABwL5//b/FP//AAr/CAZrAfQGJgIPAAAABwL5//b/FP///9H/IwPzApcGJgIGAAAABwKNApX/2////9H/IwRzApcGJgIHAAAABwKNApX/2////9H/IwPzApcGJgIGAAAAJwKNApX/2wAGAo1e2////9H/IwRzApcGJgIHAAAAJwKNApX/2wAGAo1e2///ACj/CAWCAqgGJgIMAAAAJwKNAQL/kgAHAo0EJf/s//8AKP8I',
+  'BgICqAYmAg0AAAAnAo0BAv+SAAcCjQQl/+z//wAo/wgF6wKXBiYCDgAAAAcCjQSN/9v//wAo/wgGawKXBiYCDwAAAAcCjQSN/9v//wAo/noF6wKXBiYCDgAAACcCjQSN/9sABwKRAUP8LP//ACj+egZrApcGJgIPAAAAJwKRAUP8LAAHAo0Ejf/b//8ACv8IBesClwYmAg4AAAAnAo0Ejf/bAAcC+f/2/xT//wAK/wgGawKXBiYCDwAAACcCjQSN/9sABwL5//b/FP//ACj+UgOwAs0EJwGQAukAAAAmAbYAAAAHApEBQ/wE//8AKP5SBDACzQYmAdgAAAAHApEBQ/wE//8ACv8IA7ACzQQnAZAC6QAAACYBtgAAAAcC+f/2/xT//wAK/wgEMALNBiYB2AAAAAcC+f/2/xT////R/yMCZgKoBiYCKgAAAAcCjQGE/+z////R/yMCZgKoBiYCKgAAACcCjQGE/+wABgKNXuz//wAo/wgD9QKoBiYCLQAAAAcCjQMT/+z//wAo/wgEawKXBiYCLwAAAAcCjQOJ/9v//wAo/lIEawKXBiYCLwAAACcCjQOJ/9sABwKRAUP8BP//AAr/CARrApcGJgIvAAAAJwKNA4n/2wAHAvn/9v8UAAT/0f8jAmYB9AAGAAoAGwAmAABhETMRJzMVATUzFQEiJic3FhYzMjY1ETMRFAYGJTUyHgIVFA4CAZhOJJD+btj+cQ0dDgkOGAkvOk4vUgITBggEAgIECAH0/jYdRwFKSEj92QMBRwEDRz8CBP38PV0z3UcFCQ0ICA4JBQAE/9H/IwJmAfQABgAKABsAJgAAYREzESczFQE1MxUBIiYnNxYWMzI2NREzERQGBiU1Mh4CFRQOAgGYTiSQ/m7Y/nENHQ4JDhgJLzpOL1ICEwYIBAICBAgB9P42HUcBSkhI/dkDAUcBA0c/AgT9/D1dM91HBQkNCAgOCQX////R/yMCZgKoBiYCKgAAAAYCjV7sAAUAKP8IA/UCTgAGAAoAJwArADYAAGERMxEnMxUBNTMVASImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGAzUzFQE1Mh4CFRQOAgMnTiSQ/m7Y/hpPgEoHCw4GTQsRCTNcPDxWLk5JenZOAn0GCAQCAgQIAfT+Nh1HAUpISP2+OmhDFUVVVycMRXVTFC5HKSZELgIN/fNGZDUC7Fpa/gxHBQkNCAgOCQUAAAUAKP8IA/UCTgAGAAoAJwArADYAAGERMxEnMxUBNTMVASImJjU0PgI3Fw4CFRQWFjMyNjY1ETMRFAYGAzUzFQE1Mh4CFRQOAgMnTiSQ/m7Y/hpPgEoHCw4GTQsRCTNcPDxWLk5JenZOAn0GCAQCAgQIAfT+Nh1HAUpISP2+OmhDFUVVVycMRXVTFC5HKSZELgIN/fNGZDUC7Fpa/gxHBQkNCAgOCQUAAAQAKP8IBGsB9AA1ADwAQABLAABFIi4CNTQ2NjcXBgYVFBYWMyEyNjU0JiYnLgM1NDY2MwciBgYVFB4CFx4DFRQGBiMlETMRJzMVATchFRM1Mh4CFRQOAgE7OmRLKgcLB00LDTJZOgEbTE8ZPzozUjofM2BEAy48HRQqPiovSjUcNmdLAUdOJJD9/gMBRboGCAQCAgQI+CE7UjEUQlMrC0NuFy1FJ1NVKS8gEQ8cJjwwPlEoRxcvJh8mGRMMDR8tRTNFajz4AfT+Nh1HAa1HR/5TRwUJDQgIDgkFAAAEACj/CARrAfQANAA7AD8ASgAARSIuAjU0NjY3FwYGFRQWFjMhMjY1NCYmJy4DNTQ2NjMHIgYVFB4CFx4DFRQGBiMlETMRJzMVATchFRM1Mh4CFRQOAgE7OmRLKgcLB00LDTJZOgEbTE8ZPzozUjofM2BEA0VCFCo+Ki9KNRw2Z0sBR04kkP3+AwFFugYIBAICBAj4ITtSMRRCUysLQ24XLUUnU1UpLyARDxwmPDA+UShHNDgfJhkTDA0fLUUzRWo8',
+  '+AH0/jYdRwGtR0f+U0cFCQ0ICA4JBf///9H/IwJmAfQGJgIrAAAABwKRAU/8/v///9H/IwJmAqgGJgIrAAAAJgKNXuwABwKRAU/8/v//ACj/CAP1Ak4GJgIuAAAABwKRAt78/v//ACj/CARrAfQGJgIwAAAABwKRA1T8/v///9H/IwJmAwIGJgIqAAAABwL5AUgAYf///9H/IwJmAwIGJgIqAAAAJwL5AUgAYQAGAo1e7P//ACj/CAP1AwIGJgItAAAABwL5AtcAYf//ACj/CARrAvEGJgIvAAAABwL5AxIAUP//ACj+UgRrAvEGJgIvAAAAJwL5AxIAUAAHApEBQ/wE//8ACv8IBGsC8QYmAi8AAAAnAvkDEgBQAAcC+f/2/xQACQAoAAAEzALNAAMABwALAA8AGgAzAD0AQQBFAABhETMRIzUzFTM1MxUhETMRITUyHgIVFA4CISImJjU0NjYzMxEjERcjIgYGFRQWFjMhFTMiLgI1NDY2MxcRMxEjNTMVApVOx3lObAEwTf12BggEAgIECP6/V2EnJ2FXz04oqTo/GBg/OgE75AYIBAIDCQh5Tsd5Anv9hUdHR0cCzf0zRwUJDQgIDgkFNW9WVm81/jQBpyIcTUpKTRxHBQkOCAsPCUcCzf0zR0cAAAwAKAAABMwD5QADAAcACwAbACsALwAzAD4AVwBhAGUAaQAAYREzESM1MxUzNTMVAyImNTUzFRQWMzI2JzcWBiMiJjcXBhYzMjY1NTMVFAYnNTMVAREzESE1Mh4CFRQOAiEiJiY1NDY2MzMRIxEXIyIGBhUUFhYzIRUzIi4CNTQ2NjMXETMRIzUzFQKVTsd5TmxhISIkEA8XDwojDR6QLh4NIwoQFg8QJCIDJAGxTf12BggEAgIECP6/V2EnJ2FXz04oqTo/GBg/OgE75AYIBAIDCQh5Tsd5Anv9hUdHR0cCtTErHx8fGTI4B0VQUEUHODIZHx8fKzGyfn78mQLN/TNHBQkNCAgOCQU1b1ZWbzX+NAGnIhxNSkpNHEcFCQ4ICw8JRwLN/TNHR///ACL/hQCmAG0GBgKgAAAAAQAi/4YAhQA0AAMAAFc3MwciIUIzeq6uAAABAFABFwCqAXUAAwAAUzUzFVBaARdeXgABAHQAAADBApQAAwAAcxEzEXRNApT9bAABAHQAAAHrApQABgAAcxEhFSE3EXQBd/6xJQKURyn9igAAAwBvAAECXwKUABEAFQAnAABBIiYnNxYWMzI2NjU1MxUUBgYBETMREyImJzcWFjMyNjY1NTMVFAYGAckrSBo5ESgaGiEPTSJD/nVOOyM+Fy8PIxYaIQ9NIkMBRx4bMRIREyokpaU1TCf+ugKT/W0BRhUTOA0MEyokpaU1TCcAAwAy//ABjQKjABYALQAxAABBIiYmNTQ2NjMyFhYXByYmIyIGFRQWMwMiJiY1NDY2MxUiBhUUFjMyNjcXDgIDNTMVAQtAYjc3Yj4XKywWEiM2GUFISEMCPmI3N2JAQ0hIQRk2IxIWLCsVQQEmLVY7PFUuBQkGRQgKQDg5Pv6DLlY7O1UuRz84OT8KB0UFCQUBNkdHAAIAR//8Al8CmAAVACcAAEUiLgI1ND4DMzIeAxUUDgInMjY2NTQuAiMiDgIVFBYWAVM0YEwsFCpAVzc3V0AqFCxMYDQ5VjAgNkUkJEU2IDBWBCNGZ0QsaGhXNTRXaGksRGdGI0cxYEU5b1o2NltuOURgMgAAAQAeAAABbgKUAAYAAGERFyE1IREBITn+xAFQAoAzR/1sAAEAJAAAAkwClAAJAABzAzMTJzMHEzMD/NhRyEFgL89Q3wKU/YkqKgJ3/WwAAQAkAAACTAKUAAkAAFMzEyMDFyM3AyP8cd9Qzy9gQchRApT9bAJ3Kir9iQABABQAAAGhApQAGgAAYREXIyIGFRQWMzI2NxcGBiMiJiY1NDY2MzMRAVM7fFhYSkgaNhkUHEQdUmIsPHJQjwKAM0dCQkQHB0UH',
+  'CTxeM0BdM/1sAP//AFABFwCqAXUGBgI/AAD//wB0AAAAwQKUBgYCQAAA//8AdAAAAesClAYGAkEAAP//AG8AAQJfApQGBgJCAAAAAwB0AAACcAKUABUAGQAuAABBIi4CNTUzFRQWMzI2NjU1MxUUBgYBETMREyYmNTQ2MzIWFwcuAiMiBhUUFjMBdDxfQiNNWFs8TSVOPHH+sU26OUVVQxguFw0JIB8ILTIyLgE0GjFILaCgOj8cNidlZT1WLf7MApT9bAFJBkU3P0kJBTMCBgQsJyYqAAABAEYAAAHWAngAOwAAcyIuAzU0NjY3Fw4DFRQWMzI+AjMyHgIzMjY1NC4CJzceBBUUDgMjIi4CIyIOArITIRsTCi9bQjAwRCsUGA0PFhIVDg8WExUODhgzVGMxKyVVUkMoCxQcIBEaIxUJAQEIEyQQHis0H0h3bDQvK0dETDEwLyMuIyMuIzIyRHZkUiA6GERVZXI/IzgrHA8cJhwcJhwAAwBCAAABnQKjABYAIAAkAABBIiYmNTQ2NjMyFhYXByYmIyIGFRQWMwM0NjYzFSIGBhUTNTMVARtAYjc3Yj4XKywWEiQ2GEFJSETZSIBUPl4zjEMBJi1WOzxVLgUJBkUICkA4OT7+k3KkV0dHg1wBJkdHAP//ACQAAAJMApQGBgJGAAD//wAkAAACTAKUBgYCRwAA//8AFAAAAaEClAYGAkgAAAABAGQAAAIEApgAGQAAcxE0NjYzMhYXNjYzFSIGBgcuAiMiBgYVEWQlQSkXLBMmYDU3UjMKBRUeExQeDwHQM1IvFBEaH0cjMhcSKR0gMhv+MAAAAQAaAAABkgKUAAYAAHMTFwMnIRUazEq2FAEsApQV/bMVRwAAAgAm//YCCQKfABIAJgAARSIuAjU0PgIzMh4CFRQGBicyPgI1NC4CIyIOAhUUHgIBGDlZPyEgP1k5O1o9IDprTCc7KBQTJzspKDwnFBUpOwogS4BfZYhQIiJQh2Z+kDxHGDplTFNsPxoaPm1UTGU5GAAAAQBpAAABhgKUAAYAAGERByc3MxEBNqgl0ksCO3A9jP1sAAEARQAAAesCngAcAABzNTc+AjU0JiMiBgYHJz4CMzIWFRQGBgcHIRVFvik8IEdHGkA7FQYVPkkjaWkfPS+tAUhExytFQyZBMQcJBUIGDAlUXTFOSy6vRgABAD7/9gHuAp8AMwAARSImJic3HgIzMjY1NCYmJyM1MzI2NjU0JiMiBgYHJz4CMzIWFhUUDgIHHgIVFAYGARYmUkgYBxdETCJIRSQ9JYWFGTcmPUghRT0UBxQ/SiRPXSkYIiAIIjMdLWAKCQwGQQQKBz8+LTQYAUUcNSU4MQcJBUAGDQklTDsmNSMUBQwhPTVDWCwAAQAoAAACCQKUAA4AAGE1ITUTMwMzNTMVMxUjFQFm/sK7WL/qUFNTgD4B1v4zzMxHgAABAD//9wH4ApQAJQAARSImJic3HgIzMjY1NCYmIyIGBgcnEyEVIQc+AjMyFhYVFAYGARolUksZCRlGSyBETyI+KR48MhA2EgGB/sESETI6HEFeNDVjCQoNBkAECwdOSjI5GAwSCQsBV0jTCBINJ1VHTGY0AAIAMf/2AgUCngAgAC4AAEUiJiY1ND4CMzIWFhcHLgIjIgYHPgMzMhYVFAYGJzI2NTQmIyIGBgceAgEeUmkyJERgOx9EPhUIEztBH1VaAQkjLzIXbXA2Z0pITU1EGzw2EgEeRApSmmtagFEmBggEQAIFBHRsAgwOCmRpRmIyR0xHREIMEQhFb0AAAAEATf/2AegClAAHAABXJxM1ITUhFepL9/63AZsKFwIkG0hoAAMAH//2AhACnwAhADEAPgAARSIuAjU0NjY3LgI1NDY2MzIWFhUUBgYHHgIVFA4CJzI2NjU0JiYnIwYGFRQWFgMzNjY1NCYjIgYVFBYBFjJZRScdMyEiLRc6akhHbD0XMCYjNh4nRVszMEoqHjMhaTI4KkkJaTI2',
+  'UUhGUTAKESlFMzNAKxMSKDkoOUwmJkw6KjgnERAqPS82SSsTSRY3LyYtGwkOODYsNRYBOREzLTsyMTstNAAAAgAp//YB/QKeAB8ALQAAVyImJic3HgIzMjY3DgIjIiY1NDY2MzIWFhUUDgIDMjY2Ny4CIyIGFRQW9x5EPhYIFDpCHllZARk8OxlocDhnRlRpMiRDYS0ZPDoUAR9EOURPSAoGCARBAgYEb3MJEgtiaERiNVOaaWCCTiIBSgwRB0dtP1BERD8A//8AFf/2AQMBQgYHAoEAAP4i//8AHgAAAMIBOAYHAoIAAP4i//8AHgAAAO8BQgYHAoMAAP4i//8AHv/2APkBQgYHAoQAAP4i//8AGAAAAP8BOAYHAoUAAP4i//8AJv/4APsBOAYHAoYAAP4i//8AHP/2AP8BQgYHAocAAP4i//8AHf/3AO0BOAYHAogAAP4i//8AFv/2AQIBQgYHAokAAP4i//8AGf/2AP8BQgYHAooAAP4i//8AFQFwAQMCvAYGAoEAnP//AB4BegDCArIGBgKCAJz//wAeAXoA7wK8BgYCgwCc//8AHgFwAPkCvAYGAoQAnP//ABgBegD/ArIGBgKFAJz//wAmAXIA+wKyBgYChgCc//8AHAFwAP8CvAYGAocAnP//AB0BcQDtArIGBgKIAJz//wAWAXABAgK8BgYCiQCc//8AGQFwAP8CvAYGAooAnAAB/yAAAwDQApQAAwAAZycBF7goAYgoAxkCeBr//wAe/4YCCwMWBCYCggAAACcCcwEYAAAABwKDARz9qP//AB7/hgIFAxYEJgKCAAAAJwJzARgAAAAHAoUBBv2o//8AHv+GAgUDIAQmAoQAAAAnAnMBGAAAAAcChQEG/aj//wAV/5IBAwDeBgcCgQAA/b7//wAe/5wAwgDUBgcCggAA/b7//wAe/5wA7wDeBgcCgwAA/b7//wAe/5IA+QDeBgcChAAA/b7//wAY/5wA/wDUBgcChQAA/b7//wAm/5QA+wDUBgcChgAA/b7//wAc/5IA/wDeBgcChwAA/b7//wAd/5MA7QDUBgcCiAAA/b7//wAW/5IBAgDeBgcCiQAA/b7//wAZ/5IA/wDeBgcCigAA/b4AAgAVAdQBAwMgAA8AHwAAUyImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhaMJTUdHDUlJzUcHTUlERYMCxYTERcLDBgB1B5JPz9IHx9IPz9JHjwSLiooLhQULigqLhIAAAEAHgHeAMIDFgAGAABTNQcnNzMRgEMfZj4B3u8tMEb+yAABAB4B3gDvAyAAGQAAUzU3NjY1NCYjIgYHJzY2MzIWFRQGBgcHMxUeVxcbGhYQMhIDFDwYNS8NGxU+fgHeOFcWJRYTEQYDPAQHLS8XJCETOzwAAQAeAdQA+QMgACgAAFMiJic3FhYzMjY1NCYjIzUzMjY1NCYjIgYHJzY2MzIWFRQGBxYWFRQGixdCFAQSOxEdGRkUQkEOFxcaEjQQBBU5Fjc1FxAXFzYB1AcDOgMFExYXEjcYFBEOBQI7AwUnLB8kBwcgIzQxAAEAGAHeAP8DFgAOAABTNSM1NzMHMzczFTMVIxWkjENJSEgGOxoaAd4wN9HNWVk7MAAAAQAmAdYA+wMWACEAAFMiJiYnNxYWMzI2NTQmIyIGByc3MxUjBzY2MzIWFhUUBgaRESkkDQUROBYXFxYQDxwINAq8hgYKIBAbKhcYLwHWBAYDNQMGGRgZEgkFBrM6RgUJEiolJDEYAAACABwB1AD/AyAAHQAqAABTIiY1NDY2MzIWFhcHJiYjIgYHMjY3NjYzMhYVFAYnMjY1NCYjIgYGBxYWkTw5GjcrDiEhCwQQMhMeHAEBAwIIHg42MDw0GRUVFwwXDwECFgHUUk48TCQDBQI4AgUiJgEBAwk1MjQ8Ox4WGhcICAEoLAAAAQAdAdUA7QMWAAcAAFMnNzUjNTMVhEdlhdAB1Q3gE0FOAAMAFgHU',
+  'AQIDIAAdACoANwAAUyImJjU0NjY3JiY1NDY2MzIWFhUUBgceAhUUBgYnMjY1NCYnIwYGFRQWNzM2NjU0JiMiBhUUFowkNR0MFQ4UFhkyJiYyGhQXDxULHTQlGRoSFBoSFBsLGhMQFhoZFxEB1BIqIxceFAcJIB8dJRMTJh0cIwkFEx0WJCwTOBUWFBYGBhcVFRSNBxQQEhISEhATAAIAGQHUAP8DIAAaACYAAFMiJiYnNxYWMzI2NQYGIyImNTQ2MzIWFRQGBicyNjcmJiMiBhUUFoMPJCALBQ4wFCEdDCMNMDU+MT06GjcmDB4KARcaFhkYAdQEBgI2AgQlIQQINzE1OVNUOEojrAkELCwaGBYdAAABABQCYgBiArwAAwAAUzUzFRROAmJaWv//ABT/rABiAAYGBwKNAAD9Sv//ABQCRQBiAzUGJgKNAOMABgKNAHn//wAU/z4AYgAuBicCjQAA/NwABwKNAAD9cgACAAUCTgDcAqgAAwAHAABTNTMVMzUzFQVOO04CTlpaWlr//wAG/6wA3QAGBAcCkQAB/V4AAwASAbsA6QKUAAMABwALAABTMxUjNzMVIwczFSMSTk6JTk5BSEgClFpaWipVAAMAEv8QAOn/6QADAAcACwAAVzMVIzczFSMHMxUjEk5OiU5OQUhIF1paWipVAAADABICTgDpAycAAwAHAAsAAFM1MxUHNTMVMzUzFVpIkE47TgLSVVWEWlpaWgD//wAf/0QA9gAdBAcClQAN/PYAAQBDAAABLgB1AAMAAHM1MxVD63V1AAEAMQAAALUA6AADAAB3ByM3tS1XROjo6AAAAgBGAAAAywIwAAMABwAAUwcjNxMVIzXLLVhFGFQCMOjo/kV1dQACACcAAQGZAr4AIwAnAABlIzU0JicuAjU0NjYzMhYWFwcuAiMiBhUUFhYXHgIVFAYXIzUzAR1BLCwnKA4tWkMZPTwWBhU4OBVDPw4mJBspGAkGVFTKIyE1JSExOCs6RyAKDgc/BQsHLDQcJykfFyorGBMg1HP//wA2AXIBdgLBBgYCqgAA//8AIv+FAKYAbQYGAqAAAAABABz/gwDQAu4AFQAAVy4DNTQ+AjczDgMVFB4CF4URJR8UFB8lEUsPIhwSEhwiD30iYHN6Ozt/eWklKW57ejU0dnRmJgAAAQAa/4MAzgLuABUAAFcjPgM1NC4CJzMeAxUUDgJlSw8iHBISHCIPSxElHxQUHyV9JmZ0djQ1entuKSVpeX87O3pzYAABAEMAAACYAHUAAwAAczUzFUNVdXUAAQAi/4UApgBtAAMAAFc3MwciLVdEe+joAAACAEMAAACYAbUAAwAHAABTNTMVAzUzFUNVVVUBQHV1/sB1dQACAC//hQC0AbUAAwAHAABXNzMHAzUzFS8tWEUYVHvo6AG7dXUAAAMAQwAAApUAdQADAAcACwAAYTUzFSE1MxUzNTMVAkBV/a5VqVV1dXV1dXUAAgBSAAAApwKzAAMABwAAdwMzAwc1MxVZBlMGTlXmAc3+M+ZzcwACAEj/QQCdAfQAAwAHAABTEyMTNxUjNZYGUwZOVQEO/jMBzeZzcwAAAgAkAAEBlgK+ACMAJwAAdyYmNTQ2Njc+AjU0JiMiBgYHJz4CMzIWFhUUBgYHBgYVFQc1MxWgBAoYKhokJg4/QxQ5OBUGFjw+GENaLQ4oJywsTFTKCyATGCsqFx8pJxw0LAcLBT8HDgogRzorODEhJTUhI8lzcwAAAgAl/zcBlwH0ACMAJwAAQRYWFRQGBgcOAhUUFjMyNjY3Fw4CIyImJjU0NjY3NjY1NTcVIzUBGwUJGCkbJCYOP0MVODgVBhY8PRlDWi0OKCcsLExUASsKIBQYKyoXHyknHDQsBwsFPwcOCiBHOis4MiAlNSEjyXNzAP//AEQA4gCZAVcEBwKfAAEA4gABAG8AagFpAYcAAwAAdxEzEW/6agEd/uMAAAEANgFyAXYCwQAOAABTJwcnNyc3FzcX',
+  'BzMVIxfpKWsfa2kfaikyKIKDKAFyfk8pT00rTn4RfjR9AAACABgAAAIYApoAGwAfAABzNSM1MzUjNTM1MxUzNTMVMxUjFTMVIxUjNSMVNTM1I4Zubm5uRphGbm5ubkaYmJisQ7dCsrKyskK3Q6ysrO+3AAEAIP/xAYACxQADAABXJwEXZkYBGkYPGQK7GgABAB7/8AGZAsMAAwAARQE3AQFT/stFATYQArUe/UsAAAEAQwDvAXIBNwADAAB3NSEVQwEv70hIAAEAQwDvAXIBNwADAAB3NSEVQwEv70hIAAEAQgDpAjYBLgADAAB3NSEVQgH06UVFAAEAQgDpBCoBLgADAAB3NSEVQgPo6UVFAAEAZv9hAhL/pQADAABXNSEVZgGsn0REAAEAMv+DAOYC7gAVAABXLgM1ND4CNzMOAxUUHgIXmxElHxQUHyURSw8iHBISHCIPfSJgc3o7O395aSUpbnt6NTR2dGYmAAABACT/gwDYAu4AFQAAVyM+AzU0LgInMx4DFRQOAm9LDyIcEhIcIg9LESUfFBQfJX0mZnR2NDV6e24pJWl5fzs7enNgAAEAF/+AATkC8wA6AABFLgM1NDY3NjY1NCYnNTY2NTQmJyYmNTQ+AjcXDgIVFBYXFhYVFAYGBx4CFRQGBwYGFRQWFhcBNzNILBQDAQIBMzk6MgIBAQMULUgzAS0xEwMBAQISLSoqLRICAQEDEjEtgAIWKkAtESYSDxoIKjUQPw40KwodEBMmDy5BKhUCQwIcMSINIhIQHwsqNSEMDCI2KgoZDRIiECEyHQMAAQAn/4ABSQLzADoAAFcnPgI1NCYnJiY1NDY2Ny4CNTQ2NzY2NTQmJic3HgMVFAYHBgYVFBYXFQYGFRQWFxYWFRQOAikBLjASAgIBAhIuKSkuEgIBAgITMC4BM0gtFAICAQIyOjkzAgECAhQsSIBDAx0yIRAiEg0ZCio2IgwMITUqCx8QEiINIjEcAkMCFSpBLg8mExAdCis0Dj8QNSoIGg8SJhEtQCoWAAABAE7/hQEiAu0ABwAAVxEzFSMRMxVO1IWFewNoRv0kRgAAAQAo/4UA/ALtAAcAAFcjNTMRIzUz/NSFhdR7RgLcRgABACP/kgC3AJYAAwAAdwMjE7cyYkyW/vwBBAAAAgAU/5MBLQBwAAMABwAAdwcjNzMHIzeSK1NB2CtTQXDd3d3dAAACADIB5QFLAsIAAwAHAABBByM3IwcjNwFLK1NBXitTQQLC3d3d3QAAAgA1AecBVQLEAAMABwAAUzczBzM3Mwc1K1NBZStTQQHn3d3d3QABADIB5QCwAsIAAwAAUwcjN7ArU0ECwt3dAAEANQHmALMCwwADAABTNzMHNStTQQHm3d0AAgAtAEEB2wGnAAYADQAAZSc1NxUHFwcnNTcVBxcB27+/e3vvv798fEGYPpBRXGhRmD6QUVxoAAACAEIAQQHxAacABgANAABlNTcnNRcVBTU3JzUXFQEyfHy//lF8fMBBUWhcUZA+mFFoXFGQPgABAC0AQQDsAacABgAAdyc1NxUHF+y/v3x8QZg+kFFcaAAAAQBCAEUBAQGrAAYAAHc1Nyc1FxVCfHy/RVFoXVCQPgACAEIB1AE2ArMAAwAHAABTJzMHIyczB+sDTgXrBE4FAdTf39/fAAEAQgHUAJECswADAABTJzMHRQNPBgHU398AAQAn/xUBugKyACoAAFciJiYnNx4CMzI2NREjNTM1ND4CMzIWFhcHJiYjIgYGFRUzFSMRFAYGig8lIwwBCCMmCiYkPj4KHDYrDyUlDQIOMBYYIRCQkB5A6wMEAUMBAgIxPwGkQzQqSjggAwQCQQECFzInSUP+W0VPIQADAFn/7QHSAqoAAwAHAAsAAFcnExcDNTMVATUzFcsyzzIiWv6HWRMPAq4Q/cReXgGRXl4AAgAz/zUDpQLTAE8AZAAARSIuAjU0PgIzMhYWFRUUDgMjIiYmJw4CIyIuAzU0NjYzMhYX',
+  'NTMVFB4CMzI+AjU1NC4CIyIOAhUUHgIzMjY2NxcOAgMyNjY3LgI1NSYmIyIGBhUUHgIB+G+pczo8dahslr5ZEB4rNyAkMhwEFDxAHBo0LSIUJFhOGkMVTgQOHxoWIxkNJ1SFXl6NXi4sW45iEDM3FQMUNjU0FTUzEwIFAhM7Fzg7FhIeJMssabSHe7BvNFy6jA1MakIkDhQcDAwcEwseOFlBVHQ7EQkQv1NiMA8OLV5PDluDVSktYJRobpddKQMEAkUCBAMBCw4VChU4Ph6KBw0rVT85RycOAAMAKv/2Ap4CvgAoADMAQgAARSImJjU0NjY3LgI1NDY2MzIWFhUUDgIHFz4CNxcOAgcXBycGBicyNjcnDgIVFBYTPgI1NCYjIgYVFB4CASFebC0hRTQZGQgpTzg7TiYSJToolAYMCgFLAw8SCoAueSJtTjhXGNEqNRlLXys1GC0zLjMFDh4KNF9CO00xER0uLh0sQiUlRS8kNismE5MQOj8XASNPRhh4NG83OUYrLdANJTgqSEwBWhMlLyMsLi0vEh0dIwABACMAAAInArMAEgAAcxEjIiYmNTQ2NjMhFSMRIxEjEeQHNVUwMVQ2AUlHRXIBQi9TNjdTL0T9kQJv/ZEAAAIAM/9oAbwCiwBAAFQAAFciJiYnNx4EMzI2NTQmJicuAjU0NjcuAjU0NjYzMhYWFwcuAiMiBhUUFhYXHgIVFAYHHgIVFA4CEzY2NTQmJicmJicGBhUUFhceAvUXQEAYBw4iJSMgDDs+Hj8yOEslJxQOFAotVz0YPDsVAxg8NxJAOR4/MTdGIxsQDBAIGDBIMAkQGTInHDAOCxY0OhUlIJgGCANBAgQDAwIvMSAgEgoLHzoxJUgRCx0qHTdHIwYIBEEDBwQrLyEkEwoKHjcyIkoYCholGytAKRUBKg42GR8iEgcFCwYNMhctJAoECQkAAAMAOwChAksCxAAPACwAPQAAZSImJjU0NjYzMhYWFRQGBiciJiY1NDY2MzIWFwcmJiMiBgYVFBYzMjY3FwYGBzI2NjU0LgIjIgYGFRQWFgFCTHdERHhMTndDQ3dLLDMWFjQtFysKAw0pERkaCBgjESkNAwssG0BjOSE8UC8/Yzk5Y6FJfExNfElKfUtMfElzIkc3NEUjBwQ3AgUVKyExNAUCNgQIRz5oPy9UPyQ+aT8/aD4AAAQAOwChAksCxAAPACIAMAA5AABlIiYmNTQ2NjMyFhYVFAYGJzI2NjU0LgIjIg4CFRQeAicRMzIWFRQGBxcjJyMVNTMyNjU0JiMjAUJMd0REd0xPd0NDd09AYzkhPFAvL1A7ISE7UD9wNTwVHTc/Mjk5GhgdIC6hSXxMTXxJSn1LTHxJLD5oPy9UPyQkP1QvL1M/JE0BLyo2JSsMc2pqmhgaGxgAAgBbAUsCWQJ3AAwAFAAAQREzFzczESM1ByMnFSc1IzUzFSMVAUFJQkVINUEsQM5OyEEBSwEszs7+1N7Pz94B9zQ09wACAIoBowGmAr4ACwAXAABBIiY1NDYzMhYVFAYnMjY1NCYjIgYVFBYBGD9PTz8/T08/KTMzKSkxMQGjTUA/T08/QE0xMykpMzMpKTMAAQBN/yMAmwLNAAMAAFcRMxFNTt0DqvxWAAACAE//IwCdAs0AAwAHAABTETMRAxEzEU9OTk4BVwF2/or9zAF5/ocAAQAi/7QBvQKzAAsAAFcDIzUzNTMVMxUjA80FpqZOp6cFTAH7Rb+/Rf4FAAABADf/tAHSArMAEwAAVzUjNTM1IzUzNTMVMxUjFTMVIxXdpqampk6mpqenTMBD+EW/v0X4Q8AAAAMAHf/2AgICnwADAAcALAAAUzUhFQU1IRUHIi4CNTQ+AjMyFhYXBy4CIyIOAhUUHgIzMjY3Fw4CHQGs/lQBrH5KXzUVFTVfSiJEPBUDFjxAGTdDJQ0NJEQ4KGAiAxg9QgF5Pz+dPz/mLVZ+UlSAViwHCgVABAgFIUNnRkVmQiELBkEF',
+  'CgYAAQBk/68BvgJGACQAAEU1LgI1NDY2NzUzFRYWFwcuAiMiBhUUFhYzMjY2NxcGBgcVARY7UCcoTzpEFzoTAw4xMRFJOxg9NRIuLBADEzsXUXUDKFtOSl4uA3V3AQgEPgIDAkNQNT8bAgQBPwMHAXcAAAYAOQAdAfcB2wAPABMAIwAnACsALwAAZS4CNTQ2NjMyFhYVFAYGByc3FzcyNjY1NCYmIyIGBhUUFhYnJzcXEyc3FycnNxcBGDJTMTFTMjJTMTFT2zZlNkQfMx8fMx8fMx8fM1tlNmXtZTZlZTZlNkYBMVIyMlMxMVMyMlIxKjZlNgkfMx8fMx8fMx8fMx+1ZTZl/qdlNmXtNmU2AAMARP+EAe4DHwADAAcAOgAAVxMXAxMnEzMDIiYmJzceAjMyNjY1NCYmJy4CNTQ2NjMyFhYXBy4CIyIGBhUUFhYXHgMVFAYGyjkzOD4zODNaHExMHAccSUgZLj0fHEA1RVotNV9BHEpHGgccSEMULj8gIEY5MkguFjRffAG+Cf5LAeMIAbD82AcKBD8DCAUcOS0kKxkLDydIPkBPJAcJBEADCAUXLyQqLBkNCxsnOitJWikAAAEAUAAAAeICngAiAABzNTMRIzUzNTQ+AjMyFhYXBy4CIyIGBhUVMxUjETM3FwdQVENDEiQ4JxQyMBECES0uER8jDqmpmEwNUUUBGUQ3PE0rEQYHBD8CBQMXOTQyRP7nEEMSAAABABYAAAIaApQAGAAAczUjNTM1JyM1MwMzExMzAzMVIwcVMxUjFfG3twexiaxZqqdaqoatCLa2oURCE0MBF/71AQv+6UMTQkShAAEAIP/xAYACxQADAABXJwEXZkYBGkYPGQK7GgABADcAFAH5AeAACwAAdzUjNTM1MxUzFSMV87y8SL6+FMNIwcFIwwAAAQBCANcB7gEfAAMAAHc1IRVCAazXSEgAAQBGACkB6gHNAAsAAHcnNyc3FzcXBxcHJ3kzoqEyn6AyoqIznykyoJ8yoaIzn6AyoQADADcAHgH5AdgAAwAHAAsAAHc1IRUFNTMVAzUzFTcBwv73T09P10hIuWZmAVRmZgACAEAAegHwAXwAAwAHAABTNSEVBTUhFUABsP5QAbABNEhIukhIAAMAQP/jAfACFwADAAcACwAAVycTFwU1IRUFNSEVxj/sP/6OAbD+UAGwHRkCGxnKSEi6SEgAAAEAUgANAfIB5wAGAAB3NSUlNQUVUgFP/rEBoA1SnZpRykQAAAEAPQANAd0B5wAGAABlJTUlFQUFAd3+YAGg/rEBTw3MRMpRmp0AAgBHAAkB7gHyAAYACgAAdzUlJTUFFREhNSFHAUz+tAGn/lkBp4dPa2NOkEf+7kcAAgBBAAkB6AHyAAYACgAAZSU1JRUNAjUhFQHo/lkBp/60AUz+WQGnh5RHkE5ja81HRwACADcAJQH5AegACwAPAAB3NSM1MzUzFTMVIxUFNSEV87y8SL6+/vwBwqd9R319R32CR0cAAgBAAFMB7wGRABsANwAAQSIuAiMiBgYHJz4CMzIeAjMyNjY3Fw4CByIuAiMiBgYHJz4CMzIeAjMyNjY3Fw4CAX4UODwzDw8nJg0LDigsExU2OjQRDSYlDgoNJioUFDg8Mw8PJyYNCw4oLBMVNjo0EQ0mJQ4KDSYqAQ4SGBIPFQpADBgREhgSDxYJQAsZEbsSGBIPFQpADBgREhgSDxYJQAsZEQABAEMAwgHvAUUAGwAAZSIuAiMiBgYHJz4CMzIeAjMyNjY3Fw4CAX4TOTszDg8nJQ4KDicsExQ3OTMRDiUlDgoNJirCEhgSDxUKQAwYERIYEg8WCUALGREAAQBBAHUB7QFXAAUAAGU1ITUhFQGl/pwBrHWbR+IAAQA4AT8B9wKUAAYAAFMTMxMjAwM4ukXAVI6KAT8BVf6rAQj++AAEAB4AeQISAc8ADQAbACsAOwAAZSImJic+AjMyFhUUBiEiJjU0NjMyFhYXDgInMjY2',
+  'Ny4CIyIGBhUUFhYzMjY2NTQmJiMiBgYHHgIBlCY1JxISJzYnPj4+/shAPj4+KDUnEhQnMiAaHRUNCxYeGhYaCwwa/xYZDAsaFhkfFQwMFR95Jk04OUwmWVJSWVlSUlkmTDlDSh5GFy0hGS4eGC0gHS4aGC0gIC0YHi4ZGS4eAAEAXf9EAdMDDAAgAABXIiYmJzcWFjMyNjURNDY2MzIWFhcHJiYjIgYGFREUBga1DSEfCwMMKBApIR49LhAiIAoDDCkUGCEQID28AwQCQgEDMD8CR01ZJQMEA0ECAhg6M/25RFAhAAEALv/3AgICnwArAABXNTMuAzU0NjYzMhYWFRQOAgczFSM1PgM1NCYmIyIGBhUUHgIXFS54EiUhFCdhVldgJxQhJhJ5xREjIBMUOz09PBMTICQQCUUbS1ZYKGODQUGDYyhYVksbRTsfT1VQH1NsNTVsUx9QVU8fOwAAAgA1AAAB+wKUAAUACQAAczUTMxMXJSEDIzWdjJwB/ooBJYYaPAJY/ac7RQILAAEAHv9cAhIC8gALAABXESM1IRUjESMRIxFjRQH0RlDJpANPR0f8sQNP/LEAAQAr/1wCAwLyAA4AAFc1AQE1IRUhFRMVAxUhFSsBCf73Adj+fP7+AYSkZwFwAVlmRxb+ujn+phhIAAIABP94AjgDCgAHAAsAAFcDMxMzEzMDATUzFcOWU34L31D2/sJ3iAJG/f4DTvxuAf9HR///AEP/RwHMAfQEJgDmAAAABwCt//v/RwACAC3/9wH1AtcAHQAqAABFIiY1NDY2MzIWFhcmJiMiBgYHJz4CMzIWFhUUBicyNjcuAiMiBhUUFgENanYyX0IdPTcRBElZGjw1EgQTOEMgUWkybHxORgEQMzscRERGCXJuQ2A1Cg0HiXkOFAo+CxcQS6KBu7dFhosGDglSQUpRAAUAHP/tAhUCqgADABMAIwAzAEMAAFcnExcBIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgEiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWyzLPMv7wIjEbGzEiIjEbGzEiEhUJCRUSEhUJCRUBLyIyGxsyIiIxGxsxIhIVCQkVEhIVCgoVEw8CrhD+7B8/MDA9HR09MDA/HzUUKB0dJhMTJh0dKBT+Ox8/MDA9HR09MTA/HjQUKB0eJhISJh0dKRQAAAcAIv/tAyACqgAPAB8AIwAzAEMAUwBjAABFIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgUnExcBIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgEiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWArIiMRsbMSIiMRsbMSISFQkJFRISFQkJFf4xMs8y/vAiMRsbMSIiMRsbMSISFQkJFRISFQkJFQEvIjIbGzIiIjEbGzEiEhUJCRUSEhUKChUKHz8wMD0dHT0xMD8eNBQoHR4mEhImHR0pFD0PAq4Q/uwfPzAwPR0dPTAwPx81FCgdHSYTEyYdHSgU/jsfPzAwPR0dPTEwPx40FCgdHiYSEiYdHSkUAAACADUAAAH7ApQABQALAABzAxMzEwMnMxMDIwPdqKh3p6dHFoeHFocBSQFL/rX+t0UBBAEG/voAAAMAGwG9AQgCewAQABQAGAAAUzQ2NjMyFhYVIzQmIyIGBhUHNTMVJzUzFTgcMBwdLxw2HBYOHBJJ7dA2AfAdLBoaLB0UHA0VDjMzMzOLiwAAAgAbAgcBCAKdAA8AEwAAUzQ2NjMyFhYVIzQmIyIGFQc1MxU4HDAcHS8cNhwWFR1T7QI6HS0ZGS0dFBwcFDMzMwAAAQAUAdYAOAJUAAMAAFM1MxUUJAHWfn7//wAUAfMAOAJxBgYC9wAdAAIAFAHtANkCoQAUABgAAFMmJjU0NjYzMhYXByYmIyIGFRQWFwc1MxVIEBEdMBwQIAwaCA8IFxsLC2PF',
+  'Ae0UJhUdLhoJCC0FAxoVDRgOHDU1AP//ABT/bADZACAGBwL5AAD9f///AAwB7QDaA14GJgL5AAAABwMG//gAuP//ABwB7QELA14EJgL5GAACBwMDAAAAuP//ABQB7QDaAvoGJgL5AAAABwMFAAEAuP//ABQB7QDZA1IGJgL5AAAAJwMFAAAAuAAHAwUAAAEQ//8AFAHtANkDhAYmAvkAAAAHAxAAFQEc//8AFP7/ANkAIAYnAvkAAP1/AAcDBQAA/OH//wAU/roA2QAgBicC+QAA/X8AJwMFAAD89AAHAwUAAPyc//8AFAIKANkChgYmAwUA7AAGAwUARAAEABwCHgELAqYAAwAHABYAGgAAUwcnNwc1MxUzJjYzMhYWByc2JiMiBhcHNTMVWCMZIwpDCQ0cMSEiBwkjCxAZGQ8LZ8UCKApZCmMkJD1LIj0pBzQpKTMIJCQA//8AFP+2ANkAMgYnAwUAAP3wAAcDBQAA/ZgAAQAUAh4A2QJCAAMAAFM1MxUUxQIeJCQAAgAUAh4A4gKmAA4AEgAAUyY2MzIWFgcnNiYjIgYXBzUzFVgNHDEhIgcJIwsQGRkPC2fFAh49SyI9KQc0KSkzCCQkAP//ABT/+gDZAB4GBwMFAAD93AAC//kBrQDzAkIADwAfAABTIiY1NTMVFBYzMjYnNxYGIyImNxcGFjMyNjU1MxUUBqchIiQQDxcPCiMNHpAuHg0jChAWDxAkIgGtMSsfHx8ZMjgHRVBQRQc4MhkfHx8rMf////kBrQDzAtsGJgMIAAAAJgMF/kEABwMF//4Amf////cBrQDzAucGJgMIAAAABgMD20H////5APcA8wJCBiYDCAAAACcDBf///zEABwMF///+2f////kBrQDzAoMGJgMIAAAABgMF/0H////5Aa0A8wLnBiYDCAAAAAYDBvZB////+gIeAPQDCwYmAwUAAAAHAwgAAQDJ////+QGtAPMC3QYmAwgAAAAHAvcATwCJAAIACgG6ALkCaAAPABsAAFMiJiY1NDY2MzIWFhUUBgYnMjY1NCYjIgYVFBZiGCgYGCgYGCgXFygYFR4eFRYeHgG6FygXGScYGCcZFygXJB4UFh4eFhQeAAABABgCOQEIAo8AEQAAUyc3MxYWMzI2NxcOAiMiJic3HywzCiIQER8KGwkcJBcWKg8CORo8DAwLCxcQGg8PDwAAAQAUAXgAzwH1ABsAAFMiJiY1NDY3FwYGFRQWMzI2NTQmJzcWFhUUBgZyEywfAgMjAQMgGhofAgIjBAEfKwF4DiEcBR0QBgsZCBEWFhEMFQkIEB0FHCEOAAIACgJsAR4CyAADAAcAAFM1MxUhNTMV00v+7EsCbFxcXFwAAAEAUAJfAJ4CuAADAABTNTMVUE4CX1lZAAH//gJOAPMC5QADAABTJzcX3d8b2gJOVENjAAABABkCTgENAuUAAwAAUyc3Fy4V2hoCTjRjQwAAAgAAAkUBigL+AAMABwAAUyc3FwUnNxf3NY85/qw2kDkCRSyNLYwsjCwAAf/tAk8BGQLcAAYAAEM3MxcjJwcTezR9TUlIAk+NjVZWAAH/7wJPARsC3AAGAABTJzMXNzMHantNSUlNfQJPjVZWjQAB/+8CSgEZAtYAEAAAUyImJiczFhYzMjY3Mw4DhC1CJAI/Ai0nKC0BPwEWJjYCSiZAJiUuLyQdMyYWAAACABICHADjAu0ADAAaAABTIiY1NDY2MzIWFRQGJzI2NjU0JiMiBgYVFBZ7LTwcLx4sPDwsEBgOHxcPGQ8gAhw8LR0vHDwsLTwxDxkQFyAPGQ8YIAAB/+MCYwEgAs8AGQAAUyIuAiMiBgcnPgIzMh4CMzI2NxcOAskPJicjDA0sEBILHyIPECYnIgsMKw8SCh0hAmMOEg4bDDELGBEOEQ4ZDTILGBAAAf/yAm8BBgKsAAMAAEM1IRUOARQCbz09AAABACn/JgDeAAEAFwAAVyImJzcWFjMyNjU0JiMjNTMV',
+  'MhYWFRQGgBgxDgMJLAwVFxcVKSolMhk02gQDMQEBERQTDl8xDSIgMCsAAAEAvv8xAWsACAAWAABFIiYmNTQ2NjcXDgIVFBYzMjY3FwYGAR0fKxUZJhM/FSASFRQJHQoKEyzPGSYVGDArEAgTJiMPEBUFATwDBgAC/+kDJgEAA4IAAwAHAABTNTMVITUzFbVL/ulLAyZcXFxcAAABAFADHwCeA3gAAwAAUzUzFVBOAx9ZWQABAAoDCAD+A6QAAwAAUyc3F+fdGtoDCFdFZAAAAQAMAwgBAAOkAAMAAFMnNxcjF9oaAwg4ZEUAAAL/2QLwAWMDmAADAAcAAFMnNxcFJzcX1DWJO/6rNYo6AvAghyODIIckAAEANAMWAYQDnQAGAABTNzMXIycHNIZEhldQUQMWh4dPTwAB/90DFgEsA50ABgAAUyczFzczB2OGV1FQV4YDFodOTocAAf/rAxEBKAOWAA8AAFMiJiYnMxYWMzI2NzMOAokvRSgCSAIxIyQyAUgCKEUDESI8JyIoKCInPCIAAAIADQKgAPwDdQAMABoAAFMiJjU0NjYzMhYVFAYnMjY2NTQmIyIGBhUUFoU0RB83IjJFRTITGw8gHRMcDyECoDgyIjAZODMyODUNGBAaGwwYERkcAAH/4gMhATYDmwAZAABTIi4CIyIGByc+AjMyHgIzMjY3Fw4C4BIuMCgLDSwQEgseIg8TLy4nDAsqEBIJHSEDIRAWECEPOg0aExAVEB4POgwaEgAB/+oDKgEjA2cAAwAAQzUhFRYBOQMqPT0A//8AIgHcAKYCxAYHAqAAAAJXAAEAIQINAKUC9QADAABTByM3pS1XRAL16OgAAf/P/yEAkwH0AA0AAEcnPgM1ETMRFA4CEx4lLxsLShEnP986FSMlMSQB5/4YMEUzKwABABb+4gCM/7IAAwAAUzczBxYpTTL+4tDQAAH/7AAAAAAARwAJAABxIi4CNTQ2NjMGCAQCAwkIBQkOCAsPCQAABAA4/4sCXAMgAAMABwAXACcAAEE3FwcBJzcXFyImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhYBrlE8S/6qO088YGx3LzB3a2t3MC93bE9SHh9STk5SHx5SAnOtGaH9JRyoGj9QnXNzoFVUoXN2nU1HPH1gXYFDQ4BeXX0/AAUAOP+LAlwDpAADAAcACwAbACsAAEE3FwcBJzcXAyc3FwMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWAa5RPEv+qjtPPAMX2hp6bHcvMHdra3cwL3dsT1IeH1JOTlIfHlICc60Zof0lHKgaAtM4ZEX8l1Cdc3OgVVShc3adTUc8fWBdgUNDgF5dfT8AAwBE/4QB7gMfAAMABwA6AABXNxcHEyc3MwMiJiYnNx4CMzI2NjU0JiYnLgI1NDY2MzIWFhcHLgIjIgYGFRQWFhceAxUUBgbKFTMUYjMUM1ocTEwcBxxJSBkuPR8cQDVFWi01X0EcSkcaBxxIQxQuPyAgRjkySC4WNF98pQmcAvsImPzYBwoEPwMIBRw5LSQrGQsPJ0g+QE8kBwkEQAMIBRcvJCosGQ0LGyc6K0laKQAEADL/kQHfAl4AAwAHABcAJwAAQSc3FwEnNxcXIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgF5NDc0/uI0QDQ2VF0lKV5PUF4pJV1VOjoTGDo1NDsYEzoBxBOHE/1GE5wTNzp2WlZwODhwVlp2OkMpWEZFUiQkUkVGWCkABQAy/5EB3wLlAAMABwALABsAKwAAQSc3FwEnNxcDJzcXAyImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhYBeTQ3NP7iNEA0LhXaGntUXSUpXk9QXiklXVU6OhMYOjU0OxgTOgHEE4cT/UYTnBMCITRjQ/1UOnZaVnA4OHBWWnY6QylYRkVSJCRSRUZYKQ==',
+].join('');
+
+export const loadCairoRegular = (): Uint8Array =>
+  Uint8Array.from(atob(CAIRO_REGULAR_BASE64), (char) => char.charCodeAt(0));
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Why a check-in looks like it was made for someone else
+export type RiskReason =
+  // Another student already checked in to this session from the same device
+  | 'device_shared_in_session'
+  // The device checked in other students in recent sessions
+  | 'device_many_students'
+  // The student checked in from several devices recently
+  | 'student_many_devices'
+  // The student always used another device until now
+  | 'new_device'
+  // A near-identical browser checked in a different student minutes earlier
+  | 'similar_device_in_session';
+
+export type ReviewStatus = 'pending' | 'cleared' | 'confirmed';
+
+// Records scoring this or more wait in the review queue
+export const RISK_REVIEW_THRESHOLD = 50;
+
+// How far back student and device history is read
+export const RISK_HISTORY_DAYS = 30;
+
+const RISK_WEIGHTS: Record<RiskReason, number> = {
+  device_shared_in_session: 60,
+  device_many_students: 20,
+  student_many_devices: 20,
+  new_device: 20,
+  similar_device_in_session: 30,
+};
+
+// Check-ins from near-identical browsers closer together than this are compared
+const SIMILAR_DEVICE_WINDOW_MS = 5 * 60 * 1000;
+const SIMILARITY_THRESHOLD = 0.9;
+// Fewer shared traits than this say nothing about two browsers
+const MIN_COMPARABLE_TRAITS = 5;
+// A new device only stands out once the student has a habit to break
+const MIN_HISTORY_FOR_NEW_DEVICE = 3;
+
+// Coarse browser properties sent with the check-in, compared when fingerprints differ
+export type DeviceTraits = Record<string, string | number | boolean>;
+
+const TRAIT_KEYS = ['ua', 'platform', 'language', 'screen', 'dpr', 'timezone', 'cores', 'memory', 'touch'];
+
+export interface RiskAssessment {
+  score: number;
+  reasons: RiskReason[];
+  // Other student IDs the reasons point at
+  related: string[];
+}
+
+export interface SubmissionToScore {
+  sessionId: string;
+  studentId: string;
+  deviceId: string;
+  traits: DeviceTraits | null;
+  now?: number;
+}
+
+// Known keys with short scalar values only; anything else the client sends is dropped
+export const parseDeviceTraits = (value: unknown): DeviceTraits | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const traits: DeviceTraits = {};
+  for (const key of TRAIT_KEYS) {
+    const trait = (value as Record<string, unknown>)[key];
+    if (typeof trait === 'string') {
+      traits[key] = trait.substring(0, 300);
+    } else if ((typeof trait === 'number' && Number.isFinite(trait)) || typeof trait === 'boolean') {
+      traits[key] = trait;
+    }
+  }
+
+  return Object.keys(traits).length > 0 ? traits : null;
+};
+
+// Share of the traits both browsers reported that are equal, 0 when too few overlap to tell
+export const traitSimilarity = (a: DeviceTraits, b: DeviceTraits): number => {
+  const shared = Object.keys(a).filter((key) => key in b);
+  if (shared.length < MIN_COMPARABLE_TRAITS) {
+    return 0;
+  }
+  return shared.filter((key) => a[key] === b[key]).length / shared.length;
+};
+
+// Score a check-in before it is recorded. Reads the session's records and the student's and
+// device's records from the last RISK_HISTORY_DAYS days.
+export const scoreSubmission = async (
+  supabase: SupabaseClient,
+  { sessionId, studentId, deviceId, traits, now = Date.now() }: SubmissionToScore
+): Promise<RiskAssessment> => {
+  const since = new Date(now - RISK_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [sessionResult, deviceResult, studentResult] = await Promise.all([
+    supabase
+      .from('attendance_records')
+      .select('student_id, device_id, device_traits, recorded_at')
+      .eq('session_id', sessionId),
+    supabase
+      .from('attendance_records')
+      .select('student_id')
+      .eq('device_id', deviceId)
+      .neq('session_id', sessionId)
+      .gte('recorded_at', since)
+      .limit(200),
+    supabase
+      .from('attendance_records')
+      .select('device_id')
+      .eq('student_id', studentId)
+      .neq('session_id', sessionId)
+      .gte('recorded_at', since)
+      .limit(200),
+  ]);
+
+  for (const { error } of [sessionResult, deviceResult, studentResult]) {
+    if (error) {
+      throw error;
+    }
+  }
+
+  const reasons: RiskReason[] = [];
+  const related = new Set<string>();
+  const others = (sessionResult.data || []).filter((record) => record.student_id !== studentId);
+
+  const sameDevice = others.filter((record) => record.device_id === deviceId);
+  if (sameDevice.length > 0) {
+    reasons.push('device_shared_in_session');
+    sameDevice.forEach((record) => related.add(record.student_id));
+  }
+
+  const deviceStudents = new Set((deviceResult.data || []).map((record) => record.student_id).filter((id) => id !== studentId));
+  if (deviceStudents.size > 0) {
+    reasons.push('device_many_students');
+    deviceStudents.forEach((id) => related.add(id));
+  }
+
+  const studentDevices = new Set((studentResult.data || []).map((record) => record.device_id));
+  if (studentDevices.size > 0 && !studentDevices.has(deviceId)) {
+    if (studentDevices.size >= 2) {
+      reasons.push('student_many_devices');
+    }
+    if ((studentResult.data || []).length >= MIN_HISTORY_FOR_NEW_DEVICE) {
+      reasons.push('new_device');
+    }
+  }
+
+  if (traits) {
+    const similar = others.filter((record) =>
+      record.device_id !== deviceId
+      && record.device_traits
+      && Math.abs(now - new Date(record.recorded_at).getTime()) <= SIMILAR_DEVICE_WINDOW_MS
+      && traitSimilarity(traits, record.device_traits as DeviceTraits) >= SIMILARITY_THRESHOLD
+    );
+    if (similar.length > 0) {
+      reasons.push('similar_device_in_session');
+      similar.forEach((record) => related.add(record.student_id));
+    }
+  }
+
+  const score = Math.min(100, reasons.reduce((total, reason) => total + RISK_WEIGHTS[reason], 0));
+
+  return { score, reasons, related: [...related].slice(0, 20) };
+};
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LectureSession } from './lectureSessions.ts';
+
+export type GeofencePolicy = 'block' | 'flag' | 'ignore';
+
+export const GEOFENCE_POLICIES: GeofencePolicy[] = ['block', 'flag', 'ignore'];
+
+export type LocationCheck = 'inside' | 'outside' | 'inaccurate' | 'missing';
+
+// A browser fix less precise than this cannot place a student in a lecture hall
+export const MAX_LOCATION_ACCURACY_M = 100;
+
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  // Browser-reported accuracy radius in metres
+  accuracy: number;
+}
+
+export interface Geofence {
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+  policy: Exclude<GeofencePolicy, 'ignore'>;
+}
+
+export interface LocationResult {
+  check: LocationCheck;
+  distance_m: number | null;
+  accuracy_m: number | null;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance, plenty precise at campus scale
+export const distanceMeters = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// The position a student's browser reported, or null when it is absent or malformed
+export const parseScanLocation = (value: unknown): ScanLocation | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { latitude, longitude, accuracy } = value as Record<string, unknown>;
+
+  if (
+    typeof latitude !== 'number' || typeof longitude !== 'number' || typeof accuracy !== 'number'
+    || !Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(accuracy)
+    || Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || accuracy < 0
+  ) {
+    return null;
+  }
+
+  return { latitude, longitude, accuracy };
+};
+
+// The reported position counts as inside when the circle it could be anywhere in overlaps the room's radius
+export const checkLocation = (geofence: Geofence, location: ScanLocation | null): LocationResult => {
+  if (!location) {
+    return { check: 'missing', distance_m: null, accuracy_m: null };
+  }
+
+  const distance = Math.round(distanceMeters(geofence, location));
+  const accuracy = Math.round(location.accuracy);
+
+  if (accuracy > MAX_LOCATION_ACCURACY_M) {
+    return { check: 'inaccurate', distance_m: distance, accuracy_m: accuracy };
+  }
+
+  return { check: distance - accuracy <= geofence.radius_m ? 'inside' : 'outside', distance_m: distance, accuracy_m: accuracy };
+};
+
+// The room and policy a session's scans are checked against, or null when there is nothing to check:
+// no catalog course, a course that ignores location, or a room without coordinates
+export const getSessionGeofence = async (
+  supabase: SupabaseClient,
+  session: Pick<LectureSession, 'course_id' | 'room_id'>
+): Promise<Geofence | null> => {
+  if (!session.course_id || !session.room_id) {
+    return null;
+  }
+
+  const [{ data: course, error: courseError }, { data: room, error: roomError }] = await Promise.all([
+    supabase.from('courses').select('geofence_policy').eq('id', session.course_id).maybeSingle(),
+    supabase.from('rooms').select('latitude, longitude, radius_m').eq('id', session.room_id).maybeSingle(),
+  ]);
+
+  if (courseError) {
+    throw courseError;
+  }
+
+  if (roomError) {
+    throw roomError;
+  }
+
+  const policy = (course?.geofence_policy ?? 'ignore') as GeofencePolicy;
+
+  if (policy === 'ignore' || !room || room.latitude === null || room.longitude === null) {
+    return null;
+  }
+
+  return { latitude: room.latitude, longitude: room.longitude, radius_m: room.radius_m, policy };
+};
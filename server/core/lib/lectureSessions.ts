@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface LectureSession {
+  id: string;
+  course_id: string | null;
+  course: string;
+  instructor: string;
+  room: string | null;
+  // Catalog room with the same name when the session was opened, see rooms.ts
+  room_id: string | null;
+  week_number: number | null;
+  starts_at: string;
+  ends_at: string;
+  closed_at: string | null;
+  max_forwards: number | null;
+  // Admin who opened the session
+  opened_by: string | null;
+  created_at: string;
+}
+
+// What a student is allowed to see about the lecture they are checking in to
+export interface LectureSummary {
+  id: string;
+  course: string;
+  instructor: string;
+  room: string | null;
+  weekNumber: number | null;
+  startsAt: string;
+  endsAt: string;
+  // The student's position is checked against the room, so the page asks the browser for it
+  locationRequired: boolean;
+}
+
+export const toLectureSummary = (session: LectureSession, locationRequired = false): LectureSummary => ({
+  id: session.id,
+  course: session.course,
+  instructor: session.instructor,
+  room: session.room,
+  weekNumber: session.week_number,
+  startsAt: session.starts_at,
+  endsAt: session.ends_at,
+  locationRequired,
+});
+
+// A session accepts scans until it is closed or its end time passes
+export const isSessionOpen = (session: LectureSession, now = Date.now()): boolean =>
+  !session.closed_at && new Date(session.ends_at).getTime() > now;
+
+// Check-ins are accepted from this long before the start until the session ends
+export const EARLY_CHECK_IN_MINUTES = 15;
+
+// Used for sessions without a catalog course
+export const DEFAULT_LATE_GRACE_MINUTES = 10;
+
+// An exit scan this long before the end counts as leaving early
+export const EARLY_LEAVE_MINUTES = 10;
+
+export type CheckInStatus = 'present' | 'late';
+
+// On time until the grace period after the start, then late. null when the scan falls outside the session.
+export const classifyCheckIn = (session: LectureSession, graceMinutes: number, scannedAt: number): CheckInStatus | null => {
+  const startsAt = new Date(session.starts_at).getTime();
+
+  if (scannedAt < startsAt - EARLY_CHECK_IN_MINUTES * 60000 || scannedAt > new Date(session.ends_at).getTime()) {
+    return null;
+  }
+
+  return scannedAt <= startsAt + graceMinutes * 60000 ? 'present' : 'late';
+};
+
+// Once a session has had an exit scan, a student who did not scan out, or scanned out well before
+// the end (or the early close), is counted as having left early
+export const isEarlyLeave = (session: Pick<LectureSession, 'ends_at' | 'closed_at'>, leftAt: string | null, hadExitScan: boolean): boolean => {
+  if (!hadExitScan) {
+    return false;
+  }
+
+  if (!leftAt) {
+    return true;
+  }
+
+  const endsAt = Math.min(new Date(session.ends_at).getTime(), session.closed_at ? new Date(session.closed_at).getTime() : Infinity);
+  return new Date(leftAt).getTime() < endsAt - EARLY_LEAVE_MINUTES * 60000;
+};
+
+export const getLateGraceMinutes = async (supabase: SupabaseClient, courseId: string | null): Promise<number> => {
+  if (!courseId) {
+    return DEFAULT_LATE_GRACE_MINUTES;
+  }
+
+  const { data, error } = await supabase
+    .from('courses')
+    .select('late_grace_minutes')
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.late_grace_minutes ?? DEFAULT_LATE_GRACE_MINUTES;
+};
+
+export const getLectureSession = async (supabase: SupabaseClient, id: string): Promise<LectureSession | null> => {
+  const { data, error } = await supabase
+    .from('lecture_sessions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as LectureSession | null;
+};
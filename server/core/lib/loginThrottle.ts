@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { json, type CoreResponse } from '../http.ts';
+import type { CoreEnv } from '../context.ts';
+import { isTelegramConfigured, sendTelegramMessage } from './telegram.ts';
+
+interface ThrottlePolicy {
+  // Failures before the first lockout
+  freeAttempts: number;
+  // First lockout, doubled on every further failure
+  baseSeconds: number;
+  maxSeconds: number;
+}
+
+// Per account: the old client-side rule (3 attempts, then 1 minute), now growing to an hour
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 3, baseSeconds: 60, maxSeconds: 60 * 60 };
+
+// Per client IP: looser, since a whole campus network can share one address
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 10, baseSeconds: 60, maxSeconds: 60 * 60 };
+
+// A key with no failures for this long starts over
+const RESET_MINUTES = 24 * 60;
+
+// Telegram alert every this many consecutive failures on one account or IP
+const ALERT_EVERY_FAILURES = 5;
+
+export interface LoginAttempt {
+  // Normalised (trimmed, lower-case) username as typed
+  username: string;
+  ip: string | null;
+  // Which step failed, for the alert
+  stage: 'password' | 'second factor';
+}
+
+interface ThrottleKey {
+  key: string;
+  // Shown in the alert
+  label: string;
+  policy: ThrottlePolicy;
+}
+
+const throttleKeys = (username: string, ip: string | null): ThrottleKey[] => {
+  const keys: ThrottleKey[] = [{ key: `user:${username}`, label: 'الحساب', policy: ACCOUNT_POLICY }];
+
+  if (ip) {
+    keys.push({ key: `ip:${ip}`, label: 'IP', policy: IP_POLICY });
+  }
+
+  return keys;
+};
+
+interface ClaimRow {
+  throttle_key: string;
+  attempts: number;
+  locked_ms: number;
+  allowed: boolean;
+}
+
+export interface LoginAttemptClaim {
+  // false when the account or IP is locked; the attempt was then not counted
+  allowed: boolean;
+  // Lockout in ms: the remaining one when refused, otherwise the one this attempt sets if it fails
+  lockedMs: number;
+  keys: { key: string; label: string; attempts: number; lockedMs: number }[];
+}
+
+// Check the lock and count the attempt against the account and the IP in one database call,
+// before the password or code is checked, so parallel requests cannot all pass a stale check.
+// The attempt counts as a failure until releaseLoginAttempt or clearLoginFailures gives it back.
+export const claimLoginAttempt = async (
+  supabase: SupabaseClient,
+  username: string,
+  ip: string | null
+): Promise<LoginAttemptClaim> => {
+  const keys = throttleKeys(username, ip);
+  const { data, error } = await supabase.rpc('claim_admin_login_attempt', {
+    p_keys: keys.map(({ key }) => key),
+    p_free_attempts: keys.map(({ policy }) => policy.freeAttempts),
+    p_base_seconds: keys.map(({ policy }) => policy.baseSeconds),
+    p_max_seconds: keys.map(({ policy }) => policy.maxSeconds),
+    p_reset_minutes: RESET_MINUTES,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data || []) as ClaimRow[];
+  const claimed = keys.map(({ key, label }) => {
+    const row = rows.find((item) => item.throttle_key === key);
+    return { key, label, attempts: row?.attempts ?? 0, lockedMs: Number(row?.locked_ms) || 0 };
+  });
+
+  return {
+    allowed: rows.length > 0 && rows.every((row) => row.allowed),
+    lockedMs: Math.max(0, ...claimed.map((key) => key.lockedMs)),
+    keys: claimed,
+  };
+};
+
+const sendLoginAlert = async (env: CoreEnv, attempt: LoginAttempt, target: string, failures: number, lockedMs: number) => {
+  if (!isTelegramConfigured(env)) {
+    return;
+  }
+
+  const text = `🚨 *محاولات دخول فاشلة*\n\n` +
+    `👤 *الحساب:* \`${attempt.username}\`\n` +
+    `🌐 *IP:* \`${attempt.ip || '-'}\`\n` +
+    `🔑 *المرحلة:* ${attempt.stage === 'password' ? 'كلمة المرور' : 'المصادقة الثنائية'}\n` +
+    `🔢 *المحاولات (${target}):* ${failures}\n` +
+    `🔒 *القفل:* ${lockedMs > 0 ? `${Math.ceil(lockedMs / 60000)} دقيقة` : '-'}\n` +
+    `🕐 *التوقيت:* ${new Date().toLocaleString('ar-EG', { timeZone: 'Africa/Cairo' })}`;
+
+  try {
+    const result = await sendTelegramMessage(env, text);
+    if (!result.ok) {
+      console.error('[Login Throttle] Alert failed:', result.description);
+    }
+  } catch (error) {
+    // An alert must never turn a rejected login into a 500
+    console.error('[Login Throttle] Alert error:', error);
+  }
+};
+
+// The claimed attempt failed: it is already counted, so this only alerts. Returns the resulting lockout in ms.
+export const recordLoginFailure = async (
+  env: CoreEnv,
+  attempt: LoginAttempt,
+  claim: LoginAttemptClaim
+): Promise<number> => {
+  for (const key of claim.keys) {
+    if (key.attempts > 0 && key.attempts % ALERT_EVERY_FAILURES === 0) {
+      await sendLoginAlert(env, attempt, key.label, key.attempts, key.lockedMs);
+    }
+  }
+
+  console.log('[Login Throttle] Failure recorded:', { ...attempt, lockedMs: claim.lockedMs });
+  return claim.lockedMs;
+};
+
+const releaseKeys = async (supabase: SupabaseClient, keys: ThrottleKey[]): Promise<void> => {
+  const { error } = await supabase.rpc('release_admin_login_attempt', {
+    p_keys: keys.map(({ key }) => key),
+    p_free_attempts: keys.map(({ policy }) => policy.freeAttempts),
+  });
+
+  if (error) {
+    console.error('[Login Throttle] Release error:', error);
+  }
+};
+
+// A correct password still waiting for its second factor: give the attempt back to both counters
+export const releaseLoginAttempt = async (supabase: SupabaseClient, username: string, ip: string | null): Promise<void> => {
+  await releaseKeys(supabase, throttleKeys(username, ip));
+};
+
+// A completed sign-in resets the account counter. The IP only gets this attempt back, so signing
+// in to one account does not wipe the record of guesses against others.
+export const clearLoginFailures = async (supabase: SupabaseClient, username: string, ip: string | null): Promise<void> => {
+  const [account, ...others] = throttleKeys(username, ip);
+
+  if (others.length > 0) {
+    await releaseKeys(supabase, others);
+  }
+
+  const { error } = await supabase
+    .from('admin_login_failures')
+    .delete()
+    .eq('key', account.key);
+
+  if (error) {
+    console.error('[Login Throttle] Clear error:', error);
+  }
+};
+
+export const loginLockedResponse = (lockedMs: number): CoreResponse =>
+  json(429, {
+    success: false,
+    error: 'Too many failed attempts, try again later',
+    retryAfterMs: lockedMs,
+  }, { 'Retry-After': String(Math.ceil(lockedMs / 1000)) });
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LectureSession } from './lectureSessions.ts';
+
+export type NetworkPolicy = 'block' | 'flag' | 'ignore';
+
+export const NETWORK_POLICIES: NetworkPolicy[] = ['block', 'flag', 'ignore'];
+
+export type NetworkCheck = 'allowed' | 'outside' | 'unknown';
+
+export const MAX_ALLOWED_NETWORKS = 50;
+
+export interface NetworkAllowList {
+  networks: string[];
+  policy: Exclude<NetworkPolicy, 'ignore'>;
+}
+
+interface Cidr {
+  bytes: Uint8Array;
+  prefix: number;
+}
+
+const parseIpv4 = (value: string): Uint8Array | null => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return Uint8Array.from(parts.map(Number));
+};
+
+const parseIpv6 = (value: string): Uint8Array | null => {
+  // Zone IDs ("fe80::1%eth0") only matter on the local link
+  let address = value.replace(/%.*$/, '');
+
+  // A trailing dotted quad ("::ffff:192.0.2.1") stands for the last two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  let tail: number[] = [];
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (!ipv4) return null;
+    tail = [(ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]];
+    address = dotted[1].endsWith('::') ? dotted[1] : dotted[1].slice(0, -1);
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const readGroups = (text: string): number[] | null => {
+    if (!text) return [];
+    const parsed = text.split(':').map((group) => (/^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN));
+    return parsed.some(isNaN) ? null : parsed;
+  };
+
+  const head = readGroups(halves[0]);
+  const rest = halves.length === 2 ? readGroups(halves[1]) : [];
+  if (!head || !rest) return null;
+
+  const missing = 8 - head.length - rest.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...rest, ...tail];
+  return Uint8Array.from(groups.flatMap((group) => [group >> 8, group & 0xff]));
+};
+
+// 4 bytes for IPv4, 16 for IPv6, null when the text is neither
+const parseIp = (value: string): Uint8Array | null =>
+  value.includes(':') ? parseIpv6(value) : parseIpv4(value);
+
+// Dual-stack sockets report IPv4 clients as "::ffff:a.b.c.d"; compare those with IPv4 ranges
+const unmapIpv4 = (bytes: Uint8Array): Uint8Array =>
+  bytes.length === 16 && bytes.subarray(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+    ? bytes.slice(12)
+    : bytes;
+
+// "10.20.0.0/16", "2001:db8::/32", or a single address without a prefix
+const parseCidr = (value: string): Cidr | null => {
+  const [address, prefixText, ...extra] = value.trim().split('/');
+  const bytes = parseIp(address);
+  if (!bytes || extra.length > 0) {
+    return null;
+  }
+
+  const bits = bytes.length * 8;
+  if (prefixText === undefined) {
+    return { bytes, prefix: bits };
+  }
+
+  const prefix = /^\d{1,3}$/.test(prefixText) ? Number(prefixText) : NaN;
+  return prefix >= 0 && prefix <= bits ? { bytes, prefix } : null;
+};
+
+const inCidr = (ip: Uint8Array, cidr: Cidr): boolean => {
+  if (ip.length !== cidr.bytes.length) {
+    return false;
+  }
+
+  const fullBytes = Math.floor(cidr.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (ip[i] !== cidr.bytes[i]) return false;
+  }
+
+  const remainingBits = cidr.prefix % 8;
+  if (remainingBits === 0) {
+    return true;
+  }
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (ip[fullBytes] & mask) === (cidr.bytes[fullBytes] & mask);
+};
+
+// Trimmed, de-duplicated ranges, or the first entry that is not a valid CIDR
+export const normalizeNetworks = (values: string[]): { networks: string[] } | { invalid: string } => {
+  const networks = [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+  const invalid = networks.find((network) => !parseCidr(network));
+  return invalid !== undefined ? { invalid } : { networks };
+};
+
+export const checkNetwork = (networks: string[], clientIp: string | null): NetworkCheck => {
+  const ip = clientIp ? parseIp(clientIp) : null;
+  if (!ip) {
+    return 'unknown';
+  }
+
+  const address = unmapIpv4(ip);
+  return networks.some((network) => {
+    const cidr = parseCidr(network);
+    return cidr !== null && inCidr(address, cidr);
+  }) ? 'allowed' : 'outside';
+};
+
+// The ranges and policy a session's scans are checked against, or null when there is nothing to check.
+// A room with its own list overrides the course's, so a hall's Wi-Fi can be narrower than the campus.
+export const getSessionNetworkAllowList = async (
+  supabase: SupabaseClient,
+  session: Pick<LectureSession, 'course_id' | 'room_id'>
+): Promise<NetworkAllowList | null> => {
+  if (!session.course_id) {
+    return null;
+  }
+
+  const [{ data: course, error: courseError }, { data: room, error: roomError }] = await Promise.all([
+    supabase.from('courses').select('network_policy, allowed_networks').eq('id', session.course_id).maybeSingle(),
+    session.room_id
+      ? supabase.from('rooms').select('allowed_networks').eq('id', session.room_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (courseError) {
+    throw courseError;
+  }
+
+  if (roomError) {
+    throw roomError;
+  }
+
+  const policy = (course?.network_policy ?? 'ignore') as NetworkPolicy;
+  const networks: string[] = room?.allowed_networks?.length ? room.allowed_networks : course?.allowed_networks ?? [];
+
+  if (policy === 'ignore' || networks.length === 0) {
+    return null;
+  }
+
+  return { networks, policy };
+};
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateNonce, readSignedPayload, signPayload } from './signedToken.ts';
+import type { StoredCredential } from './webauthn.ts';
+
+// A phone and a laptop or two, with room for a replacement before the old one is removed
+export const MAX_PASSKEYS_PER_STUDENT = 5;
+
+// Time between asking for registration options and the browser returning the new credential
+export const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface StudentPasskey extends StoredCredential {
+  id: string;
+  student_id: string;
+  credential_id: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+interface PasskeyChallengePayload {
+  // Student the registration is for
+  pk: string;
+  ch: string;
+  exp: number;
+}
+
+// Signed with the session secret; carries no `sid`, so it can never pass as a session cookie
+export const issuePasskeyChallenge = async (
+  secret: string,
+  studentId: string,
+  now = Date.now()
+): Promise<{ challenge: string; token: string }> => {
+  const challenge = generateNonce();
+  const token = await signPayload(secret, { pk: studentId, ch: challenge, exp: now + PASSKEY_CHALLENGE_TTL_MS } satisfies PasskeyChallengePayload);
+  return { challenge, token };
+};
+
+// The challenge in a registration token, only for the student it was issued to
+export const readPasskeyChallenge = async (
+  secret: string,
+  token: string,
+  studentId: string,
+  now = Date.now()
+): Promise<string | null> => {
+  const payload = await readSignedPayload<PasskeyChallengePayload>(token, secret);
+
+  if (!payload || payload.pk !== studentId || typeof payload.ch !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) {
+    return null;
+  }
+
+  return payload.ch;
+};
+
+export const listStudentPasskeys = async (supabase: SupabaseClient, studentId: string): Promise<StudentPasskey[]> => {
+  const { data, error } = await supabase
+    .from('student_passkeys')
+    .select('*')
+    .eq('student_id', studentId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as StudentPasskey[];
+};
+
+export const recordPasskeyUse = async (supabase: SupabaseClient, id: string, signCount: number): Promise<void> => {
+  const { error } = await supabase
+    .from('student_passkeys')
+    .update({ sign_count: signCount, last_used_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { json, type CoreResponse } from '../http.ts';
+import type { AuthenticatedAdmin } from './adminSession.ts';
+
+export type AdminRole = 'super_admin' | 'instructor' | 'teaching_assistant';
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'instructor', 'teaching_assistant'];
+
+export type Permission =
+  // Create and edit admin accounts and course staff
+  | 'admins.manage'
+  // Read the audit log
+  | 'audit.view'
+  // Add courses to the catalog
+  | 'courses.manage'
+  // Replace a course roster from a spreadsheet
+  | 'roster.import'
+  // Open, project and close lecture sessions
+  | 'sessions.run';
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  super_admin: ['admins.manage', 'audit.view', 'courses.manage', 'roster.import', 'sessions.run'],
+  instructor: ['roster.import', 'sessions.run'],
+  teaching_assistant: ['sessions.run'],
+};
+
+export const hasPermission = (admin: AuthenticatedAdmin, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[admin.role]?.includes(permission) ?? false;
+
+export const forbidden = (): CoreResponse =>
+  json(403, { success: false, error: 'You do not have permission for this action' });
+
+// Courses the admin is assigned to, or null for super admins who can access every course
+export const getAccessibleCourseIds = async (
+  supabase: SupabaseClient,
+  admin: AuthenticatedAdmin
+): Promise<string[] | null> => {
+  if (admin.role === 'super_admin') {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('course_staff')
+    .select('course_id')
+    .eq('admin_id', admin.id);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((row) => row.course_id);
+};
+
+// Sessions without a catalog course (free-text) are reserved for super admins
+export const canAccessCourse = async (
+  supabase: SupabaseClient,
+  admin: AuthenticatedAdmin,
+  courseId: string | null
+): Promise<boolean> => {
+  if (admin.role === 'super_admin') {
+    return true;
+  }
+
+  if (!courseId) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('course_staff')
+    .select('course_id')
+    .eq('admin_id', admin.id)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+};
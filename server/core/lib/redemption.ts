@@ -0,0 +1,49 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CoreEnv } from '../context.ts';
+
+export type RedemptionStatus = 'redeemed' | 'repeat' | 'forward_allowed' | 'forward_rejected';
+
+// Default number of devices besides the first that may open the same token (0 = single use).
+// A lecture session can override it with its own max_forwards.
+export const getMaxForwards = (env: CoreEnv): number => {
+  const value = parseInt(env.TOKEN_MAX_FORWARDS || '0', 10);
+  return isNaN(value) || value < 0 ? 0 : value;
+};
+
+// Record a token nonce against a device. The check and insert happen in one
+// database call so two devices opening the same link at once cannot both win.
+export const redeemNonce = async (
+  supabase: SupabaseClient,
+  nonce: string,
+  deviceId: string,
+  maxForwards: number
+): Promise<{ status: RedemptionStatus; originalDeviceId: string }> => {
+  const { data, error } = await supabase.rpc('redeem_token_nonce', {
+    p_nonce: nonce,
+    p_device_id: deviceId,
+    p_max_forwards: maxForwards,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return { status: row.status as RedemptionStatus, originalDeviceId: row.original_device_id };
+};
+
+// Whether this device redeemed (or was allowed to share) the nonce
+export const hasRedeemed = async (supabase: SupabaseClient, nonce: string, deviceId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('token_redemptions')
+    .select('nonce')
+    .eq('nonce', nonce)
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+};
@@ -0,0 +1,304 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import ExcelJS from 'exceljs';
+import { neutralizeFormula } from './csv.ts';
+import { isEarlyLeave } from './lectureSessions.ts';
+
+export type AttendanceCell = 'present' | 'late' | 'absent' | 'excused';
+
+export const ATTENDANCE_CELLS: AttendanceCell[] = ['present', 'late', 'absent', 'excused'];
+
+// Same wording as the reports page, so the file matches the screen
+export const CELL_LABELS: Record<AttendanceCell, string> = {
+  present: 'حاضر',
+  late: 'متأخر',
+  absent: 'غائب',
+  excused: 'بعذر',
+};
+
+export const REPORT_TIME_ZONE = 'Africa/Cairo';
+
+export interface ReportFilters {
+  courseId: string;
+  section: string | null;
+  // yyyy-mm-dd, inclusive, in REPORT_TIME_ZONE
+  from: string | null;
+  to: string | null;
+  week: number | null;
+}
+
+export interface ReportSession {
+  id: string;
+  // Column heading, e.g. "W3 2026-10-19"
+  label: string;
+  starts_at: string;
+  week_number: number | null;
+}
+
+export interface ReportRow {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+  // One per session, same order as AttendanceReport.sessions
+  cells: AttendanceCell[];
+  // Same order as cells: true where an admin set the status by hand
+  corrected: boolean[];
+  // Same order as cells: why the scanned record was flagged for review, e.g. 'location'
+  flags: string[][];
+  totals: Record<AttendanceCell, number>;
+  // Sessions attended but left early, see isEarlyLeave
+  early_leaves: number;
+  // Present or late, out of the sessions not excused; null when every session was excused
+  rate: number | null;
+}
+
+export interface AttendanceReport {
+  course: { id: string; code: string; name: string };
+  filters: ReportFilters;
+  sections: string[];
+  sessions: ReportSession[];
+  rows: ReportRow[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate the filter fields shared by the reports page and the export
+export const parseReportFilters = (body: Record<string, unknown>): ReportFilters | string => {
+  const courseId = typeof body.course_id === 'string' ? body.course_id : '';
+  const section = typeof body.section === 'string' && body.section.trim() ? body.section.trim() : null;
+  const from = typeof body.from === 'string' && body.from ? body.from : null;
+  const to = typeof body.to === 'string' && body.to ? body.to : null;
+  const week = body.week !== undefined && body.week !== null && body.week !== '' ? parseInt(String(body.week), 10) : null;
+
+  if (!courseId) {
+    return 'Course ID is required';
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+
+  if (week !== null && (isNaN(week) || week < 1)) {
+    return 'Invalid week number';
+  }
+
+  return { courseId, section, from, to, week };
+};
+
+// yyyy-mm-dd of an instant in the report time zone
+const toLocalDate = (iso: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: REPORT_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(iso));
+
+// Students × sessions for one course. Returns null when the course does not exist.
+export const buildAttendanceReport = async (
+  supabase: SupabaseClient,
+  filters: ReportFilters,
+  now = Date.now()
+): Promise<AttendanceReport | null> => {
+  const { data: course, error: courseError } = await supabase
+    .from('courses')
+    .select('id, code, name')
+    .eq('id', filters.courseId)
+    .maybeSingle();
+
+  if (courseError) {
+    throw courseError;
+  }
+
+  if (!course) {
+    return null;
+  }
+
+  let sessionQuery = supabase
+    .from('lecture_sessions')
+    .select('id, starts_at, ends_at, closed_at, week_number')
+    .eq('course_id', course.id)
+    .lte('starts_at', new Date(now).toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (filters.week !== null) {
+    sessionQuery = sessionQuery.eq('week_number', filters.week);
+  }
+
+  const [{ data: allSessions, error: sessionError }, { data: enrollments, error: rosterError }] = await Promise.all([
+    sessionQuery,
+    supabase
+      .from('enrollments')
+      .select('student_id, full_name, section')
+      .eq('course_id', course.id)
+      .order('section', { ascending: true, nullsFirst: false })
+      .order('full_name', { ascending: true }),
+  ]);
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  if (rosterError) {
+    throw rosterError;
+  }
+
+  // The date range is compared on local calendar days, which a plain timestamp filter would get wrong near midnight
+  const sessions: ReportSession[] = (allSessions || [])
+    .filter((session) => {
+      const day = toLocalDate(session.starts_at);
+      return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+    })
+    .map((session) => ({
+      id: session.id,
+      label: `${session.week_number !== null ? `W${session.week_number} ` : ''}${toLocalDate(session.starts_at)}`,
+      starts_at: session.starts_at,
+      week_number: session.week_number,
+    }));
+
+  const sessionIds = sessions.map((session) => session.id);
+  const statusByKey = new Map<string, AttendanceCell>();
+  const leftAtByKey = new Map<string, string | null>();
+  const exitScanned = new Set<string>();
+  const correctedKeys = new Set<string>();
+  const flagsByKey = new Map<string, string[]>();
+  const walkIns = new Map<string, string>();
+
+  if (sessionIds.length > 0) {
+    const [{ data: records, error: recordsError }, { data: corrections, error: correctionsError }] = await Promise.all([
+      supabase
+        .from('attendance_records')
+        .select('session_id, student_id, student_name, status, left_at, flags')
+        .in('session_id', sessionIds),
+      supabase
+        .from('attendance_corrections')
+        .select('session_id, student_id, student_name, status')
+        .in('session_id', sessionIds),
+    ]);
+
+    if (recordsError) {
+      throw recordsError;
+    }
+
+    if (correctionsError) {
+      throw correctionsError;
+    }
+
+    for (const record of records || []) {
+      statusByKey.set(`${record.session_id}:${record.student_id}`, record.status as AttendanceCell);
+      leftAtByKey.set(`${record.session_id}:${record.student_id}`, record.left_at);
+      if (record.left_at) exitScanned.add(record.session_id);
+      if (record.flags?.length) flagsByKey.set(`${record.session_id}:${record.student_id}`, record.flags);
+      walkIns.set(record.student_id, record.student_name);
+    }
+
+    // Manual corrections win over what was scanned
+    for (const correction of corrections || []) {
+      statusByKey.set(`${correction.session_id}:${correction.student_id}`, correction.status as AttendanceCell);
+      correctedKeys.add(`${correction.session_id}:${correction.student_id}`);
+      if (correction.status !== 'absent' && !walkIns.has(correction.student_id)) {
+        walkIns.set(correction.student_id, correction.student_name);
+      }
+    }
+  }
+
+  const roster = enrollments || [];
+  const sections = [...new Set(roster.map((student) => student.section).filter((section): section is string => !!section))].sort();
+  const students = roster.filter((student) => !filters.section || student.section === filters.section);
+
+  // Check-ins by students missing from the roster still count, unless a section was asked for
+  if (!filters.section) {
+    const enrolled = new Set(roster.map((student) => student.student_id));
+    for (const [studentId, fullName] of walkIns) {
+      if (!enrolled.has(studentId)) {
+        students.push({ student_id: studentId, full_name: fullName, section: null });
+      }
+    }
+  }
+
+  const timings = new Map((allSessions || []).map((session) => [session.id, session]));
+
+  const rows: ReportRow[] = students.map((student) => {
+    const cells = sessions.map((session) => statusByKey.get(`${session.id}:${student.student_id}`) ?? 'absent');
+    const corrected = sessions.map((session) => correctedKeys.has(`${session.id}:${student.student_id}`));
+    const flags = sessions.map((session) => flagsByKey.get(`${session.id}:${student.student_id}`) ?? []);
+    const totals = Object.fromEntries(ATTENDANCE_CELLS.map((cell) => [cell, 0])) as Record<AttendanceCell, number>;
+    cells.forEach((cell) => {
+      totals[cell] += 1;
+    });
+
+    const counted = cells.length - totals.excused;
+    const early_leaves = sessions.filter((session, index) => {
+      const key = `${session.id}:${student.student_id}`;
+      const attended = cells[index] === 'present' || cells[index] === 'late';
+      return attended && leftAtByKey.has(key)
+        && isEarlyLeave(timings.get(session.id)!, leftAtByKey.get(key) ?? null, exitScanned.has(session.id));
+    }).length;
+
+    return {
+      student_id: student.student_id,
+      full_name: student.full_name,
+      section: student.section,
+      cells,
+      corrected,
+      flags,
+      totals,
+      early_leaves,
+      rate: counted > 0 ? Math.round(((totals.present + totals.late) / counted) * 100) : null,
+    };
+  });
+
+  return { course, filters, sections, sessions, rows };
+};
+
+// The report as plain rows (header first), shared by the CSV and XLSX exports
+export const reportToTable = (report: AttendanceReport): string[][] => [
+  [
+    'رقم الطالب',
+    'الاسم',
+    'الشعبة',
+    ...report.sessions.map((session) => session.label),
+    ...ATTENDANCE_CELLS.map((cell) => CELL_LABELS[cell]),
+    'خروج مبكر',
+    'تسجيلات للمراجعة',
+    'نسبة الحضور',
+  ],
+  ...report.rows.map((row) => [
+    row.student_id,
+    row.full_name,
+    row.section || '',
+    ...row.cells.map((cell) => CELL_LABELS[cell]),
+    ...ATTENDANCE_CELLS.map((cell) => String(row.totals[cell])),
+    String(row.early_leaves),
+    String(row.flags.filter((cellFlags) => cellFlags.length > 0).length),
+    row.rate !== null ? `${row.rate}%` : '',
+  ]),
+];
+
+const CELL_FILLS: Record<AttendanceCell, string> = {
+  present: 'FFC6EFCE',
+  late: 'FFFFEB9C',
+  absent: 'FFFFC7CE',
+  excused: 'FFDDEBF7',
+};
+
+export const reportToXlsx = async (report: AttendanceReport): Promise<Uint8Array> => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(report.course.code.substring(0, 31), { views: [{ rightToLeft: true, state: 'frozen', xSplit: 3, ySplit: 1 }] });
+  const table = reportToTable(report);
+
+  table.forEach((values) => worksheet.addRow(values.map(neutralizeFormula)));
+  worksheet.getRow(1).font = { bold: true };
+
+  // Colour the status cells like the reports page
+  report.rows.forEach((row, rowIndex) => {
+    row.cells.forEach((cell, cellIndex) => {
+      worksheet.getCell(rowIndex + 2, cellIndex + 4).fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: CELL_FILLS[cell] },
+      };
+    });
+  });
+
+  worksheet.columns.forEach((column, index) => {
+    column.width = index === 1 ? 28 : 14;
+  });
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+};
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface Room {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Catalog room for the free-text room typed when opening a session, matched ignoring case
+export const findRoomByName = async (supabase: SupabaseClient, name: string | null): Promise<Room | null> => {
+  if (!name) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('*')
+    .ilike('name', name.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Room | null;
+};
@@ -0,0 +1,122 @@
+import ExcelJS from 'exceljs';
+import { parseCsv } from './csv.ts';
+
+export interface RosterRow {
+  row: number;
+  student_id: string;
+  full_name: string;
+  section: string | null;
+}
+
+export interface RosterIssue {
+  row: number;
+  student_id?: string;
+  reason: string;
+}
+
+export interface ParsedRoster {
+  rows: RosterRow[];
+  duplicates: RosterIssue[];
+  malformed: RosterIssue[];
+}
+
+type RosterColumn = 'student_id' | 'full_name' | 'section';
+
+// Accepted header spellings, compared after lowercasing and removing spaces, dashes and underscores
+const HEADER_ALIASES: Record<RosterColumn, string[]> = {
+  student_id: ['studentid', 'id', 'studentnumber', 'رقمالطالب', 'رقمالهوية', 'الرقم'],
+  full_name: ['fullname', 'name', 'studentname', 'الاسم', 'اسمالطالب', 'الاسمالكامل'],
+  section: ['section', 'group', 'الشعبة', 'المجموعة', 'السكشن'],
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_\-.]/g, '');
+
+const STUDENT_ID_PATTERN = /^[A-Za-z0-9/_-]{1,50}$/;
+
+const isXlsx = (bytes: Uint8Array): boolean => bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK" zip header
+
+const readXlsx = async (bytes: Uint8Array): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const values: string[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      values.push(row.getCell(col).text ?? '');
+    }
+    rows.push(values);
+  }
+  return rows;
+};
+
+// Parse a CSV or XLSX roster. Row numbers in the report are 1-based spreadsheet rows.
+export const parseRosterFile = async (bytes: Uint8Array): Promise<ParsedRoster> => {
+  const table = isXlsx(bytes) ? await readXlsx(bytes) : parseCsv(new TextDecoder().decode(bytes));
+
+  const headerIndex = table.findIndex((cells) => cells.some((cell) => cell.trim() !== ''));
+  if (headerIndex === -1) {
+    throw new Error('The file is empty');
+  }
+
+  const headers = table[headerIndex].map(normalizeHeader);
+  const columns = {} as Record<RosterColumn, number>;
+  (Object.keys(HEADER_ALIASES) as RosterColumn[]).forEach((column) => {
+    columns[column] = headers.findIndex((header) => HEADER_ALIASES[column].includes(header));
+  });
+
+  if (columns.student_id === -1 || columns.full_name === -1) {
+    throw new Error('Missing required columns: student ID and full name');
+  }
+
+  const result: ParsedRoster = { rows: [], duplicates: [], malformed: [] };
+  const seen = new Map<string, number>();
+
+  table.slice(headerIndex + 1).forEach((cells, offset) => {
+    const row = headerIndex + offset + 2;
+    if (cells.every((cell) => cell.trim() === '')) {
+      return;
+    }
+
+    const studentId = (cells[columns.student_id] ?? '').trim();
+    const fullName = (cells[columns.full_name] ?? '').trim().replace(/\s+/g, ' ');
+    const section = columns.section === -1 ? '' : (cells[columns.section] ?? '').trim();
+
+    if (!studentId) {
+      result.malformed.push({ row, reason: 'Missing student ID' });
+      return;
+    }
+
+    if (!STUDENT_ID_PATTERN.test(studentId)) {
+      result.malformed.push({ row, student_id: studentId, reason: 'Invalid student ID' });
+      return;
+    }
+
+    if (!fullName || fullName.length > 100) {
+      result.malformed.push({ row, student_id: studentId, reason: fullName ? 'Name is too long' : 'Missing full name' });
+      return;
+    }
+
+    if (section.length > 20) {
+      result.malformed.push({ row, student_id: studentId, reason: 'Section is too long' });
+      return;
+    }
+
+    const firstRow = seen.get(studentId);
+    if (firstRow !== undefined) {
+      result.duplicates.push({ row, student_id: studentId, reason: `Duplicate of row ${firstRow}` });
+      return;
+    }
+
+    seen.set(studentId, row);
+    result.rows.push({ row, student_id: studentId, full_name: fullName, section: section || null });
+  });
+
+  return result;
+};
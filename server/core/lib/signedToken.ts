@@ -0,0 +1,139 @@
+// HMAC-SHA256 signed QR tokens (and other small signed values such as admin session cookies).
+// Uses Web Crypto only so the same code runs on Node, Deno and edge runtimes.
+
+// 10 seconds to allow for network latency and scanning time
+export const TOKEN_TTL_MS = 10000;
+
+// Time a student has to fill in the form after the scanned token expires
+export const SUBMIT_GRACE_MS = 15 * 60 * 1000;
+
+// Tolerated clock drift between the instances that issue and verify tokens
+const CLOCK_SKEW_MS = 2000;
+
+export interface TokenPayload {
+  iat: number;
+  exp: number;
+  nonce: string;
+  // Lecture session the token was projected for
+  sid: string;
+  // Set on the QR projected at the end of a lecture to record when students leave
+  mode?: 'exit';
+}
+
+export type TokenMode = 'entry' | 'exit';
+
+export interface TokenVerification {
+  valid: boolean;
+  expired: boolean;
+  timeLeft: number;
+  payload?: TokenPayload;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const importKey = (secret: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+export const generateNonce = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+
+// Sign any JSON payload as `base64url(payload).base64url(hmac)`
+export const signPayload = async (secret: string, payload: object): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importKey(secret);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return `${body}.${toBase64Url(signature)}`;
+};
+
+// Decode a value produced by signPayload. Returns null unless the signature matches.
+export const readSignedPayload = async <T>(token: string, secret: string): Promise<T | null> => {
+  try {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const key = await importKey(secret);
+    const signatureOk = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body));
+    if (!signatureOk) {
+      return null;
+    }
+
+    return JSON.parse(decoder.decode(fromBase64Url(body))) as T;
+  } catch {
+    return null;
+  }
+};
+
+// Sign a fresh token for a lecture session, valid for TOKEN_TTL_MS from now
+export const issueSignedToken = async (
+  secret: string,
+  sessionId: string,
+  mode: TokenMode = 'entry',
+  now = Date.now()
+): Promise<{ token: string; payload: TokenPayload }> => {
+  const payload: TokenPayload = {
+    iat: now,
+    exp: now + TOKEN_TTL_MS,
+    nonce: generateNonce(),
+    sid: sessionId,
+    ...(mode === 'exit' ? { mode } : {}),
+  };
+
+  return { token: await signPayload(secret, payload), payload };
+};
+
+// Verify signature first, then timing. Never trust the payload of a token with a bad signature.
+// graceMs extends the expiry for steps that follow an already redeemed token (e.g. form submit).
+export const verifySignedToken = async (
+  token: string,
+  secret: string,
+  now = Date.now(),
+  graceMs = 0
+): Promise<TokenVerification> => {
+  const invalid: TokenVerification = { valid: false, expired: false, timeLeft: 0 };
+
+  const payload = await readSignedPayload<TokenPayload>(token, secret);
+  if (
+    !payload ||
+    typeof payload.iat !== 'number' ||
+    typeof payload.exp !== 'number' ||
+    typeof payload.nonce !== 'string' ||
+    typeof payload.sid !== 'string' ||
+    (payload.mode !== undefined && payload.mode !== 'exit')
+  ) {
+    return invalid;
+  }
+
+  if (payload.iat > now + CLOCK_SKEW_MS) {
+    return invalid;
+  }
+
+  const deadline = payload.exp + graceMs;
+  if (now > deadline) {
+    return { valid: false, expired: true, timeLeft: 0, payload };
+  }
+
+  return { valid: true, expired: false, timeLeft: deadline - now, payload };
+};
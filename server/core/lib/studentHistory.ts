@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AttendanceCell } from './reports.ts';
+import type { ExcuseStatus } from './excuses.ts';
+
+export interface StudentSessionEntry {
+  id: string;
+  starts_at: string;
+  week_number: number | null;
+  status: AttendanceCell;
+  // Set by an admin by hand, or by an approved excuse
+  corrected: boolean;
+  // When the QR scan was recorded, if there was one
+  recorded_at: string | null;
+}
+
+export interface StudentExcuse {
+  id: string;
+  session_id: string;
+  reason: string;
+  status: ExcuseStatus;
+  review_note: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface StudentCourseHistory {
+  course: { id: string; code: string; name: string; absence_limit: number | null };
+  // Newest first
+  sessions: StudentSessionEntry[];
+  totals: Record<AttendanceCell, number>;
+  // Present or late, out of the sessions not excused; null before the first session
+  rate: number | null;
+  excuses: StudentExcuse[];
+}
+
+export interface StudentHistory {
+  full_name: string | null;
+  courses: StudentCourseHistory[];
+}
+
+// Everything the student history page shows. Every query is filtered by studentId, which comes
+// from the student's session, never from the request body.
+export const getStudentHistory = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  now = Date.now()
+): Promise<StudentHistory> => {
+  const { data: enrollments, error: enrollmentError } = await supabase
+    .from('enrollments')
+    .select('course_id, full_name, courses(id, code, name, absence_limit)')
+    .eq('student_id', studentId);
+
+  if (enrollmentError) {
+    throw enrollmentError;
+  }
+
+  // Many-to-one embed: a single object, although the untyped client declares an array
+  const courses = (enrollments || [])
+    .map((row) => row.courses as unknown as StudentCourseHistory['course'] | null)
+    .filter((course): course is StudentCourseHistory['course'] => course !== null)
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  if (courses.length === 0) {
+    return { full_name: enrollments?.[0]?.full_name ?? null, courses: [] };
+  }
+
+  const { data: sessions, error: sessionError } = await supabase
+    .from('lecture_sessions')
+    .select('id, course_id, starts_at, week_number')
+    .in('course_id', courses.map((course) => course.id))
+    .lte('starts_at', new Date(now).toISOString())
+    .order('starts_at', { ascending: false });
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  const sessionIds = (sessions || []).map((session) => session.id);
+  const records = new Map<string, { status: AttendanceCell; recorded_at: string }>();
+  const corrections = new Map<string, AttendanceCell>();
+  let excuses: StudentExcuse[] = [];
+
+  if (sessionIds.length > 0) {
+    const [
+      { data: recordRows, error: recordsError },
+      { data: correctionRows, error: correctionsError },
+      { data: excuseRows, error: excusesError },
+    ] = await Promise.all([
+      supabase
+        .from('attendance_records')
+        .select('session_id, status, recorded_at')
+        .eq('student_id', studentId)
+        .in('session_id', sessionIds),
+      supabase
+        .from('attendance_corrections')
+        .select('session_id, status')
+        .eq('student_id', studentId)
+        .in('session_id', sessionIds),
+      supabase
+        .from('excuse_requests')
+        .select('id, session_id, reason, status, review_note, created_at, reviewed_at')
+        .eq('student_id', studentId)
+        .in('session_id', sessionIds)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (recordsError) {
+      throw recordsError;
+    }
+
+    if (correctionsError) {
+      throw correctionsError;
+    }
+
+    if (excusesError) {
+      throw excusesError;
+    }
+
+    for (const record of recordRows || []) {
+      records.set(record.session_id, { status: record.status as AttendanceCell, recorded_at: record.recorded_at });
+    }
+
+    for (const correction of correctionRows || []) {
+      corrections.set(correction.session_id, correction.status as AttendanceCell);
+    }
+
+    excuses = (excuseRows || []) as StudentExcuse[];
+  }
+
+  return {
+    full_name: enrollments?.[0]?.full_name ?? null,
+    courses: courses.map((course) => {
+      const totals: Record<AttendanceCell, number> = { present: 0, late: 0, absent: 0, excused: 0 };
+
+      const entries = (sessions || [])
+        .filter((session) => session.course_id === course.id)
+        .map((session): StudentSessionEntry => {
+          const record = records.get(session.id);
+          // Manual corrections win over what was scanned, as in the reports
+          const status = corrections.get(session.id) ?? record?.status ?? 'absent';
+          totals[status] += 1;
+
+          return {
+            id: session.id,
+            starts_at: session.starts_at,
+            week_number: session.week_number,
+            status,
+            corrected: corrections.has(session.id),
+            recorded_at: record?.recorded_at ?? null,
+          };
+        });
+
+      const counted = entries.length - totals.excused;
+      const ids = new Set(entries.map((entry) => entry.id));
+
+      return {
+        course,
+        sessions: entries,
+        totals,
+        rate: counted > 0 ? Math.round(((totals.present + totals.late) / counted) * 100) : null,
+        excuses: excuses.filter((excuse) => ids.has(excuse.session_id)),
+      };
+    }),
+  };
+};
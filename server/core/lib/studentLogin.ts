@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateNonce } from './signedToken.ts';
+import { constantTimeEqual } from './totp.ts';
+
+// A code (and its magic link) is good for this long
+export const LOGIN_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Wrong guesses allowed against one code before it is burned
+export const LOGIN_CODE_MAX_ATTEMPTS = 5;
+
+// Codes sent to one student ID per window, so the form cannot be used to spam a student
+export const LOGIN_CODE_LIMIT = 3;
+export const LOGIN_CODE_WINDOW_MS = 15 * 60 * 1000;
+
+interface LoginCodeRow {
+  id: string;
+  student_id: string;
+  code_hash: string;
+  attempts: number;
+}
+
+const encoder = new TextEncoder();
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Six digits, drawn without modulo bias
+const generateCode = (): string => {
+  const values = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(values);
+  } while (values[0] >= 4_294_000_000);
+
+  return String(values[0] % 1_000_000).padStart(6, '0');
+};
+
+// A code works once, even when the code and its link are submitted at the same moment
+const markUsed = async (supabase: SupabaseClient, id: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('student_login_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+};
+
+// Create a code and magic link token for a student. Returns null when the student already had
+// LOGIN_CODE_LIMIT codes sent within the window.
+export const issueLoginCode = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  now = Date.now()
+): Promise<{ code: string; link: string } | null> => {
+  const { count, error: countError } = await supabase
+    .from('student_login_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('student_id', studentId)
+    .gte('created_at', new Date(now - LOGIN_CODE_WINDOW_MS).toISOString());
+
+  if (countError) {
+    throw countError;
+  }
+
+  if ((count ?? 0) >= LOGIN_CODE_LIMIT) {
+    return null;
+  }
+
+  // A new code replaces any earlier one that was not used
+  const { error: expireError } = await supabase
+    .from('student_login_codes')
+    .update({ expires_at: new Date(now).toISOString() })
+    .eq('student_id', studentId)
+    .is('used_at', null)
+    .gt('expires_at', new Date(now).toISOString());
+
+  if (expireError) {
+    throw expireError;
+  }
+
+  const code = generateCode();
+  const link = generateNonce();
+
+  const { error } = await supabase
+    .from('student_login_codes')
+    .insert({
+      student_id: studentId,
+      code_hash: await sha256Hex(code),
+      link_hash: await sha256Hex(link),
+      expires_at: new Date(now + LOGIN_CODE_TTL_MS).toISOString(),
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return { code, link };
+};
+
+// Check a typed code against the student's live code. Resolves true once, on the right code.
+export const redeemLoginCode = async (
+  supabase: SupabaseClient,
+  studentId: string,
+  code: string,
+  now = Date.now()
+): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('student_login_codes')
+    .select('id, student_id, code_hash, attempts')
+    .eq('student_id', studentId)
+    .is('used_at', null)
+    .gt('expires_at', new Date(now).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data as LoginCodeRow | null;
+
+  if (!row || row.attempts >= LOGIN_CODE_MAX_ATTEMPTS) {
+    return false;
+  }
+
+  // Count the attempt before checking it. The update is conditional on the count read above, so of
+  // several guesses sent in parallel only one is checked and the rest are simply rejected.
+  const { data: counted, error: attemptError } = await supabase
+    .from('student_login_codes')
+    .update({ attempts: row.attempts + 1 })
+    .eq('id', row.id)
+    .eq('attempts', row.attempts)
+    .select('id');
+
+  if (attemptError) {
+    throw attemptError;
+  }
+
+  if ((counted || []).length === 0 || !constantTimeEqual(await sha256Hex(code), row.code_hash)) {
+    return false;
+  }
+
+  return markUsed(supabase, row.id);
+};
+
+// Resolve a magic link token to its student ID, consuming the code behind it
+export const redeemLoginLink = async (
+  supabase: SupabaseClient,
+  link: string,
+  now = Date.now()
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('student_login_codes')
+    .select('id, student_id, code_hash, attempts')
+    .eq('link_hash', await sha256Hex(link))
+    .is('used_at', null)
+    .gt('expires_at', new Date(now).toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data as LoginCodeRow | null;
+
+  if (!row || !(await markUsed(supabase, row.id))) {
+    return null;
+  }
+
+  return row.student_id;
+};
@@ -0,0 +1,67 @@
+import type { CoreEnv } from '../context.ts';
+import { json, type CoreResponse } from '../http.ts';
+
+export interface StudentRecipient {
+  student_id: string;
+  full_name: string;
+  // null for messages that are not about one course, such as sign-in codes
+  course_id: string | null;
+}
+
+// Delivers a plain-text message to one student. Resolves false when it could not be delivered.
+export interface StudentNotifier {
+  name: string;
+  notify: (recipient: StudentRecipient, text: string) => Promise<boolean>;
+}
+
+// Hands every message to an external service (SMS gateway, LMS, mail relay...) as JSON
+const webhookNotifier = (env: CoreEnv): StudentNotifier | null => {
+  const url = env.STUDENT_NOTIFIER_WEBHOOK_URL;
+
+  if (!url) {
+    return null;
+  }
+
+  return {
+    name: 'webhook',
+    notify: async (recipient, text) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(env.STUDENT_NOTIFIER_WEBHOOK_SECRET ? { Authorization: `Bearer ${env.STUDENT_NOTIFIER_WEBHOOK_SECRET}` } : {}),
+        },
+        body: JSON.stringify({ ...recipient, text }),
+      });
+
+      if (!response.ok) {
+        console.error('[Student Notifier] Webhook failed:', response.status);
+      }
+
+      return response.ok;
+    },
+  };
+};
+
+// Available notifiers by STUDENT_NOTIFIER value; a factory returns null when its configuration is missing
+const notifiers: Record<string, (env: CoreEnv) => StudentNotifier | null> = {
+  webhook: webhookNotifier,
+};
+
+// null when no channel can reach students. Messages carry sign-in codes and links, so they are
+// never written to the log instead: callers report the failure.
+export const getStudentNotifier = (env: CoreEnv): StudentNotifier | null => {
+  const name = env.STUDENT_NOTIFIER || 'webhook';
+  const notifier = notifiers[name]?.(env) ?? null;
+
+  if (!notifier) {
+    console.error(`[Student Notifier] "${name}" is unknown or not configured`);
+  }
+
+  return notifier;
+};
+
+export const studentNotifierConfigMissing = (): CoreResponse => json(500, {
+  success: false,
+  error: 'Student notifier is not configured. Set STUDENT_NOTIFIER and its settings in the server environment.'
+});
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { json, type CoreRequest, type CoreResponse } from '../http.ts';
+import type { CoreContext } from '../context.ts';
+import { createCookieSessions, withCookieSession, type SessionRow } from './cookieSession.ts';
+
+export const STUDENT_SESSION_COOKIE = 'qr_student_session';
+
+// Students check their history now and then from their own phone, so a sign-in lasts a week
+export const STUDENT_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthenticatedStudent {
+  student_id: string;
+  // student_sessions row behind the cookie
+  sessionId: string;
+}
+
+export type StudentContext = CoreContext & { supabase: SupabaseClient; student: AuthenticatedStudent };
+
+const studentSessions = createCookieSessions({
+  table: 'student_sessions',
+  ownerColumn: 'student_id',
+  cookie: STUDENT_SESSION_COOKIE,
+  ttlMs: STUDENT_SESSION_TTL_MS,
+});
+
+export const studentSessionConfigMissing = (): CoreResponse => {
+  console.error('Missing session configuration - STUDENT_SESSION_SECRET');
+  return json(500, {
+    success: false,
+    error: 'Session configuration is missing. Add STUDENT_SESSION_SECRET to the server environment.'
+  });
+};
+
+// Start a session row and answer with the signed cookie for it
+export const studentSignedInResponse = async (
+  supabase: SupabaseClient,
+  secret: string,
+  studentId: string,
+  req: CoreRequest
+): Promise<CoreResponse> => {
+  const { cookie, expiresAt } = await studentSessions.create(supabase, secret, studentId, req);
+
+  return json(200, { success: true, student: { studentId }, expiresAt }, { 'Set-Cookie': cookie, 'Cache-Control': 'no-store' });
+};
+
+export const clearStudentSessionCookie = studentSessions.clearCookie;
+
+// Resolve the signed-in student from the request cookie; the session row must still be live
+export const getStudentSession = async (
+  supabase: SupabaseClient,
+  secret: string,
+  req: CoreRequest,
+  now = Date.now()
+): Promise<AuthenticatedStudent | null> => {
+  const session = await studentSessions.find<SessionRow & { student_id: string }>(supabase, secret, req, 'student_id', now);
+
+  return session ? { student_id: session.student_id, sessionId: session.id } : null;
+};
+
+export const revokeStudentSession = studentSessions.revoke;
+
+const studentGuard = withCookieSession(
+  (env) => env.STUDENT_SESSION_SECRET,
+  studentSessionConfigMissing,
+  (supabase, secret, req) => getStudentSession(supabase, secret, req),
+  'Student sign-in required'
+);
+
+// Guard for student endpoints: answers 401 unless the request carries a live student session.
+// Handlers behind it must filter every query by ctx.student.student_id.
+export const withStudent = <TBody>(handle: (req: CoreRequest<TBody>, ctx: StudentContext) => Promise<CoreResponse>) =>
+  studentGuard<TBody>((req, ctx, student) => handle(req, { ...ctx, student }));
@@ -0,0 +1,65 @@
+import type { CoreEnv } from '../context.ts';
+import type { LectureSession } from './lectureSessions.ts';
+
+export interface AttendanceMessage {
+  session: LectureSession;
+  studentName: string;
+  studentId: string;
+  status: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  present: '✅ في الموعد',
+  late: '⏰ متأخر',
+};
+
+export const formatAttendanceMessage = ({ session, studentName, studentId, status }: AttendanceMessage): string => {
+  const week = session.week_number !== null ? String(session.week_number) : '-';
+
+  return `🔐 *تسجيل حضور جديد*\n\n` +
+    `📚 *المادة:* ${session.course}\n` +
+    `👤 *الاسم:* ${studentName}\n` +
+    `🆔 *رقم الهوية:* ${studentId}\n` +
+    `⏱ *الحالة:* ${STATUS_LABELS[status] || status}\n` +
+    `📅 *الأسبوع:* ${week}\n` +
+    `🏫 *القاعة:* ${session.room || '-'}\n` +
+    `👨‍🏫 *المحاضر:* ${session.instructor}\n` +
+    `🕐 *التوقيت:* ${new Date().toLocaleString('ar-EG', { timeZone: 'Africa/Cairo' })}\n` +
+    `━━━━━━━━━━━━━━━━`;
+};
+
+export const isTelegramConfigured = (env: CoreEnv): boolean =>
+  !!env.TELEGRAM_BOT_TOKEN && !!env.TELEGRAM_CHAT_ID;
+
+// Send a Markdown message to the configured chat, or to chatId when given.
+// Resolves with Telegram's error description on failure.
+export const sendTelegramMessage = async (
+  env: CoreEnv,
+  text: string,
+  chatId?: string | null
+): Promise<{ ok: boolean; description?: string }> => {
+  const TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
+  const TELEGRAM_CHAT_ID = chatId || env.TELEGRAM_CHAT_ID;
+
+  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
+    return { ok: false, description: 'Telegram configuration is missing' };
+  }
+
+  const telegramUrl = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`;
+  const telegramResponse = await fetch(telegramUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      chat_id: TELEGRAM_CHAT_ID,
+      text,
+      parse_mode: 'Markdown',
+    }),
+  });
+
+  const telegramResult = await telegramResponse.json();
+  console.log('Telegram API response:', telegramResult);
+
+  return { ok: !!telegramResult.ok, description: telegramResult.description };
+};
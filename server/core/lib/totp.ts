@@ -0,0 +1,141 @@
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second steps), the variant
+// every authenticator app supports. Web Crypto only, like signedToken.ts.
+
+export const TOTP_PERIOD_S = 30;
+export const TOTP_DIGITS = 6;
+
+// Steps accepted on either side of the current one, for clock drift and slow typing
+const TOTP_WINDOW = 1;
+
+const ISSUER = 'QR Pulse Pass';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const encoder = new TextEncoder();
+
+const toBase32 = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const fromBase32 = (value: string): Uint8Array => {
+  const clean = value.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let buffer = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Uint8Array.from(bytes);
+};
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (): string => toBase32(crypto.getRandomValues(new Uint8Array(20)));
+
+// otpauth:// URI that authenticator apps read from a QR code
+export const getTotpUri = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_S),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+export const getTotpStep = (now = Date.now()): number => Math.floor(now / 1000 / TOTP_PERIOD_S);
+
+export const generateTotp = async (secret: string, step: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+
+  // 8-byte big-endian counter
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 0x100000000));
+  counter.setUint32(4, step >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// The time step the code belongs to, or null when it matches none in the window.
+// Callers must record the step so the same code cannot be replayed.
+export const findTotpStep = async (secret: string, code: string, now = Date.now()): Promise<number | null> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = getTotpStep(now);
+  let matched: number | null = null;
+
+  // Check every step in the window so timing does not reveal which one matched
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (constantTimeEqual(await generateTotp(secret, step), normalized)) {
+      matched = step;
+    }
+  }
+
+  return matched;
+};
+
+// Recovery codes look like `k7m2q-x9p4t`: 50 bits each, typed by hand when the phone is lost
+export const generateRecoveryCodes = (count = 10): string[] =>
+  Array.from({ length: count }, () => {
+    const code = toBase32(crypto.getRandomValues(new Uint8Array(7))).substring(0, 10).toLowerCase();
+    return `${code.substring(0, 5)}-${code.substring(5)}`;
+  });
+
+export const hashRecoveryCode = async (code: string): Promise<string> => {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(normalized)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
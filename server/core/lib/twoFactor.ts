@@ -0,0 +1,93 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { readSignedPayload, signPayload } from './signedToken.ts';
+import { findTotpStep, generateRecoveryCodes, hashRecoveryCode } from './totp.ts';
+
+// Time between a correct password and the second step of the login
+export const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+interface MfaChallengePayload {
+  // admins.id that passed the password check
+  mfa: string;
+  exp: number;
+}
+
+// Signed with the session secret; carries no `sid`, so it can never pass as a session cookie
+export const issueMfaChallenge = (secret: string, adminId: string, now = Date.now()): Promise<string> =>
+  signPayload(secret, { mfa: adminId, exp: now + MFA_CHALLENGE_TTL_MS } satisfies MfaChallengePayload);
+
+export const readMfaChallenge = async (secret: string, challenge: string, now = Date.now()): Promise<string | null> => {
+  const payload = await readSignedPayload<MfaChallengePayload>(challenge, secret);
+
+  if (!payload || typeof payload.mfa !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) {
+    return null;
+  }
+
+  return payload.mfa;
+};
+
+// Accept a TOTP code at most once: the step is recorded with a conditional update,
+// so two requests racing with the same code cannot both succeed.
+export const verifyAndConsumeTotp = async (
+  supabase: SupabaseClient,
+  adminId: string,
+  secret: string,
+  code: string
+): Promise<boolean> => {
+  const step = await findTotpStep(secret, code);
+
+  if (step === null) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('admins')
+    .update({ totp_last_step: step })
+    .eq('id', adminId)
+    .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+};
+
+export const consumeRecoveryCode = async (supabase: SupabaseClient, adminId: string, code: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('admin_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('admin_id', adminId)
+    .eq('code_hash', await hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+};
+
+// Invalidate any previous recovery codes and return a fresh set (shown to the admin once)
+export const replaceRecoveryCodes = async (supabase: SupabaseClient, adminId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  const { error: deleteError } = await supabase
+    .from('admin_recovery_codes')
+    .delete()
+    .eq('admin_id', adminId);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  const rows = await Promise.all(codes.map(async (code) => ({ admin_id: adminId, code_hash: await hashRecoveryCode(code) })));
+  const { error } = await supabase.from('admin_recovery_codes').insert(rows);
+
+  if (error) {
+    throw error;
+  }
+
+  return codes;
+};
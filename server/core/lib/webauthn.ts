@@ -0,0 +1,457 @@
+// WebAuthn checks for passkeys made by platform authenticators (phone or laptop unlock):
+// registration with "none" attestation and assertions signed with ES256 or RS256 keys.
+// Web Crypto only, like signedToken.ts.
+import type { CoreEnv } from '../context.ts';
+import type { CoreRequest } from '../http.ts';
+import { fromBase64Url, toBase64Url } from './signedToken.ts';
+
+// COSE algorithm identifiers, in the order offered to the browser
+export const PASSKEY_ALGORITHMS = [-7, -257];
+
+const COSE_ES256 = -7;
+const COSE_RS256 = -257;
+
+// Bits of the authenticator data flags byte
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// Far above what a platform authenticator sends; anything larger is not worth decoding
+const MAX_FIELD_LENGTH = 16384;
+
+export interface RelyingParty {
+  // Exact origin the browser must report, e.g. https://attendance.example.edu
+  origin: string;
+  // Host name credentials are scoped to
+  id: string;
+}
+
+export interface RegisteredCredential {
+  credentialId: string;
+  publicKey: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+}
+
+export interface StoredCredential {
+  public_key: JsonWebKey;
+  algorithm: number;
+  rp_id: string;
+  sign_count: number;
+}
+
+// As sent by the browser, every binary field base64url encoded
+export interface RegistrationResponse {
+  id: string;
+  client_data: string;
+  attestation_object: string;
+}
+
+export interface AssertionResponse {
+  id: string;
+  client_data: string;
+  authenticator_data: string;
+  signature: string;
+}
+
+type CborValue = number | string | boolean | null | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Minimal CBOR reader: definite-length items only, which is all WebAuthn uses
+const decodeCbor = (bytes: Uint8Array, start = 0): { value: CborValue; end: number } => {
+  let offset = start;
+
+  const readLength = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : 0;
+
+    if (!size || offset + size > bytes.length) {
+      throw new Error('Unsupported CBOR length');
+    }
+
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + bytes[offset + i];
+    }
+    offset += size;
+    return value;
+  };
+
+  const readItem = (): CborValue => {
+    if (offset >= bytes.length) {
+      throw new Error('Truncated CBOR');
+    }
+
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 31;
+
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      throw new Error('Unsupported CBOR simple value');
+    }
+
+    const length = readLength(info);
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return -1 - length;
+      case 2:
+      case 3: {
+        if (offset + length > bytes.length) {
+          throw new Error('Truncated CBOR');
+        }
+        const chunk = bytes.slice(offset, offset + length);
+        offset += length;
+        return major === 2 ? chunk : decoder.decode(chunk);
+      }
+      case 4:
+        return Array.from({ length }, () => readItem());
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      default:
+        throw new Error('Unsupported CBOR type');
+    }
+  };
+
+  const value = readItem();
+  return { value, end: offset };
+};
+
+const sha256 = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const decodeField = (value: unknown): Uint8Array | null => {
+  if (typeof value !== 'string' || !value || value.length > MAX_FIELD_LENGTH) {
+    return null;
+  }
+
+  try {
+    return fromBase64Url(value);
+  } catch {
+    return null;
+  }
+};
+
+// The origin credentials are created for: PUBLIC_APP_URL when set, otherwise the page that sent
+// the request. Either way the browser has already bound the credential to that origin's host.
+export const getRelyingParty = (req: CoreRequest, env: CoreEnv): RelyingParty | null => {
+  const source = env.PUBLIC_APP_URL || req.headers.origin;
+
+  if (!source) {
+    return null;
+  }
+
+  try {
+    const url = new URL(source);
+    return { origin: url.origin, id: url.hostname };
+  } catch {
+    return null;
+  }
+};
+
+// Both ceremonies start the same way: the browser's client data must name the ceremony,
+// echo our challenge and come from our origin
+const checkClientData = (
+  clientData: Uint8Array,
+  type: 'webauthn.create' | 'webauthn.get',
+  challenge: string,
+  rp: RelyingParty
+): string | null => {
+  let parsed: { type?: unknown; challenge?: unknown; origin?: unknown; crossOrigin?: unknown };
+
+  try {
+    parsed = JSON.parse(decoder.decode(clientData));
+  } catch {
+    return 'Malformed client data';
+  }
+
+  if (parsed.type !== type) {
+    return 'Wrong ceremony type';
+  }
+
+  if (parsed.challenge !== challenge) {
+    return 'Challenge mismatch';
+  }
+
+  if (parsed.origin !== rp.origin || parsed.crossOrigin === true) {
+    return 'Origin mismatch';
+  }
+
+  return null;
+};
+
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  credentialId?: Uint8Array;
+  publicKey?: Map<CborValue, CborValue>;
+}
+
+const parseAuthenticatorData = (bytes: Uint8Array): AuthenticatorData => {
+  if (bytes.length < 37) {
+    throw new Error('Truncated authenticator data');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    flags: bytes[32],
+    signCount: view.getUint32(33),
+  };
+
+  if (data.flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16 bytes of authenticator model (AAGUID), then the credential ID and its COSE key
+    if (bytes.length < 55) {
+      throw new Error('Truncated attested credential');
+    }
+
+    const idLength = view.getUint16(53);
+    data.credentialId = bytes.slice(55, 55 + idLength);
+
+    const { value } = decodeCbor(bytes, 55 + idLength);
+
+    if (data.credentialId.length !== idLength || !(value instanceof Map)) {
+      throw new Error('Malformed attested credential');
+    }
+
+    data.publicKey = value;
+  }
+
+  return data;
+};
+
+// COSE key (RFC 9053) to the JWK Web Crypto imports
+const coseToJwk = (key: Map<CborValue, CborValue>): { jwk: JsonWebKey; algorithm: number } | null => {
+  const kty = key.get(1);
+  const algorithm = key.get(3);
+
+  if (kty === 2 && algorithm === COSE_ES256 && key.get(-1) === 1) {
+    const x = key.get(-2);
+    const y = key.get(-3);
+
+    if (x instanceof Uint8Array && y instanceof Uint8Array) {
+      return { jwk: { kty: 'EC', crv: 'P-256', x: toBase64Url(x), y: toBase64Url(y) }, algorithm };
+    }
+  }
+
+  if (kty === 3 && algorithm === COSE_RS256) {
+    const n = key.get(-1);
+    const e = key.get(-2);
+
+    if (n instanceof Uint8Array && e instanceof Uint8Array) {
+      return { jwk: { kty: 'RSA', n: toBase64Url(n), e: toBase64Url(e) }, algorithm };
+    }
+  }
+
+  return null;
+};
+
+const importPublicKey = (jwk: JsonWebKey, algorithm: number): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    algorithm === COSE_ES256 ? { name: 'ECDSA', namedCurve: 'P-256' } : { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+// Authenticators send ECDSA signatures DER encoded; Web Crypto wants r and s side by side
+const derToRawSignature = (der: Uint8Array): Uint8Array | null => {
+  if (der[0] !== 0x30) {
+    return null;
+  }
+
+  let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+  const raw = new Uint8Array(64);
+
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) {
+      return null;
+    }
+
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+
+    // Drop the sign byte DER adds to values with the high bit set
+    while (value.length > 32 && value[0] === 0) {
+      value = value.slice(1);
+    }
+
+    if (value.length > 32) {
+      return null;
+    }
+
+    raw.set(value, part * 32 + (32 - value.length));
+  }
+
+  return raw;
+};
+
+// Check a new credential from navigator.credentials.create(). The attestation statement is not
+// checked: the credential is trusted because the student signed in to register it.
+export const verifyRegistration = async (
+  response: RegistrationResponse,
+  challenge: string,
+  rp: RelyingParty
+): Promise<{ credential: RegisteredCredential } | { error: string }> => {
+  const clientData = decodeField(response.client_data);
+  const attestationObject = decodeField(response.attestation_object);
+
+  if (!clientData || !attestationObject) {
+    return { error: 'Missing registration fields' };
+  }
+
+  const clientDataError = checkClientData(clientData, 'webauthn.create', challenge, rp);
+
+  if (clientDataError) {
+    return { error: clientDataError };
+  }
+
+  let authData: AuthenticatorData;
+
+  try {
+    const { value } = decodeCbor(attestationObject);
+    const authDataBytes = value instanceof Map ? value.get('authData') : null;
+
+    if (!(authDataBytes instanceof Uint8Array)) {
+      return { error: 'Malformed attestation object' };
+    }
+
+    authData = parseAuthenticatorData(authDataBytes);
+  } catch (parseError) {
+    return { error: parseError instanceof Error ? parseError.message : 'Malformed attestation object' };
+  }
+
+  if (!bytesEqual(authData.rpIdHash, await sha256(encoder.encode(rp.id)))) {
+    return { error: 'Relying party mismatch' };
+  }
+
+  if (!(authData.flags & FLAG_USER_PRESENT) || !(authData.flags & FLAG_USER_VERIFIED)) {
+    return { error: 'User was not verified' };
+  }
+
+  if (!authData.credentialId || !authData.publicKey) {
+    return { error: 'No credential in attestation' };
+  }
+
+  const credentialId = toBase64Url(authData.credentialId);
+
+  if (credentialId !== response.id) {
+    return { error: 'Credential ID mismatch' };
+  }
+
+  const key = coseToJwk(authData.publicKey);
+
+  if (!key) {
+    return { error: 'Unsupported key type' };
+  }
+
+  // Fails here rather than at the first check-in if the key is unusable
+  try {
+    await importPublicKey(key.jwk, key.algorithm);
+  } catch {
+    return { error: 'Invalid public key' };
+  }
+
+  return { credential: { credentialId, publicKey: key.jwk, algorithm: key.algorithm, signCount: authData.signCount } };
+};
+
+// Check an assertion from navigator.credentials.get() against a stored credential.
+// Returns the authenticator's new signature counter.
+export const verifyAssertion = async (
+  response: AssertionResponse,
+  challenge: string,
+  rp: RelyingParty,
+  credential: StoredCredential
+): Promise<{ signCount: number } | { error: string }> => {
+  const clientData = decodeField(response.client_data);
+  const authDataBytes = decodeField(response.authenticator_data);
+  const signature = decodeField(response.signature);
+
+  if (!clientData || !authDataBytes || !signature) {
+    return { error: 'Missing assertion fields' };
+  }
+
+  if (credential.rp_id !== rp.id) {
+    return { error: 'Credential belongs to another host' };
+  }
+
+  const clientDataError = checkClientData(clientData, 'webauthn.get', challenge, rp);
+
+  if (clientDataError) {
+    return { error: clientDataError };
+  }
+
+  let authData: AuthenticatorData;
+
+  try {
+    authData = parseAuthenticatorData(authDataBytes);
+  } catch (parseError) {
+    return { error: parseError instanceof Error ? parseError.message : 'Malformed authenticator data' };
+  }
+
+  if (!bytesEqual(authData.rpIdHash, await sha256(encoder.encode(rp.id)))) {
+    return { error: 'Relying party mismatch' };
+  }
+
+  if (!(authData.flags & FLAG_USER_PRESENT) || !(authData.flags & FLAG_USER_VERIFIED)) {
+    return { error: 'User was not verified' };
+  }
+
+  const signed = new Uint8Array(authDataBytes.length + 32);
+  signed.set(authDataBytes);
+  signed.set(await sha256(clientData), authDataBytes.length);
+
+  const rawSignature = credential.algorithm === COSE_ES256 ? derToRawSignature(signature) : signature;
+
+  if (!rawSignature) {
+    return { error: 'Malformed signature' };
+  }
+
+  let valid = false;
+
+  try {
+    const key = await importPublicKey(credential.public_key, credential.algorithm);
+    valid = await crypto.subtle.verify(
+      credential.algorithm === COSE_ES256 ? { name: 'ECDSA', hash: 'SHA-256' } : { name: 'RSASSA-PKCS1-v1_5' },
+      key,
+      rawSignature,
+      signed
+    );
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { error: 'Invalid signature' };
+  }
+
+  // Authenticators that count must count up; a counter that went back means a copied credential.
+  // Synced passkeys always report 0 and are let through.
+  if ((authData.signCount > 0 || credential.sign_count > 0) && authData.signCount <= credential.sign_count) {
+    return { error: 'Signature counter did not increase' };
+  }
+
+  return { signCount: authData.signCount };
+};
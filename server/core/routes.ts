@@ -0,0 +1,87 @@
+import { json, type CoreHandler, type CoreRequest, type CoreResponse } from './http.ts';
+import type { CoreContext } from './context.ts';
+import { adminLogin } from './handlers/adminLogin.ts';
+import { adminLoginVerify } from './handlers/adminLoginVerify.ts';
+import { adminLogout } from './handlers/adminLogout.ts';
+import { adminSession } from './handlers/adminSession.ts';
+import { adminTwoFactor } from './handlers/adminTwoFactor.ts';
+import { adminUsers } from './handlers/adminUsers.ts';
+import { analytics } from './handlers/analytics.ts';
+import { attendanceCorrections } from './handlers/attendanceCorrections.ts';
+import { attendanceLive } from './handlers/attendanceLive.ts';
+import { attendanceReview } from './handlers/attendanceReview.ts';
+import { attendanceSheet, attendanceSheetPdf } from './handlers/attendanceSheet.ts';
+import { auditLog } from './handlers/auditLog.ts';
+import { checkDeviceCooldown } from './handlers/checkDeviceCooldown.ts';
+import { courses } from './handlers/courses.ts';
+import { excuseRequest } from './handlers/excuseRequest.ts';
+import { excuses } from './handlers/excuses.ts';
+import { issueToken } from './handlers/issueToken.ts';
+import { jobsAbsenceAlerts } from './handlers/jobsAbsenceAlerts.ts';
+import { lectureSessions } from './handlers/lectureSessions.ts';
+import { recordExit } from './handlers/recordExit.ts';
+import { reports } from './handlers/reports.ts';
+import { reportsExport } from './handlers/reportsExport.ts';
+import { rooms } from './handlers/rooms.ts';
+import { rosterImport } from './handlers/rosterImport.ts';
+import { sendToTelegram } from './handlers/sendToTelegram.ts';
+import { studentAttendance } from './handlers/studentAttendance.ts';
+import { studentDevice } from './handlers/studentDevice.ts';
+import { studentDevices } from './handlers/studentDevices.ts';
+import { studentLogin } from './handlers/studentLogin.ts';
+import { studentLoginVerify } from './handlers/studentLoginVerify.ts';
+import { studentLogout } from './handlers/studentLogout.ts';
+import { studentPasskeys } from './handlers/studentPasskeys.ts';
+import { studentSession } from './handlers/studentSession.ts';
+import { submitAttendance } from './handlers/submitAttendance.ts';
+import { verifyToken } from './handlers/verifyToken.ts';
+
+// Every endpoint, keyed by its path below /api
+export const routes: Record<string, CoreHandler> = {
+  'admin/login': adminLogin,
+  'admin/login/verify': adminLoginVerify,
+  'admin/logout': adminLogout,
+  'admin/session': adminSession,
+  'admin/two-factor': adminTwoFactor,
+  'admin/users': adminUsers,
+  'analytics': analytics,
+  'attendance/corrections': attendanceCorrections,
+  'attendance/live': attendanceLive,
+  'attendance/review': attendanceReview,
+  'attendance/sheet': attendanceSheet,
+  'attendance/sheet/pdf': attendanceSheetPdf,
+  'audit-log': auditLog,
+  'check-device-cooldown': checkDeviceCooldown,
+  'courses': courses,
+  'excuse-request': excuseRequest,
+  'excuses': excuses,
+  'issue-token': issueToken,
+  'jobs/absence-alerts': jobsAbsenceAlerts,
+  'lecture-sessions': lectureSessions,
+  'record-exit': recordExit,
+  'reports': reports,
+  'reports/export': reportsExport,
+  'rooms': rooms,
+  'roster/import': rosterImport,
+  'send-to-telegram': sendToTelegram,
+  'student-devices': studentDevices,
+  'student/attendance': studentAttendance,
+  'student/device': studentDevice,
+  'student/login': studentLogin,
+  'student/login/verify': studentLoginVerify,
+  'student/logout': studentLogout,
+  'student/passkeys': studentPasskeys,
+  'student/session': studentSession,
+  'submit-attendance': submitAttendance,
+  'verify-token': verifyToken,
+};
+
+export const dispatch = (req: CoreRequest, ctx: CoreContext): Promise<CoreResponse> => {
+  const handler = routes[req.path];
+
+  if (!handler) {
+    return Promise.resolve(json(404, { success: false, error: 'Not found' }));
+  }
+
+  return handler(req, ctx);
+};
@@ -0,0 +1,62 @@
+// Plain Node HTTP server exposing every /api route, for local development without a platform CLI.
+// Run with `npm run dev:api` (Node 22.6+); `npm run dev` proxies /api here.
+import { createServer, type IncomingMessage } from 'node:http';
+import { existsSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+import { json } from './core/http.ts';
+import { createContext } from './core/context.ts';
+import { dispatch } from './core/routes.ts';
+import { toCoreRequest, writeCoreResponse } from './adapters/node.ts';
+
+// Same order of magnitude as the hosted platforms' request size limits
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+
+// Server secrets live in .env.local, which is not committed
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RangeError('Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const body = await readJsonBody(req);
+    const response = await dispatch(toCoreRequest(req, body), createContext(process.env, createClient));
+    writeCoreResponse(res, response);
+    console.log(`[API] ${req.method} ${req.url} ${response.status}`);
+  } catch (error: unknown) {
+    const tooLarge = error instanceof RangeError;
+    writeCoreResponse(res, json(tooLarge ? 413 : 500, {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[API] Listening on http://localhost:${PORT}/api`);
+});
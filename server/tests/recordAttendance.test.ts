@@ -0,0 +1,108 @@
+// Concurrency check for the device cooldown against a real database: start a local Supabase
+// (`supabase start`, which applies the migrations) and run `npm run test:db` with SUPABASE_URL
+// and SUPABASE_SERVICE_ROLE_KEY set to its API URL and service role key.
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '@supabase/supabase-js';
+import { COOLDOWN_MINUTES } from '../core/lib/cooldown.ts';
+
+const PARALLEL_CALLS = 20;
+
+const url = process.env.SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = url && serviceKey
+  ? createClient(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } })
+  : null;
+
+const sessionIds: string[] = [];
+const deviceIds: string[] = [];
+
+const newDevice = (): string => {
+  const deviceId = `test-${crypto.randomUUID()}`;
+  deviceIds.push(deviceId);
+  return deviceId;
+};
+
+const newSession = async (): Promise<string> => {
+  const now = Date.now();
+  const { data, error } = await supabase!
+    .from('lecture_sessions')
+    .insert({
+      course: 'Cooldown test',
+      instructor: 'Test',
+      starts_at: new Date(now - 5 * 60 * 1000).toISOString(),
+      ends_at: new Date(now + 60 * 60 * 1000).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  sessionIds.push(data.id);
+  return data.id;
+};
+
+describe('device cooldown', { skip: supabase ? false : 'SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set' }, () => {
+  after(async () => {
+    if (!supabase) return;
+    if (sessionIds.length > 0) {
+      await supabase.from('attendance_records').delete().in('session_id', sessionIds);
+      await supabase.from('lecture_sessions').delete().in('id', sessionIds);
+    }
+    if (deviceIds.length > 0) {
+      await supabase.from('device_submissions').delete().in('device_id', deviceIds);
+    }
+  });
+
+  test('only one of many check-ins submitted from one device at once is recorded', async () => {
+    const sessionId = await newSession();
+    const deviceId = newDevice();
+
+    // Different students, so only the cooldown (not the one-record-per-student rule) can stop them
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CALLS }, async (_, i) => {
+        const { data, error } = await supabase!.rpc('record_attendance', {
+          p_session_id: sessionId,
+          p_student_id: `test-student-${i}`,
+          p_student_name: `Student ${i}`,
+          p_device_id: deviceId,
+          p_token_nonce: `test-nonce-${i}`,
+          p_cooldown_minutes: COOLDOWN_MINUTES,
+          p_status: 'present',
+        });
+
+        if (error) throw error;
+        return (Array.isArray(data) ? data[0] : data) as { status: string; remaining_ms: number };
+      })
+    );
+
+    const statuses = results.map((result) => result.status);
+    assert.equal(statuses.filter((status) => status === 'recorded').length, 1);
+    assert.equal(statuses.filter((status) => status === 'cooldown').length, PARALLEL_CALLS - 1);
+    assert.ok(results.every((result) => result.status === 'recorded' || Number(result.remaining_ms) > 0));
+
+    const { count } = await supabase!
+      .from('attendance_records')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId);
+    assert.equal(count, 1);
+  });
+
+  test('only one of many parallel cooldown claims for one device succeeds', async () => {
+    const deviceId = newDevice();
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CALLS }, async (_, i) => {
+        const { data, error } = await supabase!.rpc('claim_device_cooldown', {
+          p_device_id: deviceId,
+          p_name: `Student ${i}`,
+          p_user_id_field: `test-student-${i}`,
+          p_cooldown_minutes: COOLDOWN_MINUTES,
+        });
+
+        if (error) throw error;
+        return (Array.isArray(data) ? data[0] : data) as { claimed: boolean };
+      })
+    );
+
+    assert.equal(results.filter((result) => result.claimed).length, 1);
+  });
+});
@@ -0,0 +1,75 @@
+// Concurrency check for redeem_token_nonce against a real database: start a local Supabase
+// (`supabase start`, which applies the migrations) and run `npm run test:db` with SUPABASE_URL
+// and SUPABASE_SERVICE_ROLE_KEY set to its API URL and service role key.
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '@supabase/supabase-js';
+import { redeemNonce, type RedemptionStatus } from '../core/lib/redemption.ts';
+
+const PARALLEL_CALLS = 20;
+
+const url = process.env.SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = url && serviceKey
+  ? createClient(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } })
+  : null;
+
+const nonces: string[] = [];
+
+const newNonce = (): string => {
+  const nonce = `test-${crypto.randomUUID()}`;
+  nonces.push(nonce);
+  return nonce;
+};
+
+const countStatuses = (statuses: RedemptionStatus[]): Partial<Record<RedemptionStatus, number>> =>
+  statuses.reduce<Partial<Record<RedemptionStatus, number>>>((counts, status) => {
+    counts[status] = (counts[status] || 0) + 1;
+    return counts;
+  }, {});
+
+describe('redeem_token_nonce', { skip: supabase ? false : 'SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set' }, () => {
+  after(async () => {
+    if (!supabase || nonces.length === 0) return;
+    await supabase.from('suspected_forwards').delete().in('nonce', nonces);
+    await supabase.from('token_redemptions').delete().in('nonce', nonces);
+  });
+
+  test('only one of many devices redeeming the same nonce at once wins', async () => {
+    const nonce = newNonce();
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CALLS }, (_, i) => redeemNonce(supabase!, nonce, `device-${i}`, 0))
+    );
+
+    const winners = results.filter((result) => result.status === 'redeemed');
+    assert.equal(winners.length, 1);
+    assert.deepEqual(countStatuses(results.map((result) => result.status)), { redeemed: 1, forward_rejected: PARALLEL_CALLS - 1 });
+
+    // Every loser is told the same original device
+    const original = winners[0].originalDeviceId;
+    assert.ok(results.every((result) => result.originalDeviceId === original));
+  });
+
+  test('the same device opening a nonce many times at once redeems it once', async () => {
+    const nonce = newNonce();
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CALLS }, () => redeemNonce(supabase!, nonce, 'device-same', 0))
+    );
+
+    assert.deepEqual(countStatuses(results.map((result) => result.status)), { redeemed: 1, repeat: PARALLEL_CALLS - 1 });
+  });
+
+  test('parallel forwards stop at max_forwards', async () => {
+    const nonce = newNonce();
+    const maxForwards = 3;
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CALLS }, (_, i) => redeemNonce(supabase!, nonce, `device-${i}`, maxForwards))
+    );
+
+    assert.deepEqual(countStatuses(results.map((result) => result.status)), {
+      redeemed: 1,
+      forward_allowed: maxForwards,
+      forward_rejected: PARALLEL_CALLS - 1 - maxForwards,
+    });
+  });
+});
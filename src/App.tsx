@@ -6,6 +6,20 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import CooldownGuard from "./components/CooldownGuard";
 import Index from "./pages/Index";
 import Secure from "./pages/Secure";
+import Exit from "./pages/Exit";
+import Excuse from "./pages/Excuse";
+import Me from "./pages/Me";
+import AdminCourses from "./pages/AdminCourses";
+import AdminUsers from "./pages/AdminUsers";
+import AdminSecurity from "./pages/AdminSecurity";
+import AdminAudit from "./pages/AdminAudit";
+import AdminReports from "./pages/AdminReports";
+import AdminAnalytics from "./pages/AdminAnalytics";
+import AdminAttendanceSheet from "./pages/AdminAttendanceSheet";
+import AdminExcuses from "./pages/AdminExcuses";
+import AdminRooms from "./pages/AdminRooms";
+import AdminReview from "./pages/AdminReview";
+import AdminDevices from "./pages/AdminDevices";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +34,20 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/secure" element={<Secure />} />
+            <Route path="/exit" element={<Exit />} />
+            <Route path="/excuse" element={<Excuse />} />
+            <Route path="/me" element={<Me />} />
+            <Route path="/admin/courses" element={<AdminCourses />} />
+            <Route path="/admin/users" element={<AdminUsers />} />
+            <Route path="/admin/security" element={<AdminSecurity />} />
+            <Route path="/admin/audit" element={<AdminAudit />} />
+            <Route path="/admin/reports" element={<AdminReports />} />
+            <Route path="/admin/analytics" element={<AdminAnalytics />} />
+            <Route path="/admin/sessions/:sessionId/sheet" element={<AdminAttendanceSheet />} />
+            <Route path="/admin/excuses" element={<AdminExcuses />} />
+            <Route path="/admin/rooms" element={<AdminRooms />} />
+            <Route path="/admin/review" element={<AdminReview />} />
+            <Route path="/admin/devices" element={<AdminDevices />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,53 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import PasswordGate from './PasswordGate';
+import { UNAUTHORIZED_EVENT } from '@/lib/api';
+import { adminLogout, getAdminSession, type AdminProfile } from '@/lib/adminAuth';
+
+interface AdminGuardProps {
+  children: (logout: () => void, admin: AdminProfile) => ReactNode;
+}
+
+// يعرض شاشة تسجيل الدخول حتى يؤكد الخادم جلسة المسؤول
+const AdminGuard = ({ children }: AdminGuardProps) => {
+  const [admin, setAdmin] = useState<AdminProfile | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+
+  // التحقق من الجلسة عند التحميل - الكوكي HttpOnly لذا يسأل الخادم
+  useEffect(() => {
+    getAdminSession()
+      .then(setAdmin)
+      .catch((error) => console.error('[Admin] Session check failed:', error))
+      .finally(() => setIsChecking(false));
+  }, []);
+
+  // انتهاء الجلسة أثناء الاستخدام يعيد شاشة الدخول
+  useEffect(() => {
+    const handleUnauthorized = () => setAdmin(null);
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const handleLogout = () => {
+    adminLogout()
+      .catch((error) => console.error('[Admin] Logout failed:', error))
+      .finally(() => setAdmin(null));
+  };
+
+  if (isChecking) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  // عرض شاشة تسجيل الدخول إذا لم يتم التحقق
+  if (!admin) {
+    return <PasswordGate onSuccess={setAdmin} />;
+  }
+
+  return <>{children(handleLogout, admin)}</>;
+};
+
+export default AdminGuard;
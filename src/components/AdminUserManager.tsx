@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Loader2, LogOut, ShieldCheck, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ADMIN_ROLE_LABELS, type AdminProfile, type AdminRole } from '@/lib/adminAuth';
+import { createAdmin, listAdmins, setAdminDisabled, setAdminRole, type AdminAccount } from '@/lib/adminUsers';
+
+interface AdminUserManagerProps {
+  admin: AdminProfile;
+  onLogout: () => void;
+}
+
+const ROLES = Object.keys(ADMIN_ROLE_LABELS) as AdminRole[];
+
+const AdminUserManager = ({ admin, onLogout }: AdminUserManagerProps) => {
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // New account form
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<AdminRole>('instructor');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { toast } = useToast();
+
+  const loadAdmins = useCallback(async () => {
+    try {
+      setAdmins(await listAdmins());
+    } catch (error) {
+      console.error('[Admins] Failed to list admins:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAdmins();
+  }, [loadAdmins]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "خطأ",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || password.length < 10) return;
+
+    setIsCreating(true);
+    try {
+      await createAdmin({ username: username.trim(), password, display_name: displayName.trim(), role });
+      setUsername('');
+      setDisplayName('');
+      setPassword('');
+      setRole('instructor');
+      loadAdmins();
+    } catch (error) {
+      showError(error, "تعذر إنشاء الحساب");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRoleChange = async (account: AdminAccount, newRole: AdminRole) => {
+    try {
+      await setAdminRole(account.id, newRole);
+      setAdmins((prev) => prev.map((a) => (a.id === account.id ? { ...a, role: newRole } : a)));
+    } catch (error) {
+      showError(error, "تعذر تغيير الصلاحية");
+    }
+  };
+
+  const handleToggleDisabled = async (account: AdminAccount) => {
+    try {
+      await setAdminDisabled(account.id, !account.disabled_at);
+      loadAdmins();
+    } catch (error) {
+      showError(error, "تعذر تحديث الحساب");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">ADMINS</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/courses">
+                <ArrowRight className="w-4 h-4" />
+                المواد
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-6 md:grid-cols-[280px_1fr]" dir="rtl">
+        <form onSubmit={handleCreate} className="bg-card/80 border border-border rounded-xl p-4 space-y-3 h-fit">
+          <p className="text-xs font-mono text-muted-foreground">حساب جديد</p>
+          <div className="space-y-1">
+            <Label htmlFor="adminUsername">اسم المستخدم</Label>
+            <Input
+              id="adminUsername"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="bg-muted/50 font-mono"
+              dir="ltr"
+              autoComplete="off"
+              disabled={isCreating}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="adminDisplayName">الاسم</Label>
+            <Input
+              id="adminDisplayName"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="bg-muted/50"
+              disabled={isCreating}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="adminPassword">كلمة المرور (10 أحرف على الأقل)</Label>
+            <Input
+              id="adminPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-muted/50 font-mono"
+              dir="ltr"
+              autoComplete="new-password"
+              disabled={isCreating}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>الصلاحية</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AdminRole)} disabled={isCreating}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((r) => (
+                  <SelectItem key={r} value={r}>{ADMIN_ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            size="sm"
+            className="w-full gap-2"
+            disabled={isCreating || !username.trim() || password.length < 10}
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            إضافة
+          </Button>
+        </form>
+
+        <section className="bg-card/80 border border-border rounded-xl p-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">المستخدم</TableHead>
+                  <TableHead className="text-right">الاسم</TableHead>
+                  <TableHead className="text-right">الصلاحية</TableHead>
+                  <TableHead className="text-right">آخر دخول</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {admins.map((account) => {
+                  const isSelf = account.id === admin.id;
+                  return (
+                    <TableRow key={account.id} className={account.disabled_at ? 'opacity-50' : undefined}>
+                      <TableCell className="font-mono">{account.username}</TableCell>
+                      <TableCell>{account.display_name || '-'}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={account.role}
+                          onValueChange={(value) => handleRoleChange(account, value as AdminRole)}
+                          disabled={isSelf}
+                        >
+                          <SelectTrigger className="bg-muted/50 border-border h-8 w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((r) => (
+                              <SelectItem key={r} value={r}>{ADMIN_ROLE_LABELS[r]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {account.last_login_at ? new Date(account.last_login_at).toLocaleString('ar-EG') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {isSelf ? (
+                          <Badge variant="outline">أنت</Badge>
+                        ) : (
+                          <Button
+                            variant={account.disabled_at ? 'outline' : 'ghost'}
+                            size="sm"
+                            onClick={() => handleToggleDisabled(account)}
+                            className={account.disabled_at ? undefined : 'text-muted-foreground hover:text-destructive'}
+                          >
+                            {account.disabled_at ? 'تفعيل' : 'تعطيل'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AdminUserManager;
@@ -0,0 +1,207 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ArrowRight, LineChart as LineChartIcon, Loader2, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { listCourses, type Course } from '@/lib/courses';
+import { getCourseAnalytics, type CourseAnalytics } from '@/lib/analytics';
+
+interface AttendanceAnalyticsProps {
+  onLogout: () => void;
+}
+
+const rateConfig = {
+  rate: { label: 'نسبة الحضور %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const offsetConfig = {
+  check_ins: { label: 'عدد التسجيلات', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const percent = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+
+const ChartCard = ({ title, description, children }: { title: string; description?: string; children: ReactNode }) => (
+  <section className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+    <div>
+      <h2 className="font-display text-sm">{title}</h2>
+      {description && <p className="text-xs text-muted-foreground">{description}</p>}
+    </div>
+    {/* المحاور تقرأ من اليسار لليمين حتى داخل الصفحة العربية */}
+    <div dir="ltr">{children}</div>
+  </section>
+);
+
+const AttendanceAnalytics = ({ onLogout }: AttendanceAnalyticsProps) => {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [courseId, setCourseId] = useState('');
+  const [data, setData] = useState<CourseAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    listCourses()
+      .then((list) => {
+        setCourses(list);
+        if (list.length > 0) setCourseId(list[0].id);
+      })
+      .catch((error) => console.error('[Analytics] Failed to load courses:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    setIsLoading(true);
+    getCourseAnalytics(courseId)
+      .then(setData)
+      .catch((error) => {
+        console.error('[Analytics] Failed to load analytics:', error);
+        setData(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [courseId]);
+
+  const sessionRates = (data?.sessions || []).map((session) => ({
+    label: `${session.week_number !== null ? `W${session.week_number} ` : ''}${new Date(session.starts_at).toLocaleDateString('en-CA')}`,
+    rate: percent(session.attended, session.enrolled),
+  }));
+
+  const offsets = (data?.offsets || []).map((offset) => ({
+    label: `${offset.offset_minutes > 0 ? '+' : ''}${offset.offset_minutes}`,
+    check_ins: offset.check_ins,
+  }));
+
+  const students = (data?.students || []).filter((student) => student.rate !== null);
+
+  const sections = (data?.sections || []).map((section) => ({
+    label: section.section || 'بدون شعبة',
+    rate: section.rate,
+    students: section.students,
+  }));
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <LineChartIcon className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">ANALYTICS</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/reports">
+                <ArrowRight className="w-4 h-4" />
+                التقارير
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <div className="bg-card/80 border border-border rounded-xl p-4 flex items-end gap-3">
+          <div className="space-y-1 w-full max-w-sm">
+            <Label>المادة</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue placeholder={courses.length === 0 ? 'لا توجد مواد' : 'اختر المادة'} />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.code} - {course.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : !data || data.sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">لا توجد محاضرات لهذه المادة بعد</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ChartCard title="نسبة الحضور لكل محاضرة" description="الطلاب المسجلون في المادة فقط">
+              <ChartContainer config={rateConfig} className="h-64 w-full">
+                <LineChart data={sessionRates} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="وقت التسجيل بالنسبة لبداية المحاضرة" description="بالدقائق، كل عمود 5 دقائق">
+              <ChartContainer config={offsetConfig} className="h-64 w-full">
+                <BarChart data={offsets} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="check_ins" fill="var(--color-check_ins)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard
+              title="نسبة حضور كل طالب"
+              description={`الخط عند ${data.threshold}%، ومن هم دونه باللون الأحمر`}
+            >
+              <ChartContainer config={rateConfig} className="h-64 w-full">
+                <BarChart data={students} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="student_id" tick={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.full_name} />}
+                  />
+                  <ReferenceLine y={data.threshold} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <Bar dataKey="rate" radius={2}>
+                    {students.map((student) => (
+                      <Cell
+                        key={student.student_id}
+                        fill={(student.rate ?? 0) < data.threshold ? 'hsl(var(--destructive))' : 'var(--color-rate)'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="نسبة الحضور حسب الشعبة">
+              <ChartContainer config={rateConfig} className="h-64 w-full">
+                <BarChart data={sections} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AttendanceAnalytics;
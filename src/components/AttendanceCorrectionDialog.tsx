@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Paperclip, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { CELL_LABELS, type AttendanceCell } from '@/lib/reports';
+import {
+  CORRECTION_STATUSES,
+  getAttendanceCorrection,
+  setAttendanceCorrection,
+  type CorrectionDetails,
+  type CorrectionStatus,
+} from '@/lib/corrections';
+
+export interface CorrectionTarget {
+  sessionId: string;
+  sessionLabel: string;
+  studentId: string;
+  studentName: string;
+}
+
+interface AttendanceCorrectionDialogProps {
+  target: CorrectionTarget | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' });
+
+// تعديل حالة طالب في محاضرة بسبب إلزامي، مع بقاء التسجيل الأصلي كما هو
+const AttendanceCorrectionDialog = ({ target, onClose, onSaved }: AttendanceCorrectionDialogProps) => {
+  const [details, setDetails] = useState<CorrectionDetails | null>(null);
+  const [status, setStatus] = useState<CorrectionStatus>('excused');
+  const [reason, setReason] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!target) return;
+
+    setDetails(null);
+    setReason('');
+    setFile(null);
+    getAttendanceCorrection(target.sessionId, target.studentId)
+      .then((loaded) => {
+        setDetails(loaded);
+        setStatus(loaded.correction?.status ?? 'excused');
+      })
+      .catch((error) => console.error('[Corrections] Failed to load correction:', error));
+  }, [target]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target || !reason.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await setAttendanceCorrection(target.sessionId, target.studentId, { status, reason: reason.trim(), file });
+      toast({ title: 'تم تعديل الحضور', description: `${target.studentName} - ${CELL_LABELS[status]}` });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'تعذر الحفظ',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const record = details?.record;
+  const correction = details?.correction;
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent dir="rtl" className="text-right">
+        <DialogHeader className="text-right sm:text-right">
+          <DialogTitle>تعديل الحضور</DialogTitle>
+          <DialogDescription>
+            {target?.studentName} · <span className="font-mono" dir="ltr">{target?.sessionLabel}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {!details ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <form id="correctionForm" onSubmit={handleSave} className="space-y-4">
+            <div className="rounded-lg border border-border p-3 text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">التسجيل بالمسح: </span>
+                {record
+                  ? `${CELL_LABELS[record.status as AttendanceCell] || record.status} (${formatTime(record.recorded_at)})`
+                  : 'لا يوجد'}
+              </p>
+              {correction && (
+                <>
+                  <p>
+                    <span className="text-muted-foreground">التعديل الحالي: </span>
+                    {CELL_LABELS[correction.status]} - {correction.reason}
+                  </p>
+                  {correction.attachment_url && (
+                    <a href={correction.attachment_url} target="_blank" rel="noreferrer" className="text-primary text-xs inline-flex items-center gap-1 hover:underline">
+                      <Paperclip className="w-3 h-3" />
+                      المرفق
+                    </a>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label>الحالة</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as CorrectionStatus)}>
+                <SelectTrigger className="bg-muted/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CORRECTION_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>{CELL_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="correctionReason">السبب</Label>
+              <Textarea
+                id="correctionReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="مثال: نفدت بطارية الهاتف، تم التحقق من الحضور في القاعة"
+                maxLength={500}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="correctionFile">مرفق (اختياري)</Label>
+              <Input
+                id="correctionFile"
+                type="file"
+                accept="application/pdf,image/jpeg,image/png,image/webp"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="bg-muted/50"
+                disabled={isSaving}
+              />
+            </div>
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button type="submit" form="correctionForm" className="gap-2" disabled={!details || !reason.trim() || isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            حفظ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttendanceCorrectionDialog;
@@ -0,0 +1,337 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, BarChart3, Download, FileCheck, LineChart, Loader2, LogOut, Search, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { listCourses, type Course } from '@/lib/courses';
+import { getAttendanceSheetPath } from '@/lib/attendanceSheet';
+import AttendanceCorrectionDialog, { type CorrectionTarget } from './AttendanceCorrectionDialog';
+import {
+  ATTENDANCE_CELLS,
+  CELL_LABELS,
+  FLAG_LABELS,
+  downloadAttendanceReport,
+  getAttendanceReport,
+  type AttendanceCell,
+  type AttendanceReport as Report,
+  type ExportFormat,
+  type ReportFilters,
+} from '@/lib/reports';
+
+interface AttendanceReportProps {
+  onLogout: () => void;
+}
+
+const ALL_SECTIONS = 'all';
+
+const CELL_CLASSES: Record<AttendanceCell, string> = {
+  present: 'bg-primary/15 text-primary',
+  late: 'bg-yellow-500/15 text-yellow-500',
+  absent: 'bg-destructive/15 text-destructive',
+  excused: 'bg-sky-500/15 text-sky-500',
+};
+
+const AttendanceReport = ({ onLogout }: AttendanceReportProps) => {
+  const { toast } = useToast();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  // الفلاتر المعروضة، والتصدير يستخدم آخر فلاتر تم عرضها حتى يطابق الملف الجدول
+  const [courseId, setCourseId] = useState('');
+  const [section, setSection] = useState(ALL_SECTIONS);
+  const [week, setWeek] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [filters, setFilters] = useState<ReportFilters | null>(null);
+  const [correctionTarget, setCorrectionTarget] = useState<CorrectionTarget | null>(null);
+
+  useEffect(() => {
+    listCourses()
+      .then((list) => {
+        setCourses(list);
+        if (list.length > 0) setCourseId(list[0].id);
+      })
+      .catch((error) => console.error('[Reports] Failed to load courses:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!filters) return;
+
+    setIsLoading(true);
+    getAttendanceReport(filters)
+      .then(setReport)
+      .catch((error) => {
+        console.error('[Reports] Failed to load report:', error);
+        setReport(null);
+        toast({ title: 'تعذر تحميل التقرير', description: error.message, variant: 'destructive' });
+      })
+      .finally(() => setIsLoading(false));
+  }, [filters, toast]);
+
+  const handleCourseChange = (value: string) => {
+    setCourseId(value);
+    setSection(ALL_SECTIONS);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courseId) return;
+
+    setFilters({
+      course_id: courseId,
+      section: section === ALL_SECTIONS ? undefined : section,
+      week: week ? parseInt(week, 10) : undefined,
+      from: from || undefined,
+      to: to || undefined,
+    });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!filters) return;
+
+    setExporting(format);
+    try {
+      await downloadAttendanceReport(filters, format);
+    } catch (error) {
+      toast({
+        title: 'تعذر التصدير',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // إعادة تحميل التقرير بنفس الفلاتر بعد تعديل حالة طالب
+  const reloadReport = () => setFilters((current) => (current ? { ...current } : current));
+
+  // الشعب معروفة بعد أول عرض للمادة المختارة
+  const sections = report && report.course.id === courseId ? report.sections : [];
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">ATTENDANCE REPORTS</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/excuses">
+                <FileCheck className="w-4 h-4" />
+                الأعذار
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/review">
+                <ShieldAlert className="w-4 h-4" />
+                المراجعة
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/analytics">
+                <LineChart className="w-4 h-4" />
+                التحليلات
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/courses">
+                <ArrowRight className="w-4 h-4" />
+                المواد
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <form onSubmit={handleSearch} className="bg-card/80 border border-border rounded-xl p-4 grid gap-3 md:grid-cols-6 items-end">
+          <div className="space-y-1">
+            <Label>المادة</Label>
+            <Select value={courseId} onValueChange={handleCourseChange}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue placeholder={courses.length === 0 ? 'لا توجد مواد' : 'اختر المادة'} />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.code} - {course.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>الشعبة</Label>
+            <Select value={section} onValueChange={setSection}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SECTIONS}>الكل</SelectItem>
+                {sections.map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportWeek">الأسبوع</Label>
+            <Input
+              id="reportWeek"
+              type="number"
+              min={1}
+              value={week}
+              onChange={(e) => setWeek(e.target.value)}
+              className="bg-muted/50 font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportFrom">من</Label>
+            <Input id="reportFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-muted/50" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportTo">إلى</Label>
+            <Input id="reportTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="bg-muted/50" />
+          </div>
+          <Button type="submit" className="gap-2" disabled={!courseId || isLoading}>
+            <Search className="w-4 h-4" />
+            عرض
+          </Button>
+        </form>
+
+        <section className="bg-card/80 border border-border rounded-xl p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : !report ? (
+            <p className="text-sm text-muted-foreground text-center py-8">اختر المادة والفترة ثم اضغط عرض</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-display">{report.course.code} - {report.course.name}</p>
+                  <p className="text-xs font-mono text-muted-foreground">
+                    {report.rows.length} طالب · {report.sessions.length} محاضرة
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {(['csv', 'xlsx'] as ExportFormat[]).map((format) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 font-mono"
+                      onClick={() => handleExport(format)}
+                      disabled={exporting !== null || report.rows.length === 0}
+                    >
+                      {exporting === format ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      {format.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {report.rows.length === 0 || report.sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {report.sessions.length === 0 ? 'لا توجد محاضرات في هذه الفترة' : 'لا يوجد طلاب'}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">رقم الطالب</TableHead>
+                      <TableHead className="text-right">الاسم</TableHead>
+                      <TableHead className="text-right">الشعبة</TableHead>
+                      {report.sessions.map((session) => (
+                        <TableHead key={session.id} className="text-center font-mono text-xs whitespace-nowrap" dir="ltr">
+                          <Link to={getAttendanceSheetPath(session.id)} className="hover:underline" title="ورقة الحضور">
+                            {session.label}
+                          </Link>
+                        </TableHead>
+                      ))}
+                      {ATTENDANCE_CELLS.map((cell) => (
+                        <TableHead key={cell} className="text-center">{CELL_LABELS[cell]}</TableHead>
+                      ))}
+                      <TableHead className="text-center">خروج مبكر</TableHead>
+                      <TableHead className="text-center">للمراجعة</TableHead>
+                      <TableHead className="text-center">نسبة الحضور</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={row.student_id}>
+                        <TableCell className="font-mono text-xs">{row.student_id}</TableCell>
+                        <TableCell className="whitespace-nowrap">{row.full_name}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.section || '-'}</TableCell>
+                        {row.cells.map((cell, index) => (
+                          <TableCell key={report.sessions[index].id} className="text-center p-1">
+                            <button
+                              type="button"
+                              onClick={() => setCorrectionTarget({
+                                sessionId: report.sessions[index].id,
+                                sessionLabel: report.sessions[index].label,
+                                studentId: row.student_id,
+                                studentName: row.full_name,
+                              })}
+                              title={[
+                                row.corrected[index] ? 'معدّل يدوياً' : 'تعديل الحضور',
+                                ...row.flags[index].map((flag) => FLAG_LABELS[flag] || flag),
+                              ].join('\n')}
+                              className={`inline-block rounded px-2 py-0.5 text-xs hover:opacity-80 ${CELL_CLASSES[cell]} ${row.corrected[index] ? 'ring-1 ring-current' : ''}`}
+                            >
+                              {CELL_LABELS[cell]}
+                              {row.corrected[index] && '*'}
+                              {row.flags[index].length > 0 && ' ⚠'}
+                            </button>
+                          </TableCell>
+                        ))}
+                        {ATTENDANCE_CELLS.map((cell) => (
+                          <TableCell key={cell} className="text-center font-mono text-xs">{row.totals[cell]}</TableCell>
+                        ))}
+                        <TableCell className="text-center font-mono text-xs">{row.early_leaves}</TableCell>
+                        <TableCell className="text-center font-mono text-xs">
+                          {row.flags.filter((cellFlags) => cellFlags.length > 0).length}
+                        </TableCell>
+                        <TableCell className="text-center font-mono text-xs">
+                          {row.rate !== null ? `${row.rate}%` : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </section>
+      </main>
+
+      <AttendanceCorrectionDialog
+        target={correctionTarget}
+        onClose={() => setCorrectionTarget(null)}
+        onSaved={reloadReport}
+      />
+    </div>
+  );
+};
+
+export default AttendanceReport;
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Check, Loader2, LogOut, ShieldAlert, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  REVIEW_STATUS_LABELS,
+  RISK_REASON_LABELS,
+  listReviewRecords,
+  reviewRecord,
+  type ReviewRecord,
+  type ReviewStatus,
+} from '@/lib/attendanceReview';
+
+interface AttendanceReviewQueueProps {
+  onLogout: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+const scoreClass = (score: number): string =>
+  score >= 80 ? 'bg-destructive/20 text-destructive' : 'bg-yellow-500/20 text-yellow-500';
+
+// تسجيلات الحضور المشتبه بأنها بالنيابة: القبول يبقي الحضور، والتأكيد يسجل الطالب غائباً
+const AttendanceReviewQueue = ({ onLogout }: AttendanceReviewQueueProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [records, setRecords] = useState<ReviewRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadRecords = useCallback(() => {
+    setIsLoading(true);
+    listReviewRecords(status)
+      .then(setRecords)
+      .catch((error) => {
+        console.error('[Review] Failed to load records:', error);
+        setRecords([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const handleReview = async (record: ReviewRecord, decision: 'clear' | 'confirm') => {
+    const note = notes[record.id]?.trim() || '';
+
+    // تسجيل الغياب يحتاج سبباً كأي تعديل يدوي
+    if (decision === 'confirm' && !note) {
+      toast({ title: 'اكتب سبب التأكيد في الملاحظة', variant: 'destructive' });
+      return;
+    }
+
+    setReviewingId(record.id);
+    try {
+      await reviewRecord(record.id, decision, note);
+      toast({
+        title: decision === 'clear' ? 'تم قبول الحضور' : 'تم تسجيل الطالب غائباً',
+        description: record.student_name,
+      });
+      setRecords((current) => current.filter((item) => item.id !== record.id));
+    } catch (error) {
+      toast({
+        title: 'تعذرت المراجعة',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+      loadRecords();
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldAlert className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">ATTENDANCE REVIEW</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/reports">
+                <ArrowRight className="w-4 h-4" />
+                التقارير
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <div className="bg-card/80 border border-border rounded-xl p-4 flex items-end gap-3">
+          <div className="space-y-1 w-full max-w-xs">
+            <Label>الحالة</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{REVIEW_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">لا توجد تسجيلات</p>
+        ) : (
+          <div className="space-y-3">
+            {records.map((record) => (
+              <article key={record.id} className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="flex items-center gap-3">
+                    <span className={`font-mono text-sm px-2 py-1 rounded ${scoreClass(record.risk_score)}`} title="درجة الاشتباه">
+                      {record.risk_score}
+                    </span>
+                    <div>
+                      <p className="font-display">{record.student_name}</p>
+                      <p className="text-xs font-mono text-muted-foreground">{record.student_id}</p>
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground text-left">
+                    <p>{record.session.course}{record.session.week_number !== null ? ` · الأسبوع ${record.session.week_number}` : ''}</p>
+                    <p>سُجل {formatDate(record.recorded_at)}</p>
+                  </div>
+                </div>
+
+                <ul className="text-sm list-disc pr-5 space-y-1">
+                  {record.risk_reasons.map((reason) => (
+                    <li key={reason}>{RISK_REASON_LABELS[reason] ?? reason}</li>
+                  ))}
+                </ul>
+
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                  {record.risk_related.length > 0 && (
+                    <span>
+                      طلاب مرتبطون: <span className="font-mono" dir="ltr">{record.risk_related.join('، ')}</span>
+                    </span>
+                  )}
+                  <span className="font-mono" dir="ltr">DEVICE: {record.device_id.substring(0, 8)}...</span>
+                  {record.client_ip && <span className="font-mono" dir="ltr">IP: {record.client_ip}</span>}
+                  {record.reviewed_at && <span>رُوجع {formatDate(record.reviewed_at)}</span>}
+                  {record.review_note && <span>ملاحظة: {record.review_note}</span>}
+                </div>
+
+                {record.review_status === 'pending' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      value={notes[record.id] || ''}
+                      onChange={(e) => setNotes((current) => ({ ...current, [record.id]: e.target.value }))}
+                      placeholder="ملاحظة (مطلوبة عند التأكيد)"
+                      maxLength={500}
+                      className="bg-muted/50 flex-1 min-w-[12rem]"
+                      disabled={reviewingId !== null}
+                    />
+                    <Button size="sm" className="gap-2" onClick={() => handleReview(record, 'clear')} disabled={reviewingId !== null}>
+                      {reviewingId === record.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      قبول الحضور
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-2 text-destructive"
+                      onClick={() => handleReview(record, 'confirm')}
+                      disabled={reviewingId !== null}
+                    >
+                      <UserX className="w-4 h-4" />
+                      تسجيل بالنيابة
+                    </Button>
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AttendanceReviewQueue;
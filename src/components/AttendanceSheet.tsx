@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Download, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/lib/api';
+import { CELL_LABELS, type AttendanceCell } from '@/lib/reports';
+import { downloadAttendanceSheetPdf, getAttendanceSheet, type AttendanceSheet as Sheet } from '@/lib/attendanceSheet';
+
+interface AttendanceSheetProps {
+  sessionId: string;
+}
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' });
+
+// ورقة حضور للطباعة، وملف PDF يُنشأ على الخادم فيبدو كما هو في أي متصفح أو طابعة
+const AttendanceSheet = ({ sessionId }: AttendanceSheetProps) => {
+  const { toast } = useToast();
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSignatures, setShowSignatures] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    getAttendanceSheet(sessionId)
+      .then(setSheet)
+      .catch((err) => {
+        console.error('[Sheet] Failed to load attendance sheet:', err);
+        setError(err instanceof ApiError && err.status === 409
+          ? 'لا يمكن طباعة الورقة قبل إغلاق المحاضرة'
+          : 'تعذر تحميل ورقة الحضور');
+      });
+  }, [sessionId]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadAttendanceSheetPdf(sessionId, showSignatures);
+    } catch (err) {
+      toast({
+        title: 'تعذر تنزيل ملف PDF',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // عنوان الصفحة هو اسم الملف المقترح عند الحفظ كـ PDF من نافذة الطباعة
+  useEffect(() => {
+    if (!sheet) return;
+    const previousTitle = document.title;
+    document.title = `attendance-${sheet.course_code || sheet.session.course}-${sheet.session.starts_at.substring(0, 10)}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [sheet]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center gap-4 p-4" dir="rtl">
+        <p className="text-destructive">{error}</p>
+        <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+          <Link to="/admin/reports">
+            <ArrowRight className="w-4 h-4" />
+            التقارير
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!sheet) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const { session } = sheet;
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid print:bg-white print:bg-none" dir="rtl">
+      <div className="container mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+          <Link to="/admin/reports">
+            <ArrowRight className="w-4 h-4" />
+            التقارير
+          </Link>
+        </Button>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="sheetSignatures" checked={showSignatures} onCheckedChange={setShowSignatures} />
+            <Label htmlFor="sheetSignatures">خانة التوقيع</Label>
+          </div>
+          <Button variant="outline" onClick={() => window.print()} className="gap-2">
+            <Printer className="w-4 h-4" />
+            طباعة
+          </Button>
+          <Button onClick={handleDownload} className="gap-2" disabled={isDownloading}>
+            {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            تنزيل PDF
+          </Button>
+        </div>
+      </div>
+
+      <article className="mx-auto mb-8 max-w-[210mm] bg-white text-black font-sans p-10 shadow-lg print:m-0 print:max-w-none print:p-0 print:shadow-none">
+        <header className="border-b-2 border-black pb-4 mb-4 space-y-2">
+          <p className="text-sm text-neutral-600">كشف حضور محاضرة</p>
+          <h1 className="font-sans text-2xl font-bold">
+            {sheet.course_code ? `${sheet.course_code} - ` : ''}{session.course}
+          </h1>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            <div className="flex gap-2">
+              <dt className="text-neutral-600">التاريخ:</dt>
+              <dd>{new Date(session.starts_at).toLocaleDateString('ar-EG', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="text-neutral-600">الوقت:</dt>
+              <dd>{formatTime(session.starts_at)} - {formatTime(session.closed_at || session.ends_at)}</dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="text-neutral-600">المحاضر:</dt>
+              <dd>{session.instructor}</dd>
+            </div>
+            <div className="flex gap-2">
+              <dt className="text-neutral-600">القاعة:</dt>
+              <dd>{session.room || '-'}</dd>
+            </div>
+            {session.week_number !== null && (
+              <div className="flex gap-2">
+                <dt className="text-neutral-600">الأسبوع:</dt>
+                <dd>{session.week_number}</dd>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <dt className="text-neutral-600">عدد الحضور:</dt>
+              <dd>{sheet.records.length}</dd>
+            </div>
+          </dl>
+        </header>
+
+        {sheet.records.length === 0 ? (
+          <p className="text-center py-8 text-neutral-600">لم يسجل أي طالب حضوره في هذه المحاضرة</p>
+        ) : (
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-neutral-100">
+                <th className="border border-neutral-400 px-2 py-1 w-10">#</th>
+                <th className="border border-neutral-400 px-2 py-1 text-right">رقم الطالب</th>
+                <th className="border border-neutral-400 px-2 py-1 text-right">الاسم</th>
+                <th className="border border-neutral-400 px-2 py-1">وقت التسجيل</th>
+                <th className="border border-neutral-400 px-2 py-1">الحالة</th>
+                <th className="border border-neutral-400 px-2 py-1">الخروج</th>
+                <th className="border border-neutral-400 px-2 py-1">الجهاز</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.records.map((record, index) => (
+                <tr key={record.student_id} className="break-inside-avoid">
+                  <td className="border border-neutral-400 px-2 py-1 text-center">{index + 1}</td>
+                  <td className="border border-neutral-400 px-2 py-1 font-mono">{record.student_id}</td>
+                  <td className="border border-neutral-400 px-2 py-1">{record.student_name}</td>
+                  <td className="border border-neutral-400 px-2 py-1 text-center">{record.recorded_at ? formatTime(record.recorded_at) : '-'}</td>
+                  <td className="border border-neutral-400 px-2 py-1 text-center">
+                    {CELL_LABELS[record.status as AttendanceCell] || record.status}
+                    {record.corrected && <span className="block text-[10px] font-bold">تعديل يدوي</span>}
+                  </td>
+                  <td className="border border-neutral-400 px-2 py-1 text-center">
+                    {record.left_at ? formatTime(record.left_at) : '-'}
+                    {record.early_leave && <span className="block text-[10px] font-bold">خروج مبكر</span>}
+                  </td>
+                  <td className="border border-neutral-400 px-2 py-1 text-center font-mono text-xs" dir="ltr">
+                    {record.device_suffix ? `…${record.device_suffix}` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {showSignatures && (
+          <section className="grid grid-cols-2 gap-12 mt-12 text-sm break-inside-avoid">
+            {['توقيع المحاضر', 'اعتماد رئيس القسم'].map((title) => (
+              <div key={title} className="space-y-8">
+                <p>{title}</p>
+                <div className="border-b border-black" />
+                <p className="text-neutral-600">الاسم والتاريخ</p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <footer className="mt-10 pt-2 border-t border-neutral-400 text-[10px] text-neutral-600 space-y-1">
+          <p>
+            أُنشئ في {new Date(sheet.generated_at).toLocaleString('ar-EG')} · المحاضرة <span className="font-mono" dir="ltr">{session.id}</span>
+          </p>
+          <p>
+            بصمة السجلات (SHA-256): <span className="font-mono break-all" dir="ltr">{sheet.integrity_hash}</span>
+          </p>
+        </footer>
+      </article>
+    </div>
+  );
+};
+
+export default AttendanceSheet;
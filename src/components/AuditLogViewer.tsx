@@ -0,0 +1,213 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, History, Loader2, LogOut, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { AUDIT_ACTION_LABELS, listAuditLog, type AuditLogEntry, type AuditLogFilters } from '@/lib/auditLog';
+
+interface AuditLogViewerProps {
+  onLogout: () => void;
+}
+
+const PAGE_SIZE = 25;
+const ALL_ACTIONS = 'all';
+
+// الصفحات الظاهرة حول الصفحة الحالية
+const visiblePages = (page: number, pageCount: number): number[] => {
+  const start = Math.max(1, Math.min(page - 2, pageCount - 4));
+  return Array.from({ length: Math.min(5, pageCount) }, (_, i) => start + i);
+};
+
+const formatDiff = (diff: AuditLogEntry['diff']): string =>
+  diff && Object.keys(diff).length > 0 ? JSON.stringify(diff) : '-';
+
+const AuditLogViewer = ({ onLogout }: AuditLogViewerProps) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // الفلاتر المعروضة، وتطبق عند الضغط على بحث
+  const [action, setAction] = useState(ALL_ACTIONS);
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+
+  const loadPage = useCallback(async (targetPage: number, activeFilters: AuditLogFilters) => {
+    setIsLoading(true);
+    try {
+      const result = await listAuditLog(activeFilters, targetPage, PAGE_SIZE);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('[Audit] Failed to load audit log:', error);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(page, filters);
+  }, [page, filters, loadPage]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({ action: action === ALL_ACTIONS ? undefined : action, actor: actor.trim(), from, to });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) setPage(target);
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <History className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">AUDIT LOG</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/courses">
+                <ArrowRight className="w-4 h-4" />
+                المواد
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <form onSubmit={handleSearch} className="bg-card/80 border border-border rounded-xl p-4 grid gap-3 md:grid-cols-5 items-end">
+          <div className="space-y-1">
+            <Label>العملية</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>الكل</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditActor">المستخدم</Label>
+            <Input
+              id="auditActor"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              className="bg-muted/50 font-mono"
+              dir="ltr"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditFrom">من</Label>
+            <Input id="auditFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-muted/50" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditTo">إلى</Label>
+            <Input id="auditTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="bg-muted/50" />
+          </div>
+          <Button type="submit" className="gap-2">
+            <Search className="w-4 h-4" />
+            بحث
+          </Button>
+        </form>
+
+        <section className="bg-card/80 border border-border rounded-xl p-6 space-y-4">
+          <p className="text-xs font-mono text-muted-foreground">{total} سجل</p>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">الوقت</TableHead>
+                  <TableHead className="text-right">المستخدم</TableHead>
+                  <TableHead className="text-right">العملية</TableHead>
+                  <TableHead className="text-right">الهدف</TableHead>
+                  <TableHead className="text-right">التفاصيل</TableHead>
+                  <TableHead className="text-right">IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString('ar-EG')}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.actor_username || '-'}</TableCell>
+                    <TableCell>{AUDIT_ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                    <TableCell className="font-mono text-xs" dir="ltr">
+                      {entry.target_type ? `${entry.target_type}:${entry.target_id ?? ''}` : '-'}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-[320px] truncate" dir="ltr" title={formatDiff(entry.diff)}>
+                      {formatDiff(entry.diff)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs" title={entry.user_agent || undefined}>{entry.ip || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {pageCount > 1 && (
+            <Pagination dir="ltr">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 1} />
+                </PaginationItem>
+                {visiblePages(page, pageCount).map((p) => (
+                  <PaginationItem key={p}>
+                    <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                      {p}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === pageCount} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -1,10 +1,18 @@
 import { useState, useEffect, ReactNode } from 'react';
+import { useLocation } from 'react-router-dom';
 import { AlertTriangle, Clock, Home } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getDeviceFingerprint } from '@/lib/deviceFingerprint';
 
 const COOLDOWN_DURATION = 30 * 60 * 1000; // 30 دقيقة
 
+// مسح الخروج يتم بعد تسجيل الحضور، أي أثناء فترة الانتظار، وطلب العذر وسجل الطالب لا يسجلان حضوراً.
+// صفحات المحاضر (الرئيسية ولوحة /admin) لا تسجل حضوراً أيضاً، فلا يُمنع منها من سجل حضوره من نفس المتصفح
+const UNGUARDED_PATHS = ['/', '/exit', '/excuse', '/me'];
+
+const isUnguarded = (pathname: string): boolean =>
+  UNGUARDED_PATHS.includes(pathname) || pathname === '/admin' || pathname.startsWith('/admin/');
+
 // Check server cooldown
 const checkServerCooldown = async (deviceId: string): Promise<{ inCooldown: boolean; remaining: number }> => {
   try {
@@ -34,6 +42,7 @@ interface CooldownGuardProps {
 }
 
 const CooldownGuard = ({ children }: CooldownGuardProps) => {
+  const { pathname } = useLocation();
   const [isChecking, setIsChecking] = useState(true);
   const [inCooldown, setInCooldown] = useState(false);
   const [cooldownRemaining, setCooldownRemaining] = useState(0);
@@ -97,6 +106,10 @@ const CooldownGuard = ({ children }: CooldownGuardProps) => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  if (isUnguarded(pathname)) {
+    return <>{children}</>;
+  }
+
   // Loading state
   if (isChecking) {
     return (
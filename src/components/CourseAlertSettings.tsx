@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { BellRing, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { updateCourseSettings, type Course } from '@/lib/courses';
+
+interface CourseAlertSettingsProps {
+  course: Course;
+  onSaved: (course: Course) => void;
+}
+
+// حد الغياب ونسب التنبيه لكل مادة، ويستخدمها فحص الغياب المجدول، ومهلة التأخير عند تسجيل الحضور
+const CourseAlertSettings = ({ course, onSaved }: CourseAlertSettingsProps) => {
+  const [limit, setLimit] = useState('');
+  const [levels, setLevels] = useState('');
+  const [chatId, setChatId] = useState('');
+  const [graceMinutes, setGraceMinutes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setLimit(course.absence_limit !== null ? String(course.absence_limit) : '');
+    setLevels(course.absence_warning_levels.join(', '));
+    setChatId(course.telegram_chat_id || '');
+    setGraceMinutes(String(course.late_grace_minutes));
+  }, [course]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const saved = await updateCourseSettings(course.id, {
+        absence_limit: limit ? parseInt(limit, 10) : null,
+        absence_warning_levels: levels
+          .split(/[,\s،]+/)
+          .filter(Boolean)
+          .map((level) => parseInt(level, 10)),
+        telegram_chat_id: chatId.trim() || null,
+        late_grace_minutes: parseInt(graceMinutes, 10),
+      });
+      onSaved(saved);
+      toast({ title: 'تم حفظ إعدادات الغياب' });
+    } catch (error) {
+      toast({
+        title: 'تعذر الحفظ',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="border border-border rounded-lg p-4 space-y-3">
+      <p className="text-xs font-mono text-muted-foreground flex items-center gap-1">
+        <BellRing className="w-3 h-3" />
+        تنبيهات الغياب
+      </p>
+      <div className="grid gap-3 md:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="absenceLimit">الحد الأقصى للغياب</Label>
+          <Input
+            id="absenceLimit"
+            type="number"
+            min={1}
+            max={100}
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            placeholder="بدون حد"
+            className="bg-muted/50 font-mono"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="absenceLevels">نسب التنبيه (% من الحد)</Label>
+          <Input
+            id="absenceLevels"
+            value={levels}
+            onChange={(e) => setLevels(e.target.value)}
+            placeholder="50, 80, 100"
+            className="bg-muted/50 font-mono"
+            dir="ltr"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="absenceChat">محادثة Telegram للمحاضر</Label>
+          <Input
+            id="absenceChat"
+            value={chatId}
+            onChange={(e) => setChatId(e.target.value)}
+            placeholder="الافتراضية"
+            className="bg-muted/50 font-mono"
+            dir="ltr"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="lateGrace">مهلة التأخير (دقائق)</Label>
+          <Input
+            id="lateGrace"
+            type="number"
+            min={0}
+            max={180}
+            value={graceMinutes}
+            onChange={(e) => setGraceMinutes(e.target.value)}
+            className="bg-muted/50 font-mono"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+      <Button type="submit" size="sm" variant="outline" className="gap-2" disabled={isSaving}>
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        حفظ
+      </Button>
+    </form>
+  );
+};
+
+export default CourseAlertSettings;
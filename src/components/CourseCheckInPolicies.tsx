@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEVICE_POLICY_LABELS,
+  GEOFENCE_POLICY_LABELS,
+  NETWORK_POLICY_LABELS,
+  updateCheckInPolicies,
+  type Course,
+  type DevicePolicy,
+  type GeofencePolicy,
+  type NetworkPolicy,
+} from '@/lib/courses';
+
+interface CourseCheckInPoliciesProps {
+  course: Course;
+  onSaved: (course: Course) => void;
+}
+
+// قواعد تسجيل الحضور لكل مادة: موقع المسح وشبكته وجهاز الطالب، وتُحفظ منفصلة عن إعدادات الغياب
+const CourseCheckInPolicies = ({ course, onSaved }: CourseCheckInPoliciesProps) => {
+  const [geofencePolicy, setGeofencePolicy] = useState<GeofencePolicy>('ignore');
+  const [networkPolicy, setNetworkPolicy] = useState<NetworkPolicy>('ignore');
+  const [networks, setNetworks] = useState('');
+  const [devicePolicy, setDevicePolicy] = useState<DevicePolicy>('ignore');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setGeofencePolicy(course.geofence_policy);
+    setNetworkPolicy(course.network_policy);
+    setNetworks(course.allowed_networks.join(', '));
+    setDevicePolicy(course.device_policy);
+  }, [course]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const saved = await updateCheckInPolicies(course.id, {
+        geofence_policy: geofencePolicy,
+        network_policy: networkPolicy,
+        allowed_networks: networks.split(/[\s,،]+/).filter(Boolean),
+        device_policy: devicePolicy,
+      });
+      onSaved(saved);
+      toast({ title: 'تم حفظ قواعد تسجيل الحضور' });
+    } catch (error) {
+      toast({
+        title: 'تعذر الحفظ',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="border border-border rounded-lg p-4 space-y-3">
+      <p className="text-xs font-mono text-muted-foreground flex items-center gap-1">
+        <ShieldCheck className="w-3 h-3" />
+        قواعد تسجيل الحضور
+      </p>
+      <div className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_3fr]">
+        <div className="space-y-1">
+          <Label title="يطبق على المحاضرات في القاعات التي لها إحداثيات">المسح من خارج القاعة</Label>
+          <Select value={geofencePolicy} onValueChange={(value) => setGeofencePolicy(value as GeofencePolicy)} disabled={isSaving}>
+            <SelectTrigger className="bg-muted/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GEOFENCE_POLICY_LABELS) as GeofencePolicy[]).map((value) => (
+                <SelectItem key={value} value={value}>{GEOFENCE_POLICY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label title="يُربط رقم الطالب بأول جهاز يسجل منه، وتغييره يحتاج موافقة. يمنع مشاركة الرمز العابرة، أما إثبات الجهاز فيكون بمفتاح المرور">جهاز الطالب</Label>
+          <Select value={devicePolicy} onValueChange={(value) => setDevicePolicy(value as DevicePolicy)} disabled={isSaving}>
+            <SelectTrigger className="bg-muted/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DEVICE_POLICY_LABELS) as DevicePolicy[]).map((value) => (
+                <SelectItem key={value} value={value}>{DEVICE_POLICY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label title="القاعة التي لها شبكات خاصة تستخدمها بدلاً من شبكات المادة">المسح من خارج الشبكة</Label>
+          <Select value={networkPolicy} onValueChange={(value) => setNetworkPolicy(value as NetworkPolicy)} disabled={isSaving}>
+            <SelectTrigger className="bg-muted/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(NETWORK_POLICY_LABELS) as NetworkPolicy[]).map((value) => (
+                <SelectItem key={value} value={value}>{NETWORK_POLICY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="allowedNetworks">الشبكات المسموحة (CIDR)</Label>
+          <Input
+            id="allowedNetworks"
+            value={networks}
+            onChange={(e) => setNetworks(e.target.value)}
+            placeholder="10.20.0.0/16, 2001:db8::/48"
+            className="bg-muted/50 font-mono"
+            dir="ltr"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+      <Button type="submit" size="sm" variant="outline" className="gap-2" disabled={isSaving}>
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        حفظ
+      </Button>
+    </form>
+  );
+};
+
+export default CourseCheckInPolicies;
@@ -0,0 +1,479 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, BarChart3, BookOpen, FileSpreadsheet, History, Loader2, LogOut, MapPin, Plus, ShieldCheck, Smartphone, Upload, UserMinus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ADMIN_ROLE_LABELS, type AdminProfile } from '@/lib/adminAuth';
+import { listAdmins, type AdminAccount } from '@/lib/adminUsers';
+import {
+  assignCourseStaff,
+  createCourse,
+  getCourseStaff,
+  getRoster,
+  importRoster,
+  listCourses,
+  removeCourseStaff,
+  type Course,
+  type CourseStaffMember,
+  type Enrollment,
+  type RosterImportReport,
+} from '@/lib/courses';
+import CourseAlertSettings from './CourseAlertSettings';
+import CourseCheckInPolicies from './CourseCheckInPolicies';
+
+interface CourseManagerProps {
+  admin: AdminProfile;
+  onLogout: () => void;
+}
+
+const CourseManager = ({ admin, onLogout }: CourseManagerProps) => {
+  const isSuperAdmin = admin.role === 'super_admin';
+  const canImport = admin.role !== 'teaching_assistant';
+
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [roster, setRoster] = useState<Enrollment[]>([]);
+  const [isLoadingRoster, setIsLoadingRoster] = useState(false);
+
+  // New course form
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Roster import
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<RosterImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Course staff (super admins only)
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [staff, setStaff] = useState<CourseStaffMember[]>([]);
+  const [staffToAdd, setStaffToAdd] = useState('');
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    listCourses()
+      .then(setCourses)
+      .catch((error) => console.error('[Courses] Failed to list courses:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    listAdmins()
+      .then(setAdmins)
+      .catch((error) => console.error('[Courses] Failed to list admins:', error));
+  }, [isSuperAdmin]);
+
+  const loadRoster = useCallback(async (course: Course) => {
+    setIsLoadingRoster(true);
+    try {
+      setRoster(await getRoster(course.id));
+    } catch (error) {
+      console.error('[Courses] Failed to load roster:', error);
+      setRoster([]);
+    } finally {
+      setIsLoadingRoster(false);
+    }
+  }, []);
+
+  const loadStaff = useCallback(async (course: Course) => {
+    try {
+      setStaff(await getCourseStaff(course.id));
+    } catch (error) {
+      console.error('[Courses] Failed to load staff:', error);
+      setStaff([]);
+    }
+  }, []);
+
+  const handleSettingsSaved = (course: Course) => {
+    setSelectedCourse(course);
+    setCourses((list) => list.map((c) => (c.id === course.id ? course : c)));
+  };
+
+  const handleSelectCourse = (course: Course) => {
+    setSelectedCourse(course);
+    setFile(null);
+    setReport(null);
+    setStaffToAdd('');
+    loadRoster(course);
+    if (isSuperAdmin) loadStaff(course);
+  };
+
+  const handleAssignStaff = async () => {
+    if (!selectedCourse || !staffToAdd) return;
+
+    try {
+      await assignCourseStaff(selectedCourse.id, staffToAdd);
+      setStaffToAdd('');
+      loadStaff(selectedCourse);
+    } catch (error) {
+      toast({
+        title: "خطأ",
+        description: error instanceof Error ? error.message : "تعذر تعيين المحاضر",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveStaff = async (adminId: string) => {
+    if (!selectedCourse) return;
+
+    try {
+      await removeCourseStaff(selectedCourse.id, adminId);
+      setStaff((prev) => prev.filter((member) => member.id !== adminId));
+    } catch (error) {
+      toast({
+        title: "خطأ",
+        description: error instanceof Error ? error.message : "تعذر إزالة المحاضر",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateCourse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const course = await createCourse(code.trim(), name.trim());
+      setCourses((prev) => [...prev, course].sort((a, b) => a.code.localeCompare(b.code)));
+      setCode('');
+      setName('');
+      handleSelectCourse(course);
+    } catch (error) {
+      toast({
+        title: "خطأ",
+        description: error instanceof Error ? error.message : "تعذر إنشاء المادة",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // المعاينة أولاً ثم التأكيد لكتابة البيانات
+  const handleImport = async (dryRun: boolean) => {
+    if (!selectedCourse || !file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importRoster(selectedCourse.id, file, dryRun);
+      setReport(result);
+
+      if (!dryRun) {
+        toast({
+          title: "تم الاستيراد",
+          description: `${result.inserted} جديد، ${result.updated} محدث`,
+        });
+        setFile(null);
+        setReport(null);
+        loadRoster(selectedCourse);
+      }
+    } catch (error) {
+      toast({
+        title: "خطأ",
+        description: error instanceof Error ? error.message : "تعذر قراءة الملف",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Users className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">COURSES & ROSTERS</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {isSuperAdmin && (
+              <>
+                <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+                  <Link to="/admin/users">
+                    <ShieldCheck className="w-4 h-4" />
+                    المسؤولون
+                  </Link>
+                </Button>
+                <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+                  <Link to="/admin/audit">
+                    <History className="w-4 h-4" />
+                    السجل
+                  </Link>
+                </Button>
+                <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+                  <Link to="/admin/rooms">
+                    <MapPin className="w-4 h-4" />
+                    القاعات
+                  </Link>
+                </Button>
+              </>
+            )}
+            {canImport && (
+              <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+                <Link to="/admin/devices">
+                  <Smartphone className="w-4 h-4" />
+                  الأجهزة
+                </Link>
+              </Button>
+            )}
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/reports">
+                <BarChart3 className="w-4 h-4" />
+                التقارير
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/">
+                <ArrowRight className="w-4 h-4" />
+                QR
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-6 md:grid-cols-[280px_1fr]" dir="rtl">
+        {/* Course list */}
+        <aside className="space-y-4">
+          <div className="bg-card/80 border border-border rounded-xl p-4 space-y-2">
+            <p className="text-xs font-mono text-muted-foreground">المواد</p>
+            {courses.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                {isSuperAdmin ? 'لا توجد مواد بعد' : 'لم يتم تعيينك لأي مادة بعد'}
+              </p>
+            )}
+            {courses.map((course) => (
+              <button
+                key={course.id}
+                type="button"
+                onClick={() => handleSelectCourse(course)}
+                className={`w-full flex items-center gap-2 p-3 rounded-lg border text-sm text-right transition-colors ${
+                  selectedCourse?.id === course.id ? 'border-primary bg-primary/10' : 'border-border hover:border-primary'
+                }`}
+              >
+                <BookOpen className="w-4 h-4 text-primary shrink-0" />
+                <span className="font-mono text-xs text-muted-foreground">{course.code}</span>
+                <span className="text-foreground truncate">{course.name}</span>
+              </button>
+            ))}
+          </div>
+
+          {isSuperAdmin && (
+            <form onSubmit={handleCreateCourse} className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+              <p className="text-xs font-mono text-muted-foreground">مادة جديدة</p>
+              <div className="space-y-1">
+                <Label htmlFor="courseCode">الرمز</Label>
+                <Input
+                  id="courseCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="CS101"
+                  className="bg-muted/50 font-mono"
+                  dir="ltr"
+                  disabled={isCreating}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="courseName">الاسم</Label>
+                <Input
+                  id="courseName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="bg-muted/50"
+                  disabled={isCreating}
+                />
+              </div>
+              <Button type="submit" size="sm" className="w-full gap-2" disabled={isCreating || !code.trim() || !name.trim()}>
+                <Plus className="w-4 h-4" />
+                إضافة
+              </Button>
+            </form>
+          )}
+        </aside>
+
+        {/* Roster */}
+        <section className="bg-card/80 border border-border rounded-xl p-6">
+          {!selectedCourse ? (
+            <p className="text-muted-foreground text-center py-12">اختر مادة لعرض الطلاب المسجلين</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <h2 className="font-display text-2xl text-glow">{selectedCourse.name}</h2>
+                  <p className="text-xs font-mono text-muted-foreground">
+                    {selectedCourse.code} | {roster.length} طالب
+                  </p>
+                </div>
+
+                {canImport && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="file"
+                      accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                      onChange={(e) => {
+                        setFile(e.target.files?.[0] || null);
+                        setReport(null);
+                      }}
+                      className="bg-muted/50 max-w-[240px]"
+                      disabled={isImporting}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => handleImport(true)}
+                      disabled={!file || isImporting}
+                    >
+                      {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+                      معاينة
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {canImport && (
+                <p className="text-xs text-muted-foreground">
+                  الأعمدة المطلوبة: student_id, full_name — واختياري: section
+                </p>
+              )}
+
+              {canImport && (
+                <CourseAlertSettings course={selectedCourse} onSaved={handleSettingsSaved} />
+              )}
+
+              {canImport && (
+                <CourseCheckInPolicies course={selectedCourse} onSaved={handleSettingsSaved} />
+              )}
+
+              {isSuperAdmin && (
+                <div className="border border-border rounded-lg p-4 space-y-3">
+                  <p className="text-xs font-mono text-muted-foreground">المحاضرون والمعيدون</p>
+                  {staff.length === 0 && (
+                    <p className="text-sm text-muted-foreground">لم يتم تعيين أحد لهذه المادة</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {staff.map((member) => (
+                      <Badge key={member.id} variant="secondary" className="gap-2 py-1">
+                        {member.display_name || member.username}
+                        <span className="text-muted-foreground">({ADMIN_ROLE_LABELS[member.role]})</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveStaff(member.id)}
+                          className="text-muted-foreground hover:text-destructive"
+                          aria-label="إزالة"
+                        >
+                          <UserMinus className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select value={staffToAdd} onValueChange={setStaffToAdd}>
+                      <SelectTrigger className="bg-muted/50 border-border max-w-[240px]">
+                        <SelectValue placeholder="اختر محاضراً" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {admins
+                          .filter((a) => a.role !== 'super_admin' && !a.disabled_at && !staff.some((m) => m.id === a.id))
+                          .map((a) => (
+                            <SelectItem key={a.id} value={a.id}>
+                              {a.display_name || a.username} ({ADMIN_ROLE_LABELS[a.role]})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="outline" className="gap-2" onClick={handleAssignStaff} disabled={!staffToAdd}>
+                      <Plus className="w-4 h-4" />
+                      تعيين
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {report && (
+                <div className="border border-border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2 flex-wrap text-sm">
+                    <Badge variant="secondary">الصفوف: {report.total}</Badge>
+                    <Badge>جديد: {report.inserted}</Badge>
+                    <Badge variant="outline">تحديث: {report.updated}</Badge>
+                    <Badge variant={report.duplicates.length ? 'destructive' : 'outline'}>مكرر: {report.duplicates.length}</Badge>
+                    <Badge variant={report.malformed.length ? 'destructive' : 'outline'}>غير صالح: {report.malformed.length}</Badge>
+                  </div>
+
+                  {[...report.duplicates, ...report.malformed].length > 0 && (
+                    <ul className="text-xs font-mono text-destructive space-y-1 max-h-40 overflow-y-auto" dir="ltr">
+                      {[...report.duplicates, ...report.malformed]
+                        .sort((a, b) => a.row - b.row)
+                        .map((issue) => (
+                          <li key={`${issue.row}-${issue.reason}`}>
+                            Row {issue.row}{issue.student_id ? ` (${issue.student_id})` : ''}: {issue.reason}
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => handleImport(false)}
+                    disabled={isImporting || report.inserted + report.updated === 0}
+                  >
+                    <Upload className="w-4 h-4" />
+                    تأكيد الاستيراد
+                  </Button>
+                </div>
+              )}
+
+              {isLoadingRoster ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-right">رقم الطالب</TableHead>
+                      <TableHead className="text-right">الاسم</TableHead>
+                      <TableHead className="text-right">الشعبة</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roster.map((student) => (
+                      <TableRow key={student.student_id}>
+                        <TableCell className="font-mono">{student.student_id}</TableCell>
+                        <TableCell>{student.full_name}</TableCell>
+                        <TableCell>{student.section || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default CourseManager;
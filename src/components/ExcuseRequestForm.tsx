@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, CheckCircle2, FileText, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/lib/api';
+import { listExcusableSessions, submitExcuse, type ExcusableSession } from '@/lib/excuses';
+
+const formatSession = (session: ExcusableSession): string =>
+  `${session.course} - ${new Date(session.starts_at).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+// طلب عذر غياب من الطالب المسجل دخوله: اختيار المحاضرة التي فاتته وكتابة السبب
+const ExcuseRequestForm = () => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ExcusableSession[] | null>(null);
+  const [sessionId, setSessionId] = useState('');
+  const [reason, setReason] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  useEffect(() => {
+    listExcusableSessions()
+      .then((list) => {
+        setSessions(list);
+        setSessionId(list.find((session) => !session.pending)?.id ?? '');
+      })
+      .catch((error) => {
+        // رقم غير مسجل في أي مادة يعني أنه لا توجد محاضرات لطلب عذر لها
+        setSessions([]);
+        if (!(error instanceof ApiError && error.status === 404)) {
+          toast({ title: 'تعذر تحميل المحاضرات', description: 'حدث خطأ، حاول مرة أخرى', variant: 'destructive' });
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, [toast]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionId || !reason.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await submitExcuse({ session_id: sessionId, reason: reason.trim(), file });
+      setIsSubmitted(true);
+    } catch (error) {
+      toast({
+        title: 'تعذر إرسال العذر',
+        description: error instanceof ApiError && error.status === 409
+          ? 'يوجد عذر قيد المراجعة لهذه المحاضرة'
+          : error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4 text-center" dir="rtl">
+        <CheckCircle2 className="w-20 h-20 text-primary mb-6" />
+        <h1 className="font-display text-3xl text-glow mb-4">تم إرسال العذر</h1>
+        <p className="text-muted-foreground">سيراجع المحاضر طلبك، وعند قبوله تُسجل المحاضرة بعذر.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid flex items-center justify-center p-4" dir="rtl">
+      <div className="w-full max-w-md bg-card/80 backdrop-blur border border-border rounded-2xl p-8 space-y-6">
+        <div className="text-center">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 rounded-full mb-4">
+            <FileText className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="font-display text-2xl text-glow mb-2">عذر غياب</h1>
+          <p className="text-sm text-muted-foreground">للمحاضرات التي فاتتك خلال آخر أسبوعين</p>
+        </div>
+
+        {sessions === null ? (
+          <div className="flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">لا توجد محاضرات غياب يمكن تقديم عذر لها</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>المحاضرة</Label>
+                <Select value={sessionId} onValueChange={setSessionId}>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue placeholder="اختر المحاضرة" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sessions.map((session) => (
+                      <SelectItem key={session.id} value={session.id} disabled={session.pending}>
+                        {formatSession(session)}{session.pending ? ' (قيد المراجعة)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="excuseReason">السبب</Label>
+                <Textarea
+                  id="excuseReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={1000}
+                  className="bg-background/50"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="excuseFile">مرفق، مثل تقرير طبي (اختياري، PDF أو صورة حتى 2MB)</Label>
+                <Input
+                  id="excuseFile"
+                  type="file"
+                  accept="application/pdf,image/jpeg,image/png,image/webp"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className="bg-background/50"
+                  disabled={isLoading}
+                />
+              </div>
+              <Button type="submit" className="w-full gap-2" disabled={isLoading || !sessionId || !reason.trim()}>
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                إرسال العذر
+              </Button>
+            </form>
+          )
+        )}
+
+        <Button asChild variant="ghost" size="sm" className="w-full gap-2">
+          <Link to="/me">
+            <ArrowRight className="w-4 h-4" />
+            سجل الحضور
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ExcuseRequestForm;
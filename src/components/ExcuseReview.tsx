@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Check, FileCheck, Loader2, LogOut, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { EXCUSE_STATUS_LABELS, listExcuses, reviewExcuse, type Excuse, type ExcuseStatus } from '@/lib/excuses';
+
+interface ExcuseReviewProps {
+  onLogout: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+// مراجعة أعذار الغياب التي أرسلها الطلاب، والقبول يسجل الطالب بعذر في تلك المحاضرة
+const ExcuseReview = ({ onLogout }: ExcuseReviewProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ExcuseStatus>('pending');
+  const [excuses, setExcuses] = useState<Excuse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadExcuses = useCallback(() => {
+    setIsLoading(true);
+    listExcuses(status)
+      .then(setExcuses)
+      .catch((error) => {
+        console.error('[Excuses] Failed to load excuses:', error);
+        setExcuses([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    loadExcuses();
+  }, [loadExcuses]);
+
+  const handleReview = async (excuse: Excuse, decision: 'approve' | 'reject') => {
+    setReviewingId(excuse.id);
+    try {
+      await reviewExcuse(excuse.id, decision, notes[excuse.id]?.trim() || '');
+      toast({ title: decision === 'approve' ? 'تم قبول العذر' : 'تم رفض العذر', description: excuse.student_name });
+      setExcuses((current) => current.filter((item) => item.id !== excuse.id));
+    } catch (error) {
+      toast({
+        title: 'تعذرت المراجعة',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+      loadExcuses();
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <FileCheck className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">EXCUSES</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/reports">
+                <ArrowRight className="w-4 h-4" />
+                التقارير
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <div className="bg-card/80 border border-border rounded-xl p-4 flex items-end gap-3">
+          <div className="space-y-1 w-full max-w-xs">
+            <Label>الحالة</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ExcuseStatus)}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXCUSE_STATUS_LABELS) as ExcuseStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{EXCUSE_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : excuses.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">لا توجد أعذار</p>
+        ) : (
+          <div className="space-y-3">
+            {excuses.map((excuse) => (
+              <article key={excuse.id} className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-display">{excuse.student_name}</p>
+                    <p className="text-xs font-mono text-muted-foreground">{excuse.student_id}</p>
+                  </div>
+                  <div className="text-xs text-muted-foreground text-left">
+                    <p>{excuse.session.course}{excuse.session.week_number !== null ? ` · الأسبوع ${excuse.session.week_number}` : ''}</p>
+                    <p>{formatDate(excuse.session.starts_at)}</p>
+                  </div>
+                </div>
+
+                <p className="text-sm whitespace-pre-wrap">{excuse.reason}</p>
+
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                  <span>أُرسل {formatDate(excuse.created_at)}</span>
+                  {excuse.attachment_url && (
+                    <a href={excuse.attachment_url} target="_blank" rel="noreferrer" className="text-primary inline-flex items-center gap-1 hover:underline">
+                      <Paperclip className="w-3 h-3" />
+                      المرفق
+                    </a>
+                  )}
+                  {excuse.reviewed_at && <span>رُوجع {formatDate(excuse.reviewed_at)}</span>}
+                  {excuse.review_note && <span>ملاحظة: {excuse.review_note}</span>}
+                </div>
+
+                {excuse.status === 'pending' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      value={notes[excuse.id] || ''}
+                      onChange={(e) => setNotes((current) => ({ ...current, [excuse.id]: e.target.value }))}
+                      placeholder="ملاحظة (اختياري)"
+                      maxLength={500}
+                      className="bg-muted/50 flex-1 min-w-[12rem]"
+                      disabled={reviewingId !== null}
+                    />
+                    <Button size="sm" className="gap-2" onClick={() => handleReview(excuse, 'approve')} disabled={reviewingId !== null}>
+                      {reviewingId === excuse.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      قبول
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-2 text-destructive"
+                      onClick={() => handleReview(excuse, 'reject')}
+                      disabled={reviewingId !== null}
+                    >
+                      <X className="w-4 h-4" />
+                      رفض
+                    </Button>
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ExcuseReview;
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DoorOpen, Loader2, ShieldX } from 'lucide-react';
+import { getDeviceFingerprint } from '@/lib/deviceFingerprint';
+
+type ExitState = 'recording' | 'recorded' | 'failed';
+
+interface ExitResult {
+  success: boolean;
+  studentName?: string;
+  course?: string;
+  leftAt?: string;
+  alreadyLeft?: boolean;
+  notCheckedIn?: boolean;
+  forwarded?: boolean;
+  expired?: boolean;
+  error?: string;
+}
+
+const recordExit = async (token: string, deviceId: string): Promise<ExitResult> => {
+  try {
+    const response = await fetch('/api/record-exit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, device_id: deviceId }),
+    });
+
+    return await response.json();
+  } catch (e) {
+    console.error('[Exit] Request failed:', e);
+    return { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
+  }
+};
+
+const failureMessage = (result: ExitResult): string => {
+  if (result.notCheckedIn) return 'لم يتم تسجيل حضور من هذا الجهاز في هذه المحاضرة';
+  if (result.forwarded) return 'تم استخدام هذا الرمز من جهاز آخر. يرجى مسح الـ QR Code بنفسك.';
+  if (result.expired) return 'الـ QR Code انتهت صلاحيته. يرجى مسح QR Code جديد.';
+  return 'رمز الخروج غير صالح. يرجى مسح QR Code الخروج المعروض في القاعة.';
+};
+
+// صفحة مسح الخروج: تسجل وقت خروج الطالب على نفس الجهاز الذي سجل منه الحضور
+const ExitScan = () => {
+  const [searchParams] = useSearchParams();
+  const [state, setState] = useState<ExitState>('recording');
+  const [result, setResult] = useState<ExitResult | null>(null);
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+
+    if (!token) {
+      setResult({ success: false });
+      setState('failed');
+      return;
+    }
+
+    getDeviceFingerprint()
+      .then((deviceId) => recordExit(token, deviceId))
+      .then((exitResult) => {
+        setResult(exitResult);
+        setState(exitResult.success || exitResult.alreadyLeft ? 'recorded' : 'failed');
+      });
+  }, [searchParams]);
+
+  if (state === 'recording') {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4">
+        <Loader2 className="w-16 h-16 text-primary animate-spin mb-6" />
+        <p className="font-mono text-sm text-muted-foreground animate-pulse">RECORDING EXIT...</p>
+      </div>
+    );
+  }
+
+  const leftAt = result?.leftAt
+    ? new Date(result.leftAt).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4">
+      <div className="text-center max-w-md" dir="rtl">
+        {state === 'recorded' ? (
+          <>
+            <DoorOpen className="w-20 h-20 text-primary mx-auto mb-6" />
+            <h1 className="font-display text-3xl text-glow mb-4">
+              {result?.alreadyLeft ? 'تم تسجيل خروجك مسبقاً' : 'تم تسجيل الخروج'}
+            </h1>
+            {result?.studentName && <p className="text-foreground mb-1">{result.studentName}</p>}
+            {result?.course && <p className="text-sm text-muted-foreground mb-1">{result.course}</p>}
+            {leftAt && <p className="text-sm text-muted-foreground font-mono">{leftAt}</p>}
+          </>
+        ) : (
+          <>
+            <ShieldX className="w-20 h-20 text-destructive mx-auto mb-6" />
+            <h1 className="font-display text-3xl text-destructive mb-4">تعذر تسجيل الخروج</h1>
+            <p className="text-sm text-muted-foreground">{failureMessage(result || { success: false })}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExitScan;
@@ -0,0 +1,306 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { BarChart3, BookOpen, Calendar, Clock, MapPin, PlayCircle, ShieldCheck, User, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { listOpenSessions, openLectureSession, type LectureSession } from '@/lib/lectureSessions';
+import { listCourses, type Course } from '@/lib/courses';
+import { listRooms, type Room } from '@/lib/rooms';
+import type { AdminProfile } from '@/lib/adminAuth';
+
+const DEFAULT_DURATION_MINUTES = 90;
+const FREE_TEXT_COURSE = 'free-text';
+
+interface LectureSessionFormProps {
+  admin: AdminProfile;
+  onSessionReady: (session: LectureSession) => void;
+}
+
+const LectureSessionForm = ({ admin, onSessionReady }: LectureSessionFormProps) => {
+  // المواد غير المسجلة متاحة للمسؤول العام فقط
+  const allowFreeText = admin.role === 'super_admin';
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoadingCourses, setIsLoadingCourses] = useState(true);
+  const [courseId, setCourseId] = useState(allowFreeText ? FREE_TEXT_COURSE : '');
+  const [course, setCourse] = useState('');
+  const [instructor, setInstructor] = useState(admin.displayName || '');
+  const [room, setRoom] = useState('');
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [weekNumber, setWeekNumber] = useState('');
+  const [duration, setDuration] = useState(String(DEFAULT_DURATION_MINUTES));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [openSessions, setOpenSessions] = useState<LectureSession[]>([]);
+  const { toast } = useToast();
+
+  // جلب المحاضرات المفتوحة لاستكمالها
+  useEffect(() => {
+    listOpenSessions()
+      .then(setOpenSessions)
+      .catch((error) => console.error('[Sessions] Failed to list open sessions:', error));
+
+    listCourses()
+      .then((list) => {
+        setCourses(list);
+        // بدون خيار المادة غير المسجلة نختار أول مادة مسموحة تلقائياً
+        if (!allowFreeText && list.length > 0) {
+          setCourseId(list[0].id);
+          setCourse(list[0].name);
+        }
+      })
+      .catch((error) => console.error('[Courses] Failed to list courses:', error))
+      .finally(() => setIsLoadingCourses(false));
+
+    // اقتراح القاعات المسجلة: اختيار إحداها يربط المحاضرة بإحداثياتها
+    listRooms()
+      .then(setRooms)
+      .catch((error) => console.error('[Rooms] Failed to list rooms:', error));
+  }, [allowFreeText]);
+
+  const handleCourseChange = (value: string) => {
+    setCourseId(value);
+    const selected = courses.find((c) => c.id === value);
+    setCourse(selected ? selected.name : '');
+  };
+
+  const hasNoAssignedCourses = !allowFreeText && !isLoadingCourses && courses.length === 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const minutes = parseInt(duration, 10);
+    if (!course.trim() || !instructor.trim() || isNaN(minutes) || minutes <= 0) {
+      toast({
+        title: "خطأ",
+        description: "يرجى إدخال المادة والمحاضر ومدة المحاضرة",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const startsAt = new Date();
+      const session = await openLectureSession({
+        course_id: courseId === FREE_TEXT_COURSE ? undefined : courseId,
+        course: course.trim(),
+        instructor: instructor.trim(),
+        room: room.trim(),
+        week_number: weekNumber.trim(),
+        starts_at: startsAt.toISOString(),
+        ends_at: new Date(startsAt.getTime() + minutes * 60 * 1000).toISOString(),
+      });
+
+      toast({
+        title: "تم فتح المحاضرة",
+        description: session.course,
+      });
+      onSessionReady(session);
+    } catch (error) {
+      console.error('[Sessions] Failed to open session:', error);
+      toast({
+        title: "خطأ",
+        description: "تعذر فتح المحاضرة",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4 relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 bg-gradient-to-b from-cyber-green/5 to-transparent pointer-events-none" />
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-cyber-green to-transparent opacity-50" />
+
+      <div className="w-full max-w-md z-10">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <PlayCircle className="w-10 h-10 text-primary animate-pulse" />
+            <h1 className="font-display text-3xl md:text-4xl font-bold text-glow-strong tracking-wider">
+              OPEN SESSION
+            </h1>
+          </div>
+          <p className="text-muted-foreground font-mono text-sm">
+            افتح محاضرة قبل عرض الـ QR Code
+          </p>
+          <div className="flex items-center justify-center gap-4 mt-2">
+            <Link
+              to="/admin/courses"
+              className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+            >
+              <Users className="w-3 h-3" />
+              إدارة المواد والطلاب
+            </Link>
+            <Link
+              to="/admin/reports"
+              className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+            >
+              <BarChart3 className="w-3 h-3" />
+              التقارير
+            </Link>
+            <Link
+              to="/admin/security"
+              className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+            >
+              <ShieldCheck className="w-3 h-3" />
+              الأمان
+            </Link>
+          </div>
+        </div>
+
+        {openSessions.length > 0 && (
+          <div className="mb-6 bg-card/80 border border-border rounded-xl p-4 space-y-2" dir="rtl">
+            <p className="text-xs font-mono text-muted-foreground">محاضرات مفتوحة</p>
+            {openSessions.map((session) => (
+              <button
+                key={session.id}
+                type="button"
+                onClick={() => onSessionReady(session)}
+                className="w-full flex items-center justify-between gap-2 p-3 rounded-lg border border-border hover:border-primary transition-colors text-sm"
+              >
+                <span className="text-foreground">{session.course}</span>
+                <span className="text-xs font-mono text-muted-foreground">
+                  {new Date(session.starts_at).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Form Container */}
+        <div className="relative">
+          <div className="absolute -inset-4 bg-gradient-to-r from-cyber-green/20 via-cyber-cyan/20 to-cyber-green/20 rounded-2xl blur-xl" />
+
+          <form onSubmit={handleSubmit} className="relative bg-card border-2 border-primary/50 rounded-xl p-6 box-glow space-y-4" dir="rtl">
+            <div className="space-y-2">
+              <Label htmlFor="course" className="flex items-center gap-2 text-foreground">
+                <BookOpen className="w-4 h-4 text-primary" />
+                <span>المادة</span>
+              </Label>
+              {courses.length > 0 && (
+                <Select value={courseId} onValueChange={handleCourseChange} disabled={isSubmitting}>
+                  <SelectTrigger className="bg-muted/50 border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allowFreeText && <SelectItem value={FREE_TEXT_COURSE}>مادة غير مسجلة</SelectItem>}
+                    {courses.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.code} - {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {hasNoAssignedCourses && (
+                <p className="text-sm text-destructive">لم يتم تعيينك لأي مادة. تواصل مع المسؤول العام.</p>
+              )}
+              <Input
+                id="course"
+                value={course}
+                onChange={(e) => setCourse(e.target.value)}
+                placeholder="اسم المادة"
+                className="bg-muted/50 border-border focus:border-primary"
+                disabled={isSubmitting || courseId !== FREE_TEXT_COURSE}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="instructor" className="flex items-center gap-2 text-foreground">
+                <User className="w-4 h-4 text-primary" />
+                <span>المحاضر</span>
+              </Label>
+              <Input
+                id="instructor"
+                value={instructor}
+                onChange={(e) => setInstructor(e.target.value)}
+                placeholder="اسم المحاضر"
+                className="bg-muted/50 border-border focus:border-primary"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="room" className="flex items-center gap-2 text-foreground">
+                  <MapPin className="w-4 h-4 text-primary" />
+                  <span>القاعة</span>
+                </Label>
+                <Input
+                  id="room"
+                  value={room}
+                  onChange={(e) => setRoom(e.target.value)}
+                  placeholder="اختياري"
+                  list="roomOptions"
+                  className="bg-muted/50 border-border focus:border-primary"
+                  disabled={isSubmitting}
+                />
+                <datalist id="roomOptions">
+                  {rooms.map((r) => (
+                    <option key={r.id} value={r.name} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="weekNumber" className="flex items-center gap-2 text-foreground">
+                  <Calendar className="w-4 h-4 text-primary" />
+                  <span>الأسبوع</span>
+                </Label>
+                <Input
+                  id="weekNumber"
+                  type="number"
+                  min={1}
+                  value={weekNumber}
+                  onChange={(e) => setWeekNumber(e.target.value)}
+                  placeholder="اختياري"
+                  className="bg-muted/50 border-border focus:border-primary"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="duration" className="flex items-center gap-2 text-foreground">
+                <Clock className="w-4 h-4 text-primary" />
+                <span>المدة (دقيقة)</span>
+              </Label>
+              <Input
+                id="duration"
+                type="number"
+                min={1}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="bg-muted/50 border-border focus:border-primary font-mono"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isSubmitting || !courseId}
+              className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-display tracking-wider"
+            >
+              {isSubmitting ? (
+                <span className="flex items-center gap-2">
+                  <span className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                  جاري الفتح...
+                </span>
+              ) : (
+                'فتح المحاضرة'
+              )}
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LectureSessionForm;
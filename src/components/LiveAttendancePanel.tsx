@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Eye, EyeOff, Radio, UserCheck, UserX, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { getLiveAttendance, subscribeToAttendance, type LiveAttendance } from '@/lib/attendanceLive';
+
+interface LiveAttendancePanelProps {
+  sessionId: string;
+}
+
+// بدون Realtime يتم التحديث كل بضع ثوان، ومعه تحديث احتياطي أبطأ
+const POLL_INTERVAL_MS = 5000;
+const REALTIME_SAFETY_INTERVAL_MS = 30000;
+
+const LiveAttendancePanel = ({ sessionId }: LiveAttendancePanelProps) => {
+  const [data, setData] = useState<LiveAttendance | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  // الأسماء قد لا يُرغب بعرضها على جهاز العرض
+  const [isHidden, setIsHidden] = useState(false);
+  const isFetchingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+    try {
+      setData(await getLiveAttendance(sessionId));
+    } catch (error) {
+      console.error('[Attendance] Failed to load live attendance:', error);
+    } finally {
+      isFetchingRef.current = false;
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToAttendance(sessionId, refresh, setIsLive);
+  }, [sessionId, refresh]);
+
+  useEffect(() => {
+    const interval = setInterval(refresh, isLive ? REALTIME_SAFETY_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLive, refresh]);
+
+  return (
+    <div className="bg-card/90 backdrop-blur border border-border rounded-xl p-4 space-y-3 w-full" dir="rtl">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <span className="font-display text-lg text-glow">
+            {data ? data.count : '-'}
+            {data?.enrolledCount !== null && data?.enrolledCount !== undefined && (
+              <span className="text-muted-foreground text-sm"> / {data.enrolledCount}</span>
+            )}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Badge variant="outline" className="gap-1 font-mono text-[10px]">
+            <Radio className={`w-3 h-3 ${isLive ? 'text-primary animate-pulse' : 'text-muted-foreground'}`} />
+            {isLive ? 'LIVE' : 'POLLING'}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-muted-foreground"
+            onClick={() => setIsHidden(!isHidden)}
+            aria-label={isHidden ? 'إظهار الأسماء' : 'إخفاء الأسماء'}
+          >
+            {isHidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {!isHidden && data && (
+        <>
+          <div className="space-y-1">
+            <p className="text-xs font-mono text-muted-foreground flex items-center gap-1">
+              <UserCheck className="w-3 h-3" />
+              آخر الحضور
+            </p>
+            {data.recent.length === 0 ? (
+              <p className="text-sm text-muted-foreground">لم يسجل أحد بعد</p>
+            ) : (
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                {data.recent.map((checkIn) => (
+                  <li key={checkIn.student_id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{checkIn.student_name}</span>
+                    <span className="text-xs font-mono text-muted-foreground shrink-0">
+                      {new Date(checkIn.recorded_at).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {data.missing && (
+            <div className="space-y-1">
+              <p className="text-xs font-mono text-muted-foreground flex items-center gap-1">
+                <UserX className="w-3 h-3" />
+                لم يسجلوا بعد ({data.missing.length})
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-sm text-muted-foreground">
+                {data.missing.map((student) => (
+                  <li key={student.student_id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{student.full_name}</span>
+                    <span className="text-xs font-mono shrink-0">{student.student_id}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LiveAttendancePanel;
@@ -1,66 +1,124 @@
-import { useState } from 'react';
-import { Shield, Lock, Eye, EyeOff } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Shield, Lock, Eye, EyeOff, User, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useToast } from '@/hooks/use-toast';
-
-// كلمة المرور المشفرة - لا تغيرها
-const HASHED_PASSWORD = 'QxK9#mPv$2nL@8wZ';
+import { ApiError } from '@/lib/api';
+import { adminLogin, verifyAdminLogin, type AdminProfile, type SecondFactor } from '@/lib/adminAuth';
 
 interface PasswordGateProps {
-  onSuccess: () => void;
+  onSuccess: (admin: AdminProfile) => void;
 }
 
 const PasswordGate = ({ onSuccess }: PasswordGateProps) => {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [attempts, setAttempts] = useState(0);
+  // القفل يحدده الخادم (حسب الحساب وعنوان IP) ويعيد المدة المتبقية
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // الخطوة الثانية عند تفعيل المصادقة الثنائية
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  // يعيد true إذا رد الخادم بالقفل المؤقت
+  const applyLockout = (error: unknown): boolean => {
+    if (!(error instanceof ApiError) || error.status !== 429) return false;
+    const retryAfterMs = Number(error.data.retryAfterMs) || 60000;
+    setNow(Date.now());
+    setLockedUntil(Date.now() + retryAfterMs);
+    return true;
+  };
+
+  const welcome = (admin: AdminProfile) => {
+    toast({
+      title: "تم التحقق",
+      description: `مرحباً ${admin.displayName || admin.username}`,
+    });
+    onSuccess(admin);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // محاكاة تأخير للأمان
-    setTimeout(() => {
-      if (password === HASHED_PASSWORD) {
-        // حفظ الجلسة
-        sessionStorage.setItem('admin-auth', btoa(Date.now().toString()));
-        toast({
-          title: "تم التحقق",
-          description: "مرحباً بك في النظام",
-        });
-        onSuccess();
-      } else {
-        setAttempts(prev => prev + 1);
-        toast({
-          title: "خطأ",
-          description: attempts >= 2 ? "محاولات متعددة خاطئة - حاول لاحقاً" : "كلمة المرور غير صحيحة",
-          variant: "destructive",
-        });
-        
-        // قفل مؤقت بعد 3 محاولات خاطئة
-        if (attempts >= 2) {
-          sessionStorage.setItem('lockout', Date.now().toString());
-        }
+    // التحقق يتم على الخادم والجلسة تحفظ في كوكي HttpOnly
+    try {
+      const result = await adminLogin(username.trim(), password);
+      if ('challenge' in result) {
+        setChallenge(result.challenge);
+        setCode('');
+        return;
       }
+      welcome(result.admin);
+    } catch (error) {
+      setPassword('');
+      if (applyLockout(error)) return;
+      toast({
+        title: "خطأ",
+        description: "اسم المستخدم أو كلمة المرور غير صحيحة",
+        variant: "destructive",
+      });
+    } finally {
       setIsLoading(false);
-    }, 500);
+    }
   };
 
-  // التحقق من القفل المؤقت
-  const lockoutTime = sessionStorage.getItem('lockout');
-  const isLockedOut = lockoutTime && (Date.now() - parseInt(lockoutTime)) < 60000; // دقيقة واحدة
+  const handleVerify = async (value = code) => {
+    if (!challenge || !value.trim()) return;
+    setIsLoading(true);
+
+    const factor: SecondFactor = useRecoveryCode ? { recovery_code: value.trim() } : { code: value };
+
+    try {
+      welcome(await verifyAdminLogin(challenge, factor));
+    } catch (error) {
+      setCode('');
+      if (applyLockout(error)) {
+        setChallenge(null);
+        setPassword('');
+        return;
+      }
+      // انتهت مهلة الخطوة الثانية - العودة لكلمة المرور
+      const expired = error instanceof ApiError && error.data.expired === true;
+      if (expired) {
+        setChallenge(null);
+        setPassword('');
+      }
+      toast({
+        title: "خطأ",
+        description: expired ? "انتهت المهلة، أدخل كلمة المرور مجدداً" : "الرمز غير صحيح أو مستخدم من قبل",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  if (isLockedOut) {
-    const remainingTime = Math.ceil((60000 - (Date.now() - parseInt(lockoutTime!))) / 1000);
+  if (lockedUntil && lockedUntil > now) {
+    const remainingSeconds = Math.ceil((lockedUntil - now) / 1000);
+    const remainingTime = remainingSeconds >= 60
+      ? `${Math.floor(remainingSeconds / 60)}:${String(remainingSeconds % 60).padStart(2, '0')} دقيقة`
+      : `${remainingSeconds} ثانية`;
     return (
       <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4">
         <div className="text-center">
           <Lock className="w-16 h-16 text-destructive mx-auto mb-4" />
           <h1 className="font-display text-2xl text-destructive mb-2">تم القفل مؤقتاً</h1>
-          <p className="text-muted-foreground font-mono">حاول مرة أخرى بعد {remainingTime} ثانية</p>
+          <p className="text-muted-foreground font-mono">حاول مرة أخرى بعد {remainingTime}</p>
         </div>
       </div>
     );
@@ -82,7 +140,7 @@ const PasswordGate = ({ onSuccess }: PasswordGateProps) => {
             </h1>
           </div>
           <p className="text-muted-foreground font-mono text-sm">
-            أدخل كلمة المرور للوصول للنظام
+            سجّل الدخول بحساب المسؤول
           </p>
         </div>
 
@@ -90,54 +148,133 @@ const PasswordGate = ({ onSuccess }: PasswordGateProps) => {
         <div className="relative">
           <div className="absolute -inset-4 bg-gradient-to-r from-cyber-green/20 via-cyber-cyan/20 to-cyber-green/20 rounded-2xl blur-xl" />
           
-          <form onSubmit={handleSubmit} className="relative bg-card border-2 border-primary/50 rounded-xl p-6 box-glow">
+          <form onSubmit={challenge ? (e) => { e.preventDefault(); handleVerify(); } : handleSubmit} className="relative bg-card border-2 border-primary/50 rounded-xl p-6 box-glow">
             {/* Corner decorations */}
             <div className="absolute top-0 left-0 w-4 h-4 border-t-2 border-l-2 border-cyber-green rounded-tl-lg" />
             <div className="absolute top-0 right-0 w-4 h-4 border-t-2 border-r-2 border-cyber-green rounded-tr-lg" />
             <div className="absolute bottom-0 left-0 w-4 h-4 border-b-2 border-l-2 border-cyber-green rounded-bl-lg" />
             <div className="absolute bottom-0 right-0 w-4 h-4 border-b-2 border-r-2 border-cyber-green rounded-br-lg" />
 
-            <div className="space-y-4">
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                <Input
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="كلمة المرور"
-                  className="pl-10 pr-10 bg-muted/50 border-border focus:border-primary font-mono text-center"
-                  dir="ltr"
-                  autoComplete="off"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-primary transition-colors"
-                >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
-              </div>
+            {challenge ? (
+              <div className="space-y-4" dir="rtl">
+                <p className="text-sm text-center text-muted-foreground">
+                  {useRecoveryCode ? 'أدخل أحد رموز الاسترداد' : 'أدخل الرمز من تطبيق المصادقة'}
+                </p>
 
-              <Button
-                type="submit"
-                disabled={isLoading || !password}
-                className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-display tracking-wider"
-              >
-                {isLoading ? (
-                  <span className="flex items-center gap-2">
-                    <span className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
-                    جاري التحقق...
-                  </span>
+                {useRecoveryCode ? (
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                    <Input
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="xxxxx-xxxxx"
+                      className="pl-10 pr-10 bg-muted/50 border-border focus:border-primary font-mono text-center"
+                      dir="ltr"
+                      autoComplete="off"
+                      autoFocus
+                    />
+                  </div>
                 ) : (
-                  'دخول'
+                  <div className="flex justify-center" dir="ltr">
+                    <InputOTP
+                      maxLength={6}
+                      value={code}
+                      onChange={setCode}
+                      onComplete={(value: string) => handleVerify(value)}
+                      disabled={isLoading}
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
                 )}
-              </Button>
-            </div>
 
-            {attempts > 0 && (
-              <p className="text-xs text-destructive text-center mt-3 font-mono">
-                محاولات خاطئة: {attempts}/3
-              </p>
+                <Button
+                  type="submit"
+                  disabled={isLoading || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+                  className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-display tracking-wider"
+                >
+                  {isLoading ? 'جاري التحقق...' : 'تأكيد'}
+                </Button>
+
+                <div className="flex items-center justify-between text-xs font-mono">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode('');
+                    }}
+                    className="text-primary hover:underline"
+                  >
+                    {useRecoveryCode ? 'استخدام تطبيق المصادقة' : 'استخدام رمز استرداد'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setChallenge(null);
+                      setPassword('');
+                      setCode('');
+                    }}
+                    className="text-muted-foreground hover:text-primary"
+                  >
+                    رجوع
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="اسم المستخدم"
+                    className="pl-10 pr-10 bg-muted/50 border-border focus:border-primary font-mono text-center"
+                    dir="ltr"
+                    autoComplete="username"
+                    autoFocus
+                  />
+                </div>
+
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="كلمة المرور"
+                    className="pl-10 pr-10 bg-muted/50 border-border focus:border-primary font-mono text-center"
+                    dir="ltr"
+                    autoComplete="current-password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-primary transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading || !username.trim() || !password}
+                  className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-display tracking-wider"
+                >
+                  {isLoading ? (
+                    <span className="flex items-center gap-2">
+                      <span className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                      جاري التحقق...
+                    </span>
+                  ) : (
+                    'دخول'
+                  )}
+                </Button>
+              </div>
             )}
           </form>
         </div>
@@ -1,59 +1,82 @@
 import { useState, useEffect, useCallback } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { generateToken } from '@/lib/tokenUtils';
-import { Shield, RefreshCw, Clock, Lock, LogOut } from 'lucide-react';
-import PasswordGate from './PasswordGate';
+import { requestToken, type TokenMode } from '@/lib/tokenUtils';
+import { closeLectureSession, getLectureSession, type LectureSession } from '@/lib/lectureSessions';
+import type { AdminProfile } from '@/lib/adminAuth';
+import { getAttendanceSheetPath } from '@/lib/attendanceSheet';
+import { Shield, RefreshCw, Clock, Lock, LogOut, BookOpen, StopCircle, DoorOpen, LogIn } from 'lucide-react';
+import LectureSessionForm from './LectureSessionForm';
+import LiveAttendancePanel from './LiveAttendancePanel';
 import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
 
-const QRCodeGenerator = () => {
+const SESSION_ID_KEY = 'lecture-session-id';
+
+interface QRCodeGeneratorProps {
+  admin: AdminProfile;
+  onLogout: () => void;
+}
+
+const QRCodeGenerator = ({ admin, onLogout }: QRCodeGeneratorProps) => {
   const [token, setToken] = useState<string>('');
   const [timeLeft, setTimeLeft] = useState<number>(5);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [activeSession, setActiveSession] = useState<LectureSession | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState<boolean>(true);
+  // رمز الدخول للحضور، ورمز الخروج يعرض في نهاية المحاضرة لتسجيل وقت خروج كل طالب
+  const [mode, setMode] = useState<TokenMode>('entry');
+  const { toast } = useToast();
 
-  // التحقق من الجلسة عند التحميل
+  // استعادة المحاضرة المفتوحة بعد إعادة تحميل الصفحة
   useEffect(() => {
-    const auth = sessionStorage.getItem('admin-auth');
-    if (auth) {
-      try {
-        const timestamp = parseInt(atob(auth));
-        // الجلسة صالحة لمدة ساعة
-        if (Date.now() - timestamp < 3600000) {
-          setIsAuthenticated(true);
+    const sessionId = sessionStorage.getItem(SESSION_ID_KEY);
+    if (!sessionId) {
+      setIsRestoringSession(false);
+      return;
+    }
+
+    getLectureSession(sessionId)
+      .then(({ session, isOpen }) => {
+        if (isOpen) {
+          setActiveSession(session);
         } else {
-          sessionStorage.removeItem('admin-auth');
+          sessionStorage.removeItem(SESSION_ID_KEY);
         }
-      } catch {
-        sessionStorage.removeItem('admin-auth');
-      }
-    }
+      })
+      .catch(() => sessionStorage.removeItem(SESSION_ID_KEY))
+      .finally(() => setIsRestoringSession(false));
   }, []);
 
-  const generateNewQR = useCallback(() => {
+  const generateNewQR = useCallback(async (sessionId: string, tokenMode: TokenMode) => {
     setIsGenerating(true);
-    const newToken = generateToken();
-    setToken(newToken);
-    setTimeLeft(5);
+    try {
+      const { token: newToken } = await requestToken(sessionId, tokenMode);
+      setToken(newToken);
+      setTimeLeft(5);
+    } catch (error) {
+      console.error('[QR] Failed to issue token:', error);
+    }
     
     setTimeout(() => setIsGenerating(false), 200);
   }, []);
 
   // Generate new QR code every 5 seconds
   useEffect(() => {
-    if (!isAuthenticated) return;
+    if (!activeSession) return;
     
-    generateNewQR();
+    generateNewQR(activeSession.id, mode);
     
     const interval = setInterval(() => {
-      generateNewQR();
+      generateNewQR(activeSession.id, mode);
     }, 5000);
 
     return () => clearInterval(interval);
-  }, [generateNewQR, isAuthenticated]);
+  }, [generateNewQR, activeSession, mode]);
 
   // Countdown timer
   useEffect(() => {
-    if (!isAuthenticated) return;
+    if (!activeSession) return;
     
     const timer = setInterval(() => {
       setTimeLeft((prev) => {
@@ -63,19 +86,52 @@ const QRCodeGenerator = () => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [isAuthenticated]);
+  }, [activeSession]);
+
+  const handleSessionReady = (session: LectureSession) => {
+    sessionStorage.setItem(SESSION_ID_KEY, session.id);
+    setActiveSession(session);
+  };
+
+  const handleCloseSession = async () => {
+    if (!activeSession) return;
+
+    try {
+      await closeLectureSession(activeSession.id);
+      const sheetPath = getAttendanceSheetPath(activeSession.id);
+      toast({
+        title: "تم إغلاق المحاضرة",
+        description: activeSession.course,
+        action: (
+          <ToastAction altText="ورقة الحضور" onClick={() => window.open(sheetPath, '_blank')}>
+            ورقة الحضور
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('[Sessions] Failed to close session:', error);
+    }
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('admin-auth');
-    setIsAuthenticated(false);
+    sessionStorage.removeItem(SESSION_ID_KEY);
+    setActiveSession(null);
+    setToken('');
+    setMode('entry');
   };
 
-  // عرض شاشة كلمة المرور إذا لم يتم التحقق
-  if (!isAuthenticated) {
-    return <PasswordGate onSuccess={() => setIsAuthenticated(true)} />;
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4">
+        <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  // يجب فتح محاضرة قبل عرض الـ QR Code
+  if (!activeSession) {
+    return <LectureSessionForm admin={admin} onSessionReady={handleSessionReady} />;
   }
 
-  const qrUrl = `${window.location.origin}/secure?token=${encodeURIComponent(token)}`;
+  const qrUrl = `${window.location.origin}/${mode === 'exit' ? 'exit' : 'secure'}?token=${encodeURIComponent(token)}`;
 
   return (
     <div className="min-h-screen bg-background cyber-grid flex flex-col items-center justify-center p-4 relative overflow-hidden">
@@ -85,7 +141,7 @@ const QRCodeGenerator = () => {
       
       {/* Logout Button */}
       <Button
-        onClick={handleLogout}
+        onClick={onLogout}
         variant="ghost"
         size="sm"
         className="absolute top-4 right-4 z-30 text-muted-foreground hover:text-destructive"
@@ -94,6 +150,33 @@ const QRCodeGenerator = () => {
         خروج
       </Button>
 
+      {/* Close session and entry / exit toggle */}
+      <div className="absolute top-4 left-4 z-30 flex items-center gap-2">
+        <Button
+          onClick={handleCloseSession}
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-destructive"
+        >
+          <StopCircle className="w-4 h-4 mr-2" />
+          إنهاء المحاضرة
+        </Button>
+        <Button
+          onClick={() => setMode(mode === 'entry' ? 'exit' : 'entry')}
+          variant={mode === 'exit' ? 'default' : 'outline'}
+          size="sm"
+          className="gap-2"
+        >
+          {mode === 'exit' ? <LogIn className="w-4 h-4" /> : <DoorOpen className="w-4 h-4" />}
+          {mode === 'exit' ? 'رمز الحضور' : 'رمز الخروج'}
+        </Button>
+      </div>
+
+      {/* Live attendance - beside the QR on wide screens, below it otherwise */}
+      <div className="order-last mt-8 w-full max-w-sm z-20 lg:order-none lg:mt-0 lg:absolute lg:top-16 lg:left-4 lg:w-72">
+        <LiveAttendancePanel sessionId={activeSession.id} />
+      </div>
+
       {/* Header */}
       <div className="text-center mb-8 z-10">
         <div className="flex items-center justify-center gap-3 mb-4">
@@ -116,6 +199,19 @@ const QRCodeGenerator = () => {
         <p className="text-muted-foreground font-mono text-sm tracking-widest">
           ENCRYPTED QR ACCESS SYSTEM
         </p>
+        <div className="flex items-center justify-center gap-2 mt-3 text-sm" dir="rtl">
+          <BookOpen className="w-4 h-4 text-primary" />
+          <span className="text-foreground">{activeSession.course}</span>
+          {activeSession.week_number !== null && (
+            <span className="text-muted-foreground font-mono">| الأسبوع {activeSession.week_number}</span>
+          )}
+          {activeSession.room && (
+            <span className="text-muted-foreground font-mono">| {activeSession.room}</span>
+          )}
+        </div>
+        {mode === 'exit' && (
+          <p className="mt-2 font-display text-lg text-yellow-500" dir="rtl">امسح للخروج من المحاضرة</p>
+        )}
       </div>
 
       {/* QR Code Container */}
@@ -220,7 +316,7 @@ const QRCodeGenerator = () => {
             SYSTEM ACTIVE
           </span>
           <span className="text-muted-foreground">|</span>
-          <span className="text-muted-foreground">ENCRYPTION: AES-256</span>
+          <span className="text-muted-foreground">SIGNATURE: HMAC-SHA256</span>
           <span className="text-muted-foreground">|</span>
           <span className="text-muted-foreground">STATUS: SECURE</span>
         </div>
@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Crosshair, Loader2, LogOut, MapPin, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { getScanLocation } from '@/lib/geolocation';
+import { deleteRoom, listRooms, saveRoom, type Room } from '@/lib/rooms';
+
+interface RoomManagerProps {
+  onLogout: () => void;
+}
+
+const DEFAULT_RADIUS_M = '75';
+
+// القاعات وإحداثياتها وشبكاتها: المحاضرة المفتوحة في قاعة مسجلة تفحص موقع الطالب وشبكته حسب سياسات المادة
+const RoomManager = ({ onLogout }: RoomManagerProps) => {
+  const { toast } = useToast();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [radius, setRadius] = useState(DEFAULT_RADIUS_M);
+  const [networks, setNetworks] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    listRooms()
+      .then(setRooms)
+      .catch((error) => console.error('[Rooms] Failed to list rooms:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setLatitude('');
+    setLongitude('');
+    setRadius(DEFAULT_RADIUS_M);
+    setNetworks('');
+  };
+
+  const handleEdit = (room: Room) => {
+    setEditingId(room.id);
+    setName(room.name);
+    setLatitude(room.latitude !== null ? String(room.latitude) : '');
+    setLongitude(room.longitude !== null ? String(room.longitude) : '');
+    setRadius(String(room.radius_m));
+    setNetworks(room.allowed_networks.join('\n'));
+  };
+
+  // أسهل طريقة لأخذ الإحداثيات: الوقوف داخل القاعة وفتح هذه الصفحة من الهاتف
+  const handleUseCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const location = await getScanLocation();
+      setLatitude(location.latitude.toFixed(6));
+      setLongitude(location.longitude.toFixed(6));
+      toast({ title: 'تم تحديد الموقع', description: `الدقة ${Math.round(location.accuracy)} متر` });
+    } catch {
+      toast({ title: 'تعذر تحديد الموقع', description: 'اسمح للمتصفح بالوصول إلى الموقع', variant: 'destructive' });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const room = await saveRoom({
+        id: editingId ?? undefined,
+        name: name.trim(),
+        latitude: latitude.trim() ? parseFloat(latitude) : null,
+        longitude: longitude.trim() ? parseFloat(longitude) : null,
+        radius_m: parseInt(radius, 10),
+        allowed_networks: networks.split(/[\s,]+/).filter(Boolean),
+      });
+      setRooms((list) => [...list.filter((item) => item.id !== room.id), room].sort((a, b) => a.name.localeCompare(b.name)));
+      resetForm();
+      toast({ title: 'تم حفظ القاعة', description: room.name });
+    } catch (error) {
+      toast({
+        title: 'تعذر الحفظ',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (room: Room) => {
+    if (!window.confirm(`حذف القاعة ${room.name}؟`)) return;
+
+    try {
+      await deleteRoom(room.id);
+      setRooms((list) => list.filter((item) => item.id !== room.id));
+      if (editingId === room.id) resetForm();
+    } catch (error) {
+      toast({
+        title: 'تعذر الحذف',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <MapPin className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">ROOMS</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/courses">
+                <ArrowRight className="w-4 h-4" />
+                المواد
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-6 md:grid-cols-[320px_1fr]" dir="rtl">
+        <form onSubmit={handleSave} className="bg-card/80 border border-border rounded-xl p-4 space-y-3 h-fit">
+          <p className="text-xs font-mono text-muted-foreground">{editingId ? 'تعديل قاعة' : 'قاعة جديدة'}</p>
+          <div className="space-y-1">
+            <Label htmlFor="roomName">الاسم كما يكتب عند فتح المحاضرة</Label>
+            <Input
+              id="roomName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              className="bg-muted/50"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="roomLatitude">خط العرض</Label>
+              <Input
+                id="roomLatitude"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+                placeholder="بدون"
+                className="bg-muted/50 font-mono"
+                dir="ltr"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="roomLongitude">خط الطول</Label>
+              <Input
+                id="roomLongitude"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+                placeholder="بدون"
+                className="bg-muted/50 font-mono"
+                dir="ltr"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="sm" className="w-full gap-2" onClick={handleUseCurrentLocation} disabled={isSaving || isLocating}>
+            {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Crosshair className="w-4 h-4" />}
+            استخدام موقعي الحالي
+          </Button>
+          <div className="space-y-1">
+            <Label htmlFor="roomRadius">نصف القطر (متر)</Label>
+            <Input
+              id="roomRadius"
+              type="number"
+              min={10}
+              max={2000}
+              value={radius}
+              onChange={(e) => setRadius(e.target.value)}
+              className="bg-muted/50 font-mono"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="roomNetworks" title="فارغ: تُستخدم شبكات المادة">شبكات القاعة (CIDR، سطر لكل نطاق)</Label>
+            <Textarea
+              id="roomNetworks"
+              value={networks}
+              onChange={(e) => setNetworks(e.target.value)}
+              placeholder="10.20.0.0/16"
+              rows={3}
+              className="bg-muted/50 font-mono text-xs"
+              dir="ltr"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" className="flex-1 gap-2" disabled={isSaving || !name.trim()}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              {editingId ? 'حفظ' : 'إضافة'}
+            </Button>
+            {editingId && (
+              <Button type="button" size="sm" variant="ghost" onClick={resetForm} disabled={isSaving}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <section className="bg-card/80 border border-border rounded-xl p-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : rooms.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">لا توجد قاعات بعد</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">القاعة</TableHead>
+                  <TableHead className="text-right">الإحداثيات</TableHead>
+                  <TableHead className="text-right">نصف القطر</TableHead>
+                  <TableHead className="text-right">الشبكات</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rooms.map((room) => (
+                  <TableRow key={room.id}>
+                    <TableCell>{room.name}</TableCell>
+                    <TableCell className="font-mono text-xs" dir="ltr">
+                      {room.latitude !== null && room.longitude !== null ? `${room.latitude}, ${room.longitude}` : '-'}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{room.radius_m} م</TableCell>
+                    <TableCell className="font-mono text-xs" dir="ltr" title={room.allowed_networks.join('\n')}>
+                      {room.allowed_networks.length > 0 ? room.allowed_networks.length : '-'}
+                    </TableCell>
+                    <TableCell className="text-left whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(room)} title="تعديل">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDelete(room)} title="حذف">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default RoomManager;
@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { validateToken, storeSessionToken, hasValidSession, clearSession } from '@/lib/tokenUtils';
-import { getDeviceFingerprint } from '@/lib/deviceFingerprint';
-import { ShieldCheck, ShieldX, Loader2, Lock, Home, LogOut, User, IdCard, Send, Clock, AlertTriangle, BookOpen, Calendar } from 'lucide-react';
+import { validateToken, storeSessionToken, getStoredSession, clearSession } from '@/lib/tokenUtils';
+import type { LectureSummary } from '@/lib/lectureSessions';
+import { getDeviceFingerprint, getDeviceTraits } from '@/lib/deviceFingerprint';
+import { getScanLocation, type ScanLocation } from '@/lib/geolocation';
+import { signWithPasskey, type PasskeyAssertion } from '@/lib/passkeys';
+import { ShieldCheck, ShieldX, Loader2, Lock, Home, LogOut, User, IdCard, Send, Clock, AlertTriangle, BookOpen, Calendar, MapPin, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,6 +13,9 @@ import { useToast } from '@/hooks/use-toast';
 
 type AccessState = 'validating' | 'granted' | 'denied' | 'expired' | 'cooldown' | 'checking';
 
+// موقع المتصفح يُطلب فقط عندما تكون المحاضرة في قاعة لها إحداثيات
+type LocationState = 'idle' | 'locating' | 'ready' | 'unavailable';
+
 const COOLDOWN_DURATION = 30 * 60 * 1000; // 30 دقيقة
 
 // ============= Server Cooldown Check (Vercel API) =============
@@ -41,18 +47,56 @@ const checkServerCooldown = async (deviceId: string): Promise<{ inCooldown: bool
   }
 };
 
-const recordServerSubmission = async (deviceId: string, name: string, userId: string): Promise<boolean> => {
+interface SubmitResult {
+  success: boolean;
+  inCooldown?: boolean;
+  remaining?: number;
+  // 'present' or 'late', decided by the server from when the QR was scanned
+  status?: string;
+  // Rejected by the course's geofence policy, with the server's location check
+  outsideGeofence?: boolean;
+  location?: 'outside' | 'inaccurate' | 'missing';
+  // Rejected because the request came from outside the allowed campus networks
+  outsideNetwork?: boolean;
+  // Rejected because the student's ID is bound to another device
+  unboundDevice?: boolean;
+  // The student registered a passkey: sign `challenge` with one of `credentials` and send again
+  passkeyRequired?: boolean;
+  challenge?: string;
+  credentials?: string[];
+  passkeyInvalid?: boolean;
+  error?: string;
+}
+
+const GEOFENCE_MESSAGES: Record<NonNullable<SubmitResult['location']>, string> = {
+  outside: 'يجب أن تكون داخل القاعة لتسجيل الحضور',
+  inaccurate: 'دقة الموقع غير كافية، فعّل الموقع الدقيق وأعد المحاولة',
+  missing: 'اسمح للمتصفح بالوصول إلى موقعك ثم أعد المحاولة',
+};
+
+// Records attendance and the device cooldown together on the server
+const submitAttendance = async (
+  token: string,
+  deviceId: string,
+  name: string,
+  userId: string,
+  location: ScanLocation | null,
+  passkey: PasskeyAssertion | null = null
+): Promise<SubmitResult> => {
   try {
-    console.log('[Server] Recording submission for device:', deviceId);
+    console.log('[Server] Submitting attendance for device:', deviceId);
     
-    const response = await fetch('/api/check-device-cooldown', {
+    const response = await fetch('/api/submit-attendance', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ 
+        token,
         device_id: deviceId, 
-        action: 'submit',
         name,
-        user_id_field: userId
+        id: userId,
+        location,
+        device_traits: getDeviceTraits(),
+        passkey
       })
     });
 
@@ -60,14 +104,28 @@ const recordServerSubmission = async (deviceId: string, name: string, userId: st
 
     if (!response.ok) {
       console.error('[Server] Submit error:', data);
-      return false;
+    } else {
+      console.log('[Server] Submit response:', data);
     }
 
-    console.log('[Server] Submit response:', data);
-    return data.success || false;
+    return {
+      success: !!data.success,
+      inCooldown: data.inCooldown,
+      remaining: data.remaining,
+      status: data.status,
+      outsideGeofence: data.outsideGeofence,
+      location: data.location,
+      outsideNetwork: data.outsideNetwork,
+      unboundDevice: data.unboundDevice,
+      passkeyRequired: data.passkeyRequired,
+      challenge: data.challenge,
+      credentials: data.credentials,
+      passkeyInvalid: data.passkeyInvalid,
+      error: data.error,
+    };
   } catch (e) {
     console.error('[Server] Submit failed:', e);
-    return false;
+    return { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
   }
 };
 
@@ -81,13 +139,16 @@ const SecurePage = () => {
   const [cooldownRemaining, setCooldownRemaining] = useState<number>(0);
   const [deviceId, setDeviceId] = useState<string>('');
   
+  const [lecture, setLecture] = useState<LectureSummary | null>(null);
+  
   // Form state
-  const [subjectName, setSubjectName] = useState('');
   const [name, setName] = useState('');
   const [userId, setUserId] = useState('');
-  const [weekNumber, setWeekNumber] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isLate, setIsLate] = useState(false);
+  const [locationState, setLocationState] = useState<LocationState>('idle');
+  const [location, setLocation] = useState<ScanLocation | null>(null);
 
   // Initialize device ID and check server cooldown FIRST
   useEffect(() => {
@@ -110,18 +171,19 @@ const SecurePage = () => {
         return;
       }
       
-      // Check if user already has a valid session
-      if (hasValidSession()) {
-        console.log('[Init] Valid session found');
-        setAccessState('granted');
-        setValidationMessage('SESSION_RESTORED');
-        return;
-      }
-      
-      // Now validate token
+      // A scanned QR always wins over a stored session, which may be from an earlier lecture
       const token = searchParams.get('token');
-      
+
       if (!token) {
+        const storedSession = getStoredSession();
+        if (storedSession) {
+          console.log('[Init] Valid session found');
+          setLecture(storedSession.lecture);
+          setAccessState('granted');
+          setValidationMessage('SESSION_RESTORED');
+          return;
+        }
+
         console.log('[Init] No token provided');
         setAccessState('denied');
         setValidationMessage('NO_TOKEN_PROVIDED');
@@ -142,15 +204,23 @@ const SecurePage = () => {
           return;
         }
         
-        const result = validateToken(token);
+        // Token signature and expiry are verified on the server
+        const result = await validateToken(token, id);
         
-        if (result.valid) {
-          storeSessionToken();
+        if (result.valid && result.lecture) {
+          storeSessionToken(token, result.lecture);
+          setLecture(result.lecture);
           setAccessState('granted');
           setValidationMessage('ACCESS_GRANTED');
-        } else {
+        } else if (result.forwarded) {
+          setAccessState('denied');
+          setValidationMessage('TOKEN_ALREADY_USED');
+        } else if (result.expired) {
           setAccessState('expired');
           setValidationMessage('TOKEN_EXPIRED');
+        } else {
+          setAccessState('denied');
+          setValidationMessage('INVALID_TOKEN');
         }
       }, 1500);
     };
@@ -182,6 +252,23 @@ const SecurePage = () => {
     };
   }, [accessState, deviceId]);
 
+  // طلب الموقع قبل عرض النموذج؛ الرفض لا يمنع الإرسال والخادم يقرر حسب سياسة المادة
+  useEffect(() => {
+    if (accessState !== 'granted' || !lecture?.locationRequired || locationState !== 'idle') return;
+
+    setLocationState('locating');
+    getScanLocation()
+      .then((position) => {
+        setLocation(position);
+        setLocationState('ready');
+      })
+      .catch((error) => {
+        console.error('[Location] Failed to get position:', error);
+        setLocation(null);
+        setLocationState('unavailable');
+      });
+  }, [accessState, lecture, locationState]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -198,7 +285,7 @@ const SecurePage = () => {
       return;
     }
     
-    if (!subjectName.trim() || !name.trim() || !userId.trim() || !weekNumber.trim()) {
+    if (!name.trim() || !userId.trim()) {
       toast({
         title: "خطأ",
         description: "يرجى ملء جميع الحقول",
@@ -210,22 +297,83 @@ const SecurePage = () => {
     setIsSubmitting(true);
 
     try {
-      // Record submission on server FIRST
-      const recorded = await recordServerSubmission(deviceId, name.trim(), userId.trim());
+      const token = getStoredSession()?.token;
+      if (!token) {
+        throw new Error('Missing session token');
+      }
+
+      // Record attendance on server FIRST
+      let result = await submitAttendance(token, deviceId, name.trim(), userId.trim(), location);
+
+      // رقم محمي بمفتاح مرور: يوقّع الجهاز رمز هذه المحاضرة بعد فتح قفله ثم يُعاد الإرسال
+      if (result.passkeyRequired && result.challenge) {
+        let passkey: PasskeyAssertion | null = null;
+        try {
+          passkey = await signWithPasskey(result.challenge, result.credentials || []);
+        } catch (passkeyError) {
+          console.warn('[Passkey] Signing failed:', passkeyError);
+        }
+
+        if (passkey) {
+          result = await submitAttendance(token, deviceId, name.trim(), userId.trim(), location, passkey);
+        }
+      }
       
-      if (!recorded) {
-        throw new Error('Failed to record submission');
+      if (result.inCooldown) {
+        setAccessState('cooldown');
+        setCooldownRemaining(result.remaining || 0);
+        return;
+      }
+
+      if (result.outsideGeofence) {
+        toast({
+          title: "خارج القاعة",
+          description: GEOFENCE_MESSAGES[result.location || 'outside'],
+          variant: "destructive",
+        });
+        // قراءة جديدة للموقع قبل المحاولة التالية
+        setLocationState('idle');
+        return;
+      }
+
+      if (result.outsideNetwork) {
+        toast({
+          title: "شبكة غير مسموحة",
+          description: "اتصل بشبكة Wi-Fi الجامعة ثم أعد المحاولة",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (result.unboundDevice) {
+        toast({
+          title: "جهاز غير مربوط",
+          description: "رقمك مربوط بجهاز آخر. لطلب ربط هذا الجهاز ادخل صفحة سجل حضوري (/me) منه",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (result.passkeyRequired || result.passkeyInvalid) {
+        toast({
+          title: "مفتاح المرور مطلوب",
+          description: "هذا الرقم محمي بمفتاح مرور. سجّل من الجهاز الذي أضفت عليه المفتاح، أو احذفه من صفحة سجل حضوري (/me)",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to record submission');
       }
       
-      // Send to Telegram via Vercel API
+      // Notify Telegram via Vercel API - attendance is already saved if this fails
       const response = await fetch('/api/send-to-telegram', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          subjectName: subjectName.trim(),
-          name: name.trim(), 
-          id: userId.trim(),
-          weekNumber: weekNumber.trim()
+          token,
+          device_id: deviceId
         }),
       });
 
@@ -234,13 +382,15 @@ const SecurePage = () => {
       console.log('API Response:', { status: response.status, data });
       
       if (!response.ok || !data.success) {
-        const errorMessage = data.error || 'Failed to send data';
-        console.error('API Error:', errorMessage);
-        throw new Error(errorMessage);
+        console.error('API Error:', data.error || 'Failed to send data');
       }
 
       console.log('[Submit] Submission successful');
+
+      // الرمز استُخدم، فلا تُستعاد هذه الجلسة عند فتح الصفحة مرة أخرى
+      clearSession();
       
+      setIsLate(result.status === 'late');
       setIsSubmitted(true);
       toast({
         title: "تم بنجاح",
@@ -253,7 +403,13 @@ const SecurePage = () => {
         title: "خطأ",
         description: errorMessage.includes('configuration') 
           ? "خطأ في إعدادات الخادم"
-          : "حدث خطأ أثناء إرسال البيانات",
+          : errorMessage.includes('not enrolled')
+            ? "رقمك غير مسجل في هذه المادة"
+            : errorMessage.includes('already recorded')
+              ? "تم تسجيل حضورك مسبقاً في هذه المحاضرة"
+              : errorMessage.includes('outside the session')
+                ? "انتهى وقت تسجيل الحضور لهذه المحاضرة"
+                : "حدث خطأ أثناء إرسال البيانات",
         variant: "destructive",
       });
     } finally {
@@ -369,7 +525,9 @@ const SecurePage = () => {
             <p className="text-sm text-muted-foreground" dir="rtl">
               {accessState === 'expired' 
                 ? 'الـ QR Code انتهت صلاحيته. يرجى مسح QR Code جديد خلال 5 ثواني.'
-                : 'لم يتم العثور على رمز الوصول. يرجى مسح QR Code صالح.'}
+                : validationMessage === 'TOKEN_ALREADY_USED'
+                  ? 'تم استخدام هذا الرمز من جهاز آخر. يرجى مسح الـ QR Code بنفسك.'
+                  : 'لم يتم العثور على رمز الوصول. يرجى مسح QR Code صالح.'}
             </p>
           </div>
 
@@ -425,6 +583,13 @@ const SecurePage = () => {
             <p className="text-muted-foreground mb-6" dir="rtl">
               تم إرسال بياناتك بنجاح. شكراً لك.
             </p>
+            {isLate && (
+              <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 mb-6">
+                <p className="text-sm text-yellow-500" dir="rtl">
+                  تم تسجيلك متأخراً لأنك سجلت بعد بداية المحاضرة بأكثر من المهلة المسموحة
+                </p>
+              </div>
+            )}
             <div className="bg-muted/50 border border-border rounded-lg p-4 mb-6">
               <p className="text-sm text-muted-foreground" dir="rtl">
                 <Clock className="w-4 h-4 inline-block ml-1" />
@@ -451,93 +616,107 @@ const SecurePage = () => {
                   </p>
                 </div>
 
-                <form onSubmit={handleSubmit} className="space-y-5">
-                  <div className="space-y-2">
-                    <Label htmlFor="subjectName" className="flex items-center gap-2 text-foreground">
+                {lecture && (
+                  <div className="mb-6 p-4 bg-primary/5 border border-primary/20 rounded-lg space-y-2 text-sm" dir="rtl">
+                    <p className="flex items-center gap-2">
                       <BookOpen className="w-4 h-4 text-primary" />
-                      <span>اسم المادة</span>
-                    </Label>
-                    <Input
-                      id="subjectName"
-                      type="text"
-                      placeholder="أدخل اسم المادة"
-                      value={subjectName}
-                      onChange={(e) => setSubjectName(e.target.value)}
-                      className="bg-background/50 border-border focus:border-primary transition-colors"
-                      dir="rtl"
-                      disabled={isSubmitting}
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="name" className="flex items-center gap-2 text-foreground">
+                      <span className="text-muted-foreground">المادة:</span>
+                      <span className="text-foreground">{lecture.course}</span>
+                    </p>
+                    {lecture.weekNumber !== null && (
+                      <p className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4 text-primary" />
+                        <span className="text-muted-foreground">الأسبوع:</span>
+                        <span className="text-foreground">{lecture.weekNumber}</span>
+                      </p>
+                    )}
+                    <p className="flex items-center gap-2">
                       <User className="w-4 h-4 text-primary" />
-                      <span>الاسم</span>
-                    </Label>
-                    <Input
-                      id="name"
-                      type="text"
-                      placeholder="أدخل اسمك الكامل"
-                      value={name}
-                      onChange={(e) => setName(e.target.value)}
-                      className="bg-background/50 border-border focus:border-primary transition-colors"
-                      dir="rtl"
-                      disabled={isSubmitting}
-                    />
+                      <span className="text-muted-foreground">المحاضر:</span>
+                      <span className="text-foreground">{lecture.instructor}</span>
+                    </p>
+                    {lecture.room && (
+                      <p className="flex items-center gap-2">
+                        <MapPin className="w-4 h-4 text-primary" />
+                        <span className="text-muted-foreground">القاعة:</span>
+                        <span className="text-foreground">{lecture.room}</span>
+                      </p>
+                    )}
                   </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="userId" className="flex items-center gap-2 text-foreground">
-                      <IdCard className="w-4 h-4 text-primary" />
-                      <span>رقم الهوية</span>
-                    </Label>
-                    <Input
-                      id="userId"
-                      type="text"
-                      placeholder="أدخل رقم الهوية"
-                      value={userId}
-                      onChange={(e) => setUserId(e.target.value)}
-                      className="bg-background/50 border-border focus:border-primary transition-colors"
-                      dir="rtl"
-                      disabled={isSubmitting}
-                    />
+                )}
+
+                {lecture?.locationRequired && locationState === 'unavailable' && (
+                  <div className="mb-6 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-2" dir="rtl">
+                    <p className="text-sm text-yellow-500">
+                      تعذر تحديد موقعك. قد يُرفض تسجيل الحضور أو يُراجع لاحقاً بدون الموقع
+                    </p>
+                    <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => setLocationState('idle')}>
+                      <RefreshCw className="w-4 h-4" />
+                      إعادة المحاولة
+                    </Button>
                   </div>
+                )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="weekNumber" className="flex items-center gap-2 text-foreground">
-                      <Calendar className="w-4 h-4 text-primary" />
-                      <span>الأسبوع الكام</span>
-                    </Label>
-                    <Input
-                      id="weekNumber"
-                      type="text"
-                      placeholder="أدخل رقم الأسبوع"
-                      value={weekNumber}
-                      onChange={(e) => setWeekNumber(e.target.value)}
-                      className="bg-background/50 border-border focus:border-primary transition-colors"
-                      dir="rtl"
-                      disabled={isSubmitting}
-                    />
+                {lecture?.locationRequired && (locationState === 'idle' || locationState === 'locating') ? (
+                  <div className="flex flex-col items-center gap-3 py-6 text-sm text-muted-foreground" dir="rtl">
+                    <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    <p>جاري تحديد موقعك داخل القاعة...</p>
                   </div>
-
-                  <Button
-                    type="submit"
-                    className="w-full gap-2 bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 transition-all duration-300"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        جاري الإرسال...
-                      </>
-                    ) : (
-                      <>
-                        <Send className="w-4 h-4" />
-                        إرسال البيانات
-                      </>
-                    )}
-                  </Button>
-                </form>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-5">
+                    <div className="space-y-2">
+                      <Label htmlFor="name" className="flex items-center gap-2 text-foreground">
+                        <User className="w-4 h-4 text-primary" />
+                        <span>الاسم</span>
+                      </Label>
+                      <Input
+                        id="name"
+                        type="text"
+                        placeholder="أدخل اسمك الكامل"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="bg-background/50 border-border focus:border-primary transition-colors"
+                        dir="rtl"
+                        disabled={isSubmitting}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="userId" className="flex items-center gap-2 text-foreground">
+                        <IdCard className="w-4 h-4 text-primary" />
+                        <span>رقم الهوية</span>
+                      </Label>
+                      <Input
+                        id="userId"
+                        type="text"
+                        placeholder="أدخل رقم الهوية"
+                        value={userId}
+                        onChange={(e) => setUserId(e.target.value)}
+                        className="bg-background/50 border-border focus:border-primary transition-colors"
+                        dir="rtl"
+                        disabled={isSubmitting}
+                      />
+                    </div>
+
+                    <Button
+                      type="submit"
+                      className="w-full gap-2 bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 transition-all duration-300"
+                      disabled={isSubmitting}
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          جاري الإرسال...
+                        </>
+                      ) : (
+                        <>
+                          <Send className="w-4 h-4" />
+                          إرسال البيانات
+                        </>
+                      )}
+                    </Button>
+                  </form>
+                )}
 
                 <div className="mt-6 p-3 bg-muted/50 rounded-lg border border-border">
                   <p className="text-xs text-muted-foreground text-center" dir="rtl">
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, Loader2, LogOut, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import StudentDeviceCard from './StudentDeviceCard';
+import StudentPasskeyCard from './StudentPasskeyCard';
+import { ATTENDANCE_CELLS, CELL_LABELS, type AttendanceCell } from '@/lib/reports';
+import { EXCUSE_STATUS_LABELS } from '@/lib/excuses';
+import { getStudentHistory, type StudentHistory } from '@/lib/studentPortal';
+
+interface StudentAttendanceHistoryProps {
+  onLogout: () => void;
+}
+
+const CELL_CLASSES: Record<AttendanceCell, string> = {
+  present: 'bg-primary/15 text-primary',
+  late: 'bg-yellow-500/15 text-yellow-500',
+  absent: 'bg-destructive/15 text-destructive',
+  excused: 'bg-sky-500/15 text-sky-500',
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' });
+
+// سجل حضور الطالب في كل مادة: النسبة، وحالة كل محاضرة، وطلبات العذر المرسلة
+const StudentAttendanceHistory = ({ onLogout }: StudentAttendanceHistoryProps) => {
+  const [history, setHistory] = useState<StudentHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getStudentHistory()
+      .then(setHistory)
+      .catch((error) => console.error('[Student] Failed to load history:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <UserCheck className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="font-display text-xl text-glow">MY ATTENDANCE</h1>
+              {history && (
+                <p className="text-xs text-muted-foreground">
+                  {history.full_name} · <span className="font-mono">{history.student_id}</span>
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/excuse">
+                <FileText className="w-4 h-4" />
+                طلب عذر
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <StudentDeviceCard />
+        <StudentPasskeyCard />
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : !history || history.courses.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">لا توجد مواد مسجلة برقم الهوية هذا</p>
+        ) : (
+          history.courses.map(({ course, sessions, totals, rate, excuses }) => {
+            const pending = excuses.filter((excuse) => excuse.status === 'pending');
+            const sessionDates = new Map(sessions.map((session) => [session.id, session.starts_at]));
+
+            return (
+              <section key={course.id} className="bg-card/80 border border-border rounded-xl p-4 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <h2 className="font-display text-lg">{course.name}</h2>
+                    <p className="text-xs font-mono text-muted-foreground">{course.code}</p>
+                  </div>
+                  <div className="text-left">
+                    <p className="font-display text-2xl text-primary">{rate !== null ? `${rate}%` : '-'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      الغياب {totals.absent}{course.absence_limit !== null ? ` من ${course.absence_limit}` : ''}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {ATTENDANCE_CELLS.map((cell) => (
+                    <span key={cell} className={`rounded-md px-2 py-1 ${CELL_CLASSES[cell]}`}>
+                      {CELL_LABELS[cell]}: {totals[cell]}
+                    </span>
+                  ))}
+                </div>
+
+                {pending.length > 0 && (
+                  <div className="rounded-lg border border-border p-3 space-y-2">
+                    <p className="text-sm font-display">أعذار قيد المراجعة</p>
+                    {pending.map((excuse) => (
+                      <div key={excuse.id} className="text-xs text-muted-foreground">
+                        <span className="text-foreground">{formatDate(sessionDates.get(excuse.session_id) ?? excuse.created_at)}</span>
+                        {' - '}
+                        {excuse.reason}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">لم تبدأ أي محاضرة بعد</p>
+                ) : (
+                  <ul className="divide-y divide-border">
+                    {sessions.map((session) => {
+                      const excuse = excuses.find((item) => item.session_id === session.id);
+
+                      return (
+                        <li key={session.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                          <div>
+                            <p>
+                              {session.week_number !== null && <span className="text-muted-foreground">الأسبوع {session.week_number} · </span>}
+                              {formatDate(session.starts_at)}
+                            </p>
+                            {excuse && (
+                              <p className="text-xs text-muted-foreground">
+                                عذر: {EXCUSE_STATUS_LABELS[excuse.status]}
+                                {excuse.review_note ? ` - ${excuse.review_note}` : ''}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {session.recorded_at && (
+                              <span className="text-xs font-mono text-muted-foreground">{formatTime(session.recorded_at)}</span>
+                            )}
+                            <span className={`rounded-md px-2 py-1 text-xs ${CELL_CLASSES[session.status]}`}>
+                              {CELL_LABELS[session.status]}{session.corrected ? ' *' : ''}
+                            </span>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            );
+          })
+        )}
+
+        {history && history.courses.some((course) => course.sessions.some((session) => session.corrected)) && (
+          <p className="text-xs text-muted-foreground">* عدّلها المحاضر يدوياً أو بعد قبول عذر</p>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StudentAttendanceHistory;
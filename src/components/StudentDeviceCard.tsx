@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Send, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { getDeviceFingerprint } from '@/lib/deviceFingerprint';
+import { REBIND_STATUS_LABELS } from '@/lib/studentDevices';
+import { getMyDeviceStatus, requestDeviceRebind, type StudentDeviceStatus } from '@/lib/studentPortal';
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+// حالة ربط رقم الطالب بهذا الجهاز، وطلب ربطه بدلاً من الجهاز السابق
+const StudentDeviceCard = () => {
+  const { toast } = useToast();
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [status, setStatus] = useState<StudentDeviceStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    getDeviceFingerprint()
+      .then(async (id) => {
+        setDeviceId(id);
+        setStatus(await getMyDeviceStatus(id));
+      })
+      .catch((error) => console.error('[Student] Failed to load device status:', error));
+  }, []);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceId) return;
+
+    setIsSending(true);
+    try {
+      await requestDeviceRebind(deviceId, reason.trim());
+      toast({ title: 'تم إرسال الطلب', description: 'سيُربط هذا الجهاز برقمك بعد موافقة المسؤول' });
+      setReason('');
+      setStatus(await getMyDeviceStatus(deviceId));
+    } catch (error) {
+      toast({
+        title: 'تعذر إرسال الطلب',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // لا شيء يُعرض قبل أول تسجيل حضور، فالربط يحدث عنده
+  if (!status || status.bound === 'none') {
+    return null;
+  }
+
+  const pending = status.request?.status === 'pending';
+
+  return (
+    <section className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Smartphone className="w-5 h-5 text-primary" />
+        <h2 className="font-display">جهاز الحضور</h2>
+      </div>
+
+      {status.bound === 'this' ? (
+        <p className="text-sm text-muted-foreground">
+          هذا الجهاز مربوط برقمك{status.bound_at ? ` منذ ${formatDate(status.bound_at)}` : ''}
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            رقمك مربوط بجهاز آخر، وقد يُرفض تسجيل الحضور من هذا الجهاز أو يُعلَّم للمراجعة.
+          </p>
+          {pending ? (
+            <p className="text-sm">
+              طلب ربط هذا الجهاز {REBIND_STATUS_LABELS.pending} منذ {formatDate(status.request!.created_at)}
+            </p>
+          ) : (
+            <>
+              {status.request?.status === 'rejected' && (
+                <p className="text-sm text-destructive">رُفض طلب سابق لربط هذا الجهاز</p>
+              )}
+              <form onSubmit={handleRequest} className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="سبب التغيير (مثلاً: هاتف جديد)"
+                  maxLength={500}
+                  className="bg-muted/50 flex-1 min-w-[12rem]"
+                  disabled={isSending}
+                />
+                <Button type="submit" size="sm" className="gap-2" disabled={isSending}>
+                  {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  طلب ربط هذا الجهاز
+                </Button>
+              </form>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default StudentDeviceCard;
@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Check, Loader2, LogOut, Search, Smartphone, Unlink, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  REBIND_STATUS_LABELS,
+  listRebindRequests,
+  lookupStudentDevice,
+  resetStudentDevice,
+  reviewRebindRequest,
+  type RebindRequest,
+  type RebindStatus,
+  type StudentDevice,
+} from '@/lib/studentDevices';
+
+interface StudentDeviceManagerProps {
+  onLogout: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+// الأجهزة المربوطة بأرقام الطلاب: البحث عن ربط طالب وإلغاؤه، ومراجعة طلبات ربط جهاز جديد
+const StudentDeviceManager = ({ onLogout }: StudentDeviceManagerProps) => {
+  const { toast } = useToast();
+  const [studentId, setStudentId] = useState('');
+  const [lookup, setLookup] = useState<{ studentId: string; studentName: string; device: StudentDevice | null } | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [status, setStatus] = useState<RebindStatus>('pending');
+  const [requests, setRequests] = useState<RebindRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(() => {
+    setIsLoading(true);
+    listRebindRequests(status)
+      .then(setRequests)
+      .catch((error) => {
+        console.error('[Devices] Failed to load requests:', error);
+        setRequests([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = studentId.trim();
+    if (!id) return;
+
+    setIsLookingUp(true);
+    try {
+      const result = await lookupStudentDevice(id);
+      setLookup({ studentId: id, studentName: result.student_name, device: result.device });
+    } catch (error) {
+      setLookup(null);
+      toast({
+        title: 'تعذر البحث',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!lookup?.device) return;
+    if (!window.confirm(`إلغاء ربط جهاز ${lookup.studentName}؟ سيُربط الطالب بالجهاز الذي يسجل منه في المرة القادمة.`)) return;
+
+    setIsResetting(true);
+    try {
+      await resetStudentDevice(lookup.studentId);
+      toast({ title: 'تم إلغاء الربط', description: lookup.studentName });
+      setLookup({ ...lookup, device: null });
+    } catch (error) {
+      toast({
+        title: 'تعذر إلغاء الربط',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleReview = async (request: RebindRequest, decision: 'approve' | 'reject') => {
+    setReviewingId(request.id);
+    try {
+      await reviewRebindRequest(request.id, decision);
+      toast({
+        title: decision === 'approve' ? 'تم ربط الجهاز الجديد' : 'تم رفض الطلب',
+        description: request.student_name,
+      });
+      setRequests((current) => current.filter((item) => item.id !== request.id));
+      if (decision === 'approve' && lookup?.studentId === request.student_id) {
+        setLookup(null);
+      }
+    } catch (error) {
+      toast({
+        title: 'تعذرت المراجعة',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+      loadRequests();
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Smartphone className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">STUDENT DEVICES</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/courses">
+                <ArrowRight className="w-4 h-4" />
+                المواد
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6" dir="rtl">
+        <section className="bg-card/80 border border-border rounded-xl p-4 space-y-4">
+          <form onSubmit={handleLookup} className="flex items-end gap-3">
+            <div className="space-y-1 w-full max-w-xs">
+              <Label htmlFor="deviceStudentId">رقم الطالب</Label>
+              <Input
+                id="deviceStudentId"
+                value={studentId}
+                onChange={(e) => setStudentId(e.target.value)}
+                maxLength={50}
+                className="bg-muted/50 font-mono"
+                dir="ltr"
+                disabled={isLookingUp}
+              />
+            </div>
+            <Button type="submit" className="gap-2" disabled={isLookingUp || !studentId.trim()}>
+              {isLookingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              بحث
+            </Button>
+          </form>
+
+          {lookup && (
+            <div className="flex flex-wrap items-center justify-between gap-3 border-t border-border pt-4">
+              <div>
+                <p className="font-display">{lookup.studentName}</p>
+                {lookup.device ? (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono" dir="ltr">DEVICE: {lookup.device.device_id.substring(0, 8)}...</span>
+                    {' · '}
+                    {lookup.device.approved_by ? 'رُبط بموافقة' : 'رُبط عند أول تسجيل'} {formatDate(lookup.device.bound_at)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">لا يوجد جهاز مربوط، وسيُربط عند التسجيل القادم</p>
+                )}
+              </div>
+              {lookup.device && (
+                <Button variant="outline" size="sm" className="gap-2 text-destructive" onClick={handleReset} disabled={isResetting}>
+                  {isResetting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlink className="w-4 h-4" />}
+                  إلغاء الربط
+                </Button>
+              )}
+            </div>
+          )}
+        </section>
+
+        <div className="bg-card/80 border border-border rounded-xl p-4 flex items-end gap-3">
+          <div className="space-y-1 w-full max-w-xs">
+            <Label>طلبات ربط جهاز جديد</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as RebindStatus)}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REBIND_STATUS_LABELS) as RebindStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>{REBIND_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">لا توجد طلبات</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <article key={request.id} className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-display">{request.student_name}</p>
+                    <p className="text-xs font-mono text-muted-foreground">{request.student_id}</p>
+                  </div>
+                  <div className="text-xs text-muted-foreground text-left">
+                    <p>طُلب {formatDate(request.created_at)}</p>
+                    {request.reviewed_at && <p>رُوجع {formatDate(request.reviewed_at)}</p>}
+                  </div>
+                </div>
+
+                {request.reason && <p className="text-sm whitespace-pre-wrap">{request.reason}</p>}
+                <p className="text-xs font-mono text-muted-foreground" dir="ltr">DEVICE: {request.device_id.substring(0, 8)}...</p>
+
+                {request.status === 'pending' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button size="sm" className="gap-2" onClick={() => handleReview(request, 'approve')} disabled={reviewingId !== null}>
+                      {reviewingId === request.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      ربط الجهاز
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-2 text-destructive"
+                      onClick={() => handleReview(request, 'reject')}
+                      disabled={reviewingId !== null}
+                    >
+                      <X className="w-4 h-4" />
+                      رفض
+                    </Button>
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StudentDeviceManager;
@@ -0,0 +1,68 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import { UNAUTHORIZED_EVENT } from '@/lib/api';
+import { getStudentSession, studentLogout, verifyStudentLink } from '@/lib/studentPortal';
+import StudentLoginForm from './StudentLoginForm';
+
+interface StudentGuardProps {
+  children: (logout: () => void) => ReactNode;
+}
+
+// صفحات الطالب: رابط الدخول السحري أو الجلسة الحالية، وإلا نموذج الدخول بالرمز
+const StudentGuard = ({ children }: StudentGuardProps) => {
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [isChecking, setIsChecking] = useState(true);
+  const [linkExpired, setLinkExpired] = useState(false);
+
+  useEffect(() => {
+    const check = async () => {
+      const loginLink = new URLSearchParams(window.location.search).get('login');
+
+      if (loginLink) {
+        // الرابط صالح لاستخدام واحد، فيُزال من شريط العنوان والسجل قبل استخدامه
+        window.history.replaceState(window.history.state, '', window.location.pathname);
+        try {
+          await verifyStudentLink(loginLink);
+          return true;
+        } catch {
+          setLinkExpired(true);
+        }
+      }
+      return (await getStudentSession()) !== null;
+    };
+
+    check()
+      .then(setIsSignedIn)
+      .catch((error) => console.error('[Student] Session check failed:', error))
+      .finally(() => setIsChecking(false));
+  }, []);
+
+  // انتهاء الجلسة أثناء الاستخدام يعيد نموذج الدخول
+  useEffect(() => {
+    const handleUnauthorized = () => setIsSignedIn(false);
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const handleLogout = () => {
+    studentLogout()
+      .catch((error) => console.error('[Student] Logout failed:', error))
+      .finally(() => setIsSignedIn(false));
+  };
+
+  if (isChecking) {
+    return (
+      <div className="min-h-screen bg-background cyber-grid flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isSignedIn) {
+    return <StudentLoginForm linkExpired={linkExpired} onSuccess={() => setIsSignedIn(true)} />;
+  }
+
+  return <>{children(handleLogout)}</>;
+};
+
+export default StudentGuard;
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { IdCard, Loader2, Send, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { requestStudentCode, verifyStudentCode } from '@/lib/studentPortal';
+
+interface StudentLoginFormProps {
+  // فُتح رابط دخول مستخدم أو منتهي الصلاحية
+  linkExpired?: boolean;
+  onSuccess: () => void;
+}
+
+// دخول الطالب برقم الهوية ورمز لمرة واحدة يصله عبر قناة إشعارات الطلاب
+const StudentLoginForm = ({ linkExpired = false, onSuccess }: StudentLoginFormProps) => {
+  const { toast } = useToast();
+  const [studentId, setStudentId] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentId.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await requestStudentCode(studentId.trim());
+      setCode('');
+      setCodeSent(true);
+    } catch (error) {
+      toast({
+        title: 'تعذر إرسال الرمز',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== 6) return;
+
+    setIsLoading(true);
+    try {
+      await verifyStudentCode(studentId.trim(), value);
+      onSuccess();
+    } catch {
+      setCode('');
+      toast({
+        title: 'خطأ',
+        description: 'الرمز غير صحيح أو منتهي الصلاحية',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid flex items-center justify-center p-4" dir="rtl">
+      <div className="w-full max-w-md bg-card/80 backdrop-blur border border-border rounded-2xl p-8 space-y-6">
+        <div className="text-center">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 rounded-full mb-4">
+            <UserCheck className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="font-display text-2xl text-glow mb-2">سجل حضوري</h1>
+          <p className="text-sm text-muted-foreground">
+            {codeSent
+              ? 'إذا كان رقم الهوية مسجلاً في إحدى المواد فقد أُرسل إليك رمز من 6 أرقام'
+              : 'أدخل رقم الهوية وسنرسل لك رمز دخول لمرة واحدة'}
+          </p>
+        </div>
+
+        {linkExpired && !codeSent && (
+          <p className="text-sm text-destructive text-center">رابط الدخول مستخدم أو منتهي الصلاحية، اطلب رمزاً جديداً</p>
+        )}
+
+        {codeSent ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleVerify();
+            }}
+            className="space-y-4"
+          >
+            <div className="flex justify-center" dir="ltr">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={(value: string) => handleVerify(value)}
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={isLoading || code.length !== 6}>
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              دخول
+            </Button>
+            <button
+              type="button"
+              onClick={() => setCodeSent(false)}
+              className="w-full text-xs text-muted-foreground hover:text-primary"
+              disabled={isLoading}
+            >
+              تغيير رقم الهوية أو إعادة إرسال الرمز
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="studentLoginId" className="flex items-center gap-2">
+                <IdCard className="w-4 h-4 text-primary" />
+                رقم الهوية
+              </Label>
+              <Input
+                id="studentLoginId"
+                value={studentId}
+                onChange={(e) => setStudentId(e.target.value)}
+                className="bg-background/50"
+                maxLength={50}
+                autoComplete="username"
+                disabled={isLoading}
+                autoFocus
+              />
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={isLoading || !studentId.trim()}>
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              إرسال الرمز
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudentLoginForm;
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { isPasskeySupported } from '@/lib/passkeys';
+import { listMyPasskeys, registerPasskey, removePasskey, type StudentPasskey } from '@/lib/studentPortal';
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('ar-EG', { dateStyle: 'medium', timeStyle: 'short' });
+
+// مفاتيح المرور المسجلة برقم الطالب: بعد تسجيل مفتاح يُطلب توقيعه عند كل تسجيل حضور
+const StudentPasskeyCard = () => {
+  const { toast } = useToast();
+  const [passkeys, setPasskeys] = useState<StudentPasskey[] | null>(null);
+  const [isSupported, setIsSupported] = useState(false);
+  const [label, setLabel] = useState('');
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    isPasskeySupported().then(setIsSupported);
+    listMyPasskeys()
+      .then(setPasskeys)
+      .catch((error) => console.error('[Student] Failed to load passkeys:', error));
+  }, []);
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsRegistering(true);
+    try {
+      const passkey = await registerPasskey(label.trim());
+      setPasskeys((current) => [...(current || []), passkey]);
+      setLabel('');
+      toast({ title: 'تم تسجيل مفتاح المرور', description: 'سيُطلب منك فتح قفل هذا الجهاز عند كل تسجيل حضور' });
+    } catch (error) {
+      toast({
+        title: 'تعذر تسجيل مفتاح المرور',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleRemove = async (passkey: StudentPasskey) => {
+    const last = passkeys?.length === 1;
+    if (!window.confirm(last ? 'حذف آخر مفتاح مرور؟ لن يُطلب توقيع الجهاز عند تسجيل الحضور بعد ذلك.' : 'حذف مفتاح المرور هذا؟')) return;
+
+    setRemovingId(passkey.id);
+    try {
+      await removePasskey(passkey.id);
+      setPasskeys((current) => (current || []).filter((item) => item.id !== passkey.id));
+    } catch (error) {
+      toast({
+        title: 'تعذر حذف مفتاح المرور',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (!passkeys) {
+    return null;
+  }
+
+  return (
+    <section className="bg-card/80 border border-border rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <KeyRound className="w-5 h-5 text-primary" />
+        <h2 className="font-display">مفتاح المرور</h2>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {passkeys.length === 0
+          ? 'اختياري: سجّل مفتاح مرور على هاتفك ليُطلب فتح قفله عند كل تسجيل حضور برقمك، فلا يستطيع غيرك التسجيل باسمك.'
+          : 'يُطلب توقيع أحد هذه المفاتيح عند كل تسجيل حضور برقمك.'}
+      </p>
+
+      {passkeys.length > 0 && (
+        <ul className="divide-y divide-border">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm truncate" dir="auto">{passkey.label || 'جهاز'}</p>
+                <p className="text-xs text-muted-foreground">
+                  سُجل {formatDate(passkey.created_at)}
+                  {passkey.last_used_at && ` · آخر استخدام ${formatDate(passkey.last_used_at)}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground hover:text-destructive"
+                onClick={() => handleRemove(passkey)}
+                disabled={removingId !== null}
+              >
+                {removingId === passkey.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isSupported ? (
+        <form onSubmit={handleRegister} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="اسم الجهاز (اختياري)"
+            maxLength={100}
+            className="bg-muted/50 flex-1 min-w-[12rem]"
+            disabled={isRegistering}
+          />
+          <Button type="submit" size="sm" className="gap-2" disabled={isRegistering}>
+            {isRegistering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            تسجيل هذا الجهاز
+          </Button>
+        </form>
+      ) : (
+        <p className="text-xs text-muted-foreground">هذا المتصفح لا يدعم مفاتيح المرور على هذا الجهاز</p>
+      )}
+    </section>
+  );
+};
+
+export default StudentPasskeyCard;
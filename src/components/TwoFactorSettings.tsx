@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { ArrowRight, Copy, KeyRound, Loader2, LogOut, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactor,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+} from '@/lib/twoFactor';
+
+interface TwoFactorSettingsProps {
+  onLogout: () => void;
+}
+
+const CodeInput = ({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled: boolean }) => (
+  <div className="flex justify-center" dir="ltr">
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  </div>
+);
+
+const TwoFactorSettings = ({ onLogout }: TwoFactorSettingsProps) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      console.error('[2FA] Failed to load status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // كل العمليات تمر بنفس معالجة الانتظار والأخطاء
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "خطأ",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      });
+    } finally {
+      setCode('');
+      setIsBusy(false);
+    }
+  };
+
+  const handleBegin = () => run(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await beginTwoFactorEnrollment());
+  }, "تعذر بدء التفعيل");
+
+  const handleConfirm = () => run(async () => {
+    setRecoveryCodes(await confirmTwoFactor(code));
+    setEnrollment(null);
+    await loadStatus();
+  }, "الرمز غير صحيح");
+
+  const handleRegenerate = () => run(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+    await loadStatus();
+  }, "الرمز غير صحيح");
+
+  const handleDisable = () => run(async () => {
+    await disableTwoFactor(code);
+    setRecoveryCodes(null);
+    await loadStatus();
+    toast({ title: "تم إيقاف المصادقة الثنائية" });
+  }, "الرمز غير صحيح");
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      .then(() => toast({ title: "تم النسخ" }))
+      .catch((error) => console.error('[2FA] Copy failed:', error));
+  };
+
+  return (
+    <div className="min-h-screen bg-background cyber-grid">
+      <header className="bg-card/80 backdrop-blur border-b border-border sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-8 h-8 text-primary" />
+            <h1 className="font-display text-xl text-glow">SECURITY</h1>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/">
+                <ArrowRight className="w-4 h-4" />
+                QR
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="gap-2 text-muted-foreground hover:text-destructive"
+            >
+              <LogOut className="w-4 h-4" />
+              خروج
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-lg space-y-6" dir="rtl">
+        <section className="bg-card/80 border border-border rounded-xl p-6 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="font-display text-lg">المصادقة الثنائية</h2>
+            {status && (
+              <Badge variant={status.enabled ? 'default' : 'outline'}>
+                {status.enabled ? 'مفعلة' : 'غير مفعلة'}
+              </Badge>
+            )}
+          </div>
+
+          {!status ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          ) : status.enabled ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                رموز الاسترداد المتبقية: <span className="font-mono text-foreground">{status.recoveryCodesLeft}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">أدخل رمزاً حالياً من التطبيق لإصدار رموز استرداد جديدة أو لإيقاف المصادقة الثنائية.</p>
+              <CodeInput value={code} onChange={setCode} disabled={isBusy} />
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1 gap-2" onClick={handleRegenerate} disabled={isBusy || code.length !== 6}>
+                  <KeyRound className="w-4 h-4" />
+                  رموز استرداد جديدة
+                </Button>
+                <Button variant="destructive" className="flex-1 gap-2" onClick={handleDisable} disabled={isBusy || code.length !== 6}>
+                  <ShieldOff className="w-4 h-4" />
+                  إيقاف
+                </Button>
+              </div>
+            </div>
+          ) : enrollment ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">امسح الرمز بتطبيق المصادقة (Google Authenticator، Authy، ...) ثم أدخل الرمز الذي يظهر فيه.</p>
+              <div className="bg-white p-4 rounded-lg w-fit mx-auto">
+                <QRCodeSVG value={enrollment.uri} size={180} level="M" />
+              </div>
+              <p className="text-xs font-mono text-center text-muted-foreground break-all" dir="ltr">{enrollment.secret}</p>
+              <CodeInput value={code} onChange={setCode} disabled={isBusy} />
+              <Button className="w-full" onClick={handleConfirm} disabled={isBusy || code.length !== 6}>
+                تأكيد التفعيل
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">اطلب رمزاً من تطبيق المصادقة على هاتفك عند كل تسجيل دخول، بالإضافة إلى كلمة المرور.</p>
+              <Button className="w-full gap-2" onClick={handleBegin} disabled={isBusy}>
+                <ShieldCheck className="w-4 h-4" />
+                تفعيل
+              </Button>
+            </div>
+          )}
+        </section>
+
+        {recoveryCodes && (
+          <section className="bg-card/80 border border-primary/50 rounded-xl p-6 space-y-4">
+            <h2 className="font-display text-lg">رموز الاسترداد</h2>
+            <p className="text-sm text-muted-foreground">
+              احفظ هذه الرموز في مكان آمن. كل رمز يستخدم مرة واحدة لتسجيل الدخول عند فقدان الهاتف، ولن تظهر مرة أخرى.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-center" dir="ltr">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode} className="bg-muted/50 rounded px-2 py-1">{recoveryCode}</li>
+              ))}
+            </ul>
+            <Button variant="outline" size="sm" className="gap-2" onClick={copyRecoveryCodes}>
+              <Copy className="w-4 h-4" />
+              نسخ
+            </Button>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -14,6 +14,495 @@ export type Database = {
   }
   public: {
     Tables: {
+      absence_alerts: {
+        Row: {
+          absence_limit: number
+          absences: number
+          course_id: string
+          created_at: string
+          level: number
+          student_id: string
+        }
+        Insert: {
+          absence_limit: number
+          absences: number
+          course_id: string
+          created_at?: string
+          level: number
+          student_id: string
+        }
+        Update: {
+          absence_limit?: number
+          absences?: number
+          course_id?: string
+          created_at?: string
+          level?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "absence_alerts_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_login_failures: {
+        Row: {
+          failures: number
+          key: string
+          last_failure_at: string
+          locked_until: string | null
+        }
+        Insert: {
+          failures?: number
+          key: string
+          last_failure_at?: string
+          locked_until?: string | null
+        }
+        Update: {
+          failures?: number
+          key?: string
+          last_failure_at?: string
+          locked_until?: string | null
+        }
+        Relationships: []
+      }
+      admin_recovery_codes: {
+        Row: {
+          admin_id: string
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+        }
+        Insert: {
+          admin_id: string
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+        }
+        Update: {
+          admin_id?: string
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_recovery_codes_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_sessions: {
+        Row: {
+          admin_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          ip: string | null
+          revoked_at: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          admin_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          ip?: string | null
+          revoked_at?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          admin_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          ip?: string | null
+          revoked_at?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_sessions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admins: {
+        Row: {
+          created_at: string
+          disabled_at: string | null
+          display_name: string | null
+          id: string
+          last_login_at: string | null
+          password_hash: string
+          role: string
+          totp_enabled_at: string | null
+          totp_last_step: number | null
+          totp_pending_secret: string | null
+          totp_secret: string | null
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          disabled_at?: string | null
+          display_name?: string | null
+          id?: string
+          last_login_at?: string | null
+          password_hash: string
+          role?: string
+          totp_enabled_at?: string | null
+          totp_last_step?: number | null
+          totp_pending_secret?: string | null
+          totp_secret?: string | null
+          username: string
+        }
+        Update: {
+          created_at?: string
+          disabled_at?: string | null
+          display_name?: string | null
+          id?: string
+          last_login_at?: string | null
+          password_hash?: string
+          role?: string
+          totp_enabled_at?: string | null
+          totp_last_step?: number | null
+          totp_pending_secret?: string | null
+          totp_secret?: string | null
+          username?: string
+        }
+        Relationships: []
+      }
+      attendance_corrections: {
+        Row: {
+          attachment_path: string | null
+          corrected_by: string | null
+          excuse_request_id: string | null
+          id: string
+          reason: string
+          session_id: string
+          status: string
+          student_id: string
+          student_name: string
+          updated_at: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          corrected_by?: string | null
+          excuse_request_id?: string | null
+          id?: string
+          reason: string
+          session_id: string
+          status: string
+          student_id: string
+          student_name: string
+          updated_at?: string
+        }
+        Update: {
+          attachment_path?: string | null
+          corrected_by?: string | null
+          excuse_request_id?: string | null
+          id?: string
+          reason?: string
+          session_id?: string
+          status?: string
+          student_id?: string
+          student_name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_corrections_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "lecture_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_excuse_request_id_fkey"
+            columns: ["excuse_request_id"]
+            isOneToOne: false
+            referencedRelation: "excuse_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_corrected_by_fkey"
+            columns: ["corrected_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_records: {
+        Row: {
+          announced_at: string | null
+          client_ip: string | null
+          device_id: string
+          device_traits: Json | null
+          flags: string[]
+          id: string
+          left_at: string | null
+          location_accuracy_m: number | null
+          location_check: string | null
+          location_distance_m: number | null
+          network_check: string | null
+          passkey_credential_id: string | null
+          recorded_at: string
+          review_note: string | null
+          review_status: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          risk_reasons: string[]
+          risk_related: string[]
+          risk_score: number
+          session_id: string
+          status: string
+          student_id: string
+          student_name: string
+          token_nonce: string
+        }
+        Insert: {
+          announced_at?: string | null
+          client_ip?: string | null
+          device_id: string
+          device_traits?: Json | null
+          flags?: string[]
+          id?: string
+          left_at?: string | null
+          location_accuracy_m?: number | null
+          location_check?: string | null
+          location_distance_m?: number | null
+          network_check?: string | null
+          passkey_credential_id?: string | null
+          recorded_at?: string
+          review_note?: string | null
+          review_status?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          risk_reasons?: string[]
+          risk_related?: string[]
+          risk_score?: number
+          session_id: string
+          status?: string
+          student_id: string
+          student_name: string
+          token_nonce: string
+        }
+        Update: {
+          announced_at?: string | null
+          client_ip?: string | null
+          device_id?: string
+          device_traits?: Json | null
+          flags?: string[]
+          id?: string
+          left_at?: string | null
+          location_accuracy_m?: number | null
+          location_check?: string | null
+          location_distance_m?: number | null
+          network_check?: string | null
+          passkey_credential_id?: string | null
+          recorded_at?: string
+          review_note?: string | null
+          review_status?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          risk_reasons?: string[]
+          risk_related?: string[]
+          risk_score?: number
+          session_id?: string
+          status?: string
+          student_id?: string
+          student_name?: string
+          token_nonce?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_records_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "lecture_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_username: string | null
+          created_at: string
+          diff: Json | null
+          id: number
+          ip: string | null
+          target_id: string | null
+          target_type: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_username?: string | null
+          created_at?: string
+          diff?: Json | null
+          id?: number
+          ip?: string | null
+          target_id?: string | null
+          target_type?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_username?: string | null
+          created_at?: string
+          diff?: Json | null
+          id?: number
+          ip?: string | null
+          target_id?: string | null
+          target_type?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      course_staff: {
+        Row: {
+          admin_id: string
+          course_id: string
+          created_at: string
+        }
+        Insert: {
+          admin_id: string
+          course_id: string
+          created_at?: string
+        }
+        Update: {
+          admin_id?: string
+          course_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_staff_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_staff_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          absence_limit: number | null
+          absence_warning_levels: number[]
+          allowed_networks: string[]
+          code: string
+          created_at: string
+          device_policy: string
+          geofence_policy: string
+          id: string
+          late_grace_minutes: number
+          name: string
+          network_policy: string
+          telegram_chat_id: string | null
+        }
+        Insert: {
+          absence_limit?: number | null
+          absence_warning_levels?: number[]
+          allowed_networks?: string[]
+          code: string
+          created_at?: string
+          device_policy?: string
+          geofence_policy?: string
+          id?: string
+          late_grace_minutes?: number
+          name: string
+          network_policy?: string
+          telegram_chat_id?: string | null
+        }
+        Update: {
+          absence_limit?: number | null
+          absence_warning_levels?: number[]
+          allowed_networks?: string[]
+          code?: string
+          created_at?: string
+          device_policy?: string
+          geofence_policy?: string
+          id?: string
+          late_grace_minutes?: number
+          name?: string
+          network_policy?: string
+          telegram_chat_id?: string | null
+        }
+        Relationships: []
+      }
+      device_rebind_requests: {
+        Row: {
+          created_at: string
+          device_id: string
+          id: string
+          reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          id?: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          id?: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_rebind_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       device_submissions: {
         Row: {
           device_id: string
@@ -38,12 +527,536 @@ export type Database = {
         }
         Relationships: []
       }
+      enrollments: {
+        Row: {
+          course_id: string
+          created_at: string
+          full_name: string
+          id: string
+          section: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          full_name: string
+          id?: string
+          section?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          full_name?: string
+          id?: string
+          section?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      excuse_requests: {
+        Row: {
+          attachment_path: string | null
+          created_at: string
+          id: string
+          reason: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          session_id: string
+          status: string
+          student_id: string
+          student_name: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          created_at?: string
+          id?: string
+          reason: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id: string
+          status?: string
+          student_id: string
+          student_name: string
+        }
+        Update: {
+          attachment_path?: string | null
+          created_at?: string
+          id?: string
+          reason?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          session_id?: string
+          status?: string
+          student_id?: string
+          student_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "excuse_requests_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "lecture_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lecture_sessions: {
+        Row: {
+          closed_at: string | null
+          course: string
+          course_id: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          instructor: string
+          max_forwards: number | null
+          opened_by: string | null
+          room: string | null
+          room_id: string | null
+          starts_at: string
+          week_number: number | null
+        }
+        Insert: {
+          closed_at?: string | null
+          course: string
+          course_id?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          instructor: string
+          max_forwards?: number | null
+          opened_by?: string | null
+          room?: string | null
+          room_id?: string | null
+          starts_at?: string
+          week_number?: number | null
+        }
+        Update: {
+          closed_at?: string | null
+          course?: string
+          course_id?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          instructor?: string
+          max_forwards?: number | null
+          opened_by?: string | null
+          room?: string | null
+          room_id?: string | null
+          starts_at?: string
+          week_number?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lecture_sessions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lecture_sessions_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lecture_sessions_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rooms: {
+        Row: {
+          allowed_networks: string[]
+          created_at: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          radius_m: number
+          updated_at: string
+        }
+        Insert: {
+          allowed_networks?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          radius_m?: number
+          updated_at?: string
+        }
+        Update: {
+          allowed_networks?: string[]
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          radius_m?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      student_devices: {
+        Row: {
+          approved_by: string | null
+          bound_at: string
+          device_id: string
+          student_id: string
+        }
+        Insert: {
+          approved_by?: string | null
+          bound_at?: string
+          device_id: string
+          student_id: string
+        }
+        Update: {
+          approved_by?: string | null
+          bound_at?: string
+          device_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_devices_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_login_codes: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          link_hash: string
+          student_id: string
+          used_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          link_hash: string
+          student_id: string
+          used_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          link_hash?: string
+          student_id?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      student_passkeys: {
+        Row: {
+          algorithm: number
+          created_at: string
+          credential_id: string
+          id: string
+          label: string | null
+          last_used_at: string | null
+          public_key: Json
+          rp_id: string
+          sign_count: number
+          student_id: string
+        }
+        Insert: {
+          algorithm: number
+          created_at?: string
+          credential_id: string
+          id?: string
+          label?: string | null
+          last_used_at?: string | null
+          public_key: Json
+          rp_id: string
+          sign_count?: number
+          student_id: string
+        }
+        Update: {
+          algorithm?: number
+          created_at?: string
+          credential_id?: string
+          id?: string
+          label?: string | null
+          last_used_at?: string | null
+          public_key?: Json
+          rp_id?: string
+          sign_count?: number
+          student_id?: string
+        }
+        Relationships: []
+      }
+      student_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          ip: string | null
+          revoked_at: string | null
+          student_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          ip?: string | null
+          revoked_at?: string | null
+          student_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          ip?: string | null
+          revoked_at?: string | null
+          student_id?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      suspected_forwards: {
+        Row: {
+          allowed: boolean
+          attempted_at: string
+          device_id: string
+          id: string
+          nonce: string
+          original_device_id: string
+        }
+        Insert: {
+          allowed: boolean
+          attempted_at?: string
+          device_id: string
+          id?: string
+          nonce: string
+          original_device_id: string
+        }
+        Update: {
+          allowed?: boolean
+          attempted_at?: string
+          device_id?: string
+          id?: string
+          nonce?: string
+          original_device_id?: string
+        }
+        Relationships: []
+      }
+      token_redemptions: {
+        Row: {
+          device_id: string
+          is_original: boolean
+          nonce: string
+          redeemed_at: string
+        }
+        Insert: {
+          device_id: string
+          is_original?: boolean
+          nonce: string
+          redeemed_at?: string
+        }
+        Update: {
+          device_id?: string
+          is_original?: boolean
+          nonce?: string
+          redeemed_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      attendance_absences: {
+        Row: {
+          absences: number | null
+          course_id: string | null
+          full_name: string | null
+          section: string | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      attendance_checkin_offsets: {
+        Row: {
+          check_ins: number | null
+          course_id: string | null
+          offset_minutes: number | null
+        }
+        Relationships: []
+      }
+      attendance_effective: {
+        Row: {
+          correction_id: string | null
+          record_id: string | null
+          session_id: string | null
+          status: string | null
+          student_id: string | null
+          student_name: string | null
+        }
+        Relationships: []
+      }
+      attendance_section_stats: {
+        Row: {
+          course_id: string | null
+          rate: number | null
+          section: string | null
+          students: number | null
+        }
+        Relationships: []
+      }
+      attendance_session_stats: {
+        Row: {
+          attended: number | null
+          check_ins: number | null
+          course_id: string | null
+          enrolled: number | null
+          session_id: string | null
+          starts_at: string | null
+          week_number: number | null
+        }
+        Relationships: []
+      }
+      attendance_student_stats: {
+        Row: {
+          attended: number | null
+          course_id: string | null
+          excused: number | null
+          full_name: string | null
+          rate: number | null
+          section: string | null
+          sessions: number | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      claim_admin_login_attempt: {
+        Args: {
+          p_base_seconds: number[]
+          p_free_attempts: number[]
+          p_keys: string[]
+          p_max_seconds: number[]
+          p_reset_minutes: number
+        }
+        Returns: {
+          allowed: boolean
+          attempts: number
+          locked_ms: number
+          throttle_key: string
+        }[]
+      }
+      claim_device_cooldown: {
+        Args: {
+          p_cooldown_minutes: number
+          p_device_id: string
+          p_name: string
+          p_user_id_field: string
+        }
+        Returns: {
+          claimed: boolean
+          remaining_ms: number
+        }[]
+      }
       cleanup_old_submissions: { Args: never; Returns: undefined }
+      record_attendance: {
+        Args: {
+          p_bind_device?: boolean
+          p_client_ip?: string
+          p_cooldown_minutes: number
+          p_device_id: string
+          p_device_traits?: Json
+          p_flags?: string[]
+          p_location_accuracy_m?: number
+          p_location_check?: string
+          p_location_distance_m?: number
+          p_network_check?: string
+          p_passkey_credential_id?: string
+          p_review_status?: string
+          p_risk_reasons?: string[]
+          p_risk_related?: string[]
+          p_risk_score?: number
+          p_session_id: string
+          p_status: string
+          p_student_id: string
+          p_student_name: string
+          p_token_nonce: string
+        }
+        Returns: {
+          record_id: string
+          remaining_ms: number
+          status: string
+        }[]
+      }
+      redeem_token_nonce: {
+        Args: { p_device_id: string; p_max_forwards?: number; p_nonce: string }
+        Returns: {
+          original_device_id: string
+          status: string
+        }[]
+      }
+      release_admin_login_attempt: {
+        Args: { p_free_attempts: number[]; p_keys: string[] }
+        Returns: undefined
+      }
+      set_admin_password: {
+        Args: {
+          p_display_name?: string
+          p_password: string
+          p_role?: string
+          p_username: string
+        }
+        Returns: string
+      }
+      verify_admin_password: {
+        Args: { p_password: string; p_username: string }
+        Returns: {
+          display_name: string
+          id: string
+          role: string
+          username: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,55 @@
+// Admin sign-in. The session lives in an HttpOnly cookie the browser sends with every /api request.
+import { postJson } from '@/lib/api';
+
+export type AdminRole = 'super_admin' | 'instructor' | 'teaching_assistant';
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'مسؤول عام',
+  instructor: 'محاضر',
+  teaching_assistant: 'معيد',
+};
+
+export interface AdminProfile {
+  id: string;
+  username: string;
+  displayName: string | null;
+  role: AdminRole;
+}
+
+// Either signed in, or the account has two-factor enabled and the challenge goes to verifyAdminLogin
+export type AdminLoginResult = { admin: AdminProfile } | { mfaRequired: true; challenge: string };
+
+export type SecondFactor = { code: string } | { recovery_code: string };
+
+export const adminLogin = async (username: string, password: string): Promise<AdminLoginResult> =>
+  postJson<AdminLoginResult>('/api/admin/login', { username, password });
+
+export const verifyAdminLogin = async (challenge: string, factor: SecondFactor): Promise<AdminProfile> => {
+  const data = await postJson<{ admin: AdminProfile }>('/api/admin/login/verify', { challenge, ...factor });
+  return data.admin;
+};
+
+export const adminLogout = async (): Promise<void> => {
+  await postJson('/api/admin/logout', {});
+};
+
+// The signed-in admin, or null when there is no valid session cookie
+export const getAdminSession = async (): Promise<AdminProfile | null> => {
+  const response = await fetch('/api/admin/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}',
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data.admin;
+};
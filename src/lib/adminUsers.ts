@@ -0,0 +1,37 @@
+// Admin account management (super admins only)
+import { postJson } from '@/lib/api';
+import type { AdminRole } from '@/lib/adminAuth';
+
+export interface AdminAccount {
+  id: string;
+  username: string;
+  display_name: string | null;
+  role: AdminRole;
+  last_login_at: string | null;
+  disabled_at: string | null;
+  created_at: string;
+}
+
+export interface NewAdminAccount {
+  username: string;
+  password: string;
+  display_name: string;
+  role: AdminRole;
+}
+
+export const listAdmins = async (): Promise<AdminAccount[]> => {
+  const { admins } = await postJson<{ admins: AdminAccount[] }>('/api/admin/users', { action: 'list' });
+  return admins;
+};
+
+export const createAdmin = async (account: NewAdminAccount): Promise<void> => {
+  await postJson('/api/admin/users', { action: 'create', ...account });
+};
+
+export const setAdminRole = async (adminId: string, role: AdminRole): Promise<void> => {
+  await postJson('/api/admin/users', { action: 'update', admin_id: adminId, role });
+};
+
+export const setAdminDisabled = async (adminId: string, disabled: boolean): Promise<void> => {
+  await postJson('/api/admin/users', { action: disabled ? 'disable' : 'enable', admin_id: adminId });
+};
@@ -0,0 +1,51 @@
+// Attendance trends for one course, aggregated in the database
+import { postJson } from '@/lib/api';
+
+export interface SessionStat {
+  session_id: string;
+  starts_at: string;
+  week_number: number | null;
+  enrolled: number;
+  // Every present or late check-in, including students missing from the roster
+  check_ins: number;
+  // Enrolled students only, used for the rate
+  attended: number;
+}
+
+export interface CheckInOffset {
+  // Start of a 5-minute bucket relative to the session start; negative is early
+  offset_minutes: number;
+  check_ins: number;
+}
+
+export interface StudentStat {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+  sessions: number;
+  attended: number;
+  excused: number;
+  // null until a countable session has been held
+  rate: number | null;
+}
+
+export interface SectionStat {
+  section: string | null;
+  students: number;
+  rate: number | null;
+}
+
+export interface CourseAnalytics {
+  threshold: number;
+  sessions: SessionStat[];
+  offsets: CheckInOffset[];
+  students: StudentStat[];
+  sections: SectionStat[];
+}
+
+export const getCourseAnalytics = async (courseId: string): Promise<CourseAnalytics> => {
+  const { threshold, sessions, offsets, students, sections } = await postJson<CourseAnalytics>('/api/analytics', {
+    course_id: courseId,
+  });
+  return { threshold, sessions, offsets, students, sections };
+};
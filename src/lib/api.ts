@@ -0,0 +1,70 @@
+// Fired when an admin endpoint answers 401 so the admin UI can fall back to the login screen
+export const UNAUTHORIZED_EVENT = 'api:unauthorized';
+
+// Thrown by postJson; keeps the status and body for callers that react to more than the message
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// JSON POST helper for the /api endpoints - throws with the server's error message
+export const postJson = async <T>(url: string, body: Record<string, unknown>): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  }
+
+  if (!response.ok || !data.success) {
+    throw new ApiError(data.error || 'Request failed', response.status, data);
+  }
+
+  return data as T;
+};
+
+// POST that answers with a file download; errors still come back as JSON
+export const postForFile = async (url: string, body: Record<string, unknown>): Promise<{ blob: Blob; filename: string | null }> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Request failed', response.status, data);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? null;
+
+  return { blob: await response.blob(), filename };
+};
+
+// File contents for JSON uploads
+export const readFileAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Excuse and correction attachments: a PDF or an image of at most 2 MB
+export const readAttachment = async (file: File): Promise<{ type: string; data: string }> => ({
+  type: file.type,
+  data: await readFileAsBase64(file),
+});
@@ -0,0 +1,70 @@
+// Live attendance for the session being projected
+import { postJson } from '@/lib/api';
+
+export interface CheckIn {
+  student_id: string;
+  student_name: string;
+  recorded_at: string;
+}
+
+export interface RosterStudent {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+}
+
+export interface LiveAttendance {
+  count: number;
+  recent: CheckIn[];
+  // null for sessions without a catalog course
+  enrolledCount: number | null;
+  missing: RosterStudent[] | null;
+}
+
+export const getLiveAttendance = async (sessionId: string): Promise<LiveAttendance> => {
+  const { count, recent, enrolledCount, missing } = await postJson<LiveAttendance>('/api/attendance/live', {
+    session_id: sessionId,
+  });
+  return { count, recent, enrolledCount, missing };
+};
+
+// Call onChange whenever a check-in for the session is recorded, via the Realtime broadcast
+// the database sends on every attendance insert. onStatus reports whether the subscription is
+// live so the caller can fall back to polling. Returns an unsubscribe function.
+export const subscribeToAttendance = (
+  sessionId: string,
+  onChange: () => void,
+  onStatus: (live: boolean) => void
+): (() => void) => {
+  let unsubscribe: (() => void) | null = null;
+  let cancelled = false;
+
+  // Deployments without the Supabase browser env (e.g. Vercel-only) just poll
+  if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY) {
+    onStatus(false);
+    return () => {};
+  }
+
+  import('@/integrations/supabase/client')
+    .then(({ supabase }) => {
+      if (cancelled) return;
+
+      const channel = supabase
+        .channel(`attendance:${sessionId}`)
+        .on('broadcast', { event: 'attendance_changed' }, () => onChange())
+        .subscribe((status) => onStatus(status === 'SUBSCRIBED'));
+
+      unsubscribe = () => {
+        supabase.removeChannel(channel);
+      };
+    })
+    .catch((error) => {
+      console.error('[Attendance] Realtime unavailable:', error);
+      onStatus(false);
+    });
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
+};
@@ -0,0 +1,46 @@
+// Check-ins held for review by the proxy-attendance score
+import { postJson } from '@/lib/api';
+
+export type ReviewStatus = 'pending' | 'cleared' | 'confirmed';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'بانتظار المراجعة',
+  cleared: 'حضور مقبول',
+  confirmed: 'تسجيل بالنيابة',
+};
+
+export const RISK_REASON_LABELS: Record<string, string> = {
+  device_shared_in_session: 'الجهاز نفسه سجل طالباً آخر في هذه المحاضرة',
+  device_many_students: 'الجهاز سجل طلاباً آخرين في محاضرات سابقة',
+  student_many_devices: 'الطالب سجل من عدة أجهزة مؤخراً',
+  new_device: 'جهاز جديد لم يستخدمه الطالب من قبل',
+  similar_device_in_session: 'جهاز مطابق تقريباً سجل طالباً آخر قبل دقائق',
+};
+
+export interface ReviewRecord {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  device_id: string;
+  client_ip: string | null;
+  recorded_at: string;
+  risk_score: number;
+  risk_reasons: string[];
+  // Other student IDs the reasons point at
+  risk_related: string[];
+  review_status: ReviewStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  session: { course: string; course_id: string | null; starts_at: string; week_number: number | null };
+}
+
+export const listReviewRecords = async (status: ReviewStatus): Promise<ReviewRecord[]> => {
+  const { records } = await postJson<{ records: ReviewRecord[] }>('/api/attendance/review', { action: 'list', status });
+  return records;
+};
+
+// Confirming marks the student absent for the session, with the note as the correction reason
+export const reviewRecord = async (id: string, decision: 'clear' | 'confirm', note: string): Promise<void> => {
+  await postJson('/api/attendance/review', { action: 'review', id, decision, note: note || undefined });
+};
@@ -0,0 +1,46 @@
+// Printable attendance sheet of a closed lecture session
+import { postForFile, postJson } from '@/lib/api';
+import type { LectureSession } from '@/lib/lectureSessions';
+
+export interface SheetRecord {
+  student_id: string;
+  student_name: string;
+  // Null for students marked present or excused by hand without a scan
+  recorded_at: string | null;
+  status: string;
+  device_suffix: string | null;
+  left_at: string | null;
+  // Scanned out well before the end, or never scanned out of a session that had an exit scan
+  early_leave: boolean;
+  // The status comes from an attendance correction
+  corrected: boolean;
+}
+
+export interface AttendanceSheet {
+  session: LectureSession;
+  course_code: string | null;
+  records: SheetRecord[];
+  // SHA-256 of the stored records and corrections, printed so a sheet can later be checked against the database
+  integrity_hash: string;
+  generated_at: string;
+}
+
+export const getAttendanceSheet = async (sessionId: string): Promise<AttendanceSheet> => {
+  const { sheet } = await postJson<{ sheet: AttendanceSheet }>('/api/attendance/sheet', { session_id: sessionId });
+  return sheet;
+};
+
+// The sheet rendered as a PDF on the server, downloaded through a temporary link
+export const downloadAttendanceSheetPdf = async (sessionId: string, signatures: boolean): Promise<void> => {
+  const { blob, filename } = await postForFile('/api/attendance/sheet/pdf', { session_id: sessionId, signatures });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename || 'attendance.pdf';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const getAttendanceSheetPath = (sessionId: string): string => `/admin/sessions/${sessionId}/sheet`;
@@ -0,0 +1,77 @@
+// Audit log of admin actions (super admins only)
+import { postJson } from '@/lib/api';
+
+export interface AuditLogEntry {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_username: string | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  diff: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  actor?: string;
+  // yyyy-mm-dd, both inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'admin.login': 'تسجيل دخول',
+  'admin.login_failed': 'محاولة دخول فاشلة',
+  'admin.logout': 'تسجيل خروج',
+  'admin.two_factor_enabled': 'تفعيل المصادقة الثنائية',
+  'admin.two_factor_disabled': 'إيقاف المصادقة الثنائية',
+  'admin.recovery_codes_replaced': 'رموز استرداد جديدة',
+  'admin_user.created': 'إنشاء حساب مسؤول',
+  'admin_user.updated': 'تعديل حساب مسؤول',
+  'admin_user.disabled': 'تعطيل حساب مسؤول',
+  'admin_user.enabled': 'تفعيل حساب مسؤول',
+  'attendance.corrected': 'تعديل حضور يدوي',
+  'attendance.review_cleared': 'قبول تسجيل مشتبه به',
+  'attendance.review_confirmed': 'تأكيد تسجيل بالنيابة',
+  'attendance_sheet.exported': 'تنزيل ورقة حضور PDF',
+  'course.created': 'إنشاء مادة',
+  'course.updated': 'تعديل إعدادات مادة',
+  'course.staff_assigned': 'تعيين محاضر لمادة',
+  'course.staff_removed': 'إزالة محاضر من مادة',
+  'device.binding_reset': 'إلغاء ربط جهاز طالب',
+  'device.rebind_approved': 'قبول ربط جهاز جديد',
+  'device.rebind_rejected': 'رفض ربط جهاز جديد',
+  'excuse.approved': 'قبول عذر غياب',
+  'excuse.rejected': 'رفض عذر غياب',
+  'report.exported': 'تصدير تقرير حضور',
+  'room.created': 'إضافة قاعة',
+  'room.updated': 'تعديل قاعة',
+  'room.deleted': 'حذف قاعة',
+  'roster.imported': 'استيراد قائمة طلاب',
+  'session.opened': 'فتح محاضرة',
+  'session.closed': 'إغلاق محاضرة',
+  'session.qr_projected': 'عرض رمز الحضور',
+};
+
+export const listAuditLog = async (filters: AuditLogFilters, page: number, pageSize: number): Promise<AuditLogPage> => {
+  const { entries, total } = await postJson<AuditLogPage>('/api/audit-log', {
+    action: filters.action || undefined,
+    actor: filters.actor || undefined,
+    // Whole days in local time
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    page,
+    page_size: pageSize,
+  });
+  return { entries, total, page, pageSize };
+};
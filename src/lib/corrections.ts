@@ -0,0 +1,62 @@
+// Manual attendance corrections; the scanned record itself is kept as it was
+import { postJson, readAttachment } from '@/lib/api';
+
+export type CorrectionStatus = 'present' | 'excused' | 'absent';
+
+export const CORRECTION_STATUSES: CorrectionStatus[] = ['present', 'excused', 'absent'];
+
+export interface ScannedRecord {
+  student_name: string;
+  status: string;
+  recorded_at: string;
+  left_at: string | null;
+}
+
+export interface AttendanceCorrection {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  status: CorrectionStatus;
+  reason: string;
+  excuse_request_id: string | null;
+  updated_at: string;
+  // Short-lived download link
+  attachment_url?: string | null;
+}
+
+export interface CorrectionDetails {
+  record: ScannedRecord | null;
+  correction: AttendanceCorrection | null;
+}
+
+export interface CorrectionInput {
+  status: CorrectionStatus;
+  reason: string;
+  file?: File | null;
+}
+
+export const getAttendanceCorrection = async (sessionId: string, studentId: string): Promise<CorrectionDetails> => {
+  const { record, correction } = await postJson<CorrectionDetails>('/api/attendance/corrections', {
+    action: 'get',
+    session_id: sessionId,
+    student_id: studentId,
+  });
+  return { record, correction };
+};
+
+export const setAttendanceCorrection = async (
+  sessionId: string,
+  studentId: string,
+  { status, reason, file }: CorrectionInput
+): Promise<AttendanceCorrection> => {
+  const { correction } = await postJson<{ correction: AttendanceCorrection }>('/api/attendance/corrections', {
+    action: 'set',
+    session_id: sessionId,
+    student_id: studentId,
+    status,
+    reason,
+    attachment: file ? await readAttachment(file) : null,
+  });
+  return correction;
+};
@@ -0,0 +1,151 @@
+// Course catalog and roster API
+import { postJson, readFileAsBase64 } from '@/lib/api';
+import type { AdminRole } from '@/lib/adminAuth';
+
+export type GeofencePolicy = 'block' | 'flag' | 'ignore';
+
+export const GEOFENCE_POLICY_LABELS: Record<GeofencePolicy, string> = {
+  ignore: 'بدون فحص',
+  flag: 'تسجيل مع تنبيه',
+  block: 'رفض التسجيل',
+};
+
+export type NetworkPolicy = 'block' | 'flag' | 'ignore';
+
+export const NETWORK_POLICY_LABELS: Record<NetworkPolicy, string> = {
+  ignore: 'بدون فحص',
+  flag: 'تسجيل مع تنبيه',
+  block: 'رفض التسجيل',
+};
+
+export type DevicePolicy = 'block' | 'flag' | 'ignore';
+
+export const DEVICE_POLICY_LABELS: Record<DevicePolicy, string> = {
+  ignore: 'بدون ربط',
+  flag: 'ربط مع تنبيه',
+  block: 'ربط ورفض غيره',
+};
+
+export interface Course {
+  id: string;
+  code: string;
+  name: string;
+  // Absences after which a student is dropped; null disables the warnings
+  absence_limit: number | null;
+  // Percentages of absence_limit at which a warning is sent
+  absence_warning_levels: number[];
+  telegram_chat_id: string | null;
+  // Check-ins later than this after the start are marked late
+  late_grace_minutes: number;
+  // What happens to a scan reported outside the session's room
+  geofence_policy: GeofencePolicy;
+  // What happens to a scan from outside allowed_networks (or the room's own list)
+  network_policy: NetworkPolicy;
+  allowed_networks: string[];
+  // Whether students are held to the device of their first check-in
+  device_policy: DevicePolicy;
+  created_at: string;
+}
+
+export interface CourseSettingsInput {
+  absence_limit: number | null;
+  absence_warning_levels: number[];
+  telegram_chat_id: string | null;
+  late_grace_minutes: number;
+}
+
+export interface CheckInPoliciesInput {
+  geofence_policy: GeofencePolicy;
+  network_policy: NetworkPolicy;
+  allowed_networks: string[];
+  device_policy: DevicePolicy;
+}
+
+export interface Enrollment {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+}
+
+export interface CourseStaffMember {
+  id: string;
+  username: string;
+  display_name: string | null;
+  role: AdminRole;
+}
+
+export interface RosterIssue {
+  row: number;
+  student_id?: string;
+  reason: string;
+}
+
+export interface RosterImportReport {
+  total: number;
+  inserted: number;
+  updated: number;
+  duplicates: RosterIssue[];
+  malformed: RosterIssue[];
+}
+
+export const listCourses = async (): Promise<Course[]> => {
+  const { courses } = await postJson<{ courses: Course[] }>('/api/courses', { action: 'list' });
+  return courses;
+};
+
+export const createCourse = async (code: string, name: string): Promise<Course> => {
+  const { course } = await postJson<{ course: Course }>('/api/courses', { action: 'create', code, name });
+  return course;
+};
+
+export const getRoster = async (courseId: string): Promise<Enrollment[]> => {
+  const { enrollments } = await postJson<{ enrollments: Enrollment[] }>('/api/courses', {
+    action: 'roster',
+    course_id: courseId,
+  });
+  return enrollments;
+};
+
+export const updateCourseSettings = async (courseId: string, settings: CourseSettingsInput): Promise<Course> => {
+  const { course } = await postJson<{ course: Course }>('/api/courses', {
+    action: 'update_settings',
+    course_id: courseId,
+    ...settings,
+  });
+  return course;
+};
+
+export const updateCheckInPolicies = async (courseId: string, policies: CheckInPoliciesInput): Promise<Course> => {
+  const { course } = await postJson<{ course: Course }>('/api/courses', {
+    action: 'update_check_in_policies',
+    course_id: courseId,
+    ...policies,
+  });
+  return course;
+};
+
+export const getCourseStaff = async (courseId: string): Promise<CourseStaffMember[]> => {
+  const { staff } = await postJson<{ staff: CourseStaffMember[] }>('/api/courses', {
+    action: 'staff',
+    course_id: courseId,
+  });
+  return staff;
+};
+
+export const assignCourseStaff = async (courseId: string, adminId: string): Promise<void> => {
+  await postJson('/api/courses', { action: 'assign_staff', course_id: courseId, admin_id: adminId });
+};
+
+export const removeCourseStaff = async (courseId: string, adminId: string): Promise<void> => {
+  await postJson('/api/courses', { action: 'remove_staff', course_id: courseId, admin_id: adminId });
+};
+
+// Upload a CSV/XLSX roster. With dryRun the server only reports what it would do.
+export const importRoster = async (courseId: string, file: File, dryRun: boolean): Promise<RosterImportReport> => {
+  const { report } = await postJson<{ report: RosterImportReport }>('/api/roster/import', {
+    course_id: courseId,
+    file: await readFileAsBase64(file),
+    dry_run: dryRun,
+  });
+  return report;
+};
@@ -58,6 +58,24 @@ export const getDeviceFingerprint = async (): Promise<string> => {
   }
 };
 
+// Coarse browser properties sent with a check-in. The server compares them across check-ins
+// to spot one phone behind several fingerprints (private tabs, cleared storage).
+export const getDeviceTraits = (): Record<string, string | number | boolean> => {
+  const nav = window.navigator as Navigator & { deviceMemory?: number };
+
+  return {
+    ua: nav.userAgent,
+    platform: nav.platform,
+    language: nav.language,
+    screen: `${window.screen.width}x${window.screen.height}x${window.screen.colorDepth}`,
+    dpr: window.devicePixelRatio,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    cores: nav.hardwareConcurrency || 0,
+    memory: nav.deviceMemory || 0,
+    touch: nav.maxTouchPoints > 0,
+  };
+};
+
 // Fallback ID generator
 const generateFallbackId = (): string => {
   const nav = window.navigator;
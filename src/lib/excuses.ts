@@ -0,0 +1,63 @@
+// Student excuse requests: submitted by the signed-in student, reviewed by the course's instructors
+import { postJson, readAttachment } from '@/lib/api';
+
+export type ExcuseStatus = 'pending' | 'approved' | 'rejected';
+
+export const EXCUSE_STATUS_LABELS: Record<ExcuseStatus, string> = {
+  pending: 'قيد المراجعة',
+  approved: 'مقبول',
+  rejected: 'مرفوض',
+};
+
+export interface Excuse {
+  id: string;
+  session_id: string;
+  student_id: string;
+  student_name: string;
+  reason: string;
+  status: ExcuseStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  session: { course: string; course_id: string | null; starts_at: string; week_number: number | null };
+  // Short-lived download link
+  attachment_url: string | null;
+}
+
+export interface ExcusableSession {
+  id: string;
+  course: string;
+  course_id: string;
+  starts_at: string;
+  week_number: number | null;
+  pending: boolean;
+}
+
+export interface ExcuseSubmission {
+  session_id: string;
+  reason: string;
+  file?: File | null;
+}
+
+export const listExcuses = async (status: ExcuseStatus): Promise<Excuse[]> => {
+  const { excuses } = await postJson<{ excuses: Excuse[] }>('/api/excuses', { action: 'list', status });
+  return excuses;
+};
+
+export const reviewExcuse = async (id: string, decision: 'approve' | 'reject', note: string): Promise<void> => {
+  await postJson('/api/excuses', { action: 'review', id, decision, note: note || undefined });
+};
+
+// Missed sessions of the last two weeks the student can still ask to excuse
+export const listExcusableSessions = async (): Promise<ExcusableSession[]> => {
+  const { sessions } = await postJson<{ sessions: ExcusableSession[] }>('/api/excuse-request', { action: 'sessions' });
+  return sessions;
+};
+
+export const submitExcuse = async ({ file, ...submission }: ExcuseSubmission): Promise<void> => {
+  await postJson('/api/excuse-request', {
+    action: 'submit',
+    ...submission,
+    attachment: file ? await readAttachment(file) : null,
+  });
+};
@@ -0,0 +1,26 @@
+// Browser location for geofenced check-ins
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  // Accuracy radius in metres as reported by the browser
+  accuracy: number;
+}
+
+// A fresh, high-accuracy fix; rejects with the GeolocationPositionError when the student refuses or it times out
+export const getScanLocation = (): Promise<ScanLocation> =>
+  new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('Geolocation is not supported'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      reject,
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+    );
+  });
@@ -0,0 +1,63 @@
+// Lecture session API - a session ties every scanned token to one class meeting
+import { postJson } from '@/lib/api';
+
+export interface LectureSession {
+  id: string;
+  course_id: string | null;
+  course: string;
+  instructor: string;
+  room: string | null;
+  // Catalog room matched by name when the session was opened
+  room_id: string | null;
+  week_number: number | null;
+  starts_at: string;
+  ends_at: string;
+  closed_at: string | null;
+  max_forwards: number | null;
+  // Admin who opened the session
+  opened_by: string | null;
+  created_at: string;
+}
+
+// Lecture details shown to students after a successful scan
+export interface LectureSummary {
+  id: string;
+  course: string;
+  instructor: string;
+  room: string | null;
+  weekNumber: number | null;
+  startsAt: string;
+  endsAt: string;
+  // The form asks for the browser location before it can be sent
+  locationRequired: boolean;
+}
+
+export interface OpenSessionInput {
+  course_id?: string;
+  course: string;
+  instructor: string;
+  room?: string;
+  week_number?: string;
+  starts_at?: string;
+  ends_at: string;
+}
+
+const callSessionsApi = <T>(body: Record<string, unknown>): Promise<T> => postJson<T>('/api/lecture-sessions', body);
+
+export const openLectureSession = async (input: OpenSessionInput): Promise<LectureSession> => {
+  const { session } = await callSessionsApi<{ session: LectureSession }>({ action: 'open', ...input });
+  return session;
+};
+
+export const closeLectureSession = async (sessionId: string): Promise<LectureSession> => {
+  const { session } = await callSessionsApi<{ session: LectureSession }>({ action: 'close', session_id: sessionId });
+  return session;
+};
+
+export const getLectureSession = async (sessionId: string): Promise<{ session: LectureSession; isOpen: boolean }> =>
+  callSessionsApi<{ session: LectureSession; isOpen: boolean }>({ action: 'get', session_id: sessionId });
+
+export const listOpenSessions = async (): Promise<LectureSession[]> => {
+  const { sessions } = await callSessionsApi<{ sessions: LectureSession[] }>({ action: 'list' });
+  return sessions;
+};
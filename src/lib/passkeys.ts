@@ -0,0 +1,104 @@
+// Browser side of passkeys: creating a platform credential for the signed-in student and
+// signing a check-in with it. Binary fields travel as base64url strings.
+
+export interface PasskeyOptions {
+  challenge: string;
+  challenge_token: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string };
+  algorithms: number[];
+  // Credentials the student already has, so the same device is not registered twice
+  exclude: string[];
+}
+
+export interface PasskeyRegistration {
+  id: string;
+  client_data: string;
+  attestation_object: string;
+}
+
+export interface PasskeyAssertion {
+  id: string;
+  client_data: string;
+  authenticator_data: string;
+  signature: string;
+}
+
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+// Whether this device can hold a passkey unlocked by its own screen lock or biometrics
+export const isPasskeySupported = async (): Promise<boolean> => {
+  if (typeof window === 'undefined' || !window.PublicKeyCredential) {
+    return false;
+  }
+
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+};
+
+export const createPasskey = async (options: PasskeyOptions): Promise<PasskeyRegistration> => {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rp: options.rp,
+      user: { id: fromBase64Url(options.user.id), name: options.user.name, displayName: options.user.name },
+      pubKeyCredParams: options.algorithms.map((alg) => ({ type: 'public-key', alg })),
+      excludeCredentials: options.exclude.map((id) => ({ type: 'public-key', id: fromBase64Url(id) })),
+      authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required', residentKey: 'preferred' },
+      attestation: 'none',
+      timeout: 60000,
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    client_data: toBase64Url(response.clientDataJSON),
+    attestation_object: toBase64Url(response.attestationObject),
+  };
+};
+
+// Sign the challenge the server sent back for a check-in (the scanned QR's nonce)
+export const signWithPasskey = async (challenge: string, credentialIds: string[]): Promise<PasskeyAssertion> => {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64Url(challenge),
+      allowCredentials: credentialIds.map((id) => ({ type: 'public-key', id: fromBase64Url(id) })),
+      userVerification: 'required',
+      timeout: 60000,
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey sign-in was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    client_data: toBase64Url(response.clientDataJSON),
+    authenticator_data: toBase64Url(response.authenticatorData),
+    signature: toBase64Url(response.signature),
+  };
+};
@@ -0,0 +1,79 @@
+// Attendance reports per course: on-screen matrix and CSV/XLSX export of the same data
+import { postForFile, postJson } from '@/lib/api';
+
+export type AttendanceCell = 'present' | 'late' | 'absent' | 'excused';
+
+export const ATTENDANCE_CELLS: AttendanceCell[] = ['present', 'late', 'absent', 'excused'];
+
+// Same wording as the exported file
+export const CELL_LABELS: Record<AttendanceCell, string> = {
+  present: 'حاضر',
+  late: 'متأخر',
+  absent: 'غائب',
+  excused: 'بعذر',
+};
+
+// Reasons a scanned record is flagged for review
+export const FLAG_LABELS: Record<string, string> = {
+  location: 'موقع المسح خارج القاعة أو غير مؤكد',
+  network: 'المسح من شبكة خارج النطاق المسموح',
+  risk: 'اشتباه تسجيل بالنيابة',
+  device: 'المسح من جهاز غير المربوط بالطالب',
+};
+
+export interface ReportFilters {
+  course_id: string;
+  section?: string;
+  // yyyy-mm-dd
+  from?: string;
+  to?: string;
+  week?: number;
+}
+
+export interface ReportSession {
+  id: string;
+  label: string;
+  starts_at: string;
+  week_number: number | null;
+}
+
+export interface ReportRow {
+  student_id: string;
+  full_name: string;
+  section: string | null;
+  cells: AttendanceCell[];
+  // Same order as cells: true where the status was set by hand
+  corrected: boolean[];
+  // Same order as cells: why the scanned record was flagged for review
+  flags: string[][];
+  totals: Record<AttendanceCell, number>;
+  early_leaves: number;
+  rate: number | null;
+}
+
+export interface AttendanceReport {
+  course: { id: string; code: string; name: string };
+  sections: string[];
+  sessions: ReportSession[];
+  rows: ReportRow[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const getAttendanceReport = async (filters: ReportFilters): Promise<AttendanceReport> => {
+  const { report } = await postJson<{ report: AttendanceReport }>('/api/reports', { ...filters });
+  return report;
+};
+
+// Downloads the export through a temporary link
+export const downloadAttendanceReport = async (filters: ReportFilters, format: ExportFormat): Promise<void> => {
+  const { blob, filename } = await postForFile('/api/reports/export', { ...filters, format });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename || `attendance.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,38 @@
+// Lecture rooms: listed for everyone who opens sessions, edited by super admins
+import { postJson } from '@/lib/api';
+
+export interface Room {
+  id: string;
+  name: string;
+  // Both null when the room has no geofence
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number;
+  // CIDR ranges check-ins must come from; empty uses the course's list
+  allowed_networks: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoomInput {
+  id?: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number;
+  allowed_networks: string[];
+}
+
+export const listRooms = async (): Promise<Room[]> => {
+  const { rooms } = await postJson<{ rooms: Room[] }>('/api/rooms', { action: 'list' });
+  return rooms;
+};
+
+export const saveRoom = async (input: RoomInput): Promise<Room> => {
+  const { room } = await postJson<{ room: Room }>('/api/rooms', { action: 'save', ...input });
+  return room;
+};
+
+export const deleteRoom = async (id: string): Promise<void> => {
+  await postJson('/api/rooms', { action: 'delete', id });
+};
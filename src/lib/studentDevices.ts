@@ -0,0 +1,49 @@
+// Students' bound devices and their requests to move to a new one
+import { postJson } from '@/lib/api';
+
+export type RebindStatus = 'pending' | 'approved' | 'rejected';
+
+export const REBIND_STATUS_LABELS: Record<RebindStatus, string> = {
+  pending: 'بانتظار المراجعة',
+  approved: 'مقبول',
+  rejected: 'مرفوض',
+};
+
+export interface StudentDevice {
+  student_id: string;
+  device_id: string;
+  bound_at: string;
+  // Null when the device was bound by the student's first check-in
+  approved_by: string | null;
+}
+
+export interface RebindRequest {
+  id: string;
+  student_id: string;
+  student_name: string;
+  device_id: string;
+  reason: string | null;
+  status: RebindStatus;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export const listRebindRequests = async (status: RebindStatus): Promise<RebindRequest[]> => {
+  const { requests } = await postJson<{ requests: RebindRequest[] }>('/api/student-devices', { action: 'requests', status });
+  return requests;
+};
+
+// Approving binds the student to the requested device in place of the old one
+export const reviewRebindRequest = async (id: string, decision: 'approve' | 'reject'): Promise<void> => {
+  await postJson('/api/student-devices', { action: 'review', id, decision });
+};
+
+export const lookupStudentDevice = async (
+  studentId: string
+): Promise<{ student_name: string; device: StudentDevice | null }> =>
+  postJson('/api/student-devices', { action: 'lookup', student_id: studentId });
+
+// The student's next check-in binds whichever device it comes from
+export const resetStudentDevice = async (studentId: string): Promise<void> => {
+  await postJson('/api/student-devices', { action: 'reset', student_id: studentId });
+};
@@ -0,0 +1,126 @@
+// Student self-service: sign in with a code sent through the student notifier, then read your own history.
+// The session lives in an HttpOnly cookie, separate from the admin one.
+import { postJson } from '@/lib/api';
+import type { AttendanceCell } from '@/lib/reports';
+import type { ExcuseStatus } from '@/lib/excuses';
+import type { RebindStatus } from '@/lib/studentDevices';
+import { createPasskey, type PasskeyOptions } from '@/lib/passkeys';
+
+export interface StudentSessionEntry {
+  id: string;
+  starts_at: string;
+  week_number: number | null;
+  status: AttendanceCell;
+  corrected: boolean;
+  recorded_at: string | null;
+}
+
+export interface StudentExcuse {
+  id: string;
+  session_id: string;
+  reason: string;
+  status: ExcuseStatus;
+  review_note: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface StudentCourseHistory {
+  course: { id: string; code: string; name: string; absence_limit: number | null };
+  // Newest first
+  sessions: StudentSessionEntry[];
+  totals: Record<AttendanceCell, number>;
+  rate: number | null;
+  excuses: StudentExcuse[];
+}
+
+export interface StudentHistory {
+  student_id: string;
+  full_name: string | null;
+  courses: StudentCourseHistory[];
+}
+
+// The server answers the same way for unknown student IDs, so this cannot tell whether a code was sent
+export const requestStudentCode = async (studentId: string): Promise<void> => {
+  await postJson('/api/student/login', { student_id: studentId });
+};
+
+export const verifyStudentCode = async (studentId: string, code: string): Promise<void> => {
+  await postJson('/api/student/login/verify', { student_id: studentId, code });
+};
+
+export const verifyStudentLink = async (link: string): Promise<void> => {
+  await postJson('/api/student/login/verify', { link });
+};
+
+export const studentLogout = async (): Promise<void> => {
+  await postJson('/api/student/logout', {});
+};
+
+// The signed-in student ID, or null when there is no valid session cookie
+export const getStudentSession = async (): Promise<string | null> => {
+  const response = await fetch('/api/student/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}',
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data.student.studentId;
+};
+
+export const getStudentHistory = async (): Promise<StudentHistory> =>
+  postJson<StudentHistory>('/api/student/attendance', {});
+
+export interface StudentDeviceStatus {
+  // Whether the student's bound device is this one, another one, or none yet
+  bound: 'none' | 'this' | 'other';
+  bound_at: string | null;
+  // The latest rebinding request made from this device
+  request: { status: RebindStatus; created_at: string; reviewed_at: string | null } | null;
+}
+
+export const getMyDeviceStatus = async (deviceId: string): Promise<StudentDeviceStatus> =>
+  postJson<StudentDeviceStatus>('/api/student/device', { action: 'status', device_id: deviceId });
+
+export const requestDeviceRebind = async (deviceId: string, reason: string): Promise<void> => {
+  await postJson('/api/student/device', { action: 'request', device_id: deviceId, reason: reason || undefined });
+};
+
+export interface StudentPasskey {
+  id: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export const listMyPasskeys = async (): Promise<StudentPasskey[]> => {
+  const { passkeys } = await postJson<{ passkeys: StudentPasskey[] }>('/api/student/passkeys', { action: 'list' });
+  return passkeys;
+};
+
+// Asks the server for a challenge, has the device create the credential, then stores it
+export const registerPasskey = async (label: string): Promise<StudentPasskey> => {
+  const options = await postJson<PasskeyOptions>('/api/student/passkeys', { action: 'options' });
+  const credential = await createPasskey(options);
+  const { passkey } = await postJson<{ passkey: StudentPasskey }>('/api/student/passkeys', {
+    action: 'register',
+    challenge_token: options.challenge_token,
+    credential,
+    label: label || undefined,
+  });
+  return passkey;
+};
+
+export const removePasskey = async (id: string): Promise<void> => {
+  await postJson('/api/student/passkeys', { action: 'remove', id });
+};
@@ -1,58 +1,101 @@
-// Token encryption utilities
-const SECRET_KEY = 'cyber-qr-secret-2024';
-
-// Generate a unique token with timestamp
-export const generateToken = (): string => {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 15);
-  const data = `${timestamp}-${random}`;
-  
-  // Simple encoding (in production, use proper encryption)
-  const encoded = btoa(data + SECRET_KEY);
-  return encoded;
+// Token utilities - tokens are signed and verified on the server only
+import { postJson } from '@/lib/api';
+import type { LectureSummary } from '@/lib/lectureSessions';
+
+export interface IssuedToken {
+  token: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface TokenValidation {
+  valid: boolean;
+  timeLeft: number;
+  expired: boolean;
+  // Token was already redeemed by another device
+  forwarded: boolean;
+  lecture?: LectureSummary;
+}
+
+// Entry tokens open the attendance form, exit tokens record when the student left
+export type TokenMode = 'entry' | 'exit';
+
+interface StoredSession {
+  token: string;
+  lecture: LectureSummary;
+  storedAt: number;
+}
+
+const SESSION_KEY = 'cyber-session';
+
+// The server accepts a scanned token for this long after it expires, as SUBMIT_GRACE_MS there
+const SUBMIT_GRACE_MS = 15 * 60 * 1000;
+
+// Request a new signed token for a lecture session from the server
+// (admin only - the signed-in admin's session cookie is sent along)
+export const requestToken = async (sessionId: string, mode: TokenMode = 'entry'): Promise<IssuedToken> => {
+  const data = await postJson<IssuedToken>('/api/issue-token', { session_id: sessionId, mode });
+  return { token: data.token, issuedAt: data.issuedAt, expiresAt: data.expiresAt };
 };
 
-// Validate token - check if it's less than 5 seconds old
-export const validateToken = (token: string): { valid: boolean; timeLeft: number; expired: boolean } => {
+// Validate token on the server - signature, expiry and redemption are checked there
+export const validateToken = async (token: string, deviceId: string): Promise<TokenValidation> => {
   try {
-    const decoded = atob(token);
-    const dataWithoutKey = decoded.replace(SECRET_KEY, '');
-    const parts = dataWithoutKey.split('-');
-    const timestamp = parseInt(parts[0], 10);
-    
-    if (isNaN(timestamp)) {
-      return { valid: false, timeLeft: 0, expired: true };
-    }
-    
-    const now = Date.now();
-    const age = now - timestamp;
-    const maxAge = 10000; // 10 seconds to allow for network latency and scanning time
-    const timeLeft = Math.max(0, maxAge - age);
-    
-    if (age > maxAge) {
-      return { valid: false, timeLeft: 0, expired: true };
+    const response = await fetch('/api/verify-token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, device_id: deviceId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      return { valid: false, timeLeft: 0, expired: false, forwarded: false };
     }
-    
-    return { valid: true, timeLeft, expired: false };
+
+    return {
+      valid: !!data.valid,
+      timeLeft: data.timeLeft || 0,
+      expired: !!data.expired,
+      forwarded: !!data.forwarded,
+      lecture: data.lecture,
+    };
   } catch {
-    return { valid: false, timeLeft: 0, expired: true };
+    return { valid: false, timeLeft: 0, expired: false, forwarded: false };
   }
 };
 
-// Store session token in localStorage to maintain access
-export const storeSessionToken = (): string => {
-  const sessionToken = generateToken() + '-session-' + Date.now();
-  localStorage.setItem('cyber-session', sessionToken);
-  return sessionToken;
+// Store the redeemed token and its lecture in localStorage to maintain access
+export const storeSessionToken = (token: string, lecture: LectureSummary): void => {
+  const session: StoredSession = { token, lecture, storedAt: Date.now() };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
 };
 
-// Check if user has valid session
-export const hasValidSession = (): boolean => {
-  const session = localStorage.getItem('cyber-session');
-  return session !== null && session.includes('-session-');
+// Get the stored session while its token can still be submitted. The token expires seconds after
+// the scan and the lecture at its end; past either plus the grace the server would reject it.
+export const getStoredSession = (now = Date.now()): StoredSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null') as StoredSession | null;
+
+    if (!session || !session.token || !session.lecture || typeof session.storedAt !== 'number') {
+      return null;
+    }
+
+    if (Math.min(session.storedAt, new Date(session.lecture.endsAt).getTime()) + SUBMIT_GRACE_MS <= now) {
+      clearSession();
+      return null;
+    }
+
+    return session;
+  } catch {
+    return null;
+  }
 };
 
+// Check if user has valid session
+export const hasValidSession = (): boolean => getStoredSession() !== null;
+
 // Clear session
 export const clearSession = (): void => {
-  localStorage.removeItem('cyber-session');
+  localStorage.removeItem(SESSION_KEY);
 };
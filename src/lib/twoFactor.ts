@@ -0,0 +1,40 @@
+// Two-factor (TOTP) settings of the signed-in admin
+import { postJson } from '@/lib/api';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+}
+
+export interface TwoFactorEnrollment {
+  // Base32 secret for manual entry when the QR code cannot be scanned
+  secret: string;
+  // otpauth:// URI rendered as a QR code
+  uri: string;
+}
+
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const { enabled, enabledAt, recoveryCodesLeft } = await postJson<TwoFactorStatus>('/api/admin/two-factor', { action: 'status' });
+  return { enabled, enabledAt, recoveryCodesLeft };
+};
+
+export const beginTwoFactorEnrollment = async (): Promise<TwoFactorEnrollment> => {
+  const { secret, uri } = await postJson<TwoFactorEnrollment>('/api/admin/two-factor', { action: 'begin' });
+  return { secret, uri };
+};
+
+// Returns the recovery codes; they are shown once and cannot be fetched again
+export const confirmTwoFactor = async (code: string): Promise<string[]> => {
+  const { recoveryCodes } = await postJson<{ recoveryCodes: string[] }>('/api/admin/two-factor', { action: 'confirm', code });
+  return recoveryCodes;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const { recoveryCodes } = await postJson<{ recoveryCodes: string[] }>('/api/admin/two-factor', { action: 'recovery_codes', code });
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  await postJson('/api/admin/two-factor', { action: 'disable', code });
+};
@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import AttendanceAnalytics from '@/components/AttendanceAnalytics';
+
+const AdminAnalytics = () => {
+  return (
+    <AdminGuard>
+      {(logout) => <AttendanceAnalytics onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminAnalytics;
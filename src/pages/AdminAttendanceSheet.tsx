@@ -0,0 +1,15 @@
+import { useParams } from 'react-router-dom';
+import AdminGuard from '@/components/AdminGuard';
+import AttendanceSheet from '@/components/AttendanceSheet';
+
+const AdminAttendanceSheet = () => {
+  const { sessionId = '' } = useParams();
+
+  return (
+    <AdminGuard>
+      {() => <AttendanceSheet sessionId={sessionId} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminAttendanceSheet;
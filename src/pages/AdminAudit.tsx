@@ -0,0 +1,13 @@
+import AdminGuard from '@/components/AdminGuard';
+import AuditLogViewer from '@/components/AuditLogViewer';
+import NotFound from './NotFound';
+
+const AdminAudit = () => {
+  return (
+    <AdminGuard>
+      {(logout, admin) => (admin.role === 'super_admin' ? <AuditLogViewer onLogout={logout} /> : <NotFound />)}
+    </AdminGuard>
+  );
+};
+
+export default AdminAudit;
@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import CourseManager from '@/components/CourseManager';
+
+const AdminCourses = () => {
+  return (
+    <AdminGuard>
+      {(logout, admin) => <CourseManager admin={admin} onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminCourses;
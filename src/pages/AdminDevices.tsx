@@ -0,0 +1,15 @@
+import AdminGuard from '@/components/AdminGuard';
+import StudentDeviceManager from '@/components/StudentDeviceManager';
+import NotFound from './NotFound';
+
+const AdminDevices = () => {
+  return (
+    <AdminGuard>
+      {(logout, admin) =>
+        admin.role === 'teaching_assistant' ? <NotFound /> : <StudentDeviceManager onLogout={logout} />
+      }
+    </AdminGuard>
+  );
+};
+
+export default AdminDevices;
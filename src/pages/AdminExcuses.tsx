@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import ExcuseReview from '@/components/ExcuseReview';
+
+const AdminExcuses = () => {
+  return (
+    <AdminGuard>
+      {(logout) => <ExcuseReview onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminExcuses;
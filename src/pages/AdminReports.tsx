@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import AttendanceReport from '@/components/AttendanceReport';
+
+const AdminReports = () => {
+  return (
+    <AdminGuard>
+      {(logout) => <AttendanceReport onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminReports;
@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import AttendanceReviewQueue from '@/components/AttendanceReviewQueue';
+
+const AdminReview = () => {
+  return (
+    <AdminGuard>
+      {(logout) => <AttendanceReviewQueue onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminReview;
@@ -0,0 +1,13 @@
+import AdminGuard from '@/components/AdminGuard';
+import RoomManager from '@/components/RoomManager';
+import NotFound from './NotFound';
+
+const AdminRooms = () => {
+  return (
+    <AdminGuard>
+      {(logout, admin) => (admin.role === 'super_admin' ? <RoomManager onLogout={logout} /> : <NotFound />)}
+    </AdminGuard>
+  );
+};
+
+export default AdminRooms;
@@ -0,0 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+
+const AdminSecurity = () => {
+  return (
+    <AdminGuard>
+      {(logout) => <TwoFactorSettings onLogout={logout} />}
+    </AdminGuard>
+  );
+};
+
+export default AdminSecurity;
@@ -0,0 +1,13 @@
+import AdminGuard from '@/components/AdminGuard';
+import AdminUserManager from '@/components/AdminUserManager';
+import NotFound from './NotFound';
+
+const AdminUsers = () => {
+  return (
+    <AdminGuard>
+      {(logout, admin) => (admin.role === 'super_admin' ? <AdminUserManager admin={admin} onLogout={logout} /> : <NotFound />)}
+    </AdminGuard>
+  );
+};
+
+export default AdminUsers;
@@ -0,0 +1,12 @@
+import StudentGuard from '@/components/StudentGuard';
+import ExcuseRequestForm from '@/components/ExcuseRequestForm';
+
+const Excuse = () => {
+  return (
+    <StudentGuard>
+      {() => <ExcuseRequestForm />}
+    </StudentGuard>
+  );
+};
+
+export default Excuse;
@@ -0,0 +1,7 @@
+import ExitScan from '@/components/ExitScan';
+
+const Exit = () => {
+  return <ExitScan />;
+};
+
+export default Exit;
@@ -1,7 +1,12 @@
+import AdminGuard from '@/components/AdminGuard';
 import QRCodeGenerator from '@/components/QRCodeGenerator';
 
 const Index = () => {
-  return <QRCodeGenerator />;
+  return (
+    <AdminGuard>
+      {(logout, admin) => <QRCodeGenerator admin={admin} onLogout={logout} />}
+    </AdminGuard>
+  );
 };
 
 export default Index;
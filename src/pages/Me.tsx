@@ -0,0 +1,12 @@
+import StudentGuard from '@/components/StudentGuard';
+import StudentAttendanceHistory from '@/components/StudentAttendanceHistory';
+
+const Me = () => {
+  return (
+    <StudentGuard>
+      {(logout) => <StudentAttendanceHistory onLogout={logout} />}
+    </StudentGuard>
+  );
+};
+
+export default Me;
@@ -0,0 +1,7 @@
+// Every /api route behind a single edge function: /functions/v1/api/<route>
+import { createClient } from "@supabase/supabase-js";
+import { createContext } from "../../../server/core/context.ts";
+import { dispatch } from "../../../server/core/routes.ts";
+import { handleFetchRequest, supabaseClientIp } from "../../../server/adapters/fetch.ts";
+
+Deno.serve((req) => handleFetchRequest(dispatch, req, createContext(Deno.env.toObject(), createClient), supabaseClientIp(req)));
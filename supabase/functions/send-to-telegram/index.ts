@@ -1,87 +1,6 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "@supabase/supabase-js";
+import { createContext } from "../../../server/core/context.ts";
+import { handleFetchRequest, supabaseClientIp } from "../../../server/adapters/fetch.ts";
+import { sendToTelegram } from "../../../server/core/handlers/sendToTelegram.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface TelegramRequest {
-  name: string;
-  id: string;
-}
-
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const TELEGRAM_BOT_TOKEN = Deno.env.get('TELEGRAM_BOT_TOKEN');
-    const TELEGRAM_CHAT_ID = Deno.env.get('TELEGRAM_CHAT_ID');
-
-    if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
-      console.error('Missing Telegram configuration');
-      throw new Error('Telegram configuration is missing');
-    }
-
-    const { name, id }: TelegramRequest = await req.json();
-
-    // Validate input
-    if (!name || !id) {
-      throw new Error('Name and ID are required');
-    }
-
-    // Sanitize input
-    const sanitizedName = name.trim().substring(0, 100);
-    const sanitizedId = id.trim().substring(0, 50);
-
-    // Format message for Telegram
-    const message = `🔐 *تسجيل دخول جديد*\n\n` +
-      `👤 *الاسم:* ${sanitizedName}\n` +
-      `🆔 *ID:* ${sanitizedId}\n` +
-      `📅 *التوقيت:* ${new Date().toLocaleString('ar-EG', { timeZone: 'Africa/Cairo' })}\n` +
-      `━━━━━━━━━━━━━━━━`;
-
-    console.log('Sending message to Telegram:', { name: sanitizedName, id: sanitizedId });
-
-    // Send to Telegram
-    const telegramUrl = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`;
-    const telegramResponse = await fetch(telegramUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        chat_id: TELEGRAM_CHAT_ID,
-        text: message,
-        parse_mode: 'Markdown',
-      }),
-    });
-
-    const telegramResult = await telegramResponse.json();
-    console.log('Telegram API response:', telegramResult);
-
-    if (!telegramResult.ok) {
-      throw new Error(`Telegram API error: ${telegramResult.description}`);
-    }
-
-    return new Response(
-      JSON.stringify({ success: true, message: 'Data sent successfully' }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  } catch (error: unknown) {
-    console.error('Error in send-to-telegram function:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ success: false, error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
+Deno.serve((req) => handleFetchRequest(sendToTelegram, req, createContext(Deno.env.toObject(), createClient), supabaseClientIp(req)));
@@ -0,0 +1,89 @@
+-- Ledger of QR token nonces and the devices that redeemed them
+CREATE TABLE public.token_redemptions (
+  nonce TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  is_original BOOLEAN NOT NULL DEFAULT false,
+  redeemed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (nonce, device_id)
+);
+
+-- Only one device can be the original redeemer of a nonce
+CREATE UNIQUE INDEX idx_token_redemptions_original ON public.token_redemptions(nonce) WHERE is_original;
+
+-- Every redemption of an already redeemed nonce from another device
+CREATE TABLE public.suspected_forwards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  nonce TEXT NOT NULL,
+  original_device_id TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  allowed BOOLEAN NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_suspected_forwards_nonce ON public.suspected_forwards(nonce);
+CREATE INDEX idx_suspected_forwards_attempted_at ON public.suspected_forwards(attempted_at);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.token_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.suspected_forwards ENABLE ROW LEVEL SECURITY;
+
+-- Redeem a token nonce for a device.
+-- Returns 'redeemed' for the first device, 'repeat' when a device that already
+-- redeemed the nonce opens it again, 'forward_allowed' while the number of
+-- extra devices is below p_max_forwards and 'forward_rejected' after that.
+CREATE OR REPLACE FUNCTION public.redeem_token_nonce(
+  p_nonce TEXT,
+  p_device_id TEXT,
+  p_max_forwards INTEGER DEFAULT 0
+)
+RETURNS TABLE (status TEXT, original_device_id TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original TEXT;
+  v_forwards INTEGER;
+BEGIN
+  -- Serialise concurrent redemptions of the same nonce
+  PERFORM pg_advisory_xact_lock(hashtext(p_nonce));
+
+  SELECT r.device_id INTO v_original
+  FROM public.token_redemptions r
+  WHERE r.nonce = p_nonce AND r.is_original;
+
+  IF v_original IS NULL THEN
+    INSERT INTO public.token_redemptions (nonce, device_id, is_original)
+    VALUES (p_nonce, p_device_id, true);
+    RETURN QUERY SELECT 'redeemed'::TEXT, p_device_id;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.token_redemptions r
+    WHERE r.nonce = p_nonce AND r.device_id = p_device_id
+  ) THEN
+    RETURN QUERY SELECT 'repeat'::TEXT, v_original;
+    RETURN;
+  END IF;
+
+  SELECT count(*) - 1 INTO v_forwards
+  FROM public.token_redemptions r
+  WHERE r.nonce = p_nonce;
+
+  IF v_forwards < p_max_forwards THEN
+    INSERT INTO public.token_redemptions (nonce, device_id, is_original)
+    VALUES (p_nonce, p_device_id, false);
+    INSERT INTO public.suspected_forwards (nonce, original_device_id, device_id, allowed)
+    VALUES (p_nonce, v_original, p_device_id, true);
+    RETURN QUERY SELECT 'forward_allowed'::TEXT, v_original;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.suspected_forwards (nonce, original_device_id, device_id, allowed)
+  VALUES (p_nonce, v_original, p_device_id, false);
+  RETURN QUERY SELECT 'forward_rejected'::TEXT, v_original;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_token_nonce(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
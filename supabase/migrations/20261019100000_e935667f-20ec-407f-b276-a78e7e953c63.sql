@@ -0,0 +1,21 @@
+-- Lecture sessions: one row per class meeting that QR codes are projected for
+CREATE TABLE public.lecture_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course TEXT NOT NULL,
+  instructor TEXT NOT NULL,
+  room TEXT,
+  week_number INTEGER,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Extra devices allowed to redeem one token in this session (NULL = server default)
+  max_forwards INTEGER CHECK (max_forwards IS NULL OR max_forwards >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_lecture_sessions_starts_at ON public.lecture_sessions(starts_at);
+CREATE INDEX idx_lecture_sessions_open ON public.lecture_sessions(ends_at) WHERE closed_at IS NULL;
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.lecture_sessions ENABLE ROW LEVEL SECURITY;
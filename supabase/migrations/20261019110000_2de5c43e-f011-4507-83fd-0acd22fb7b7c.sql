@@ -0,0 +1,31 @@
+-- Course catalog
+CREATE TABLE public.courses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Students enrolled in each course, imported from roster spreadsheets
+CREATE TABLE public.enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  section TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (course_id, student_id)
+);
+
+CREATE INDEX idx_enrollments_student_id ON public.enrollments(student_id);
+
+-- Sessions opened from the catalog are linked to their course
+ALTER TABLE public.lecture_sessions
+  ADD COLUMN course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_lecture_sessions_course_id ON public.lecture_sessions(course_id);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
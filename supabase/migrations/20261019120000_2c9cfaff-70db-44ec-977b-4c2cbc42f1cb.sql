@@ -0,0 +1,78 @@
+-- Durable attendance records. Unlike device_submissions (cooldown tracking,
+-- cleaned up hourly) rows here are never deleted by any cleanup job.
+CREATE TABLE public.attendance_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.lecture_sessions(id) ON DELETE RESTRICT,
+  student_id TEXT NOT NULL,
+  student_name TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  token_nonce TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'present' CHECK (status IN ('present')),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, student_id)
+);
+
+CREATE INDEX idx_attendance_records_student_id ON public.attendance_records(student_id);
+CREATE INDEX idx_attendance_records_device_id ON public.attendance_records(device_id);
+CREATE INDEX idx_attendance_records_recorded_at ON public.attendance_records(recorded_at);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.attendance_records ENABLE ROW LEVEL SECURITY;
+
+-- Record a check-in: cooldown check, cooldown row and attendance row in one transaction.
+-- Returns 'recorded', 'cooldown' (with the remaining milliseconds) or 'duplicate'.
+CREATE OR REPLACE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_records a
+    WHERE a.session_id = p_session_id AND a.student_id = p_student_id
+  ) THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  INSERT INTO public.attendance_records (session_id, student_id, student_name, device_id, token_nonce)
+  VALUES (p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce)
+  RETURNING id INTO v_record_id;
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Check-ins copy roster names and student IDs next to the device ID in device_submissions,
+-- so the browser key may no longer read or write it: only the server (service role) does
+DROP POLICY IF EXISTS "Allow anonymous inserts" ON public.device_submissions;
+DROP POLICY IF EXISTS "Allow anonymous selects" ON public.device_submissions;
@@ -0,0 +1,94 @@
+-- Atomic device cooldown.
+-- A per-device transaction-level advisory lock serialises concurrent submits, so the
+-- "is the device in cooldown?" check and the insert can no longer interleave.
+
+-- Check the cooldown and record a submission in one step.
+-- Returns claimed = true when the submission was recorded, otherwise the remaining cooldown.
+CREATE OR REPLACE FUNCTION public.claim_device_cooldown(
+  p_device_id TEXT,
+  p_name TEXT,
+  p_user_id_field TEXT,
+  p_cooldown_minutes INTEGER
+)
+RETURNS TABLE (claimed BOOLEAN, remaining_ms BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      false,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_name, p_user_id_field);
+
+  RETURN QUERY SELECT true, 0::BIGINT;
+END;
+$$;
+
+-- Same lock for attendance check-ins. The unique (session_id, student_id) constraint
+-- settles a race between two devices submitting the same student.
+CREATE OR REPLACE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (session_id, student_id, student_name, device_id, token_nonce)
+    VALUES (p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce)
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+-- Only the server claims a cooldown, inside a check-in; the browser key must not be able
+-- to put an arbitrary device into cooldown
+REVOKE EXECUTE ON FUNCTION public.claim_device_cooldown(TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
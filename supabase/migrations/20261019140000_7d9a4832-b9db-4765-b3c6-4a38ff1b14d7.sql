@@ -0,0 +1,95 @@
+-- Admin accounts with bcrypt password hashes (pgcrypto) and server-side login sessions
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.admins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Stored lowercased so logins are case-insensitive
+  username TEXT NOT NULL UNIQUE CHECK (username = lower(username) AND length(username) BETWEEN 3 AND 50),
+  display_name TEXT,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  disabled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One row per login. The session cookie carries the signed row id, so logout and
+-- disabling an admin take effect immediately.
+CREATE TABLE public.admin_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID NOT NULL REFERENCES public.admins(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  ip TEXT,
+  user_agent TEXT
+);
+
+CREATE INDEX idx_admin_sessions_admin_id ON public.admin_sessions(admin_id);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Check a username/password pair. Returns the admin on success and no rows otherwise.
+-- Unknown usernames still pay for a bcrypt round so they cannot be told apart by timing.
+CREATE OR REPLACE FUNCTION public.verify_admin_password(p_username TEXT, p_password TEXT)
+RETURNS TABLE (id UUID, username TEXT, display_name TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin public.admins%ROWTYPE;
+BEGIN
+  SELECT * INTO v_admin
+  FROM public.admins a
+  WHERE a.username = lower(trim(p_username))
+    AND a.disabled_at IS NULL;
+
+  IF NOT FOUND THEN
+    PERFORM crypt(p_password, gen_salt('bf', 12));
+    RETURN;
+  END IF;
+
+  IF v_admin.password_hash <> crypt(p_password, v_admin.password_hash) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.admins a SET last_login_at = now() WHERE a.id = v_admin.id;
+
+  RETURN QUERY SELECT v_admin.id, v_admin.username, v_admin.display_name;
+END;
+$$;
+
+-- Create an admin or reset its password, e.g. from the SQL editor:
+--   SELECT public.set_admin_password('alice', 'a long passphrase', 'Dr. Alice');
+CREATE OR REPLACE FUNCTION public.set_admin_password(p_username TEXT, p_password TEXT, p_display_name TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+BEGIN
+  IF length(p_password) < 10 THEN
+    RAISE EXCEPTION 'Password must be at least 10 characters';
+  END IF;
+
+  INSERT INTO public.admins (username, display_name, password_hash)
+  VALUES (lower(trim(p_username)), p_display_name, crypt(p_password, gen_salt('bf', 12)))
+  ON CONFLICT (username) DO UPDATE
+    SET password_hash = EXCLUDED.password_hash,
+        display_name = COALESCE(EXCLUDED.display_name, public.admins.display_name)
+  RETURNING public.admins.id INTO v_admin_id;
+
+  -- A password change ends every existing session
+  UPDATE public.admin_sessions s SET revoked_at = now()
+  WHERE s.admin_id = v_admin_id AND s.revoked_at IS NULL;
+
+  RETURN v_admin_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_admin_password(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_admin_password(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
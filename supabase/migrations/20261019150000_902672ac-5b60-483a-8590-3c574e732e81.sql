@@ -0,0 +1,98 @@
+-- Admin roles and per-course staff assignments
+ALTER TABLE public.admins
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'instructor'
+  CHECK (role IN ('super_admin', 'instructor', 'teaching_assistant'));
+
+-- Accounts created before roles existed could do everything
+UPDATE public.admins SET role = 'super_admin';
+
+-- Which instructors and teaching assistants may run which courses.
+-- Super admins can run every course and do not need rows here.
+CREATE TABLE public.course_staff (
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  admin_id UUID NOT NULL REFERENCES public.admins(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, admin_id)
+);
+
+CREATE INDEX idx_course_staff_admin_id ON public.course_staff(admin_id);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.course_staff ENABLE ROW LEVEL SECURITY;
+
+-- Who opened each lecture session
+ALTER TABLE public.lecture_sessions
+  ADD COLUMN opened_by UUID REFERENCES public.admins(id) ON DELETE SET NULL;
+
+-- The login check now also reports the role
+DROP FUNCTION public.verify_admin_password(TEXT, TEXT);
+
+CREATE FUNCTION public.verify_admin_password(p_username TEXT, p_password TEXT)
+RETURNS TABLE (id UUID, username TEXT, display_name TEXT, role TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin public.admins%ROWTYPE;
+BEGIN
+  SELECT * INTO v_admin
+  FROM public.admins a
+  WHERE a.username = lower(trim(p_username))
+    AND a.disabled_at IS NULL;
+
+  IF NOT FOUND THEN
+    PERFORM crypt(p_password, gen_salt('bf', 12));
+    RETURN;
+  END IF;
+
+  IF v_admin.password_hash <> crypt(p_password, v_admin.password_hash) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.admins a SET last_login_at = now() WHERE a.id = v_admin.id;
+
+  RETURN QUERY SELECT v_admin.id, v_admin.username, v_admin.display_name, v_admin.role;
+END;
+$$;
+
+-- p_role NULL keeps the current role (new accounts start as instructors), e.g.
+--   SELECT public.set_admin_password('alice', 'a long passphrase', 'Dr. Alice', 'super_admin');
+DROP FUNCTION public.set_admin_password(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.set_admin_password(
+  p_username TEXT,
+  p_password TEXT,
+  p_display_name TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_admin_id UUID;
+BEGIN
+  IF length(p_password) < 10 THEN
+    RAISE EXCEPTION 'Password must be at least 10 characters';
+  END IF;
+
+  INSERT INTO public.admins (username, display_name, password_hash, role)
+  VALUES (lower(trim(p_username)), p_display_name, crypt(p_password, gen_salt('bf', 12)), COALESCE(p_role, 'instructor'))
+  ON CONFLICT (username) DO UPDATE
+    SET password_hash = EXCLUDED.password_hash,
+        display_name = COALESCE(p_display_name, public.admins.display_name),
+        role = COALESCE(p_role, public.admins.role)
+  RETURNING public.admins.id INTO v_admin_id;
+
+  -- A password change ends every existing session
+  UPDATE public.admin_sessions s SET revoked_at = now()
+  WHERE s.admin_id = v_admin_id AND s.revoked_at IS NULL;
+
+  RETURN v_admin_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_admin_password(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_admin_password(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
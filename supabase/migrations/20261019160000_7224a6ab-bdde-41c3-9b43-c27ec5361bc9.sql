@@ -0,0 +1,21 @@
+-- Optional TOTP (RFC 6238) second factor for admin accounts.
+-- totp_pending_secret holds a secret during enrollment until the first code confirms it.
+-- totp_last_step is the last accepted time step, so a code can only be used once.
+ALTER TABLE public.admins
+  ADD COLUMN totp_secret TEXT,
+  ADD COLUMN totp_pending_secret TEXT,
+  ADD COLUMN totp_enabled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN totp_last_step BIGINT;
+
+-- Single-use recovery codes, stored as SHA-256 hashes
+CREATE TABLE public.admin_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_id UUID NOT NULL REFERENCES public.admins(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (admin_id, code_hash)
+);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.admin_recovery_codes ENABLE ROW LEVEL SECURITY;
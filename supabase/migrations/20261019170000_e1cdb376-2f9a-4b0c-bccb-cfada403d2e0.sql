@@ -0,0 +1,61 @@
+-- Server-side brute-force protection for admin sign-in.
+-- One row per throttle key: 'user:<username>' or 'ip:<address>'.
+CREATE TABLE public.admin_login_failures (
+  key TEXT NOT NULL PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.admin_login_failures ENABLE ROW LEVEL SECURITY;
+
+-- Count a failed attempt for a key. The first p_free_attempts - 1 failures are free; from then on
+-- every failure locks the key for p_base_seconds, doubling each time up to p_max_seconds.
+-- A key with no failure for p_reset_minutes starts counting from zero again.
+CREATE OR REPLACE FUNCTION public.record_admin_login_failure(
+  p_key TEXT,
+  p_free_attempts INTEGER,
+  p_base_seconds INTEGER,
+  p_max_seconds INTEGER,
+  p_reset_minutes INTEGER
+)
+RETURNS TABLE (failures INTEGER, locked_ms BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_failures INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO public.admin_login_failures AS f (key, failures, last_failure_at)
+  VALUES (p_key, 1, now())
+  ON CONFLICT (key) DO UPDATE
+    SET failures = CASE
+          WHEN f.last_failure_at < now() - make_interval(mins => p_reset_minutes) THEN 1
+          ELSE f.failures + 1
+        END,
+        locked_until = CASE
+          WHEN f.last_failure_at < now() - make_interval(mins => p_reset_minutes) THEN NULL
+          ELSE f.locked_until
+        END,
+        last_failure_at = now()
+  RETURNING f.failures, f.locked_until INTO v_failures, v_locked_until;
+
+  IF v_failures >= p_free_attempts THEN
+    v_locked_until := now() + make_interval(secs => least(
+      p_base_seconds * power(2, least(v_failures - p_free_attempts, 20)),
+      p_max_seconds
+    ));
+
+    UPDATE public.admin_login_failures f SET locked_until = v_locked_until WHERE f.key = p_key;
+  END IF;
+
+  RETURN QUERY SELECT
+    v_failures,
+    greatest(coalesce(extract(epoch FROM (v_locked_until - now())) * 1000, 0), 0)::BIGINT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_admin_login_failure(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
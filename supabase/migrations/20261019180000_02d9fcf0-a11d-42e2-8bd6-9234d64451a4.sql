@@ -0,0 +1,43 @@
+-- Append-only record of admin actions.
+-- actor_id is deliberately not a foreign key: the trigger below would reject the
+-- ON DELETE SET NULL update, and the username is kept alongside it anyway.
+CREATE TABLE public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL for attempts that never resolved to an account (e.g. a failed login)
+  actor_id UUID,
+  actor_username TEXT,
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  -- What changed: { field: { from, to } } for edits, or the relevant details otherwise
+  diff JSONB
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX idx_audit_log_action ON public.audit_log(action, created_at DESC);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows can be added but never changed or removed, not even with the service role key
+CREATE OR REPLACE FUNCTION public.reject_audit_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_no_update_or_delete
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION public.reject_audit_log_change();
+
+CREATE TRIGGER audit_log_no_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.reject_audit_log_change();
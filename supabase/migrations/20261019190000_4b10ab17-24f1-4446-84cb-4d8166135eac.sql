@@ -0,0 +1,26 @@
+-- Live attendance: announce every check-in on a per-session Realtime broadcast topic.
+-- attendance_records has no RLS policies, so postgres_changes events never reach the browser.
+-- The broadcast carries only the session id; the dashboard then fetches the details from /api.
+CREATE OR REPLACE FUNCTION public.broadcast_attendance_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('session_id', NEW.session_id, 'op', TG_OP),
+    'attendance_changed',
+    'attendance:' || NEW.session_id::TEXT,
+    false
+  );
+  RETURN NULL;
+EXCEPTION WHEN OTHERS THEN
+  -- Realtime being unavailable must never block a check-in
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER attendance_records_broadcast
+AFTER INSERT OR UPDATE ON public.attendance_records
+FOR EACH ROW EXECUTE FUNCTION public.broadcast_attendance_change();
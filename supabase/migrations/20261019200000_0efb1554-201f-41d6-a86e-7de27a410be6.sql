@@ -0,0 +1,69 @@
+-- Aggregates behind the analytics charts, so the API never loads raw attendance rows for them.
+-- Only catalog courses are covered; "attended" means present or late, and excused absences
+-- are left out of a student's denominator. security_invoker keeps the tables' RLS in force
+-- for anyone other than the service role.
+
+-- One row per session that has started: how many of the enrolled students checked in
+CREATE VIEW public.attendance_session_stats
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS session_id,
+  s.course_id,
+  s.starts_at,
+  s.week_number,
+  (SELECT count(*) FROM public.enrollments e WHERE e.course_id = s.course_id)::INTEGER AS enrolled,
+  (SELECT count(*) FROM public.attendance_records r
+    WHERE r.session_id = s.id AND r.status IN ('present', 'late'))::INTEGER AS check_ins,
+  (SELECT count(*) FROM public.attendance_records r
+    JOIN public.enrollments e ON e.course_id = s.course_id AND e.student_id = r.student_id
+    WHERE r.session_id = s.id AND r.status IN ('present', 'late'))::INTEGER AS attended
+FROM public.lecture_sessions s
+WHERE s.course_id IS NOT NULL
+  AND s.starts_at <= now();
+
+-- Check-ins per course in 5-minute steps relative to the session start (negative = early)
+CREATE VIEW public.attendance_checkin_offsets
+WITH (security_invoker = true) AS
+SELECT
+  s.course_id,
+  (floor(extract(EPOCH FROM r.recorded_at - s.starts_at) / 300) * 5)::INTEGER AS offset_minutes,
+  count(*)::INTEGER AS check_ins
+FROM public.attendance_records r
+JOIN public.lecture_sessions s ON s.id = r.session_id
+WHERE s.course_id IS NOT NULL
+GROUP BY s.course_id, 2;
+
+-- One row per enrolled student over every session of the course held so far
+CREATE VIEW public.attendance_student_stats
+WITH (security_invoker = true) AS
+SELECT
+  e.course_id,
+  e.student_id,
+  e.full_name,
+  e.section,
+  count(s.id)::INTEGER AS sessions,
+  count(r.id) FILTER (WHERE r.status IN ('present', 'late'))::INTEGER AS attended,
+  count(r.id) FILTER (WHERE r.status = 'excused')::INTEGER AS excused,
+  round(
+    100.0 * count(r.id) FILTER (WHERE r.status IN ('present', 'late'))
+      / NULLIF(count(s.id) - count(r.id) FILTER (WHERE r.status = 'excused'), 0),
+    1
+  ) AS rate
+FROM public.enrollments e
+LEFT JOIN public.lecture_sessions s ON s.course_id = e.course_id AND s.starts_at <= now()
+LEFT JOIN public.attendance_records r ON r.session_id = s.id AND r.student_id = e.student_id
+GROUP BY e.course_id, e.student_id, e.full_name, e.section;
+
+-- Per section of a course: attended sessions out of all countable student-sessions
+CREATE VIEW public.attendance_section_stats
+WITH (security_invoker = true) AS
+SELECT
+  course_id,
+  section,
+  count(*)::INTEGER AS students,
+  round(100.0 * sum(attended) / NULLIF(sum(sessions - excused), 0), 1) AS rate
+FROM public.attendance_student_stats
+GROUP BY course_id, section;
+
+REVOKE ALL ON public.attendance_session_stats, public.attendance_checkin_offsets,
+  public.attendance_student_stats, public.attendance_section_stats FROM anon, authenticated;
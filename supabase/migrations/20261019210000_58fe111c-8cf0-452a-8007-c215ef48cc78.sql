@@ -0,0 +1,44 @@
+-- Absence limits per course and the warnings sent as students approach them.
+-- absence_warning_levels are percentages of absence_limit; 100 is the limit itself.
+ALTER TABLE public.courses
+  ADD COLUMN absence_limit INTEGER CHECK (absence_limit > 0),
+  ADD COLUMN absence_warning_levels INTEGER[] NOT NULL DEFAULT '{50,80,100}'
+    CHECK (1 <= ALL (absence_warning_levels) AND 100 >= ALL (absence_warning_levels)),
+  -- Where the instructor wants the warnings; the deployment's TELEGRAM_CHAT_ID when null
+  ADD COLUMN telegram_chat_id TEXT;
+
+-- Absences per enrolled student over sessions that are over, so a lecture still in progress
+-- never counts the students who have not scanned yet
+CREATE VIEW public.attendance_absences
+WITH (security_invoker = true) AS
+SELECT
+  e.course_id,
+  e.student_id,
+  e.full_name,
+  e.section,
+  count(s.id)::INTEGER AS absences
+FROM public.enrollments e
+JOIN public.lecture_sessions s
+  ON s.course_id = e.course_id
+  AND (s.closed_at IS NOT NULL OR s.ends_at <= now())
+  AND s.starts_at <= now()
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.attendance_records r
+  WHERE r.session_id = s.id AND r.student_id = e.student_id
+)
+GROUP BY e.course_id, e.student_id, e.full_name, e.section;
+
+REVOKE ALL ON public.attendance_absences FROM anon, authenticated;
+
+-- One row per warning level a student has been sent, so the job never repeats itself
+CREATE TABLE public.absence_alerts (
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  level INTEGER NOT NULL,
+  absences INTEGER NOT NULL,
+  absence_limit INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, student_id, level)
+);
+
+ALTER TABLE public.absence_alerts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,64 @@
+-- On-time / late classification and exit scans.
+-- The API classifies each check-in against the session start and the course's grace period
+-- and passes the result to record_attendance. left_at is filled in by the exit scan, which
+-- is matched to the record by the device that checked in.
+ALTER TABLE public.courses
+  ADD COLUMN late_grace_minutes INTEGER NOT NULL DEFAULT 10 CHECK (late_grace_minutes BETWEEN 0 AND 180);
+
+ALTER TABLE public.attendance_records
+  DROP CONSTRAINT attendance_records_status_check,
+  ADD CONSTRAINT attendance_records_status_check CHECK (status IN ('present', 'late')),
+  ADD COLUMN left_at TIMESTAMPTZ;
+
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (session_id, student_id, student_name, device_id, token_nonce, status)
+    VALUES (p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status)
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,126 @@
+-- Manual corrections and student excuse requests.
+-- attendance_records stay exactly as the scan wrote them; a correction sits beside the record
+-- and wins over it, and every change is also written to the audit log.
+
+-- Excuses submitted by students, reviewed by the course's instructors
+CREATE TABLE public.excuse_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.lecture_sessions(id) ON DELETE CASCADE,
+  student_id TEXT NOT NULL,
+  student_name TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  attachment_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_note TEXT,
+  reviewed_by UUID REFERENCES public.admins(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per student and session
+CREATE UNIQUE INDEX idx_excuse_requests_pending
+  ON public.excuse_requests(session_id, student_id) WHERE status = 'pending';
+CREATE INDEX idx_excuse_requests_status ON public.excuse_requests(status, created_at);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.excuse_requests ENABLE ROW LEVEL SECURITY;
+
+-- The current manual status of a student in a session; 'absent' overrides a scan that should not count
+CREATE TABLE public.attendance_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.lecture_sessions(id) ON DELETE RESTRICT,
+  student_id TEXT NOT NULL,
+  student_name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('present', 'excused', 'absent')),
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  attachment_path TEXT,
+  excuse_request_id UUID REFERENCES public.excuse_requests(id) ON DELETE SET NULL,
+  corrected_by UUID REFERENCES public.admins(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, student_id)
+);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.attendance_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Private bucket for excuse attachments; files are only handed out as short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('attendance-attachments', 'attendance-attachments', false, 2097152,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Each student's status per session after corrections. Students with neither a record nor
+-- a correction, and those corrected to absent, have no row.
+CREATE VIEW public.attendance_effective
+WITH (security_invoker = true) AS
+SELECT
+  COALESCE(c.session_id, r.session_id) AS session_id,
+  COALESCE(c.student_id, r.student_id) AS student_id,
+  COALESCE(r.student_name, c.student_name) AS student_name,
+  COALESCE(c.status, r.status) AS status,
+  r.id AS record_id,
+  c.id AS correction_id
+FROM public.attendance_records r
+FULL JOIN public.attendance_corrections c
+  ON c.session_id = r.session_id AND c.student_id = r.student_id
+WHERE COALESCE(c.status, r.status) <> 'absent';
+
+-- The aggregates now count corrected statuses instead of raw scans
+CREATE OR REPLACE VIEW public.attendance_session_stats
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS session_id,
+  s.course_id,
+  s.starts_at,
+  s.week_number,
+  (SELECT count(*) FROM public.enrollments e WHERE e.course_id = s.course_id)::INTEGER AS enrolled,
+  (SELECT count(*) FROM public.attendance_effective a
+    WHERE a.session_id = s.id AND a.status IN ('present', 'late'))::INTEGER AS check_ins,
+  (SELECT count(*) FROM public.attendance_effective a
+    JOIN public.enrollments e ON e.course_id = s.course_id AND e.student_id = a.student_id
+    WHERE a.session_id = s.id AND a.status IN ('present', 'late'))::INTEGER AS attended
+FROM public.lecture_sessions s
+WHERE s.course_id IS NOT NULL
+  AND s.starts_at <= now();
+
+CREATE OR REPLACE VIEW public.attendance_student_stats
+WITH (security_invoker = true) AS
+SELECT
+  e.course_id,
+  e.student_id,
+  e.full_name,
+  e.section,
+  count(s.id)::INTEGER AS sessions,
+  count(a.session_id) FILTER (WHERE a.status IN ('present', 'late'))::INTEGER AS attended,
+  count(a.session_id) FILTER (WHERE a.status = 'excused')::INTEGER AS excused,
+  round(
+    100.0 * count(a.session_id) FILTER (WHERE a.status IN ('present', 'late'))
+      / NULLIF(count(s.id) - count(a.session_id) FILTER (WHERE a.status = 'excused'), 0),
+    1
+  ) AS rate
+FROM public.enrollments e
+LEFT JOIN public.lecture_sessions s ON s.course_id = e.course_id AND s.starts_at <= now()
+LEFT JOIN public.attendance_effective a ON a.session_id = s.id AND a.student_id = e.student_id
+GROUP BY e.course_id, e.student_id, e.full_name, e.section;
+
+-- Excused sessions are not absences
+CREATE OR REPLACE VIEW public.attendance_absences
+WITH (security_invoker = true) AS
+SELECT
+  e.course_id,
+  e.student_id,
+  e.full_name,
+  e.section,
+  count(s.id)::INTEGER AS absences
+FROM public.enrollments e
+JOIN public.lecture_sessions s
+  ON s.course_id = e.course_id
+  AND (s.closed_at IS NOT NULL OR s.ends_at <= now())
+  AND s.starts_at <= now()
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.attendance_effective a
+  WHERE a.session_id = s.id AND a.student_id = e.student_id
+)
+GROUP BY e.course_id, e.student_id, e.full_name, e.section;
+
+REVOKE ALL ON public.attendance_effective FROM anon, authenticated;
@@ -0,0 +1,32 @@
+-- Student sign-in for the attendance history page. A one-time code (or the matching magic link)
+-- is sent through the student notifier; verifying it starts a session row behind a signed cookie,
+-- the same way admin sessions work.
+CREATE TABLE public.student_login_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  -- SHA-256 (hex) of the 6-digit code and of the magic link token; neither is stored in clear
+  code_hash TEXT NOT NULL,
+  link_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_student_login_codes_student_id ON public.student_login_codes(student_id, created_at);
+
+CREATE TABLE public.student_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  ip TEXT,
+  user_agent TEXT
+);
+
+CREATE INDEX idx_student_sessions_student_id ON public.student_sessions(student_id);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.student_login_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,95 @@
+-- Geofenced check-ins. A room can carry coordinates and a radius; sessions opened in a room
+-- with that name link to it, and the course's policy decides what happens to a scan reported
+-- outside it: block it, record it with a flag for review, or ignore the check.
+CREATE TABLE public.rooms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  radius_m INTEGER NOT NULL DEFAULT 75 CHECK (radius_m BETWEEN 10 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_rooms_name ON public.rooms (lower(name));
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.lecture_sessions
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.courses
+  ADD COLUMN geofence_policy TEXT NOT NULL DEFAULT 'ignore' CHECK (geofence_policy IN ('block', 'flag', 'ignore'));
+
+-- location_check is null when the session had no geofence to check against.
+-- flags lists why a record needs a second look; reports mark flagged cells.
+ALTER TABLE public.attendance_records
+  ADD COLUMN location_check TEXT CHECK (location_check IN ('inside', 'outside', 'inaccurate', 'missing')),
+  ADD COLUMN location_distance_m INTEGER,
+  ADD COLUMN location_accuracy_m INTEGER,
+  ADD COLUMN flags TEXT[] NOT NULL DEFAULT '{}';
+
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT,
+  p_location_check TEXT DEFAULT NULL,
+  p_location_distance_m INTEGER DEFAULT NULL,
+  p_location_accuracy_m INTEGER DEFAULT NULL,
+  p_flags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (
+      session_id, student_id, student_name, device_id, token_nonce, status,
+      location_check, location_distance_m, location_accuracy_m, flags
+    )
+    VALUES (
+      p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status,
+      p_location_check, p_location_distance_m, p_location_accuracy_m, COALESCE(p_flags, '{}')
+    )
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[]) FROM PUBLIC, anon, authenticated;
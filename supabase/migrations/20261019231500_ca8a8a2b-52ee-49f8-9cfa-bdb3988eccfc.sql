@@ -0,0 +1,82 @@
+-- Network allow-lists for check-ins. Rooms and courses can list the CIDR ranges (IPv4 or IPv6)
+-- that campus networks reach the server from; a room's list replaces its course's. The course's
+-- policy decides what happens to a scan from any other address, as with the geofence.
+ALTER TABLE public.rooms
+  ADD COLUMN allowed_networks TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.courses
+  ADD COLUMN network_policy TEXT NOT NULL DEFAULT 'ignore' CHECK (network_policy IN ('block', 'flag', 'ignore')),
+  ADD COLUMN allowed_networks TEXT[] NOT NULL DEFAULT '{}';
+
+-- network_check is null when the session had no allow-list; 'unknown' means the client address
+-- could not be read. client_ip is kept for every check-in.
+ALTER TABLE public.attendance_records
+  ADD COLUMN network_check TEXT CHECK (network_check IN ('allowed', 'outside', 'unknown')),
+  ADD COLUMN client_ip TEXT;
+
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[]);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT,
+  p_location_check TEXT DEFAULT NULL,
+  p_location_distance_m INTEGER DEFAULT NULL,
+  p_location_accuracy_m INTEGER DEFAULT NULL,
+  p_flags TEXT[] DEFAULT '{}',
+  p_network_check TEXT DEFAULT NULL,
+  p_client_ip TEXT DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (
+      session_id, student_id, student_name, device_id, token_nonce, status,
+      location_check, location_distance_m, location_accuracy_m, flags,
+      network_check, client_ip
+    )
+    VALUES (
+      p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status,
+      p_location_check, p_location_distance_m, p_location_accuracy_m, COALESCE(p_flags, '{}'),
+      p_network_check, p_client_ip
+    )
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,91 @@
+-- Proxy-attendance scoring. Every check-in is scored from its student's and device's recent
+-- history and from similar browsers in the same session; records at or above the review
+-- threshold wait in a queue until an instructor clears them or confirms the student was absent.
+-- device_traits holds coarse browser properties (screen, platform, language...) for comparing
+-- devices whose fingerprint changed. risk_related lists the other student IDs behind the score.
+ALTER TABLE public.attendance_records
+  ADD COLUMN device_traits JSONB,
+  ADD COLUMN risk_score SMALLINT NOT NULL DEFAULT 0 CHECK (risk_score BETWEEN 0 AND 100),
+  ADD COLUMN risk_reasons TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN risk_related TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN review_status TEXT CHECK (review_status IN ('pending', 'cleared', 'confirmed')),
+  ADD COLUMN reviewed_by UUID REFERENCES public.admins(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN review_note TEXT;
+
+CREATE INDEX idx_attendance_records_review_status ON public.attendance_records(review_status, recorded_at)
+  WHERE review_status IS NOT NULL;
+
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT,
+  p_location_check TEXT DEFAULT NULL,
+  p_location_distance_m INTEGER DEFAULT NULL,
+  p_location_accuracy_m INTEGER DEFAULT NULL,
+  p_flags TEXT[] DEFAULT '{}',
+  p_network_check TEXT DEFAULT NULL,
+  p_client_ip TEXT DEFAULT NULL,
+  p_device_traits JSONB DEFAULT NULL,
+  p_risk_score INTEGER DEFAULT 0,
+  p_risk_reasons TEXT[] DEFAULT '{}',
+  p_risk_related TEXT[] DEFAULT '{}',
+  p_review_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (
+      session_id, student_id, student_name, device_id, token_nonce, status,
+      location_check, location_distance_m, location_accuracy_m, flags,
+      network_check, client_ip,
+      device_traits, risk_score, risk_reasons, risk_related, review_status
+    )
+    VALUES (
+      p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status,
+      p_location_check, p_location_distance_m, p_location_accuracy_m, COALESCE(p_flags, '{}'),
+      p_network_check, p_client_ip,
+      p_device_traits, COALESCE(p_risk_score, 0), COALESCE(p_risk_reasons, '{}'), COALESCE(p_risk_related, '{}'), p_review_status
+    )
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT, JSONB, INTEGER, TEXT[], TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,37 @@
+-- Device binding. A student's first check-in in a course that enforces binding ties their ID to
+-- that device's fingerprint; later check-ins from another device are blocked or flagged as the
+-- course's policy says. Moving to a new device goes through a request an admin approves, or an
+-- admin resets the binding so the next check-in binds again.
+CREATE TABLE public.student_devices (
+  student_id TEXT NOT NULL PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  bound_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Null when bound by a first check-in
+  approved_by UUID REFERENCES public.admins(id) ON DELETE SET NULL
+);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.student_devices ENABLE ROW LEVEL SECURITY;
+
+-- Requests to move a binding, sent by a signed-in student from the new device
+CREATE TABLE public.device_rebind_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.admins(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per student
+CREATE UNIQUE INDEX idx_device_rebind_requests_pending
+  ON public.device_rebind_requests(student_id) WHERE status = 'pending';
+CREATE INDEX idx_device_rebind_requests_status ON public.device_rebind_requests(status, created_at);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.device_rebind_requests ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.courses
+  ADD COLUMN device_policy TEXT NOT NULL DEFAULT 'ignore' CHECK (device_policy IN ('block', 'flag', 'ignore'));
@@ -0,0 +1,106 @@
+-- Passkeys. A signed-in student can register WebAuthn platform credentials for their ID; from
+-- then on each of their check-ins must carry an assertion whose challenge is the nonce of the
+-- scanned QR token, made with one of those credentials. public_key is the credential's key as a
+-- JWK; sign_count is the authenticator's counter, for spotting a cloned credential.
+CREATE TABLE public.student_passkeys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id TEXT NOT NULL,
+  -- base64url, as the browser reports it
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key JSONB NOT NULL,
+  -- COSE algorithm: -7 (ES256) or -257 (RS256)
+  algorithm INTEGER NOT NULL,
+  -- Host name the credential was created for
+  rp_id TEXT NOT NULL,
+  sign_count BIGINT NOT NULL DEFAULT 0,
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_student_passkeys_student ON public.student_passkeys(student_id);
+
+-- Enable RLS without policies: only the service role (server) can read or write
+ALTER TABLE public.student_passkeys ENABLE ROW LEVEL SECURITY;
+
+-- Credential that signed the check-in, null for check-ins without one. Kept as text so the
+-- record still shows it after the student removes the passkey.
+ALTER TABLE public.attendance_records
+  ADD COLUMN passkey_credential_id TEXT;
+
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT, JSONB, INTEGER, TEXT[], TEXT[], TEXT);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT,
+  p_location_check TEXT DEFAULT NULL,
+  p_location_distance_m INTEGER DEFAULT NULL,
+  p_location_accuracy_m INTEGER DEFAULT NULL,
+  p_flags TEXT[] DEFAULT '{}',
+  p_network_check TEXT DEFAULT NULL,
+  p_client_ip TEXT DEFAULT NULL,
+  p_device_traits JSONB DEFAULT NULL,
+  p_risk_score INTEGER DEFAULT 0,
+  p_risk_reasons TEXT[] DEFAULT '{}',
+  p_risk_related TEXT[] DEFAULT '{}',
+  p_review_status TEXT DEFAULT NULL,
+  p_passkey_credential_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (
+      session_id, student_id, student_name, device_id, token_nonce, status,
+      location_check, location_distance_m, location_accuracy_m, flags,
+      network_check, client_ip,
+      device_traits, risk_score, risk_reasons, risk_related, review_status,
+      passkey_credential_id
+    )
+    VALUES (
+      p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status,
+      p_location_check, p_location_distance_m, p_location_accuracy_m, COALESCE(p_flags, '{}'),
+      p_network_check, p_client_ip,
+      p_device_traits, COALESCE(p_risk_score, 0), COALESCE(p_risk_reasons, '{}'), COALESCE(p_risk_related, '{}'), p_review_status,
+      p_passkey_credential_id
+    )
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT, JSONB, INTEGER, TEXT[], TEXT[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,88 @@
+-- Bind a student's first device only when their check-in is actually recorded. Binding before
+-- the cooldown and duplicate checks let one device with one redeemed token bind every student ID
+-- it submitted, although only the first submission was recorded.
+DROP FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT, JSONB, INTEGER, TEXT[], TEXT[], TEXT, TEXT);
+
+CREATE FUNCTION public.record_attendance(
+  p_session_id UUID,
+  p_student_id TEXT,
+  p_student_name TEXT,
+  p_device_id TEXT,
+  p_token_nonce TEXT,
+  p_cooldown_minutes INTEGER,
+  p_status TEXT,
+  p_location_check TEXT DEFAULT NULL,
+  p_location_distance_m INTEGER DEFAULT NULL,
+  p_location_accuracy_m INTEGER DEFAULT NULL,
+  p_flags TEXT[] DEFAULT '{}',
+  p_network_check TEXT DEFAULT NULL,
+  p_client_ip TEXT DEFAULT NULL,
+  p_device_traits JSONB DEFAULT NULL,
+  p_risk_score INTEGER DEFAULT 0,
+  p_risk_reasons TEXT[] DEFAULT '{}',
+  p_risk_related TEXT[] DEFAULT '{}',
+  p_review_status TEXT DEFAULT NULL,
+  p_passkey_credential_id TEXT DEFAULT NULL,
+  p_bind_device BOOLEAN DEFAULT false
+)
+RETURNS TABLE (status TEXT, remaining_ms BIGINT, record_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_submission TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('device_cooldown:' || p_device_id));
+
+  SELECT max(d.submitted_at) INTO v_last_submission
+  FROM public.device_submissions d
+  WHERE d.device_id = p_device_id
+    AND d.submitted_at >= now() - make_interval(mins => p_cooldown_minutes);
+
+  IF v_last_submission IS NOT NULL THEN
+    RETURN QUERY SELECT
+      'cooldown'::TEXT,
+      (extract(epoch FROM (v_last_submission + make_interval(mins => p_cooldown_minutes) - now())) * 1000)::BIGINT,
+      NULL::UUID;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.attendance_records (
+      session_id, student_id, student_name, device_id, token_nonce, status,
+      location_check, location_distance_m, location_accuracy_m, flags,
+      network_check, client_ip,
+      device_traits, risk_score, risk_reasons, risk_related, review_status,
+      passkey_credential_id
+    )
+    VALUES (
+      p_session_id, p_student_id, p_student_name, p_device_id, p_token_nonce, p_status,
+      p_location_check, p_location_distance_m, p_location_accuracy_m, COALESCE(p_flags, '{}'),
+      p_network_check, p_client_ip,
+      p_device_traits, COALESCE(p_risk_score, 0), COALESCE(p_risk_reasons, '{}'), COALESCE(p_risk_related, '{}'), p_review_status,
+      p_passkey_credential_id
+    )
+    RETURNING id INTO v_record_id;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, 0::BIGINT, NULL::UUID;
+    RETURN;
+  END;
+
+  INSERT INTO public.device_submissions (device_id, name, user_id_field)
+  VALUES (p_device_id, p_student_name, p_student_id);
+
+  -- First check-in under a binding course: the device becomes the student's. A binding made by a
+  -- concurrent check-in is kept.
+  IF p_bind_device THEN
+    INSERT INTO public.student_devices (student_id, device_id)
+    VALUES (p_student_id, p_device_id)
+    ON CONFLICT (student_id) DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT 'recorded'::TEXT, 0::BIGINT, v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attendance(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, TEXT, JSONB, INTEGER, TEXT[], TEXT[], TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
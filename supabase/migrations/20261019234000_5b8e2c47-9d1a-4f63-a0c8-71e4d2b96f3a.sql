@@ -0,0 +1,102 @@
+-- Admin sign-in throttling, counted before the password is checked.
+-- record_admin_login_failure only counted a failure after the password had been checked, so a
+-- burst of parallel requests all read "not locked" and each got a guess in. Now the lock check
+-- and the count happen in one transaction with the key rows locked, and a successful sign-in
+-- gives its attempt back.
+DROP FUNCTION IF EXISTS public.record_admin_login_failure(TEXT, INTEGER, INTEGER, INTEGER, INTEGER);
+
+-- Claim an attempt for every key (account and IP), each with its own policy at the same index.
+-- When any key is locked nothing is counted and allowed is false. Otherwise each key counts the
+-- attempt as a failure: the first p_free_attempts - 1 are free; from then on every attempt locks
+-- the key for p_base_seconds, doubling each time up to p_max_seconds. The lock set by an attempt
+-- only stops the ones after it. A key with no attempt for p_reset_minutes starts from zero again.
+CREATE OR REPLACE FUNCTION public.claim_admin_login_attempt(
+  p_keys TEXT[],
+  p_free_attempts INTEGER[],
+  p_base_seconds INTEGER[],
+  p_max_seconds INTEGER[],
+  p_reset_minutes INTEGER
+)
+RETURNS TABLE (throttle_key TEXT, attempts INTEGER, locked_ms BIGINT, allowed BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_index INTEGER;
+  v_attempts INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO public.admin_login_failures (key, failures, last_failure_at)
+  SELECT k, 0, now() FROM unnest(p_keys) AS k
+  ON CONFLICT (key) DO NOTHING;
+
+  -- Concurrent claims on the same account or IP queue here; a fixed order avoids deadlocks
+  PERFORM 1 FROM public.admin_login_failures f WHERE f.key = ANY (p_keys) ORDER BY f.key FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.admin_login_failures f WHERE f.key = ANY (p_keys) AND f.locked_until > now()) THEN
+    RETURN QUERY SELECT
+      f.key,
+      f.failures,
+      greatest(coalesce(extract(epoch FROM (f.locked_until - now())) * 1000, 0), 0)::BIGINT,
+      false
+    FROM public.admin_login_failures f
+    WHERE f.key = ANY (p_keys);
+    RETURN;
+  END IF;
+
+  FOR v_index IN 1 .. coalesce(array_length(p_keys, 1), 0) LOOP
+    UPDATE public.admin_login_failures f
+      SET failures = CASE
+            WHEN f.last_failure_at < now() - make_interval(mins => p_reset_minutes) THEN 1
+            ELSE f.failures + 1
+          END,
+          last_failure_at = now()
+      WHERE f.key = p_keys[v_index]
+      RETURNING f.failures INTO v_attempts;
+
+    v_locked_until := NULL;
+
+    IF v_attempts >= p_free_attempts[v_index] THEN
+      v_locked_until := now() + make_interval(secs => least(
+        p_base_seconds[v_index] * power(2, least(v_attempts - p_free_attempts[v_index], 20)),
+        p_max_seconds[v_index]
+      ));
+    END IF;
+
+    UPDATE public.admin_login_failures f SET locked_until = v_locked_until WHERE f.key = p_keys[v_index];
+
+    throttle_key := p_keys[v_index];
+    attempts := v_attempts;
+    locked_ms := greatest(coalesce(extract(epoch FROM (v_locked_until - now())) * 1000, 0), 0)::BIGINT;
+    allowed := true;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Give back an attempt that turned out to be a correct password or code, lifting the lock it
+-- set if the key is under its free attempts again
+CREATE OR REPLACE FUNCTION public.release_admin_login_attempt(
+  p_keys TEXT[],
+  p_free_attempts INTEGER[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_index INTEGER;
+BEGIN
+  FOR v_index IN 1 .. coalesce(array_length(p_keys, 1), 0) LOOP
+    UPDATE public.admin_login_failures f
+      SET failures = greatest(f.failures - 1, 0),
+          locked_until = CASE WHEN f.failures - 1 < p_free_attempts[v_index] THEN NULL ELSE f.locked_until END
+      WHERE f.key = p_keys[v_index];
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_admin_login_attempt(TEXT[], INTEGER[], INTEGER[], INTEGER[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_admin_login_attempt(TEXT[], INTEGER[]) FROM PUBLIC, anon, authenticated;
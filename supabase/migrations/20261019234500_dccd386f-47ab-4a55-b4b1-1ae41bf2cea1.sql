@@ -0,0 +1,4 @@
+-- When the check-in was posted to the instructor's Telegram chat. send-to-telegram claims the
+-- record by setting it, so a record is announced once however often the endpoint is called.
+ALTER TABLE public.attendance_records
+  ADD COLUMN announced_at TIMESTAMP WITH TIME ZONE;